@@ -1,5 +1,16 @@
-
 import React from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RULE_BASED_MODEL } from '@/utils/ruleBasedConverter';
+import { getProviders, modelId } from '@/utils/aiProviders';
 
 interface AIModelSelectorProps {
   selectedModel: string;
@@ -7,15 +18,49 @@ interface AIModelSelectorProps {
 }
 
 const AIModelSelector: React.FC<AIModelSelectorProps> = ({ selectedModel, onModelChange }) => {
-  // Set Gemini AI as default if it's not already selected
-  React.useEffect(() => {
-    if (selectedModel !== "gemini") {
-      onModelChange("gemini");
-    }
-  }, [selectedModel, onModelChange]);
+  const providers = getProviders();
 
-  // Return null since we don't want to render anything
-  return null;
+  return (
+    <div className="space-y-1">
+      <label className="text-sm font-medium text-gray-700">Conversion Model</label>
+      <Select value={selectedModel} onValueChange={onModelChange}>
+        <SelectTrigger>
+          <SelectValue placeholder="Select a model" />
+        </SelectTrigger>
+        <SelectContent>
+          {providers.map(provider => {
+            const configured = provider.isConfigured();
+            return (
+              <SelectGroup key={provider.id}>
+                <SelectLabel>
+                  {provider.label}
+                  {!configured && <span className="ml-1 text-xs font-normal text-muted-foreground">(not configured)</span>}
+                </SelectLabel>
+                {provider.models.map(model => (
+                  <SelectItem key={modelId(provider, model)} value={modelId(provider, model)} disabled={!configured}>
+                    <div>
+                      <div>{model.label}</div>
+                      {model.description && <div className="text-xs text-muted-foreground">{model.description}</div>}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            );
+          })}
+          <SelectSeparator />
+          <SelectGroup>
+            <SelectLabel>Offline</SelectLabel>
+            <SelectItem value={RULE_BASED_MODEL}>
+              <div>
+                <div>Rule-based</div>
+                <div className="text-xs text-muted-foreground">Deterministic rewrite rules, no API key needed</div>
+              </div>
+            </SelectItem>
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+    </div>
+  );
 };
 
 export default AIModelSelector;
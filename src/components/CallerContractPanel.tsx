@@ -0,0 +1,35 @@
+import React from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ArrowRightLeft } from 'lucide-react';
+import { CallerContract } from '@/types';
+
+interface CallerContractPanelProps {
+  contracts: CallerContract[];
+}
+
+// Signature changes the application teams calling the converted procedures have to know about
+const CallerContractPanel: React.FC<CallerContractPanelProps> = ({ contracts }) => (
+  <div className="space-y-3">
+    {contracts.map(contract => (
+      <Alert key={contract.procedure}>
+        <ArrowRightLeft className="h-4 w-4" />
+        <AlertTitle>Caller contract change: {contract.procedure}</AlertTitle>
+        <AlertDescription className="space-y-2">
+          <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+            <span className="text-gray-500">Sybase</span>
+            <code className="text-xs bg-gray-100 px-2 py-1 rounded">{contract.sybaseSignature}</code>
+            <span className="text-gray-500">Oracle</span>
+            <code className="text-xs bg-green-50 px-2 py-1 rounded">{contract.oracleSignature}</code>
+          </div>
+          <ul className="list-disc pl-5 text-sm space-y-1">
+            {contract.changes.map(change => (
+              <li key={change}>{change}</li>
+            ))}
+          </ul>
+        </AlertDescription>
+      </Alert>
+    ))}
+  </div>
+);
+
+export default CallerContractPanel;
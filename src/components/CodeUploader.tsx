@@ -4,7 +4,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { UploadCloud, File, Trash2, Plus, Folder, Info, Download } from 'lucide-react';
-import { CodeFile } from '@/types';
+import { CodeFile, CodeFileType } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
@@ -12,6 +12,10 @@ import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { splitScript } from '@/utils/scriptSplitter';
+import { DEFAULT_TYPE_MAPPINGS } from '@/utils/dataTypeMapping';
+import { CODE_FILE_TYPES, detectFileType } from '@/utils/fileTypes';
 
 interface CodeUploaderProps {
   onComplete: (files: CodeFile[]) => void;
@@ -25,6 +29,7 @@ const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
   const [manualFileName, setManualFileName] = useState<string>('');
   const [templateType, setTemplateType] = useState<'table' | 'procedure' | 'trigger'>('table');
   const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [splitObjects, setSplitObjects] = useState<boolean>(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
   
@@ -49,17 +54,30 @@ const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
       reader.onload = (e) => {
         if (e.target && e.target.result) {
           const content = e.target.result as string;
-          const newFile: CodeFile = {
-            id: crypto.randomUUID(),
-            name: file.name,
-            content: content,
-            type: determineFileType(file.name, content),
-            status: 'pending'
-          };
+          // Scripts holding several objects (ddlgen, defncopy) become one file per object
+          const objects = splitObjects ? splitScript(file.name, content) : [];
+          const newFiles: CodeFile[] = objects.length > 1
+            ? objects.map(object => ({
+                id: crypto.randomUUID(),
+                name: object.name,
+                content: object.content,
+                type: object.type,
+                status: 'pending',
+                source: object.source,
+                path: file.webkitRelativePath || undefined
+              }))
+            : [{
+                id: crypto.randomUUID(),
+                name: file.name,
+                content: content,
+                type: detectFileType(file.name, content),
+                status: 'pending',
+                path: file.webkitRelativePath || undefined
+              }];
           
           setFiles(prevFiles => {
             // Check if file already exists
-            if (prevFiles.some(f => f.name === file.name)) {
+            if (prevFiles.some(f => f.name === file.name || f.source?.fileName === file.name)) {
               toast({
                 title: 'Duplicate File',
                 description: `${file.name} is already uploaded.`,
@@ -67,12 +85,14 @@ const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
               });
               return prevFiles;
             }
-            return [...prevFiles, newFile];
+            return [...prevFiles, ...newFiles];
           });
           
           toast({
             title: 'File Uploaded',
-            description: `${file.name} has been uploaded successfully.`
+            description: newFiles.length > 1
+              ? `${file.name} was split into ${newFiles.length} objects.`
+              : `${file.name} has been uploaded successfully.`
           });
         }
       };
@@ -87,7 +107,7 @@ const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
       
       reader.readAsText(file);
     });
-  }, [toast]);
+  }, [toast, splitObjects]);
   
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     processFiles(event.target.files);
@@ -202,41 +222,6 @@ const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
     }
   };
   
-  const determineFileType = (fileName: string, content: string): 'table' | 'procedure' | 'trigger' | 'other' => {
-    fileName = fileName.toLowerCase();
-    content = content.toLowerCase();
-    
-    if (fileName.includes('table') || fileName.includes('tbl') || fileName.endsWith('.tab')) {
-      return 'table';
-    } else if (fileName.includes('proc') || fileName.includes('sp_') || fileName.endsWith('.prc')) {
-      return 'procedure';
-    } else if (fileName.includes('trig') || fileName.includes('tr_') || fileName.endsWith('.trg')) {
-      return 'trigger';
-    }
-    
-    if (fileName.endsWith('.sql')) {
-      if (content.includes('create table') || 
-          content.includes('alter table') || 
-          content.match(/\bcreate\s+.*\s+table\b/i)) {
-        return 'table';
-      }
-      
-      if (content.includes('create procedure') || 
-          content.includes('create or replace procedure') || 
-          content.includes('create proc')) {
-        return 'procedure';
-      }
-      
-      if (content.includes('create trigger') || 
-          content.includes('create or replace trigger') || 
-          content.match(/\btrigger\s+on\b/i)) {
-        return 'trigger';
-      }
-    }
-    
-    return 'other';
-  };
-  
   const handleRemoveFile = (id: string) => {
     setFiles(prevFiles => prevFiles.filter(file => file.id !== id));
     
@@ -284,7 +269,7 @@ const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
     });
   };
   
-  const handleChangeFileType = (id: string, newType: 'table' | 'procedure' | 'trigger' | 'other') => {
+  const handleChangeFileType = (id: string, newType: CodeFileType) => {
     setFiles(prevFiles => 
       prevFiles.map(file => 
         file.id === id ? { ...file, type: newType } : file
@@ -297,9 +282,14 @@ const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
     });
   };
   
-  const getFilteredFiles = (type: 'table' | 'procedure' | 'trigger' | 'other') => {
+  const getFilteredFiles = (type: CodeFileType) => {
     return files.filter(file => file.type === type);
   };
+
+  // Tables, procedures, triggers and other files always have a tab; the other kinds once uploaded
+  const fileTabs = CODE_FILE_TYPES.filter(type =>
+    ['table', 'procedure', 'trigger', 'other'].includes(type.value) || getFilteredFiles(type.value).length > 0
+  );
   
   const handleContinue = () => {
     if (files.length === 0) {
@@ -368,19 +358,6 @@ END`;
     setTemplateType(type);
   };
 
-  const dataTypeMappings = [
-    { tsql: 'INT', plsql: 'NUMBER(10)', usage: 'Primary keys, counters', notes: 'Oracle NUMBER is more flexible' },
-    { tsql: 'VARCHAR(n)', plsql: 'VARCHAR2(n)', usage: 'Variable length strings', notes: 'VARCHAR2 recommended in Oracle' },
-    { tsql: 'CHAR(n)', plsql: 'CHAR(n)', usage: 'Fixed length strings', notes: 'Same in both databases' },
-    { tsql: 'TEXT', plsql: 'CLOB', usage: 'Large text data', notes: 'CLOB for large character data' },
-    { tsql: 'DATETIME', plsql: 'DATE', usage: 'Date and time', notes: 'Oracle DATE includes time' },
-    { tsql: 'BIT', plsql: 'NUMBER(1)', usage: 'Boolean values', notes: 'Use CHECK constraint (0,1)' },
-    { tsql: 'FLOAT', plsql: 'BINARY_FLOAT', usage: 'Floating point', notes: 'Oracle has BINARY_FLOAT/DOUBLE' },
-    { tsql: 'DECIMAL(p,s)', plsql: 'NUMBER(p,s)', usage: 'Precise decimal', notes: 'NUMBER is Oracle standard' },
-    { tsql: 'IDENTITY', plsql: 'SEQUENCE + TRIGGER', usage: 'Auto-increment', notes: 'Oracle 12c+ has IDENTITY' },
-    { tsql: 'UNIQUEIDENTIFIER', plsql: 'RAW(16)', usage: 'GUID/UUID', notes: 'Use SYS_GUID() function' }
-  ];
-
   const syntaxDifferences = [
     { category: 'Variables', tsql: 'DECLARE @var INT', plsql: 'DECLARE var NUMBER;', example: '@customer_id vs customer_id' },
     { category: 'String Concat', tsql: 'str1 + str2', plsql: 'str1 || str2', example: "'Hello' + 'World' vs 'Hello' || 'World'" },
@@ -466,6 +443,12 @@ END`;
                   Supported formats: .sql, .txt, .prc, .trg, .tab, .proc, .sp
                 </p>
               </div>
+              <div className="flex items-center gap-2">
+                <Switch id="split-objects" checked={splitObjects} onCheckedChange={setSplitObjects} />
+                <Label htmlFor="split-objects" className="text-sm">
+                  Split scripts with several objects (separated by <code>go</code>) into one file per object
+                </Label>
+              </div>
             </TabsContent>
 
             <TabsContent value="manual" className="space-y-6">
@@ -526,21 +509,22 @@ END`;
 
             <TabsContent value="mapping" className="space-y-4">
               <div>
-                <h3 className="text-lg font-semibold mb-4">T-SQL to PL/SQL Data Type Mapping</h3>
+                <h3 className="text-lg font-semibold mb-1">T-SQL to PL/SQL Data Type Mapping</h3>
+                <p className="text-sm text-gray-500 mb-4">
+                  The mapping a new migration starts from. Change it for a migration under "Data Type Mapping" in its conversion settings.
+                </p>
                 <div className="border rounded-lg overflow-hidden">
-                  <div className="grid grid-cols-4 gap-4 p-3 bg-gray-50 font-semibold text-sm">
+                  <div className="grid grid-cols-3 gap-4 p-3 bg-gray-50 font-semibold text-sm">
                     <div>T-SQL (Sybase)</div>
                     <div>PL/SQL (Oracle)</div>
-                    <div>Usage in Code</div>
                     <div>Notes</div>
                   </div>
                   <ScrollArea className="max-h-96">
-                    {dataTypeMappings.map((mapping, index) => (
-                      <div key={index} className="grid grid-cols-4 gap-4 p-3 border-t text-sm">
-                        <div className="font-mono bg-red-50 px-2 py-1 rounded">{mapping.tsql}</div>
-                        <div className="font-mono bg-green-50 px-2 py-1 rounded">{mapping.plsql}</div>
-                        <div className="text-gray-600">{mapping.usage}</div>
-                        <div className="text-gray-500 text-xs">{mapping.notes}</div>
+                    {DEFAULT_TYPE_MAPPINGS.map(mapping => (
+                      <div key={mapping.sybaseType} className="grid grid-cols-3 gap-4 p-3 border-t text-sm">
+                        <div className="font-mono bg-red-50 px-2 py-1 rounded">{mapping.sybaseType}</div>
+                        <div className="font-mono bg-green-50 px-2 py-1 rounded">{mapping.oracleType}</div>
+                        <div className="text-gray-500 text-xs">{mapping.description}</div>
                       </div>
                     ))}
                   </ScrollArea>
@@ -576,40 +560,18 @@ END`;
           {files.length > 0 && (
             <div className="mt-8">
               <h3 className="text-lg font-medium mb-4">Uploaded Files</h3>
-              <Tabs defaultValue="tables">
-                <TabsList className="grid grid-cols-4 mb-4">
-                  <TabsTrigger value="tables">
-                    Tables
-                    {getFilteredFiles('table').length > 0 && (
-                      <Badge variant="secondary" className="ml-2">
-                        {getFilteredFiles('table').length}
-                      </Badge>
-                    )}
-                  </TabsTrigger>
-                  <TabsTrigger value="procedures">
-                    Procedures
-                    {getFilteredFiles('procedure').length > 0 && (
-                      <Badge variant="secondary" className="ml-2">
-                        {getFilteredFiles('procedure').length}
-                      </Badge>
-                    )}
-                  </TabsTrigger>
-                  <TabsTrigger value="triggers">
-                    Triggers
-                    {getFilteredFiles('trigger').length > 0 && (
-                      <Badge variant="secondary" className="ml-2">
-                        {getFilteredFiles('trigger').length}
-                      </Badge>
-                    )}
-                  </TabsTrigger>
-                  <TabsTrigger value="other">
-                    Other
-                    {getFilteredFiles('other').length > 0 && (
-                      <Badge variant="secondary" className="ml-2">
-                        {getFilteredFiles('other').length}
-                      </Badge>
-                    )}
-                  </TabsTrigger>
+              <Tabs defaultValue="table">
+                <TabsList className="flex flex-wrap h-auto justify-start mb-4">
+                  {fileTabs.map(type => (
+                    <TabsTrigger key={type.value} value={type.value}>
+                      {type.title}
+                      {getFilteredFiles(type.value).length > 0 && (
+                        <Badge variant="secondary" className="ml-2">
+                          {getFilteredFiles(type.value).length}
+                        </Badge>
+                      )}
+                    </TabsTrigger>
+                  ))}
                 </TabsList>
                 
                 {files.length > 0 && (
@@ -627,24 +589,16 @@ END`;
                   </div>
                 )}
 
-                {(['tables', 'procedures', 'triggers', 'other'] as const).map(tabValue => (
-                  <TabsContent key={tabValue} value={tabValue}>
+                {fileTabs.map(type => (
+                  <TabsContent key={type.value} value={type.value}>
                     <ScrollArea className="h-[300px] rounded-md border p-4">
-                      {getFilteredFiles(
-                        tabValue === 'tables' ? 'table' : 
-                        tabValue === 'procedures' ? 'procedure' : 
-                        tabValue === 'triggers' ? 'trigger' : 'other'
-                      ).length === 0 ? (
+                      {getFilteredFiles(type.value).length === 0 ? (
                         <div className="text-center py-8 text-muted-foreground">
-                          No {tabValue} uploaded yet
+                          No {type.title.toLowerCase()} uploaded yet
                         </div>
                       ) : (
                         <div className="space-y-4">
-                          {getFilteredFiles(
-                            tabValue === 'tables' ? 'table' : 
-                            tabValue === 'procedures' ? 'procedure' : 
-                            tabValue === 'triggers' ? 'trigger' : 'other'
-                          ).map(file => (
+                          {getFilteredFiles(type.value).map(file => (
                             <div 
                               key={file.id} 
                               className="flex items-center justify-between p-3 bg-card rounded-md border"
@@ -652,6 +606,11 @@ END`;
                               <div className="flex items-center">
                                 <File className="h-5 w-5 mr-3 text-muted-foreground" />
                                 <span className="font-medium truncate max-w-[300px]">{file.name}</span>
+                                {file.source && (
+                                  <span className="ml-2 text-xs text-muted-foreground">
+                                    {file.source.fileName}:{file.source.startLine}-{file.source.endLine}
+                                  </span>
+                                )}
                               </div>
                               <div className="flex items-center gap-2">
                                 <DropdownMenu>
@@ -661,18 +620,11 @@ END`;
                                     </Button>
                                   </DropdownMenuTrigger>
                                   <DropdownMenuContent>
-                                    <DropdownMenuItem onClick={() => handleChangeFileType(file.id, 'table')}>
-                                      Table
-                                    </DropdownMenuItem>
-                                    <DropdownMenuItem onClick={() => handleChangeFileType(file.id, 'procedure')}>
-                                      Procedure
-                                    </DropdownMenuItem>
-                                    <DropdownMenuItem onClick={() => handleChangeFileType(file.id, 'trigger')}>
-                                      Trigger
-                                    </DropdownMenuItem>
-                                    <DropdownMenuItem onClick={() => handleChangeFileType(file.id, 'other')}>
-                                      Other
-                                    </DropdownMenuItem>
+                                    {CODE_FILE_TYPES.map(type => (
+                                      <DropdownMenuItem key={type.value} onClick={() => handleChangeFileType(file.id, type.value)}>
+                                        {type.label}
+                                      </DropdownMenuItem>
+                                    ))}
                                   </DropdownMenuContent>
                                 </DropdownMenu>
                                 <Button 
@@ -4,6 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { RefreshCw, AlertTriangle, CheckCircle, Info, X } from 'lucide-react';
+import { ConversionIssueCategory } from '@/types';
+import { ISSUE_CATEGORY_LABELS } from '@/utils/conversionUtils';
 
 interface ConversionIssue {
   id: string;
@@ -12,7 +14,7 @@ interface ConversionIssue {
   lineNumber?: number;
   suggestedFix?: string;
   originalCode?: string;
-  category: string;
+  category?: ConversionIssueCategory;
 }
 
 interface ConversionIssuesPanelProps {
@@ -134,9 +136,11 @@ const ConversionIssuesPanel: React.FC<ConversionIssuesPanelProps> = ({
                     <span className="uppercase text-xs font-semibold">
                       {issue.severity}
                     </span>
-                    <Badge variant="outline" className="text-xs">
-                      {issue.category}
-                    </Badge>
+                    {issue.category && (
+                      <Badge variant="outline" className="text-xs">
+                        {ISSUE_CATEGORY_LABELS[issue.category]}
+                      </Badge>
+                    )}
                     {issue.lineNumber && (
                       <span className="text-sm text-gray-500">
                         Line {issue.lineNumber}
@@ -10,7 +10,8 @@ import { Check, AlertTriangle, X, FileWarning, RefreshCw, Download, Clock } from
 import { useToast } from '@/hooks/use-toast';
 import { CodeFile, ConversionResult, DatabaseConnection } from '@/types';
 import CodeDiffViewer from './CodeDiffViewer';
-import { generateConversionReport } from '@/utils/conversionUtils';
+import CallerContractPanel from './CallerContractPanel';
+import { generateConversionReport, ISSUE_CATEGORY_LABELS } from '@/utils/conversionUtils';
 
 interface ConversionResultsProps {
   results: ConversionResult[];
@@ -228,7 +229,10 @@ const ConversionResults: React.FC<ConversionResultsProps> = ({
                       <TabsTrigger value="performance">Performance</TabsTrigger>
                     </TabsList>
                     
-                    <TabsContent value="code">
+                    <TabsContent value="code" className="space-y-4">
+                      {selectedResult.callerContracts && selectedResult.callerContracts.length > 0 && (
+                        <CallerContractPanel contracts={selectedResult.callerContracts} />
+                      )}
                       <CodeDiffViewer 
                         originalCode={selectedResult.originalFile.content}
                         convertedCode={selectedResult.convertedCode}
@@ -263,7 +267,8 @@ const ConversionResults: React.FC<ConversionResultsProps> = ({
                                       <Check className="h-4 w-4 mr-2" />
                                     )}
                                     {issue.severity.charAt(0).toUpperCase() + issue.severity.slice(1)}
-                                    {issue.lineNumber && <span className="ml-2">- Line {issue.lineNumber}</span>}
+                                    {issue.lineNumber && <span className="ml-2">- Line {issue.lineNumber}{issue.columnNumber ? `, column ${issue.columnNumber}` : ''}</span>}
+                                    {issue.category && <Badge variant="outline" className="ml-2 text-xs">{ISSUE_CATEGORY_LABELS[issue.category]}</Badge>}
                                   </AlertTitle>
                                   <AlertDescription>
                                     {issue.description}
@@ -0,0 +1,145 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { ConversionSettings, CursorStyle, DataTypeMapping, IdentifierCase, IdentityStyle, NamingPolicy, ResultSetStyle } from '@/types';
+import { CURSOR_STYLES, IDENTIFIER_CASES, IDENTITY_STYLES, MAX_IDENTIFIER_LENGTHS, RESULT_SET_STYLES } from '@/utils/conversionSettings';
+import { formatTypeMappings, parseTypeMappings } from '@/utils/dataTypeMapping';
+import { formatReservedWords, isValidPrefix, parseReservedWords } from '@/utils/namingPolicy';
+
+interface ConversionSettingsPanelProps {
+  settings: ConversionSettings;
+  onSettingsChange: (settings: ConversionSettings) => void;
+}
+
+interface SettingSelectProps<T extends string> {
+  label: string;
+  value: T;
+  options: { value: T; label: string; description: string }[];
+  onChange: (value: T) => void;
+}
+
+const SettingSelect = <T extends string>({ label, value, options, onChange }: SettingSelectProps<T>) => (
+  <div className="space-y-1">
+    <label className="text-sm font-medium text-gray-700">{label}</label>
+    <Select value={value} onValueChange={selected => onChange(selected as T)}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(option => (
+          <SelectItem key={option.value} value={option.value}>
+            <div>
+              <div>{option.label}</div>
+              <div className="text-xs text-muted-foreground">{option.description}</div>
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+interface PrefixInputProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Saved when the field loses focus; an invalid prefix reverts to the saved one
+const PrefixInput: React.FC<PrefixInputProps> = ({ label, value, onChange }) => (
+  <div className="space-y-1">
+    <label className="text-sm font-medium text-gray-700">{label}</label>
+    <Input
+      key={value}
+      defaultValue={value}
+      onBlur={event => {
+        const prefix = event.target.value.trim();
+        if (isValidPrefix(prefix)) onChange(prefix);
+        else event.target.value = value;
+      }}
+    />
+  </div>
+);
+
+const NamingPolicyFields: React.FC<{ naming: NamingPolicy; onChange: (naming: NamingPolicy) => void }> = ({ naming, onChange }) => {
+  const reservedWords = formatReservedWords(naming.reservedWords);
+  return (
+    <>
+      <SettingSelect<IdentifierCase>
+        label="Identifier Case"
+        value={naming.identifierCase}
+        options={IDENTIFIER_CASES}
+        onChange={identifierCase => onChange({ ...naming, identifierCase })}
+      />
+      <SettingSelect<string>
+        label="Maximum Name Length"
+        value={String(naming.maxLength)}
+        options={MAX_IDENTIFIER_LENGTHS}
+        onChange={maxLength => onChange({ ...naming, maxLength: Number(maxLength) })}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <PrefixInput label="Variable Prefix" value={naming.variablePrefix} onChange={variablePrefix => onChange({ ...naming, variablePrefix })} />
+        <PrefixInput label="Parameter Prefix" value={naming.parameterPrefix} onChange={parameterPrefix => onChange({ ...naming, parameterPrefix })} />
+      </div>
+      <div className="space-y-1">
+        <label className="text-sm font-medium text-gray-700">Reserved Word Renames</label>
+        <Textarea
+          key={reservedWords}
+          defaultValue={reservedWords}
+          rows={4}
+          className="font-mono text-xs"
+          onBlur={event => onChange({ ...naming, reservedWords: parseReservedWords(event.target.value) })}
+        />
+        <p className="text-xs text-muted-foreground">One "word = new_name" per line. Other reserved words get a trailing underscore.</p>
+      </div>
+    </>
+  );
+};
+
+const TypeMappingField: React.FC<{ typeMappings: DataTypeMapping[]; onChange: (typeMappings: DataTypeMapping[]) => void }> = ({ typeMappings, onChange }) => {
+  const text = formatTypeMappings(typeMappings);
+  return (
+    <div className="space-y-1">
+      <label className="text-sm font-medium text-gray-700">Data Type Mapping</label>
+      <Textarea
+        key={text}
+        defaultValue={text}
+        rows={6}
+        className="font-mono text-xs"
+        onBlur={event => onChange(parseTypeMappings(event.target.value))}
+      />
+      <p className="text-xs text-muted-foreground">
+        One "sybase_type = ORACLE_TYPE" per line, e.g. "datetime = DATE" or "varchar(n) = VARCHAR2(n)". Types not listed keep the built-in mapping; user-defined types take the mapping of their physical type.
+      </p>
+    </div>
+  );
+};
+
+// Choices that apply to every file of the migration; changing them affects files converted afterwards
+const ConversionSettingsPanel: React.FC<ConversionSettingsPanelProps> = ({ settings, onSettingsChange }) => (
+  <div className="space-y-3">
+    <SettingSelect<IdentityStyle>
+      label="Identity Columns"
+      value={settings.identityStyle}
+      options={IDENTITY_STYLES}
+      onChange={identityStyle => onSettingsChange({ ...settings, identityStyle })}
+    />
+    <SettingSelect<ResultSetStyle>
+      label="Result Sets"
+      value={settings.resultSetStyle}
+      options={RESULT_SET_STYLES}
+      onChange={resultSetStyle => onSettingsChange({ ...settings, resultSetStyle })}
+    />
+    <SettingSelect<CursorStyle>
+      label="Cursor Loops"
+      value={settings.cursorStyle}
+      options={CURSOR_STYLES}
+      onChange={cursorStyle => onSettingsChange({ ...settings, cursorStyle })}
+    />
+    <NamingPolicyFields naming={settings.naming} onChange={naming => onSettingsChange({ ...settings, naming })} />
+    <TypeMappingField typeMappings={settings.typeMappings} onChange={typeMappings => onSettingsChange({ ...settings, typeMappings })} />
+  </div>
+);
+
+export default ConversionSettingsPanel;
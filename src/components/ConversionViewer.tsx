@@ -11,6 +11,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useUnreviewedFiles } from '@/hooks/useUnreviewedFiles';
 import CodeDiffViewer from './CodeDiffViewer';
+import CallerContractPanel from './CallerContractPanel';
+import { CallerContract, CodeFileType, ConversionIssueCategory } from '@/types';
 
 interface DataTypeMapping {
   sybaseType: string;
@@ -25,7 +27,7 @@ interface ConversionIssue {
   lineNumber?: number;
   suggestedFix?: string;
   originalCode?: string;
-  category: string;
+  category?: ConversionIssueCategory;
 }
 
 interface PerformanceMetrics {
@@ -48,7 +50,7 @@ interface FileItem {
   id: string;
   name: string;
   path: string;
-  type: 'table' | 'procedure' | 'trigger' | 'other';
+  type: CodeFileType;
   content: string;
   conversionStatus: 'pending' | 'success' | 'failed';
   convertedContent?: string;
@@ -56,6 +58,7 @@ interface FileItem {
   dataTypeMapping?: DataTypeMapping[];
   issues?: ConversionIssue[];
   performanceMetrics?: PerformanceMetrics;
+  callerContracts?: CallerContract[];
 }
 
 interface ConversionViewerProps {
@@ -178,6 +181,9 @@ const ConversionViewer: React.FC<ConversionViewerProps> = ({
           </TabsList>
           
           <TabsContent value="code" className="space-y-4">
+            {file.callerContracts && file.callerContracts.length > 0 && (
+              <CallerContractPanel contracts={file.callerContracts} />
+            )}
             {file.convertedContent ? (
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -0,0 +1,101 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ArrowRight, FileText } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { CodeFileType } from '@/types';
+import { buildDependencyGraph } from '@/utils/dependencyGraph';
+
+interface FileItem {
+  id: string;
+  name: string;
+  path: string;
+  type: CodeFileType;
+  content: string;
+  conversionStatus: 'pending' | 'success' | 'failed';
+}
+
+interface DependencyGraphViewProps {
+  files: FileItem[];
+  selectedFile: FileItem | null;
+  onFileSelect: (file: FileItem) => void;
+}
+
+const DependencyGraphView: React.FC<DependencyGraphViewProps> = ({ files, selectedFile, onFileSelect }) => {
+  // Parsing every file is not free, so only rebuild when the uploaded code changes
+  const graph = useMemo(() => buildDependencyGraph(files), [files]);
+
+  const fileById = new Map(files.map(file => [file.id, file]));
+  const nodeById = new Map(graph.nodes.map(node => [node.fileId, node]));
+  const fileName = (id: string) => fileById.get(id)?.name ?? id;
+
+  return (
+    <Card className="h-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">Dependency Order</CardTitle>
+        <p className="text-xs text-gray-500">
+          Files are converted, exported and deployed level by level, top to bottom.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {graph.cycles.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {graph.cycles.length} circular {graph.cycles.length === 1 ? 'dependency' : 'dependencies'} found:
+              {graph.cycles.map((cycle, i) => (
+                <div key={i} className="text-xs mt-1">{cycle.map(fileName).join(' → ')}</div>
+              ))}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {graph.levels.map((level, i) => (
+          <div key={i}>
+            <div className="text-xs font-semibold uppercase text-gray-500 mb-1">Level {i + 1}</div>
+            <div className="space-y-1">
+              {level.map(id => {
+                const file = fileById.get(id);
+                const node = nodeById.get(id);
+                const dependencies = graph.edges.filter(edge => edge.from === id);
+                return (
+                  <div
+                    key={id}
+                    className={cn(
+                      "p-2 rounded border hover:bg-gray-50 cursor-pointer",
+                      selectedFile?.id === id && "bg-blue-50 border-blue-200"
+                    )}
+                    onClick={() => file && onFileSelect(file)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <FileText className="h-4 w-4 text-gray-500 flex-shrink-0" />
+                      <span className="text-sm truncate">{fileName(id)}</span>
+                    </div>
+                    {dependencies.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-1 mt-1 ml-6">
+                        <ArrowRight className="h-3 w-3 text-gray-400" />
+                        {dependencies.map(edge => (
+                          <Badge key={edge.to} variant="secondary" className="text-xs" title={edge.objects.join(', ')}>
+                            {fileName(edge.to)}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    {node && node.external.length > 0 && (
+                      <div className="text-xs text-gray-500 mt-1 ml-6">
+                        Not in upload: {node.external.join(', ')}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DependencyGraphView;
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Check, AlertTriangle, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { DeploymentError } from '@/types';
+
+interface DeploymentFileResult {
+  id: string;
+  file_name: string;
+  execution_order: number;
+  status: string;
+  statements_executed: number;
+  duration_ms: number;
+  error_code: string | null;
+  error_message: string | null;
+  error_line: number | null;
+  error_column: number | null;
+  errors: DeploymentError[];
+}
+
+interface DeploymentFileResultsProps {
+  deploymentId: string;
+}
+
+const statusIcon = (status: string) => {
+  switch (status) {
+    case 'success':
+      return <Check className="h-4 w-4 text-green-500" />;
+    case 'warning':
+      return <AlertTriangle className="h-4 w-4 text-yellow-500" />;
+    default:
+      return <X className="h-4 w-4 text-red-500" />;
+  }
+};
+
+// Files executed by one deployment, in execution order, with the database errors they hit
+const DeploymentFileResults: React.FC<DeploymentFileResultsProps> = ({ deploymentId }) => {
+  const [results, setResults] = useState<DeploymentFileResult[] | null>(null);
+
+  useEffect(() => {
+    const fetchResults = async () => {
+      const { data, error } = await supabase
+        .from('deployment_file_results')
+        .select('*')
+        .eq('deployment_id', deploymentId)
+        .order('execution_order', { ascending: true });
+      if (error) {
+        console.error('Error fetching deployment file results:', error);
+        setResults([]);
+        return;
+      }
+      setResults((data || []).map(row => ({ ...row, errors: (row.errors as unknown as DeploymentError[]) || [] })));
+    };
+    fetchResults();
+  }, [deploymentId]);
+
+  if (results === null) {
+    return <p className="text-xs text-muted-foreground">Loading files...</p>;
+  }
+  if (results.length === 0) {
+    return <p className="text-xs text-muted-foreground">No per-file results were recorded for this deployment.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {results.map(result => {
+        const warnings = result.errors.filter(error => error.severity === 'warning');
+        return (
+          <div key={result.id} className="text-sm border-t pt-1">
+            <div className="flex items-center gap-2">
+              <span className="w-6 text-right text-xs text-muted-foreground">{result.execution_order}.</span>
+              {statusIcon(result.status)}
+              <span className="flex-1 truncate">{result.file_name}</span>
+              {warnings.length > 0 && (
+                <Badge variant="outline" className="text-xs">{warnings.length} warning{warnings.length > 1 ? 's' : ''}</Badge>
+              )}
+              <span className="text-xs text-muted-foreground">
+                {result.statements_executed} statements, {result.duration_ms} ms
+              </span>
+            </div>
+            {result.error_message && (
+              <div className="ml-8 mt-1 p-2 bg-red-50 dark:bg-red-900/20 rounded text-xs font-mono text-red-700 dark:text-red-300">
+                {result.error_line && (
+                  <span className="font-semibold">
+                    Line {result.error_line}{result.error_column ? `, column ${result.error_column}` : ''}:{' '}
+                  </span>
+                )}
+                {result.error_message}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DeploymentFileResults;
@@ -3,11 +3,12 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Download } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { CodeFileType } from '@/types';
 
 interface FileDownloaderProps {
   fileName: string;
   content: string;
-  fileType: 'table' | 'procedure' | 'trigger' | 'other';
+  fileType: CodeFileType;
   variant?: 'default' | 'outline' | 'ghost';
   size?: 'default' | 'sm' | 'lg';
 }
@@ -15,15 +15,23 @@ import {
   ChevronRight,
   RefreshCw,
   AlertTriangle,
-  Loader2
+  Loader2,
+  Eye,
+  SquareFunction,
+  Shield,
+  Hash,
+  ListOrdered,
+  KeyRound
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { CodeFileType } from '@/types';
+import { CODE_FILE_TYPES } from '@/utils/fileTypes';
 
 interface FileItem {
   id: string;
   name: string;
   path: string;
-  type: 'table' | 'procedure' | 'trigger' | 'other';
+  type: CodeFileType;
   content: string;
   conversionStatus: 'pending' | 'success' | 'failed';
   convertedContent?: string;
@@ -34,7 +42,7 @@ interface FileTreeViewProps {
   files: FileItem[];
   onFileSelect: (file: FileItem) => void;
   onConvertFile: (fileId: string) => void;
-  onConvertAllByType: (type: 'table' | 'procedure' | 'trigger' | 'other') => void;
+  onConvertAllByType: (type: CodeFileType) => void;
   onConvertAll: () => void;
   onFixFile: (fileId: string) => void;
   selectedFile: FileItem | null;
@@ -56,7 +64,7 @@ const FileTreeView: React.FC<FileTreeViewProps> = ({
   onClear
 }) => {
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
-    new Set(['tables', 'procedures', 'triggers'])
+    new Set(['table', 'view', 'function', 'procedure', 'trigger'])
   );
 
   const toggleSection = (section: string) => {
@@ -69,7 +77,7 @@ const FileTreeView: React.FC<FileTreeViewProps> = ({
     setExpandedSections(newExpanded);
   };
 
-  const getFilesByType = (type: string) => {
+  const getFilesByType = (type: CodeFileType) => {
     return files.filter(file => file.type === type);
   };
 
@@ -88,14 +96,26 @@ const FileTreeView: React.FC<FileTreeViewProps> = ({
     }
   };
 
-  const getSectionIcon = (type: string) => {
+  const getSectionIcon = (type: CodeFileType) => {
     switch (type) {
-      case 'tables':
+      case 'table':
         return <Database className="h-4 w-4 text-blue-600" />;
-      case 'procedures':
+      case 'view':
+        return <Eye className="h-4 w-4 text-cyan-600" />;
+      case 'function':
+        return <SquareFunction className="h-4 w-4 text-indigo-600" />;
+      case 'procedure':
         return <Zap className="h-4 w-4 text-purple-600" />;
-      case 'triggers':
+      case 'trigger':
         return <GitBranch className="h-4 w-4 text-orange-600" />;
+      case 'rule':
+        return <Shield className="h-4 w-4 text-green-600" />;
+      case 'sequence':
+        return <Hash className="h-4 w-4 text-teal-600" />;
+      case 'index':
+        return <ListOrdered className="h-4 w-4 text-sky-600" />;
+      case 'grant':
+        return <KeyRound className="h-4 w-4 text-amber-600" />;
       default:
         return <FileText className="h-4 w-4 text-gray-600" />;
     }
@@ -109,12 +129,9 @@ const FileTreeView: React.FC<FileTreeViewProps> = ({
     return files.filter(f => f.conversionStatus === 'pending').length;
   };
 
-  const renderSection = (sectionKey: string, sectionTitle: string, sectionFiles: FileItem[]) => {
+  const renderSection = (sectionKey: CodeFileType, sectionTitle: string, sectionFiles: FileItem[]) => {
     const isExpanded = expandedSections.has(sectionKey);
     const pendingCount = getPendingFilesCount(sectionFiles);
-    const typeKey = sectionKey === 'tables' ? 'table' : 
-                   sectionKey === 'procedures' ? 'procedure' : 
-                   sectionKey === 'triggers' ? 'trigger' : 'other';
     
     return (
       <div key={sectionKey} className="mb-2">
@@ -137,7 +154,7 @@ const FileTreeView: React.FC<FileTreeViewProps> = ({
             <Button
               size="sm"
               variant="outline"
-              onClick={() => onConvertAllByType(typeKey as 'table' | 'procedure' | 'trigger' | 'other')}
+              onClick={() => onConvertAllByType(sectionKey)}
               className="text-xs px-2 py-1 h-6"
             >
               <RefreshCw className="h-3 w-3 mr-1" />
@@ -206,10 +223,6 @@ const FileTreeView: React.FC<FileTreeViewProps> = ({
     );
   };
 
-  const tables = getFilesByType('table');
-  const procedures = getFilesByType('procedure');
-  const triggers = getFilesByType('trigger');
-  const others = getFilesByType('other');
   const totalPending = getTotalPendingFiles();
 
   return (
@@ -237,10 +250,12 @@ const FileTreeView: React.FC<FileTreeViewProps> = ({
       </CardHeader>
       <CardContent className="p-0">
         <div className="space-y-1 px-4 pb-4">
-          {renderSection('tables', 'Tables', tables)}
-          {renderSection('procedures', 'Procedures', procedures)}
-          {renderSection('triggers', 'Triggers', triggers)}
-          {others.length > 0 && renderSection('other', 'Other Files', others)}
+          {CODE_FILE_TYPES.map(({ value, title }) => {
+            const sectionFiles = getFilesByType(value);
+            // Tables, procedures and triggers are always listed; the other kinds only when uploaded
+            const alwaysShown = value === 'table' || value === 'procedure' || value === 'trigger';
+            return (alwaysShown || sectionFiles.length > 0) && renderSection(value, title, sectionFiles);
+          })}
         </div>
       </CardContent>
     </Card>
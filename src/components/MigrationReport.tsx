@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -8,6 +8,7 @@ import { Separator } from '@/components/ui/separator';
 import { Download, Upload, CheckCircle, AlertTriangle, XCircle, Database } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
 
 interface MigrationReportProps {
   report: any;
@@ -24,19 +25,18 @@ interface DeploymentLog {
 }
 
 const MigrationReport: React.FC<MigrationReportProps> = ({ report, onBack }) => {
+  const { user } = useAuth();
   const { toast } = useToast();
   const [deploymentLogs, setDeploymentLogs] = useState<DeploymentLog[]>([]);
   const [isDeploying, setIsDeploying] = useState(false);
 
-  useEffect(() => {
-    fetchDeploymentLogs();
-  }, []);
-
-  const fetchDeploymentLogs = async () => {
+  const fetchDeploymentLogs = useCallback(async () => {
+    if (!user) return;
     try {
       const { data, error } = await supabase
         .from('deployment_logs')
         .select('*')
+        .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -44,9 +44,14 @@ const MigrationReport: React.FC<MigrationReportProps> = ({ report, onBack }) =>
     } catch (error) {
       console.error('Error fetching deployment logs:', error);
     }
-  };
+  }, [user]);
+
+  useEffect(() => {
+    fetchDeploymentLogs();
+  }, [fetchDeploymentLogs]);
 
   const handleDeployToOracle = async () => {
+    if (!user) return;
     setIsDeploying(true);
     
     try {
@@ -61,6 +66,7 @@ const MigrationReport: React.FC<MigrationReportProps> = ({ report, onBack }) =>
       const { data, error } = await supabase
         .from('deployment_logs')
         .insert({
+          user_id: user.id,
           status: isSuccessful ? 'Success' : 'Failed',
           file_count: report.successfulFiles,
           lines_of_sql: totalLines,
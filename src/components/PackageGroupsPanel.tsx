@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Package, Plus, Trash2 } from 'lucide-react';
+import { CodeFileType, PackageGroup, PackageGroupingStrategy } from '@/types';
+import { isValidPackageName, PACKAGE_GROUPING_STRATEGIES, proposePackageGroups } from '@/utils/packaging';
+
+interface FileItem {
+  id: string;
+  name: string;
+  path: string;
+  type: CodeFileType;
+  content: string;
+}
+
+interface PackageGroupsPanelProps {
+  files: FileItem[];
+  groups: PackageGroup[];
+  onGroupsChange: (groups: PackageGroup[]) => void;
+}
+
+const STANDALONE = 'standalone';
+
+// The groups apply when the migration report is generated: each becomes one package in the
+// report, the download and the deployment
+const PackageGroupsPanel: React.FC<PackageGroupsPanelProps> = ({ files, groups, onGroupsChange }) => {
+  const [strategy, setStrategy] = useState<PackageGroupingStrategy>('prefix');
+  const procedures = files.filter(file => file.type === 'procedure');
+  const grouped = new Set(groups.flatMap(group => group.fileIds));
+  const standalone = procedures.filter(file => !grouped.has(file.id));
+
+  const moveFile = (fileId: string, target: string) => {
+    const without = groups.map(group => ({ ...group, fileIds: group.fileIds.filter(id => id !== fileId) }));
+    onGroupsChange(without.map((group, index) => (`${index}` === target ? { ...group, fileIds: [...group.fileIds, fileId] } : group)));
+  };
+
+  const renameGroup = (index: number, name: string) => {
+    onGroupsChange(groups.map((group, i) => (i === index ? { ...group, name } : group)));
+  };
+
+  const addGroup = () => {
+    let number = groups.length + 1;
+    while (groups.some(group => group.name === `package_${number}`)) number++;
+    onGroupsChange([...groups, { name: `package_${number}`, fileIds: [] }]);
+  };
+
+  const procedureRow = (file: FileItem, value: string) => (
+    <div key={file.id} className="flex items-center justify-between gap-2 text-sm">
+      <span className="truncate" title={file.path}>{file.name}</span>
+      <Select value={value} onValueChange={target => moveFile(file.id, target)}>
+        <SelectTrigger className="h-7 w-36 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={STANDALONE}>Standalone</SelectItem>
+          {groups.map((group, index) => (
+            <SelectItem key={index} value={`${index}`}>{group.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Card className="h-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">Packages</CardTitle>
+        <p className="text-xs text-gray-500">
+          Grouped procedures become one Oracle package when the migration is completed, and their callers call them as package.procedure.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Select value={strategy} onValueChange={value => setStrategy(value as PackageGroupingStrategy)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PACKAGE_GROUPING_STRATEGIES.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  <div>
+                    <div>{option.label}</div>
+                    <div className="text-xs text-muted-foreground">{option.description}</div>
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => onGroupsChange(proposePackageGroups(files, strategy))}>
+            Propose
+          </Button>
+        </div>
+
+        {groups.map((group, index) => (
+          <div key={index} className="border rounded-md p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <Package className="h-4 w-4 text-gray-500 shrink-0" />
+              <Input
+                key={group.name}
+                defaultValue={group.name}
+                className="h-7 text-sm font-mono"
+                onBlur={event => {
+                  const name = event.target.value.trim();
+                  const taken = groups.some((other, i) => i !== index && other.name.toLowerCase() === name.toLowerCase());
+                  if (isValidPackageName(name) && !taken) renameGroup(index, name);
+                  else event.target.value = group.name;
+                }}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2"
+                title="Remove package"
+                onClick={() => onGroupsChange(groups.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {group.fileIds.length === 0 && <p className="text-xs text-gray-500">No procedures yet.</p>}
+            {group.fileIds.flatMap(id => procedures.filter(file => file.id === id)).map(file => procedureRow(file, `${index}`))}
+          </div>
+        ))}
+
+        <Button variant="outline" size="sm" onClick={addGroup}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Package
+        </Button>
+
+        {standalone.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs font-semibold uppercase text-gray-500">Standalone procedures</div>
+            {standalone.map(file => procedureRow(file, STANDALONE))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PackageGroupsPanel;
@@ -1,18 +1,22 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { Check, AlertTriangle, X, Download, Upload, Database, History } from 'lucide-react';
+import { Check, AlertTriangle, X, Download, Upload, Database, History, Undo2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { ConversionReport } from '@/types';
-import { deployToOracle } from '@/utils/databaseUtils';
+import { deployToOracle, loadConnection, markDeploymentRolledBack, rollbackDeployment, saveDeploymentFileResults } from '@/utils/databaseUtils';
+import DeploymentFileResults from '@/components/DeploymentFileResults';
+import { buildDependencyGraph, sortByDependencyOrder } from '@/utils/dependencyGraph';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 
 interface ReportViewerProps {
   report: ConversionReport;
   onBack: () => void;
+  // Migration the report belongs to; null when the files were not saved as a migration
+  migrationId: string | null;
 }
 
 interface DeploymentLog {
@@ -22,18 +26,50 @@ interface DeploymentLog {
   lines_of_sql: number;
   file_count: number;
   error_message: string | null;
+  migration_id: string | null;
+  kind: string;
+  rollback_of: string | null;
+  rollback_script: string | null;
+}
+
+interface DeploymentLogDetails {
+  migrationId?: string | null;
+  kind?: 'deploy' | 'rollback';
+  rollbackOf?: string;
+  rollbackScript?: string;
 }
 
 const ReportViewer: React.FC<ReportViewerProps> = ({
   report,
   onBack,
+  migrationId,
 }) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [isDeploying, setIsDeploying] = useState(false);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
   const [deploymentLogs, setDeploymentLogs] = useState<DeploymentLog[]>([]);
+  const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
   
-  // Fetch deployment logs from Supabase on component mount
+  const fetchDeploymentLogs = useCallback(async () => {
+    if (!user) return;
+    try {
+      const { data, error } = await supabase
+        .from('deployment_logs')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+      if (error) {
+        console.error('Error fetching deployment logs:', error);
+        return;
+      }
+      setDeploymentLogs(data || []);
+    } catch (error) {
+      console.error('Error fetching deployment logs:', error);
+    }
+  }, [user]);
+
+  // Fetch deployment logs from Supabase once the user is known
   useEffect(() => {
     fetchDeploymentLogs();
     
@@ -56,33 +92,25 @@ const ReportViewer: React.FC<ReportViewerProps> = ({
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
-
-  const fetchDeploymentLogs = async () => {
-    if (!user) return;
-    try {
-      const { data, error } = await supabase
-        .from('deployment_logs')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-      if (error) {
-        console.error('Error fetching deployment logs:', error);
-        return;
-      }
-      setDeploymentLogs(data || []);
-    } catch (error) {
-      console.error('Error fetching deployment logs:', error);
-    }
-  };
+  }, [fetchDeploymentLogs]);
 
-  const saveDeploymentLog = async (status: string, linesOfSql: number, fileCount: number, errorMessage?: string) => {
+  const saveDeploymentLog = async (
+    status: string,
+    linesOfSql: number,
+    fileCount: number,
+    errorMessage?: string,
+    details: DeploymentLogDetails = {}
+  ) => {
     if (!user) return null;
     try {
       const { data, error } = await supabase
         .from('deployment_logs')
         .insert({
           user_id: user.id,
+          migration_id: details.migrationId ?? null,
+          kind: details.kind ?? 'deploy',
+          rollback_of: details.rollbackOf ?? null,
+          rollback_script: details.rollbackScript ?? null,
           status,
           lines_of_sql: linesOfSql,
           file_count: fileCount,
@@ -124,65 +152,65 @@ const ReportViewer: React.FC<ReportViewerProps> = ({
   };
 
   const handleDeploy = async () => {
+    const connection = loadConnection('oracle');
+    if (!connection) {
+      toast({
+        title: 'No Oracle Connection',
+        description: 'Save the Oracle connection details before deploying.',
+        variant: 'destructive',
+      });
+      return;
+    }
     setIsDeploying(true);
     try {
       // Calculate lines of SQL and file count from the report
       const linesOfSql = report.summary.split('\n').length;
       const fileCount = report.filesProcessed;
-      // Simulate deployment using the mock function from databaseUtils
-      // We'll assume each file is deployed individually for status update
-      let allSuccess = true;
-      for (const result of report.results) {
-        // Simulate deployment for each file (replace with real logic as needed)
-        const deployResult = await deployToOracle(
-          { 
-            type: 'oracle',
-            host: 'localhost',
-            port: '1521',
-            username: 'system',
-            password: 'password',
-            database: 'ORCL'
-          },
-          result.convertedCode
-        );
-        // Update conversion_status in migration_files for this file
-        const { error: updateError } = await supabase.from('migration_files').update({
-          conversion_status: deployResult.success ? 'success' : 'failed',
-        }).eq('file_name', result.originalFile.name);
-        
-        if (updateError) {
-          console.error('Error updating file status:', updateError);
-        } else {
-          console.log(`Updated file ${result.originalFile.name} to status: ${deployResult.success ? 'success' : 'failed'}`);
-        }
-        if (!deployResult.success) allSuccess = false;
-      }
+      // Deploy in dependency order so tables exist before the code that references them
+      const graph = buildDependencyGraph(report.results.map(result => result.originalFile));
+      const orderedResults = sortByDependencyOrder(report.results, graph, result => result.originalFile.id);
+      const deployment = await deployToOracle(
+        connection,
+        orderedResults.map(result => ({ id: result.originalFile.id, name: result.originalFile.name, code: result.convertedCode }))
+      );
+      // First error of every failed object, e.g. "get_orders.sql line 12: ORA-00942: ..."
+      const failures = deployment.objects
+        .filter(object => object.status === 'error')
+        .map(object => {
+          const error = object.errors.find(e => e.severity === 'error');
+          return `${object.name}${error?.line ? ` line ${error.line}` : ''}: ${error?.message ?? 'failed'}`;
+        });
       // Save deployment log to Supabase
       const logEntry = await saveDeploymentLog(
-        allSuccess ? 'Success' : 'Failed',
+        deployment.success ? 'Success' : 'Failed',
         linesOfSql,
         fileCount,
-        allSuccess ? undefined : 'One or more files failed to deploy.'
+        deployment.success ? undefined : failures.join('\n'),
+        { migrationId, rollbackScript: deployment.rollbackScript }
       );
-      toast({
-        title: allSuccess ? 'Deployment Successful' : 'Deployment Failed',
-        description: allSuccess ? 'All files deployed successfully.' : 'Some files failed to deploy.',
-        variant: allSuccess ? 'default' : 'destructive',
-      });
       if (logEntry) {
-        console.log('Deployment log saved:', logEntry);
+        await saveDeploymentFileResults(logEntry.id, migrationId, deployment);
+        setExpandedLogId(logEntry.id);
       }
+      toast({
+        title: deployment.success ? 'Deployment Successful' : 'Deployment Failed',
+        description: deployment.success
+          ? `${deployment.objects.length} files deployed successfully.`
+          : `${failures.length} of ${deployment.objects.length} files failed. ${failures[0]}`,
+        variant: deployment.success ? 'default' : 'destructive',
+      });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       await saveDeploymentLog(
         'Failed',
         report.summary.split('\n').length,
         report.filesProcessed,
-        errorMessage
+        errorMessage,
+        { migrationId }
       );
       toast({
         title: 'Deployment Failed',
-        description: 'An unexpected error occurred during deployment.',
+        description: errorMessage,
         variant: 'destructive',
       });
     } finally {
@@ -190,6 +218,60 @@ const ReportViewer: React.FC<ReportViewerProps> = ({
     }
   };
 
+  const handleDownloadRollback = (log: DeploymentLog) => {
+    const blob = new Blob([log.rollback_script || ''], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `rollback-${log.id.slice(0, 8)}.sql`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRollback = async (log: DeploymentLog) => {
+    const connection = loadConnection('oracle');
+    if (!connection || !log.rollback_script) {
+      toast({
+        title: 'Rollback Unavailable',
+        description: !connection ? 'Save the Oracle connection details before rolling back.' : 'This deployment has no rollback script.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (!confirm('Roll back this deployment? New objects will be dropped and replaced objects restored to their previous source.')) {
+      return;
+    }
+    setRollingBackId(log.id);
+    try {
+      const rollback = await rollbackDeployment(connection, log.id, log.rollback_script);
+      const failures = rollback.objects.flatMap(object =>
+        object.errors.filter(e => e.severity === 'error').map(e => `${e.line ? `line ${e.line}: ` : ''}${e.message}`)
+      );
+      const logEntry = await saveDeploymentLog(
+        rollback.success ? 'Success' : 'Failed',
+        log.rollback_script.split('\n').length,
+        log.file_count,
+        rollback.success ? undefined : failures.join('\n'),
+        { migrationId: log.migration_id, kind: 'rollback', rollbackOf: log.id }
+      );
+      if (logEntry) await saveDeploymentFileResults(logEntry.id, log.migration_id, rollback);
+      if (rollback.success) await markDeploymentRolledBack(log.id);
+      toast({
+        title: rollback.success ? 'Rollback Successful' : 'Rollback Failed',
+        description: rollback.success ? 'The deployment was rolled back.' : failures[0] ?? 'Some statements failed.',
+        variant: rollback.success ? 'default' : 'destructive',
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await saveDeploymentLog('Failed', 0, log.file_count, errorMessage, { migrationId: log.migration_id, kind: 'rollback', rollbackOf: log.id });
+      toast({ title: 'Rollback Failed', description: errorMessage, variant: 'destructive' });
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
   // Delete file from database
   const handleDeleteFile = async (fileId: string) => {
     try {
@@ -309,6 +391,11 @@ const ReportViewer: React.FC<ReportViewerProps> = ({
                             <Badge variant={log.status === 'Success' ? 'default' : 'destructive'}>
                               {log.status}
                             </Badge>
+                            {log.kind === 'rollback' && (
+                              <Badge variant="outline">
+                                Rollback{log.rollback_of ? ` of ${log.rollback_of.slice(0, 8)}` : ''}
+                              </Badge>
+                            )}
                             <span className="text-sm text-muted-foreground">
                               ID: {log.id.slice(0, 8)}
                             </span>
@@ -330,7 +417,41 @@ const ReportViewer: React.FC<ReportViewerProps> = ({
                         {log.error_message && (
                           <div className="mt-2 p-2 bg-red-50 dark:bg-red-900/20 rounded text-sm text-red-700 dark:text-red-300">
                             <span className="font-medium">Error: </span>
-                            <span>{log.error_message}</span>
+                            <span className="whitespace-pre-wrap">{log.error_message}</span>
+                          </div>
+                        )}
+                        <div className="flex items-center gap-4 mt-2">
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="px-0 h-auto"
+                            onClick={() => setExpandedLogId(expandedLogId === log.id ? null : log.id)}
+                          >
+                            {expandedLogId === log.id ? 'Hide files' : 'Show files'}
+                          </Button>
+                          {log.rollback_script && (
+                            <>
+                              <Button variant="link" size="sm" className="px-0 h-auto" onClick={() => handleDownloadRollback(log)}>
+                                Download rollback script
+                              </Button>
+                              {!deploymentLogs.some(entry => entry.rollback_of === log.id && entry.status === 'Success') && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="ml-auto flex items-center gap-1"
+                                  disabled={rollingBackId !== null}
+                                  onClick={() => handleRollback(log)}
+                                >
+                                  <Undo2 className="h-3 w-3" />
+                                  {rollingBackId === log.id ? 'Rolling back...' : 'Rollback deployment'}
+                                </Button>
+                              )}
+                            </>
+                          )}
+                        </div>
+                        {expandedLogId === log.id && (
+                          <div className="mt-2">
+                            <DeploymentFileResults deploymentId={log.id} />
                           </div>
                         )}
                       </div>
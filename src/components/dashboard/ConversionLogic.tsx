@@ -1,14 +1,16 @@
 import { useState, useCallback } from 'react';
 import { useToast } from '@/hooks/use-toast';
-import { convertSybaseToOracle, generateConversionReport } from '@/utils/conversionUtils';
+import { buildConversionContext, convertSharedTempTables, convertSybaseToOracle, fixConvertedCode, generateConversionReport } from '@/utils/conversionUtils';
 import { supabase } from '@/integrations/supabase/client';
-import { ConversionResult, ConversionReport } from '@/types';
+import { CallerContract, CodeFileSource, CodeFileType, ConversionResult, ConversionReport, ConversionSettings, FunctionUsage, IdentifierMapping, PackageGroup } from '@/types';
+import { buildDependencyGraph, sortByDependencyOrder } from '@/utils/dependencyGraph';
+import { buildPackages } from '@/utils/packaging';
 
 interface FileItem {
   id: string;
   name: string;
   path: string;
-  type: 'table' | 'procedure' | 'trigger' | 'other';
+  type: CodeFileType;
   content: string;
   conversionStatus: 'pending' | 'success' | 'failed';
   convertedContent?: string;
@@ -16,13 +18,19 @@ interface FileItem {
   dataTypeMapping?: any[];
   issues?: any[];
   performanceMetrics?: any;
+  callerContracts?: CallerContract[];
+  identifierMappings?: IdentifierMapping[];
+  functionUsage?: FunctionUsage[];
+  source?: CodeFileSource;
 }
 
 export const useConversionLogic = (
   files: FileItem[],
   setFiles: React.Dispatch<React.SetStateAction<FileItem[]>>,
   setConversionResults: React.Dispatch<React.SetStateAction<ConversionResult[]>>,
-  selectedAiModel: string
+  selectedAiModel: string,
+  conversionSettings: ConversionSettings,
+  packageGroups: PackageGroup[] = []
 ) => {
   const { toast } = useToast();
   const [isConverting, setIsConverting] = useState(false);
@@ -48,7 +56,7 @@ export const useConversionLogic = (
     setIsConverting(true);
     
     try {
-      const result = await convertSybaseToOracle(file, selectedAiModel);
+      const result = await convertSybaseToOracle(file, selectedAiModel, undefined, true, buildConversionContext(files, conversionSettings));
       
       const conversionResult: ConversionResult = {
         id: result.id,
@@ -57,13 +65,17 @@ export const useConversionLogic = (
           name: file.name,
           content: file.content,
           type: file.type,
-          status: 'pending'
+          status: 'pending',
+          source: file.source
         },
         convertedCode: result.convertedCode,
         issues: result.issues,
         dataTypeMapping: result.dataTypeMapping,
         performance: result.performance,
-        status: result.status
+        status: result.status,
+        callerContracts: result.callerContracts,
+        identifierMappings: result.identifierMappings,
+        functionUsage: result.functionUsage
       };
       
       setConversionResults(prev => [...prev, conversionResult]);
@@ -76,7 +88,10 @@ export const useConversionLogic = (
               convertedContent: result.convertedCode,
               dataTypeMapping: result.dataTypeMapping,
               issues: result.issues,
-              performanceMetrics: result.performance
+              performanceMetrics: result.performance,
+              callerContracts: result.callerContracts,
+              identifierMappings: result.identifierMappings,
+              functionUsage: result.functionUsage
             }
           : f
       ));
@@ -84,7 +99,7 @@ export const useConversionLogic = (
       await supabase.from('migration_files').update({
         conversion_status: mapConversionStatus(result.status),
         converted_content: result.convertedCode
-      }).eq('file_name', file.name);
+      }).eq('id', file.id);
     } catch (error) {
       console.error('Conversion failed:', error);
       setFiles(prev => prev.map(f => 
@@ -94,18 +109,24 @@ export const useConversionLogic = (
       setConvertingFileIds([]);
       setIsConverting(false);
     }
-  }, [files, selectedAiModel, setFiles, setConversionResults]);
+  }, [files, selectedAiModel, conversionSettings, setFiles, setConversionResults]);
 
-  const handleConvertAllByType = useCallback(async (type: 'table' | 'procedure' | 'trigger' | 'other') => {
-    const typeFiles = files.filter(f => f.type === type && f.conversionStatus === 'pending');
+  const handleConvertAllByType = useCallback(async (type: CodeFileType) => {
+    const typeFiles = sortByDependencyOrder(
+      files.filter(f => f.type === type && f.conversionStatus === 'pending'),
+      buildDependencyGraph(files),
+      f => f.id
+    );
     if (typeFiles.length === 0) return;
 
     setIsConverting(true);
+    // Table DDL from every uploaded file, not only the files being converted
+    const context = buildConversionContext(files, conversionSettings);
     
     for (const file of typeFiles) {
       setConvertingFileIds([file.id]);
       try {
-        const result = await convertSybaseToOracle(file, selectedAiModel);
+        const result = await convertSybaseToOracle(file, selectedAiModel, undefined, true, context);
         
         const conversionResult: ConversionResult = {
           id: result.id,
@@ -114,13 +135,17 @@ export const useConversionLogic = (
             name: file.name,
             content: file.content,
             type: file.type,
-            status: 'pending'
+            status: 'pending',
+            source: file.source
           },
           convertedCode: result.convertedCode,
           issues: result.issues,
           dataTypeMapping: result.dataTypeMapping,
           performance: result.performance,
-          status: result.status
+          status: result.status,
+          callerContracts: result.callerContracts,
+          identifierMappings: result.identifierMappings,
+          functionUsage: result.functionUsage
         };
         
         setConversionResults(prev => [...prev, conversionResult]);
@@ -133,7 +158,10 @@ export const useConversionLogic = (
                 convertedContent: result.convertedCode,
                 dataTypeMapping: result.dataTypeMapping,
                 issues: result.issues,
-                performanceMetrics: result.performance
+                performanceMetrics: result.performance,
+                callerContracts: result.callerContracts,
+                identifierMappings: result.identifierMappings,
+                functionUsage: result.functionUsage
               }
             : f
         ));
@@ -141,7 +169,7 @@ export const useConversionLogic = (
         await supabase.from('migration_files').update({
           conversion_status: mapConversionStatus(result.status),
           converted_content: result.convertedCode
-        }).eq('file_name', file.name);
+        }).eq('id', file.id);
       } catch (error) {
         console.error(`Conversion failed for ${file.name}:`, error);
         setFiles(prev => prev.map(f => 
@@ -152,13 +180,14 @@ export const useConversionLogic = (
     
     setConvertingFileIds([]);
     setIsConverting(false);
-  }, [files, selectedAiModel, setFiles, setConversionResults]);
+  }, [files, selectedAiModel, conversionSettings, setFiles, setConversionResults]);
 
   const handleConvertAll = useCallback(async () => {
     const pendingFiles = files.filter(f => f.conversionStatus === 'pending');
     if (pendingFiles.length === 0) return;
 
     setIsConverting(true);
+    const context = buildConversionContext(files, conversionSettings);
 
     // Helper to process a batch of files in parallel
     const processBatch = async (batch: FileItem[]) => {
@@ -166,7 +195,7 @@ export const useConversionLogic = (
       await Promise.all(
         batch.map(async (file) => {
           try {
-            const result = await convertSybaseToOracle(file, selectedAiModel);
+            const result = await convertSybaseToOracle(file, selectedAiModel, undefined, true, context);
 
             const conversionResult: ConversionResult = {
               id: result.id,
@@ -175,13 +204,17 @@ export const useConversionLogic = (
                 name: file.name,
                 content: file.content,
                 type: file.type,
-                status: 'pending'
+                status: 'pending',
+                source: file.source
               },
               convertedCode: result.convertedCode,
               issues: result.issues,
               dataTypeMapping: result.dataTypeMapping,
               performance: result.performance,
-              status: result.status
+              status: result.status,
+              callerContracts: result.callerContracts,
+              identifierMappings: result.identifierMappings,
+              functionUsage: result.functionUsage
             };
 
             setConversionResults(prev => [...prev, conversionResult]);
@@ -194,7 +227,10 @@ export const useConversionLogic = (
                     convertedContent: result.convertedCode,
                     dataTypeMapping: result.dataTypeMapping,
                     issues: result.issues,
-                    performanceMetrics: result.performance
+                    performanceMetrics: result.performance,
+                    callerContracts: result.callerContracts,
+                    identifierMappings: result.identifierMappings,
+                    functionUsage: result.functionUsage
                   }
                 : f
             ));
@@ -202,7 +238,7 @@ export const useConversionLogic = (
             await supabase.from('migration_files').update({
               conversion_status: mapConversionStatus(result.status),
               converted_content: result.convertedCode
-            }).eq('file_name', file.name);
+            }).eq('id', file.id);
           } catch (error) {
             console.error(`Conversion failed for ${file.name}:`, error);
             setFiles(prev => prev.map(f =>
@@ -215,14 +251,19 @@ export const useConversionLogic = (
       );
     };
 
-    // Process in batches of 5
-    for (let i = 0; i < pendingFiles.length; i += 5) {
-      const batch = pendingFiles.slice(i, i + 5);
-      await processBatch(batch);
+    // Convert one dependency level at a time so that referenced objects are converted
+    // before the files that use them; files within a level go in batches of 5
+    const graph = buildDependencyGraph(files);
+    for (const level of graph.levels) {
+      const levelFiles = pendingFiles.filter(f => level.includes(f.id));
+      for (let i = 0; i < levelFiles.length; i += 5) {
+        const batch = levelFiles.slice(i, i + 5);
+        await processBatch(batch);
+      }
     }
 
     setIsConverting(false);
-  }, [files, selectedAiModel, setFiles, setConversionResults]);
+  }, [files, selectedAiModel, conversionSettings, setFiles, setConversionResults]);
 
   const handleFixFile = useCallback(async (fileId: string) => {
     setIsConverting(true);
@@ -233,8 +274,14 @@ export const useConversionLogic = (
         console.error('File not found');
         return;
       }
-      // Re-run the conversion logic for the failed file
-      const result = await convertSybaseToOracle(fileToFix, selectedAiModel);
+      // Ask the model to fix the reported issues, or re-run the conversion if there is nothing to fix yet
+      const result = await fixConvertedCode(
+        fileToFix,
+        fileToFix.convertedContent || '',
+        fileToFix.issues || [],
+        selectedAiModel,
+        buildConversionContext(files, conversionSettings)
+      );
       const conversionResult: ConversionResult = {
         id: result.id,
         originalFile: {
@@ -242,13 +289,17 @@ export const useConversionLogic = (
           name: fileToFix.name,
           content: fileToFix.content,
           type: fileToFix.type,
-          status: 'pending'
+          status: 'pending',
+          source: fileToFix.source
         },
         convertedCode: result.convertedCode,
         issues: result.issues,
         dataTypeMapping: result.dataTypeMapping,
         performance: result.performance,
-        status: result.status
+        status: result.status,
+        callerContracts: result.callerContracts,
+        identifierMappings: result.identifierMappings,
+        functionUsage: result.functionUsage
       };
       setConversionResults(prev => [...prev, conversionResult]);
       setFiles(prev => prev.map(f =>
@@ -259,7 +310,10 @@ export const useConversionLogic = (
               convertedContent: result.convertedCode,
               dataTypeMapping: result.dataTypeMapping,
               issues: result.issues,
-              performanceMetrics: result.performance
+              performanceMetrics: result.performance,
+              callerContracts: result.callerContracts,
+              identifierMappings: result.identifierMappings,
+              functionUsage: result.functionUsage
             }
           : f
       ));
@@ -283,7 +337,7 @@ export const useConversionLogic = (
       setConvertingFileIds([]);
       setIsConverting(false);
     }
-  }, [files, selectedAiModel, setFiles, setConversionResults, toast, mapConversionStatus]);
+  }, [files, selectedAiModel, conversionSettings, setFiles, setConversionResults, toast, mapConversionStatus]);
 
   const handleGenerateReport = useCallback(async (): Promise<ConversionReport> => {
     const conversionResults: ConversionResult[] = files.map(file => ({
@@ -293,7 +347,8 @@ export const useConversionLogic = (
         name: file.name,
         content: file.content,
         type: file.type,
-        status: 'pending'
+        status: 'pending',
+        source: file.source
       },
       convertedCode: file.convertedContent || '',
       issues: file.issues || [],
@@ -301,9 +356,17 @@ export const useConversionLogic = (
       status: file.conversionStatus === 'success' ? 'success' : 
               file.conversionStatus === 'failed' ? 'error' : 'warning',
       dataTypeMapping: file.dataTypeMapping || [],
+      callerContracts: file.callerContracts,
+      identifierMappings: file.identifierMappings,
+      functionUsage: file.functionUsage,
     }));
+    // The global temporary tables the converted files rely on are deployed with them
+    const tempTables = convertSharedTempTables(files, buildConversionContext(files, conversionSettings));
+    if (tempTables) conversionResults.push(tempTables);
+    // Grouped procedures are reported, downloaded and deployed as packages
+    const packagedResults = buildPackages(conversionResults, packageGroups, conversionSettings.naming);
 
-    const reportSummary = generateConversionReport(conversionResults);
+    const reportSummary = generateConversionReport(packagedResults);
 
     return {
       timestamp: new Date().toISOString(),
@@ -311,10 +374,10 @@ export const useConversionLogic = (
       successCount: files.filter(f => f.conversionStatus === 'success').length,
       warningCount: 0,
       errorCount: files.filter(f => f.conversionStatus === 'failed').length,
-      results: conversionResults,
+      results: packagedResults,
       summary: reportSummary,
     };
-  }, [files]);
+  }, [files, conversionSettings, packageGroups]);
 
   return {
     isConverting,
@@ -5,12 +5,18 @@ import { Button } from '@/components/ui/button';
 import { FileText, Download } from 'lucide-react';
 import FileTreeView from '@/components/FileTreeView';
 import ConversionViewer from '@/components/ConversionViewer';
+import AIModelSelector from '@/components/AIModelSelector';
+import ConversionSettingsPanel from '@/components/ConversionSettingsPanel';
+import DependencyGraphView from '@/components/DependencyGraphView';
+import PackageGroupsPanel from '@/components/PackageGroupsPanel';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CallerContract, CodeFileType, ConversionSettings, FunctionUsage, IdentifierMapping, PackageGroup } from '@/types';
 
 interface FileItem {
   id: string;
   name: string;
   path: string;
-  type: 'table' | 'procedure' | 'trigger' | 'other';
+  type: CodeFileType;
   content: string;
   conversionStatus: 'pending' | 'success' | 'failed';
   convertedContent?: string;
@@ -18,6 +24,9 @@ interface FileItem {
   dataTypeMapping?: any[];
   issues?: any[];
   performanceMetrics?: any;
+  callerContracts?: CallerContract[];
+  identifierMappings?: IdentifierMapping[];
+  functionUsage?: FunctionUsage[];
 }
 
 interface ConversionPanelProps {
@@ -27,7 +36,7 @@ interface ConversionPanelProps {
   convertingFileIds: string[];
   onFileSelect: (file: FileItem) => void;
   onConvertFile: (fileId: string) => void;
-  onConvertAllByType: (type: 'table' | 'procedure' | 'trigger' | 'other') => void;
+  onConvertAllByType: (type: CodeFileType) => void;
   onConvertAll: () => void;
   onFixFile: (fileId: string) => void;
   onManualEdit: (newContent: string) => void;
@@ -35,6 +44,12 @@ interface ConversionPanelProps {
   onGenerateReport: () => void;
   onUploadRedirect: () => void;
   onClear: () => void;
+  selectedAiModel: string;
+  onAiModelChange: (model: string) => void;
+  conversionSettings: ConversionSettings;
+  onConversionSettingsChange: (settings: ConversionSettings) => void;
+  packageGroups: PackageGroup[];
+  onPackageGroupsChange: (groups: PackageGroup[]) => void;
 }
 
 const ConversionPanel: React.FC<ConversionPanelProps> = ({
@@ -52,6 +67,12 @@ const ConversionPanel: React.FC<ConversionPanelProps> = ({
   onGenerateReport,
   onUploadRedirect,
   onClear,
+  selectedAiModel,
+  onAiModelChange,
+  conversionSettings,
+  onConversionSettingsChange,
+  packageGroups,
+  onPackageGroupsChange,
 }) => {
   if (files.length === 0) {
     return (
@@ -73,19 +94,36 @@ const ConversionPanel: React.FC<ConversionPanelProps> = ({
 
   return (
     <div className="grid grid-cols-12 gap-6">
-      <div className="col-span-4">
-        <FileTreeView
-          files={files}
-          onFileSelect={onFileSelect}
-          onConvertFile={onConvertFile}
-          onConvertAllByType={onConvertAllByType}
-          onConvertAll={onConvertAll}
-          onFixFile={onFixFile}
-          selectedFile={selectedFile}
-          isConverting={isConverting}
-          convertingFileIds={convertingFileIds}
-          onClear={onClear}
-        />
+      <div className="col-span-4 space-y-4">
+        <AIModelSelector selectedModel={selectedAiModel} onModelChange={onAiModelChange} />
+        <ConversionSettingsPanel settings={conversionSettings} onSettingsChange={onConversionSettingsChange} />
+        <Tabs defaultValue="files">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="files">Files</TabsTrigger>
+            <TabsTrigger value="dependencies">Dependencies</TabsTrigger>
+            <TabsTrigger value="packages">Packages</TabsTrigger>
+          </TabsList>
+          <TabsContent value="files">
+            <FileTreeView
+              files={files}
+              onFileSelect={onFileSelect}
+              onConvertFile={onConvertFile}
+              onConvertAllByType={onConvertAllByType}
+              onConvertAll={onConvertAll}
+              onFixFile={onFixFile}
+              selectedFile={selectedFile}
+              isConverting={isConverting}
+              convertingFileIds={convertingFileIds}
+              onClear={onClear}
+            />
+          </TabsContent>
+          <TabsContent value="dependencies">
+            <DependencyGraphView files={files} selectedFile={selectedFile} onFileSelect={onFileSelect} />
+          </TabsContent>
+          <TabsContent value="packages">
+            <PackageGroupsPanel files={files} groups={packageGroups} onGroupsChange={onPackageGroupsChange} />
+          </TabsContent>
+        </Tabs>
       </div>
 
       <div className="col-span-8">
@@ -2,12 +2,14 @@ import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { CallerContract, CodeFileSource, CodeFileType, ConversionSettings, FunctionUsage, IdentifierMapping } from '@/types';
+import { DEFAULT_CONVERSION_SETTINGS, conversionSettingsJson, parseConversionSettings } from '@/utils/conversionSettings';
 
 interface FileItem {
   id: string;
   name: string;
   path: string;
-  type: 'table' | 'procedure' | 'trigger' | 'other';
+  type: CodeFileType;
   content: string;
   conversionStatus: 'pending' | 'success' | 'failed';
   convertedContent?: string;
@@ -15,12 +17,17 @@ interface FileItem {
   dataTypeMapping?: any[];
   issues?: any[];
   performanceMetrics?: any;
+  callerContracts?: CallerContract[];
+  identifierMappings?: IdentifierMapping[];
+  functionUsage?: FunctionUsage[];
+  source?: CodeFileSource;
 }
 
 export const useMigrationManager = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [currentMigrationId, setCurrentMigrationId] = useState<string | null>(null);
+  const [conversionSettings, setConversionSettings] = useState<ConversionSettings>(DEFAULT_CONVERSION_SETTINGS);
 
   const startNewMigration = useCallback(async () => {
     if (!user) return;
@@ -30,7 +37,8 @@ export const useMigrationManager = () => {
         .from('migrations')
         .insert({ 
           user_id: user.id,
-          project_name: `Migration_${new Date().toLocaleTimeString('en-GB', { hour12: false }).replace(/:/g, '')}`
+          project_name: `Migration_${new Date().toLocaleTimeString('en-GB', { hour12: false }).replace(/:/g, '')}`,
+          conversion_settings: conversionSettingsJson(conversionSettings),
         })
         .select()
         .single();
@@ -48,8 +56,82 @@ export const useMigrationManager = () => {
     } catch (error) {
       console.error('Error starting new migration:', error);
     }
+  }, [user, toast, conversionSettings]);
+
+  // Continue a saved migration: its files and the settings it was converted with
+  const openMigration = useCallback(async (migrationId: string): Promise<FileItem[] | null> => {
+    if (!user) return null;
+    const { data: migration, error } = await supabase
+      .from('migrations')
+      .select('id, conversion_settings')
+      .eq('id', migrationId)
+      .eq('user_id', user.id)
+      .single();
+    if (error || !migration) {
+      console.error('Error opening migration:', error);
+      toast({
+        title: "Migration Error",
+        description: "Failed to open the migration",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    const { data: files, error: filesError } = await supabase
+      .from('migration_files')
+      .select('*')
+      .eq('migration_id', migrationId)
+      .order('created_at', { ascending: true });
+    if (filesError) {
+      console.error('Error fetching migration files:', filesError);
+      toast({
+        title: "Migration Error",
+        description: "Failed to fetch the files of the migration",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    setCurrentMigrationId(migration.id);
+    setConversionSettings(parseConversionSettings(migration.conversion_settings));
+    return (files || []).map(file => ({
+      id: file.id,
+      name: file.file_name,
+      path: file.file_path,
+      type: file.file_type as CodeFileType,
+      content: file.original_content ?? '',
+      conversionStatus: ['success', 'failed'].includes(file.conversion_status)
+        ? file.conversion_status as 'success' | 'failed'
+        : 'pending',
+      convertedContent: file.converted_content ?? undefined,
+      errorMessage: file.error_message ?? undefined,
+      dataTypeMapping: [],
+      issues: [],
+      performanceMetrics: undefined,
+      source: file.source_file_name
+        ? { fileName: file.source_file_name, startLine: file.source_start_line ?? 1, endLine: file.source_end_line ?? 1 }
+        : undefined,
+    }));
   }, [user, toast]);
 
+  // Settings chosen before the first upload are saved when the migration is created
+  const updateConversionSettings = useCallback(async (settings: ConversionSettings) => {
+    setConversionSettings(settings);
+    if (!currentMigrationId) return;
+    const { error } = await supabase
+      .from('migrations')
+      .update({ conversion_settings: conversionSettingsJson(settings) })
+      .eq('id', currentMigrationId);
+    if (error) {
+      console.error('Error saving conversion settings:', error);
+      toast({
+        title: "Settings Not Saved",
+        description: "Failed to save the conversion settings of this migration",
+        variant: "destructive",
+      });
+    }
+  }, [currentMigrationId, toast]);
+
   const handleCodeUpload = useCallback(async (uploadedFiles: any[]): Promise<FileItem[]> => {
     // Ensure a migration exists before uploading files
     if (!currentMigrationId) {
@@ -68,7 +150,7 @@ export const useMigrationManager = () => {
     const convertedFiles: FileItem[] = uploadedFiles.map(file => ({
       id: file.id,
       name: file.name,
-      path: file.name,
+      path: file.path || file.name,
       type: file.type,
       content: file.content,
       conversionStatus: 'pending' as const,
@@ -77,6 +159,7 @@ export const useMigrationManager = () => {
       performanceMetrics: undefined,
       convertedContent: undefined,
       errorMessage: undefined,
+      source: file.source,
     }));
     try {
       if (!migrationId) {
@@ -89,13 +172,18 @@ export const useMigrationManager = () => {
         return convertedFiles;
       }
       for (const file of convertedFiles) {
+        // The row keeps the file's id, so deployment results can be matched to it
         await supabase.from('migration_files').insert({
+          id: file.id,
           migration_id: migrationId,
           file_name: file.name,
           file_path: file.path,
           file_type: file.type,
           original_content: file.content,
           conversion_status: 'pending',
+          source_file_name: file.source?.fileName,
+          source_start_line: file.source?.startLine,
+          source_end_line: file.source?.endLine,
         });
       }
       toast({
@@ -115,7 +203,10 @@ export const useMigrationManager = () => {
 
   return {
     currentMigrationId,
+    conversionSettings,
+    updateConversionSettings,
     handleCodeUpload,
     startNewMigration,
+    openMigration,
   };
 };
@@ -14,14 +14,134 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_usage: {
+        Row: {
+          completion_tokens: number | null
+          created_at: string
+          duration_ms: number
+          error_message: string | null
+          file_name: string | null
+          id: string
+          input_chars: number
+          model: string
+          operation: string
+          output_chars: number
+          prompt_tokens: number | null
+          provider: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number | null
+          created_at?: string
+          duration_ms?: number
+          error_message?: string | null
+          file_name?: string | null
+          id?: string
+          input_chars?: number
+          model: string
+          operation: string
+          output_chars?: number
+          prompt_tokens?: number | null
+          provider: string
+          status: string
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number | null
+          created_at?: string
+          duration_ms?: number
+          error_message?: string | null
+          file_name?: string | null
+          id?: string
+          input_chars?: number
+          model?: string
+          operation?: string
+          output_chars?: number
+          prompt_tokens?: number | null
+          provider?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      deployment_file_results: {
+        Row: {
+          created_at: string
+          deployment_id: string
+          duration_ms: number
+          error_code: string | null
+          error_column: number | null
+          error_line: number | null
+          error_message: string | null
+          errors: Json
+          execution_order: number
+          file_name: string
+          id: string
+          migration_file_id: string | null
+          statements_executed: number
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          deployment_id: string
+          duration_ms?: number
+          error_code?: string | null
+          error_column?: number | null
+          error_line?: number | null
+          error_message?: string | null
+          errors?: Json
+          execution_order: number
+          file_name: string
+          id?: string
+          migration_file_id?: string | null
+          statements_executed?: number
+          status: string
+        }
+        Update: {
+          created_at?: string
+          deployment_id?: string
+          duration_ms?: number
+          error_code?: string | null
+          error_column?: number | null
+          error_line?: number | null
+          error_message?: string | null
+          errors?: Json
+          execution_order?: number
+          file_name?: string
+          id?: string
+          migration_file_id?: string | null
+          statements_executed?: number
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deployment_file_results_deployment_id_fkey"
+            columns: ["deployment_id"]
+            isOneToOne: false
+            referencedRelation: "deployment_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deployment_file_results_migration_file_id_fkey"
+            columns: ["migration_file_id"]
+            isOneToOne: false
+            referencedRelation: "migration_files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       deployment_logs: {
         Row: {
           created_at: string
           error_message: string | null
           file_count: number
           id: string
+          kind: string
           lines_of_sql: number
           migration_id: string | null
+          rollback_of: string | null
+          rollback_script: string | null
           status: string
           user_id: string | null
         }
@@ -30,8 +150,11 @@ export type Database = {
           error_message?: string | null
           file_count?: number
           id?: string
+          kind?: string
           lines_of_sql?: number
           migration_id?: string | null
+          rollback_of?: string | null
+          rollback_script?: string | null
           status: string
           user_id?: string | null
         }
@@ -40,12 +163,30 @@ export type Database = {
           error_message?: string | null
           file_count?: number
           id?: string
+          kind?: string
           lines_of_sql?: number
           migration_id?: string | null
+          rollback_of?: string | null
+          rollback_script?: string | null
           status?: string
           user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "deployment_logs_rollback_of_fkey"
+            columns: ["rollback_of"]
+            isOneToOne: false
+            referencedRelation: "deployment_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deployment_logs_migration_id_fkey"
+            columns: ["migration_id"]
+            isOneToOne: false
+            referencedRelation: "migrations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       migration_files: {
         Row: {
@@ -53,15 +194,20 @@ export type Database = {
           converted_content: string | null
           created_at: string
           data_type_mapping: Json | null
+          deployment_status: string
           error_message: string | null
           file_name: string
           file_path: string
           file_type: string
           id: string
           issues: Json | null
+          last_deployed_at: string | null
           migration_id: string
           original_content: string | null
           performance_metrics: Json | null
+          source_end_line: number | null
+          source_file_name: string | null
+          source_start_line: number | null
           syntax_differences: Json | null
           updated_at: string
         }
@@ -70,15 +216,20 @@ export type Database = {
           converted_content?: string | null
           created_at?: string
           data_type_mapping?: Json | null
+          deployment_status?: string
           error_message?: string | null
           file_name: string
           file_path: string
           file_type: string
           id?: string
           issues?: Json | null
+          last_deployed_at?: string | null
           migration_id: string
           original_content?: string | null
           performance_metrics?: Json | null
+          source_end_line?: number | null
+          source_file_name?: string | null
+          source_start_line?: number | null
           syntax_differences?: Json | null
           updated_at?: string
         }
@@ -87,15 +238,20 @@ export type Database = {
           converted_content?: string | null
           created_at?: string
           data_type_mapping?: Json | null
+          deployment_status?: string
           error_message?: string | null
           file_name?: string
           file_path?: string
           file_type?: string
           id?: string
           issues?: Json | null
+          last_deployed_at?: string | null
           migration_id?: string
           original_content?: string | null
           performance_metrics?: Json | null
+          source_end_line?: number | null
+          source_file_name?: string | null
+          source_start_line?: number | null
           syntax_differences?: Json | null
           updated_at?: string
         }
@@ -135,6 +291,7 @@ export type Database = {
       }
       migrations: {
         Row: {
+          conversion_settings: Json
           created_at: string
           folder_structure: Json | null
           id: string
@@ -143,6 +300,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          conversion_settings?: Json
           created_at?: string
           folder_structure?: Json | null
           id?: string
@@ -151,6 +309,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          conversion_settings?: Json
           created_at?: string
           folder_structure?: Json | null
           id?: string
@@ -1,11 +1,11 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Database, FileText, Upload, Clock, BarChart3 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
-import { ConversionResult, ConversionReport } from '@/types';
+import { CallerContract, CodeFileType, ConversionResult, ConversionReport, FunctionUsage, IdentifierMapping, PackageGroup } from '@/types';
 
 import CodeUploader from '@/components/CodeUploader';
 import ReportViewer from '@/components/ReportViewer';
@@ -17,12 +17,13 @@ import PerformanceMetricsDashboard from '@/components/PerformanceMetricsDashboar
 import { useConversionLogic } from '@/components/dashboard/ConversionLogic';
 import { useMigrationManager } from '@/components/dashboard/MigrationManager';
 import { useUnreviewedFiles } from '@/hooks/useUnreviewedFiles';
+import { DEFAULT_AI_MODEL } from '@/utils/aiProviders';
 
 interface FileItem {
   id: string;
   name: string;
   path: string;
-  type: 'table' | 'procedure' | 'trigger' | 'other';
+  type: CodeFileType;
   content: string;
   conversionStatus: 'pending' | 'success' | 'failed';
   convertedContent?: string;
@@ -30,6 +31,9 @@ interface FileItem {
   dataTypeMapping?: any[];
   issues?: any[];
   performanceMetrics?: any;
+  callerContracts?: CallerContract[];
+  identifierMappings?: IdentifierMapping[];
+  functionUsage?: FunctionUsage[];
 }
 
 const Dashboard = () => {
@@ -44,12 +48,13 @@ const Dashboard = () => {
   const [files, setFiles] = useState<FileItem[]>([]);
   const [selectedFile, setSelectedFile] = useState<FileItem | null>(null);
   const [conversionResults, setConversionResults] = useState<ConversionResult[]>([]);
-  const [selectedAiModel, setSelectedAiModel] = useState<string>('gemini-2.5-pro');
+  const [selectedAiModel, setSelectedAiModel] = useState<string>(DEFAULT_AI_MODEL);
   const [report, setReport] = useState<ConversionReport | null>(null);
   const [showReport, setShowReport] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
+  const [packageGroups, setPackageGroups] = useState<PackageGroup[]>([]);
 
-  const { handleCodeUpload } = useMigrationManager();
+  const { handleCodeUpload, currentMigrationId, conversionSettings, updateConversionSettings, openMigration } = useMigrationManager();
   const { unreviewedFiles } = useUnreviewedFiles();
   const {
     isConverting,
@@ -59,7 +64,7 @@ const Dashboard = () => {
     handleConvertAll,
     handleFixFile,
     handleGenerateReport,
-  } = useConversionLogic(files, setFiles, setConversionResults, selectedAiModel);
+  } = useConversionLogic(files, setFiles, setConversionResults, selectedAiModel, conversionSettings, packageGroups);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -68,6 +73,22 @@ const Dashboard = () => {
     }
   }, [user, loading, navigate]);
 
+  // Opened from the history page: continue that migration with the settings saved with it
+  const openMigrationId = location.state?.migrationId as string | undefined;
+  const openedMigrationId = useRef<string | null>(null);
+  useEffect(() => {
+    if (!user || !openMigrationId || openedMigrationId.current === openMigrationId) return;
+    openedMigrationId.current = openMigrationId;
+    openMigration(openMigrationId).then(openedFiles => {
+      if (!openedFiles) return;
+      setFiles(openedFiles);
+      setSelectedFile(null);
+      setConversionResults([]);
+      setPackageGroups([]);
+      setActiveTab('conversion');
+    });
+  }, [user, openMigrationId, openMigration]);
+
   useEffect(() => {
     if (files.length > 0 && !selectedFile) {
       const firstConvertedFile = files.find(f => f.convertedContent);
@@ -153,6 +174,7 @@ const Dashboard = () => {
     setFiles([]);
     setSelectedFile(null);
     setConversionResults([]);
+    setPackageGroups([]);
     setActiveTab('upload');
   };
 
@@ -184,6 +206,7 @@ const Dashboard = () => {
           <ReportViewer 
             report={report} 
             onBack={() => setShowReport(false)} 
+            migrationId={currentMigrationId}
           />
         </main>
       </div>
@@ -244,6 +267,12 @@ const Dashboard = () => {
               onGenerateReport={handleGenerateReportWrapper}
               onUploadRedirect={handleResetAndUpload}
               onClear={handleResetAndUpload}
+              selectedAiModel={selectedAiModel}
+              onAiModelChange={setSelectedAiModel}
+              conversionSettings={conversionSettings}
+              onConversionSettingsChange={updateConversionSettings}
+              packageGroups={packageGroups}
+              onPackageGroupsChange={setPackageGroups}
             />
           </TabsContent>
 
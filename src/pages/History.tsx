@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, Database, FileText, Home, Eye, Download, Trash2, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { ArrowLeft, Database, FileText, Home, Eye, Download, Trash2, CheckCircle, XCircle, AlertCircle, FileArchive, FolderOpen } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
@@ -9,13 +9,19 @@ import UserDropdown from '@/components/UserDropdown';
 import HomeButton from '@/components/HomeButton';
 import { format } from 'date-fns';
 import CodeDiffViewer from '@/components/CodeDiffViewer';
+import DeploymentFileResults from '@/components/DeploymentFileResults';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogClose } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
+import JSZip from 'jszip';
+import { buildDataMigrationScripts } from '@/utils/dataMigration';
+import { parseConversionSettings } from '@/utils/conversionSettings';
+import { CodeFileType, ConversionSettings } from '@/types';
 
 interface Migration {
   id: string;
   project_name: string;
   created_at: string;
+  conversion_settings: ConversionSettings;
   file_count: number;
   success_count: number;
   failed_count: number;
@@ -30,10 +36,18 @@ interface MigrationFile {
   original_content: string;
   converted_content: string | null;
   conversion_status: 'pending' | 'success' | 'failed';
+  deployment_status: string;
   error_message: string | null;
   created_at: string;
 }
 
+interface Deployment {
+  id: string;
+  created_at: string;
+  status: string;
+  file_count: number;
+}
+
 const History = () => {
   const { user, profile, loading } = useAuth();
   const { toast } = useToast();
@@ -43,6 +57,8 @@ const History = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [selectedMigrationId, setSelectedMigrationId] = useState<string | null>(null);
   const [migrationFiles, setMigrationFiles] = useState<MigrationFile[]>([]);
+  const [deployments, setDeployments] = useState<Deployment[]>([]);
+  const [expandedDeploymentId, setExpandedDeploymentId] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<MigrationFile | null>(null);
   const [showCodeDialog, setShowCodeDialog] = useState(false);
   const isFetchingFiles = useRef(false);
@@ -72,6 +88,7 @@ const History = () => {
           id,
           project_name,
           created_at,
+          conversion_settings,
           migration_files (
             id,
             conversion_status
@@ -94,6 +111,7 @@ const History = () => {
             id: migration.id,
             project_name: migration.project_name,
             created_at: migration.created_at,
+            conversion_settings: parseConversionSettings(migration.conversion_settings),
             file_count: files.length,
             success_count: files.filter((f: any) => f.conversion_status === 'success').length,
             failed_count: files.filter((f: any) => f.conversion_status === 'failed').length,
@@ -124,6 +142,12 @@ const History = () => {
     navigate('/');
   };
 
+  // Continue a migration on the dashboard, with the settings it was converted with
+  const handleOpenMigration = (e: React.MouseEvent, migrationId: string) => {
+    e.stopPropagation();
+    navigate('/migration', { state: { migrationId, activeTab: 'conversion' } });
+  };
+
   // Fetch files for a migration
   const fetchMigrationFiles = async (migrationId: string) => {
     if (isFetchingFiles.current) return;
@@ -155,6 +179,15 @@ const History = () => {
       }));
       
       setMigrationFiles(typedFiles);
+
+      const { data: deploymentData, error: deploymentError } = await supabase
+        .from('deployment_logs')
+        .select('id, created_at, status, file_count')
+        .eq('migration_id', migrationId)
+        .order('created_at', { ascending: false });
+      if (deploymentError) console.error('Error fetching deployments:', deploymentError);
+      setDeployments(deploymentData || []);
+      setExpandedDeploymentId(null);
     } catch (err) {
       console.error('Error in fetchMigrationFiles:', err);
       setMigrationFiles([]);
@@ -169,6 +202,7 @@ const History = () => {
       // Collapse if already selected
       setSelectedMigrationId(null);
       setMigrationFiles([]);
+      setDeployments([]);
     } else {
       setSelectedMigrationId(migrationId);
       await fetchMigrationFiles(migrationId);
@@ -203,6 +237,58 @@ const History = () => {
     });
   };
 
+  // bcp, SQL*Loader and external table scripts for the tables uploaded in a migration
+  const handleDownloadDataScripts = async (e: React.MouseEvent, migration: Migration) => {
+    e.stopPropagation();
+    
+    const { data, error } = await supabase
+      .from('migration_files')
+      .select('id, file_name, file_type, original_content')
+      .eq('migration_id', migration.id)
+      .order('created_at', { ascending: true });
+    if (error) {
+      console.error('Error fetching migration files:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch the migration files",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    const scripts = buildDataMigrationScripts((data || []).map(file => ({
+      id: file.id,
+      name: file.file_name,
+      content: file.original_content,
+      type: file.file_type as CodeFileType,
+    })), migration.conversion_settings);
+    if (scripts.length === 0) {
+      toast({
+        title: "No Tables Found",
+        description: "This migration has no table definitions, so there is no data to migrate.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    const zip = new JSZip();
+    scripts.forEach(script => zip.file(script.fileName, script.content));
+    const content = await zip.generateAsync({ type: 'blob' });
+    const url = URL.createObjectURL(content);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${migration.project_name}_data_migration.zip`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    
+    toast({
+      title: "Downloaded",
+      description: `Data migration scripts for ${migration.project_name} have been downloaded`,
+    });
+  };
+
   // Delete migration
   const handleDeleteMigration = async (e: React.MouseEvent, migrationId: string) => {
     e.stopPropagation();
@@ -279,6 +365,17 @@ const History = () => {
     }
   };
 
+  const getDeploymentStatusColor = (status: string) => {
+    switch (status) {
+      case 'deployed':
+        return 'bg-green-100 text-green-800';
+      case 'failed':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-600';
+    }
+  };
+
   // Get status color
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -452,6 +549,22 @@ const History = () => {
                               >
                                 <Eye className="h-4 w-4" />
                               </Button>
+                              <Button 
+                                size="sm" 
+                                variant="ghost"
+                                onClick={(e) => handleOpenMigration(e, migration.id)}
+                                title="Open Migration"
+                              >
+                                <FolderOpen className="h-4 w-4" />
+                              </Button>
+                              <Button 
+                                size="sm" 
+                                variant="ghost"
+                                onClick={(e) => handleDownloadDataScripts(e, migration)}
+                                title="Download Data Migration Scripts"
+                              >
+                                <FileArchive className="h-4 w-4" />
+                              </Button>
                               <Button 
                                 size="sm" 
                                 variant="ghost"
@@ -481,6 +594,12 @@ const History = () => {
                                   <span className={`inline-block px-2 py-1 rounded-full text-xs font-semibold ${getStatusColor(file.conversion_status)}`}>
                                     {file.conversion_status.charAt(0).toUpperCase() + file.conversion_status.slice(1)}
                                   </span>
+                                  <span
+                                    className={`inline-block px-2 py-1 rounded-full text-xs ${getDeploymentStatusColor(file.deployment_status)}`}
+                                    title="Deployment status"
+                                  >
+                                    {file.deployment_status === 'not_deployed' ? 'Not deployed' : file.deployment_status === 'deployed' ? 'Deployed' : 'Deploy failed'}
+                                  </span>
                                 </div>
                               </td>
                               <td className="px-4 py-2 text-center">
@@ -507,6 +626,33 @@ const History = () => {
                           ))
                         )}
                         
+                        {selectedMigrationId === migration.id && deployments.length > 0 && (
+                          <tr className="bg-gray-50">
+                            <td colSpan={7} className="px-8 py-3">
+                              <div className="text-xs font-semibold uppercase text-gray-500 mb-2">Deployments</div>
+                              <div className="space-y-2">
+                                {deployments.map(deployment => (
+                                  <div key={deployment.id} className="border rounded bg-white p-2">
+                                    <div
+                                      className="flex items-center gap-2 cursor-pointer"
+                                      onClick={() => setExpandedDeploymentId(expandedDeploymentId === deployment.id ? null : deployment.id)}
+                                    >
+                                      {getStatusIcon(deployment.status === 'Success' ? 'success' : 'failed')}
+                                      <span className="text-sm">{format(new Date(deployment.created_at), 'MMM dd, yyyy HH:mm')}</span>
+                                      <span className="text-xs text-gray-500">{deployment.file_count} files</span>
+                                    </div>
+                                    {expandedDeploymentId === deployment.id && (
+                                      <div className="mt-2">
+                                        <DeploymentFileResults deploymentId={deployment.id} />
+                                      </div>
+                                    )}
+                                  </div>
+                                ))}
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+
                         {selectedMigrationId === migration.id && migrationFiles.length === 0 && (
                           <tr className="bg-gray-50">
                             <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
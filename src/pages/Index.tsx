@@ -9,9 +9,14 @@ import AIModelSelector from '@/components/AIModelSelector';
 import ReportViewer from '@/components/ReportViewer';
 import ConnectionForm from '@/components/ConnectionForm';
 import HomeButton from '@/components/HomeButton';
-import { convertSybaseToOracle, generateConversionReport } from '@/utils/conversionUtils';
+import { buildConversionContext, convertSharedTempTables, convertSybaseToOracle, generateConversionReport } from '@/utils/conversionUtils';
 import { Database as DatabaseIcon, Code, FileSearch, FileWarning, Check, RefreshCw, Play, Download, ChevronLeft } from 'lucide-react';
 import JSZip from 'jszip';
+import { buildDependencyGraph, sortByDependencyOrder } from '@/utils/dependencyGraph';
+import { TEMP_TABLES_FILE_ID } from '@/utils/tempTables';
+import { mergeSplitResults } from '@/utils/scriptSplitter';
+import { buildDataMigrationScripts } from '@/utils/dataMigration';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 
 const Index = () => {
   const { toast } = useToast();
@@ -91,7 +96,21 @@ const Index = () => {
     }
   };
   
-  const handleDownloadAllFiles = async () => {
+  const saveZip = async (zip: JSZip, fileName: string) => {
+    const content = await zip.generateAsync({ type: 'blob' });
+    
+    const url = URL.createObjectURL(content);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+  
+  const handleDownloadAllFiles = async (mergeSplitObjects = false) => {
     if (results.length === 0) {
       toast({
         title: 'No Files to Download',
@@ -104,32 +123,64 @@ const Index = () => {
     try {
       const zip = new JSZip();
       
-      results.forEach(result => {
-        const fileExtension = result.originalFile.name.includes('.') 
-          ? result.originalFile.name.split('.').pop() 
+      // Number the files in dependency order and add a script that runs them in that order.
+      // Merged scripts keep their objects in source order and run where their first object would.
+      const graph = buildDependencyGraph(results.map(result => result.originalFile));
+      const orderedResults = sortByDependencyOrder(results, graph, result => result.originalFile.id);
+      const outputs = mergeSplitObjects
+        ? mergeSplitResults(orderedResults)
+        : orderedResults.map(result => ({ fileName: result.originalFile.name, convertedCode: result.convertedCode }));
+      const width = String(outputs.length).length;
+      const installLines: string[] = [];
+      outputs.forEach((output, index) => {
+        const fileExtension = output.fileName.includes('.') 
+          ? output.fileName.split('.').pop() 
           : 'sql';
-        const baseName = result.originalFile.name.includes('.')
-          ? result.originalFile.name.substring(0, result.originalFile.name.lastIndexOf('.'))
-          : result.originalFile.name;
+        const baseName = output.fileName.includes('.')
+          ? output.fileName.substring(0, output.fileName.lastIndexOf('.'))
+          : output.fileName;
+        const fileName = `${String(index + 1).padStart(width, '0')}_${baseName}_oracle.${fileExtension}`;
         
-        zip.file(`${baseName}_oracle.${fileExtension}`, result.convertedCode);
+        zip.file(fileName, output.convertedCode);
+        installLines.push(`@@${fileName}`);
       });
+      zip.file('install.sql', `-- Run with SQL*Plus or SQLcl: @install.sql\n${installLines.join('\n')}\n`);
       
-      const content = await zip.generateAsync({ type: 'blob' });
-      
-      const url = URL.createObjectURL(content);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'oracle_converted_files.zip';
-      document.body.appendChild(a);
-      a.click();
-      
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      await saveZip(zip, 'oracle_converted_files.zip');
       
       toast({
         title: 'Files Downloaded',
-        description: `Successfully downloaded ${results.length} converted files.`,
+        description: `Successfully downloaded ${outputs.length} converted files.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Download Failed',
+        description: 'Failed to create the ZIP archive.',
+        variant: 'destructive',
+      });
+    }
+  };
+  
+  // bcp, SQL*Loader and external table scripts for the tables in this migration
+  const handleDownloadDataMigration = async () => {
+    const scripts = buildDataMigrationScripts(results.map(result => result.originalFile));
+    if (scripts.length === 0) {
+      toast({
+        title: 'No Tables Found',
+        description: 'None of the converted files creates a table, so there is no data to migrate.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    
+    try {
+      const zip = new JSZip();
+      scripts.forEach(script => zip.file(script.fileName, script.content));
+      await saveZip(zip, 'data_migration_scripts.zip');
+      
+      toast({
+        title: 'Data Migration Scripts Downloaded',
+        description: `Generated export and load scripts for ${scripts.filter(script => script.fileName.endsWith('.ctl')).length} tables.`,
       });
     } catch (error) {
       toast({
@@ -162,7 +213,12 @@ const Index = () => {
       // Find the original file from the results
       const originalFile = fileToReconvert.originalFile;
       
-      const newResult = await convertSybaseToOracle(originalFile, selectedAIModel);
+      const sourceFiles = results.map(result => result.originalFile);
+      const context = buildConversionContext(sourceFiles);
+      // The shared temporary table script is rebuilt from the files that use the tables
+      const newResult = originalFile.id === TEMP_TABLES_FILE_ID
+        ? convertSharedTempTables(sourceFiles, context) ?? fileToReconvert
+        : await convertSybaseToOracle(originalFile, selectedAIModel, undefined, true, context);
       
       setResults(prevResults => 
         prevResults.map(result => 
@@ -224,14 +280,16 @@ const Index = () => {
     try {
       const newResults: ConversionResult[] = [];
       
-      for (const file of filesToConvert) {
+      const orderedFiles = sortByDependencyOrder(filesToConvert, buildDependencyGraph(files), file => file.id);
+      const context = buildConversionContext(files);
+      for (const file of orderedFiles) {
         setFiles(prevFiles => 
           prevFiles.map(f => 
             f.id === file.id ? { ...f, status: 'converting' } : f
           )
         );
         
-        const result = await convertSybaseToOracle(file, selectedAIModel);
+        const result = await convertSybaseToOracle(file, selectedAIModel, undefined, true, context);
         newResults.push(result);
         
         setFiles(prevFiles => 
@@ -244,6 +302,9 @@ const Index = () => {
         
         await new Promise(resolve => setTimeout(resolve, 500));
       }
+      // The global temporary tables the converted files rely on
+      const tempTables = convertSharedTempTables(orderedFiles, context);
+      if (tempTables) newResults.push(tempTables);
       
       setResults(newResults);
       handleConversionComplete();
@@ -386,6 +447,7 @@ const Index = () => {
               <ReportViewer 
                 report={report}
                 onBack={() => setCurrentStep('review')}
+                migrationId={null}
               />
             ) : (
               <div className="text-center py-8">
@@ -413,17 +475,50 @@ const Index = () => {
             </div>
             
             <div className="flex gap-2">
-              {results.length > 0 && (
+              {results.length > 0 && !results.some(result => result.originalFile.source) && (
                 <Button 
                   variant="secondary" 
                   className="text-foreground hover:bg-secondary/80 border border-secondary-foreground"
-                  onClick={handleDownloadAllFiles}
+                  onClick={() => handleDownloadAllFiles()}
                 >
                   <Download className="h-4 w-4 mr-2" />
                   Download All Files
                 </Button>
               )}
               
+              {results.some(result => result.originalFile.source) && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button 
+                      variant="secondary" 
+                      className="text-foreground hover:bg-secondary/80 border border-secondary-foreground"
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      Download All Files
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent>
+                    <DropdownMenuItem onClick={() => handleDownloadAllFiles()}>
+                      One file per object
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleDownloadAllFiles(true)}>
+                      Merged back into the uploaded scripts
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              
+              {results.length > 0 && (
+                <Button 
+                  variant="secondary" 
+                  className="text-foreground hover:bg-secondary/80 border border-secondary-foreground"
+                  onClick={handleDownloadDataMigration}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Data Migration Scripts
+                </Button>
+              )}
+              
               {currentStep !== 'connection' && (
                 <Button 
                   variant="secondary" 
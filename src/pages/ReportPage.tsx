@@ -57,7 +57,7 @@ const ReportPage: React.FC = () => {
         </div>
       </header>
       <main className="container mx-auto px-4 py-8">
-        <ReportViewer report={report} onBack={() => navigate(-1)} />
+        <ReportViewer report={report} onBack={() => navigate(-1)} migrationId={null} />
       </main>
     </div>
   );
@@ -1,3 +1,5 @@
+import type { DataTypeSpec, Expression } from './tsqlAst';
+
 export type DatabaseType = 'sybase' | 'oracle';
 
 export interface DatabaseConnection {
@@ -10,12 +12,36 @@ export interface DatabaseConnection {
   connectionString?: string;
 }
 
+// Where an object split out of a multi-object script came from
+export interface CodeFileSource {
+  fileName: string;
+  startLine: number;
+  endLine: number;
+}
+
+// The kind of object a file creates; each kind has its own conversion strategy
+export type CodeFileType =
+  | 'table'
+  | 'view'
+  | 'function'
+  | 'procedure'
+  | 'trigger'
+  | 'default'
+  | 'rule'
+  | 'sequence'
+  | 'index'
+  | 'grant'
+  | 'other';
+
 export interface CodeFile {
   id: string;
   name: string;
   content: string;
-  type: 'table' | 'procedure' | 'trigger' | 'other';
+  type: CodeFileType;
   status?: 'pending' | 'converting' | 'success' | 'error';
+  source?: CodeFileSource;
+  // Path of the file within an uploaded folder, e.g. "db/orders/create_order.sql"
+  path?: string;
 }
 
 export interface ConversionResult {
@@ -27,15 +53,28 @@ export interface ConversionResult {
   performance?: PerformanceMetrics;
   status: 'success' | 'warning' | 'error';
   explanations?: string[];
+  // Procedures whose callers have to change, e.g. to read result sets from a cursor
+  callerContracts?: CallerContract[];
+  // Names the naming policy renamed in this file
+  identifierMappings?: IdentifierMapping[];
+  // Sybase built-ins the file calls, for the function coverage report
+  functionUsage?: FunctionUsage[];
+  // Set for a package generated from several converted procedures
+  oraclePackage?: OraclePackage;
 }
 
+// Area of Sybase behaviour an issue is about, so that reviewers can go through related issues together
+export type ConversionIssueCategory = 'transaction' | 'error-handling' | 'trigger' | 'dynamic-sql' | 'outer-join';
+
 export interface ConversionIssue {
   id: string;
   lineNumber?: number;
+  columnNumber?: number;
   description: string;
   severity: 'info' | 'warning' | 'error';
   suggestedFix?: string;
   originalCode?: string;
+  category?: ConversionIssueCategory;
 }
 
 export interface DataTypeMapping {
@@ -80,5 +119,235 @@ export interface ConversionReport {
 
 export type ConversionStep = 'connection' | 'upload' | 'review' | 'report';
 
+export type DatabaseObjectType = 'table' | 'view' | 'function' | 'procedure' | 'trigger' | 'default' | 'rule' | 'sequence' | 'index';
+
+export interface DatabaseObjectRef {
+  name: string;
+  type: DatabaseObjectType;
+}
+
+export interface DependencyNode {
+  fileId: string;
+  fileName: string;
+  defines: DatabaseObjectRef[];
+  // Referenced objects that no uploaded file defines
+  external: string[];
+}
+
+// "from" depends on "to": the file that defines "to" has to be created first
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  objects: string[];
+}
+
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+  // File ids in creation order
+  order: string[];
+  // Files whose dependencies all appear in earlier levels; each level can be processed in parallel
+  levels: string[][];
+  // Groups of file ids that depend on each other
+  cycles: string[][];
+}
+
+// Tables collected from all uploaded DDL, so each file is converted knowing the schema
+export interface SchemaColumn {
+  name: string;
+  dataType: DataTypeSpec;
+  nullable: boolean;
+  identity: boolean;
+}
+
+export interface SchemaForeignKey {
+  columns: string[];
+  table: string;
+  referencedColumns: string[];
+}
+
+export interface SchemaTable {
+  name: string;
+  fileId: string;
+  columns: SchemaColumn[];
+  primaryKey: string[];
+  foreignKeys: SchemaForeignKey[];
+}
+
+// A type created with sp_addtype
+export interface UserDataType {
+  name: string;
+  fileId: string;
+  // The physical Sybase type the user-defined type stands for
+  dataType: DataTypeSpec;
+}
+
+// A default or a rule created with create default / create rule
+export interface BindableObject {
+  name: string;
+  fileId: string;
+  // The default's value, or the rule's condition on a variable standing for the column
+  expression: Expression;
+  text: string;
+}
+
+export interface SchemaCatalog {
+  // Keyed by lower-case table name
+  tables: Record<string, SchemaTable>;
+  // Keyed by lower-case type name
+  types: Record<string, UserDataType>;
+  // Keyed by lower-case name
+  defaults: Record<string, BindableObject>;
+  rules: Record<string, BindableObject>;
+}
+
+// How Sybase identity columns are created in Oracle: as identity columns, or as a
+// sequence with a trigger that fills the column
+export type IdentityStyle = 'identity' | 'sequence';
+
+// How procedures hand the rows of their SELECTs back to the client: through OUT SYS_REFCURSOR
+// parameters, or as implicit results with DBMS_SQL.RETURN_RESULT
+export type ResultSetStyle = 'refcursor' | 'implicit';
+
+// How Sybase cursor loops (fetch ... while @@sqlstatus = 0) are written in Oracle: as an explicit
+// FETCH loop, a cursor FOR loop, or batches of BULK COLLECT
+export type CursorStyle = 'explicit' | 'for-loop' | 'bulk-collect';
+
+// How the case of Sybase identifiers is written in Oracle: as written (Oracle folds unquoted
+// names to upper case), folded to upper or lower case, or quoted when mixed to keep the case
+export type IdentifierCase = 'as-written' | 'upper' | 'lower' | 'quoted';
+
+// Rules for Oracle identifiers. Every file of a migration applies the same rules, so names
+// referenced across files keep matching.
+export interface NamingPolicy {
+  identifierCase: IdentifierCase;
+  // Longer names are shortened and end in a hash of the full name
+  maxLength: number;
+  // Oracle reserved words (lower case) and the names they are renamed to
+  reservedWords: Record<string, string>;
+  variablePrefix: string;
+  parameterPrefix: string;
+}
+
+// Per-migration choices for how code is converted, stored with the migration
+export interface ConversionSettings {
+  identityStyle: IdentityStyle;
+  resultSetStyle: ResultSetStyle;
+  cursorStyle: CursorStyle;
+  naming: NamingPolicy;
+  // Sybase types whose Oracle type differs from the built-in mapping, e.g. datetime to DATE
+  typeMappings: DataTypeMapping[];
+}
+
+// A Sybase name that the naming policy changed beyond case and prefixes
+export interface IdentifierMapping {
+  sybaseName: string;
+  oracleName: string;
+  reasons: ('reserved word' | 'too long')[];
+}
+
+// How the calls of one Sybase built-in function in a file were converted
+export interface FunctionUsage {
+  // Lower case
+  name: string;
+  calls: number;
+  // Calls converted through the function catalog; the others were kept as written
+  mapped: number;
+}
+
+// How the packaging step proposes groups: by name prefix, by folder, or by which procedures call each other
+export type PackageGroupingStrategy = 'prefix' | 'folder' | 'call-graph';
+
+// Procedure files that become one Oracle package
+export interface PackageGroup {
+  name: string;
+  fileIds: string[];
+}
+
+export interface OraclePackage {
+  name: string;
+  // Oracle names of the procedures in the package
+  procedures: string[];
+}
+
+// How calling a converted procedure differs from calling the Sybase one
+export interface CallerContract {
+  procedure: string;
+  sybaseSignature: string;
+  oracleSignature: string;
+  changes: string[];
+}
+
+// Migration-wide information available to every file conversion
+export interface ConversionContext {
+  schema?: SchemaCatalog;
+  settings?: ConversionSettings;
+  // Lower-case #names of the temporary tables created by the shared temp_tables.sql script
+  sharedTempTables?: string[];
+}
+
+export interface ProviderModel {
+  id: string;
+  label: string;
+  description?: string;
+}
+
+export interface ProviderRequest {
+  model: string;
+  fileName?: string;
+  // Selects the instructions for the kind of object the code creates
+  objectType?: CodeFileType;
+  sybaseCode: string;
+  // Rule-based first pass offered to the model as a starting point
+  draft?: string;
+  customPrompt?: string;
+  // For explain and fix: the current Oracle code and its known issues
+  oracleCode?: string;
+  issues?: ConversionIssue[];
+  // Definitions of the tables the code references, from the uploaded DDL
+  schemaContext?: string;
+  settings?: ConversionSettings;
+}
+
+// An AI backend that can convert Sybase code, explain a conversion and fix a converted file
+export interface ConversionProvider {
+  id: string;
+  label: string;
+  models: ProviderModel[];
+  isConfigured: () => boolean;
+  convert: (request: ProviderRequest) => Promise<string>;
+  explain: (request: ProviderRequest) => Promise<string>;
+  fix: (request: ProviderRequest) => Promise<string>;
+}
+
+// A failed statement or compile error reported by the deploy edge function
+export interface DeploymentError {
+  // Line and column in the object's converted code
+  line?: number;
+  column?: number;
+  // ORA-, PLS- or PLW- code
+  code: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface DeploymentObjectResult {
+  id: string;
+  name: string;
+  status: 'success' | 'warning' | 'error';
+  statementsExecuted: number;
+  durationMs: number;
+  errors: DeploymentError[];
+}
+
+export interface DeploymentResult {
+  success: boolean;
+  driver: string;
+  durationMs: number;
+  objects: DeploymentObjectResult[];
+  // Undoes the deployment: drops new objects and restores replaced ones (deploy only)
+  rollbackScript?: string;
+}
+
 // Re-export unreviewed files types
 export * from './unreviewedFiles';
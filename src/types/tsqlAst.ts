@@ -0,0 +1,557 @@
+// Typed AST for Sybase T-SQL as produced by src/utils/tsqlParser.ts
+
+export type TokenType =
+  | 'word'
+  | 'quotedIdentifier'
+  | 'variable'
+  | 'globalVariable'
+  | 'string'
+  | 'number'
+  | 'binary'
+  | 'operator'
+  | 'punctuation'
+  | 'comment'
+  | 'unknown';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  text: string;
+  line: number;
+  column: number;
+  start: number;
+  end: number;
+}
+
+// Every node carries its source span so that callers can slice the original text
+export interface NodeBase {
+  start: number;
+  end: number;
+  line: number;
+  endLine: number;
+}
+
+export interface ParseError {
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface DataTypeSpec {
+  name: string;
+  args: string[];
+  text: string;
+}
+
+// ---- Expressions ----
+
+export interface LiteralExpression extends NodeBase {
+  kind: 'Literal';
+  literalType: 'string' | 'number' | 'binary' | 'null';
+  value: string;
+}
+
+export interface VariableExpression extends NodeBase {
+  kind: 'Variable';
+  name: string;
+}
+
+export interface GlobalVariableExpression extends NodeBase {
+  kind: 'GlobalVariable';
+  name: string;
+}
+
+export interface ColumnExpression extends NodeBase {
+  kind: 'Column';
+  parts: string[];
+}
+
+export interface StarExpression extends NodeBase {
+  kind: 'Star';
+  qualifier: string[];
+}
+
+export interface FunctionCallExpression extends NodeBase {
+  kind: 'FunctionCall';
+  name: string;
+  args: Expression[];
+  distinct: boolean;
+  star: boolean;
+  // Set for convert(type, expr [, style]) whose first argument is a type, not an expression
+  dataType?: DataTypeSpec;
+}
+
+export interface CastExpression extends NodeBase {
+  kind: 'Cast';
+  expression: Expression;
+  dataType: DataTypeSpec;
+}
+
+export interface BinaryExpression extends NodeBase {
+  kind: 'Binary';
+  operator: string;
+  left: Expression;
+  right: Expression;
+}
+
+export interface UnaryExpression extends NodeBase {
+  kind: 'Unary';
+  operator: string;
+  operand: Expression;
+}
+
+export interface BetweenExpression extends NodeBase {
+  kind: 'Between';
+  expression: Expression;
+  low: Expression;
+  high: Expression;
+  not: boolean;
+}
+
+export interface InExpression extends NodeBase {
+  kind: 'In';
+  expression: Expression;
+  list: Expression[];
+  subquery?: SelectStatement;
+  not: boolean;
+}
+
+export interface LikeExpression extends NodeBase {
+  kind: 'Like';
+  expression: Expression;
+  pattern: Expression;
+  escape?: Expression;
+  not: boolean;
+}
+
+export interface IsNullExpression extends NodeBase {
+  kind: 'IsNull';
+  expression: Expression;
+  not: boolean;
+}
+
+export interface ExistsExpression extends NodeBase {
+  kind: 'Exists';
+  query: SelectStatement;
+}
+
+export interface CaseExpression extends NodeBase {
+  kind: 'Case';
+  operand?: Expression;
+  whens: { when: Expression; then: Expression }[];
+  else?: Expression;
+}
+
+export interface SubqueryExpression extends NodeBase {
+  kind: 'Subquery';
+  query: SelectStatement;
+}
+
+export interface ParenExpression extends NodeBase {
+  kind: 'Paren';
+  expression: Expression;
+}
+
+export type Expression =
+  | LiteralExpression
+  | VariableExpression
+  | GlobalVariableExpression
+  | ColumnExpression
+  | StarExpression
+  | FunctionCallExpression
+  | CastExpression
+  | BinaryExpression
+  | UnaryExpression
+  | BetweenExpression
+  | InExpression
+  | LikeExpression
+  | IsNullExpression
+  | ExistsExpression
+  | CaseExpression
+  | SubqueryExpression
+  | ParenExpression;
+
+// ---- Table sources ----
+
+export interface TableReference extends NodeBase {
+  kind: 'TableRef';
+  name: string[];
+  alias?: string;
+  hints: string[];
+}
+
+export interface DerivedTable extends NodeBase {
+  kind: 'DerivedTable';
+  query: SelectStatement;
+  alias?: string;
+}
+
+export interface JoinSource extends NodeBase {
+  kind: 'Join';
+  joinType: 'inner' | 'left' | 'right' | 'full' | 'cross';
+  left: TableSource;
+  right: TableSource;
+  on?: Expression;
+}
+
+export type TableSource = TableReference | DerivedTable | JoinSource;
+
+// ---- Statements ----
+
+export interface SelectItem {
+  expression: Expression;
+  alias?: string;
+  // Set for "select @var = expr" assignments
+  assignTo?: string;
+}
+
+export interface OrderItem {
+  expression: Expression;
+  direction?: 'asc' | 'desc';
+}
+
+export interface SelectStatement extends NodeBase {
+  kind: 'Select';
+  distinct: boolean;
+  top?: Expression;
+  columns: SelectItem[];
+  into?: string[];
+  from: TableSource[];
+  where?: Expression;
+  groupBy: Expression[];
+  having?: Expression;
+  orderBy: OrderItem[];
+  union?: { all: boolean; query: SelectStatement };
+  forUpdate?: { columns: string[] };
+}
+
+export interface InsertStatement extends NodeBase {
+  kind: 'Insert';
+  table: string[];
+  columns: string[];
+  values: Expression[][];
+  query?: SelectStatement;
+  exec?: ExecStatement;
+}
+
+export interface UpdateAssignment {
+  target: string[];
+  variable?: string;
+  value: Expression;
+}
+
+export interface UpdateStatement extends NodeBase {
+  kind: 'Update';
+  table: string[];
+  set: UpdateAssignment[];
+  from: TableSource[];
+  where?: Expression;
+  currentOf?: string;
+}
+
+export interface DeleteStatement extends NodeBase {
+  kind: 'Delete';
+  table: string[];
+  from: TableSource[];
+  where?: Expression;
+  currentOf?: string;
+}
+
+export interface TruncateStatement extends NodeBase {
+  kind: 'Truncate';
+  table: string[];
+}
+
+export interface VariableDeclaration {
+  name: string;
+  dataType: DataTypeSpec;
+  value?: Expression;
+}
+
+export interface DeclareStatement extends NodeBase {
+  kind: 'Declare';
+  variables: VariableDeclaration[];
+}
+
+export interface DeclareCursorStatement extends NodeBase {
+  kind: 'DeclareCursor';
+  name: string;
+  query: SelectStatement;
+  forUpdate?: { columns: string[] };
+  readOnly: boolean;
+}
+
+export interface CursorStatement extends NodeBase {
+  kind: 'Open' | 'Close' | 'Deallocate';
+  cursor: string;
+}
+
+export interface FetchStatement extends NodeBase {
+  kind: 'Fetch';
+  cursor: string;
+  into: string[];
+}
+
+export interface SetStatement extends NodeBase {
+  kind: 'Set';
+  variable?: string;
+  value?: Expression;
+  // Session options such as "set nocount on"
+  option?: { name: string; value: string };
+}
+
+export interface IfStatement extends NodeBase {
+  kind: 'If';
+  condition: Expression;
+  then: Statement;
+  else?: Statement;
+}
+
+export interface WhileStatement extends NodeBase {
+  kind: 'While';
+  condition: Expression;
+  body: Statement;
+}
+
+export interface BlockStatement extends NodeBase {
+  kind: 'Block';
+  statements: Statement[];
+}
+
+export interface ReturnStatement extends NodeBase {
+  kind: 'Return';
+  value?: Expression;
+}
+
+export interface PrintStatement extends NodeBase {
+  kind: 'Print';
+  args: Expression[];
+}
+
+export interface RaiserrorStatement extends NodeBase {
+  kind: 'Raiserror';
+  errorNumber?: Expression;
+  message?: Expression;
+  args: Expression[];
+}
+
+export interface ExecArgument {
+  name?: string;
+  value: Expression;
+  output: boolean;
+}
+
+export interface ExecStatement extends NodeBase {
+  kind: 'Exec';
+  procedure: string[];
+  returnVariable?: string;
+  args: ExecArgument[];
+  // Set for exec(@sql) style dynamic SQL
+  dynamic?: Expression;
+}
+
+export interface TransactionStatement extends NodeBase {
+  kind: 'Transaction';
+  action: 'begin' | 'commit' | 'rollback' | 'save';
+  name?: string;
+  // The error of "rollback trigger with raiserror ..."
+  raiserror?: RaiserrorStatement;
+}
+
+export interface SimpleStatement extends NodeBase {
+  kind: 'Break' | 'Continue';
+}
+
+export interface GotoStatement extends NodeBase {
+  kind: 'Goto';
+  label: string;
+}
+
+export interface LabelStatement extends NodeBase {
+  kind: 'Label';
+  name: string;
+}
+
+export interface UseStatement extends NodeBase {
+  kind: 'Use';
+  database: string;
+}
+
+export interface ColumnDefinition extends NodeBase {
+  kind: 'ColumnDefinition';
+  name: string;
+  dataType: DataTypeSpec;
+  nullable?: boolean;
+  identity: boolean;
+  default?: Expression;
+  primaryKey: boolean;
+  unique: boolean;
+  references?: { table: string[]; columns: string[] };
+  check?: Expression;
+}
+
+export interface TableConstraint extends NodeBase {
+  kind: 'TableConstraint';
+  constraintType: 'primaryKey' | 'unique' | 'foreignKey' | 'check';
+  name?: string;
+  columns: string[];
+  references?: { table: string[]; columns: string[] };
+  check?: Expression;
+}
+
+export interface CreateTableStatement extends NodeBase {
+  kind: 'CreateTable';
+  name: string[];
+  columns: ColumnDefinition[];
+  constraints: TableConstraint[];
+}
+
+export interface ProcedureParameter {
+  name: string;
+  dataType: DataTypeSpec;
+  default?: Expression;
+  output: boolean;
+}
+
+export interface CreateProcedureStatement extends NodeBase {
+  kind: 'CreateProcedure';
+  name: string[];
+  parameters: ProcedureParameter[];
+  body: Statement[];
+}
+
+export interface CreateTriggerStatement extends NodeBase {
+  kind: 'CreateTrigger';
+  name: string[];
+  table: string[];
+  timing: 'for' | 'after' | 'instead of';
+  events: ('insert' | 'update' | 'delete')[];
+  body: Statement[];
+}
+
+export interface CreateViewStatement extends NodeBase {
+  kind: 'CreateView';
+  name: string[];
+  columns: string[];
+  query: SelectStatement;
+  withCheckOption: boolean;
+}
+
+export interface CreateFunctionStatement extends NodeBase {
+  kind: 'CreateFunction';
+  name: string[];
+  parameters: ProcedureParameter[];
+  returns: DataTypeSpec;
+  body: Statement[];
+}
+
+export interface IndexColumn {
+  name: string;
+  descending: boolean;
+}
+
+export interface CreateIndexStatement extends NodeBase {
+  kind: 'CreateIndex';
+  name: string[];
+  table: string[];
+  columns: IndexColumn[];
+  unique: boolean;
+  clustered: boolean;
+}
+
+// create default: a value bound to columns and user-defined types with sp_bindefault
+export interface CreateDefaultStatement extends NodeBase {
+  kind: 'CreateDefault';
+  name: string[];
+  value: Expression;
+}
+
+// create rule: a condition on a variable that stands for the column it is bound to with sp_bindrule
+export interface CreateRuleStatement extends NodeBase {
+  kind: 'CreateRule';
+  name: string[];
+  condition: Expression;
+}
+
+// SQL Anywhere sequences; the options are kept as written
+export interface CreateSequenceStatement extends NodeBase {
+  kind: 'CreateSequence';
+  name: string[];
+  options: string;
+}
+
+export interface GrantStatement extends NodeBase {
+  kind: 'Grant';
+  action: 'grant' | 'revoke';
+  // Lower case, e.g. "select" or "execute"; statement permissions such as "create table" included
+  privileges: string[];
+  object?: string[];
+  columns: string[];
+  grantees: string[];
+  withGrantOption: boolean;
+}
+
+export interface DropStatement extends NodeBase {
+  kind: 'Drop';
+  objectType: string;
+  names: string[][];
+}
+
+// Anything the parser does not model yet; the original text is kept verbatim
+export interface UnknownStatement extends NodeBase {
+  kind: 'Unknown';
+  text: string;
+}
+
+export type Statement =
+  | SelectStatement
+  | InsertStatement
+  | UpdateStatement
+  | DeleteStatement
+  | TruncateStatement
+  | DeclareStatement
+  | DeclareCursorStatement
+  | CursorStatement
+  | FetchStatement
+  | SetStatement
+  | IfStatement
+  | WhileStatement
+  | BlockStatement
+  | ReturnStatement
+  | PrintStatement
+  | RaiserrorStatement
+  | ExecStatement
+  | TransactionStatement
+  | SimpleStatement
+  | GotoStatement
+  | LabelStatement
+  | UseStatement
+  | CreateTableStatement
+  | CreateProcedureStatement
+  | CreateTriggerStatement
+  | CreateViewStatement
+  | CreateFunctionStatement
+  | CreateIndexStatement
+  | CreateDefaultStatement
+  | CreateRuleStatement
+  | CreateSequenceStatement
+  | GrantStatement
+  | DropStatement
+  | UnknownStatement;
+
+export interface Batch extends NodeBase {
+  kind: 'Batch';
+  statements: Statement[];
+}
+
+export interface Script {
+  kind: 'Script';
+  batches: Batch[];
+}
+
+export interface ParseResult {
+  script: Script;
+  errors: ParseError[];
+}
+
+export type AstNode = Expression | Statement | TableSource | Batch | ColumnDefinition | TableConstraint;
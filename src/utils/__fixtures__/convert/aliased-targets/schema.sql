@@ -0,0 +1,4 @@
+create table orders (order_id int, cust_id int, status char(1))
+go
+create table customers (cust_id int, name varchar(30), active bit)
+go
@@ -0,0 +1,28 @@
+CREATE GLOBAL TEMPORARY TABLE tt_orders_cancel_del ON COMMIT DELETE ROWS AS
+SELECT * FROM orders WHERE 1 = 0;
+
+CREATE OR REPLACE TRIGGER orders_cancel
+FOR DELETE ON orders
+COMPOUND TRIGGER
+  BEFORE STATEMENT IS
+  BEGIN
+    DELETE FROM tt_orders_cancel_del;
+  END BEFORE STATEMENT;
+  AFTER EACH ROW IS
+  BEGIN
+    INSERT INTO tt_orders_cancel_del (order_id, cust_id, status) VALUES (:OLD.order_id, :OLD.cust_id, :OLD.status);
+  END AFTER EACH ROW;
+  AFTER STATEMENT IS
+  BEGIN
+    UPDATE orders o
+      SET status = 'X'
+      WHERE EXISTS (SELECT 1 FROM tt_orders_cancel_del d WHERE o.cust_id = d.cust_id);
+    DELETE FROM orders o
+      WHERE EXISTS (SELECT 1 FROM tt_orders_cancel_del d WHERE o.order_id = d.order_id);
+  END AFTER STATEMENT;
+END orders_cancel;
+/
+
+-- warning L1: The trigger changes orders, its own table. Sybase does not fire a trigger again for its own changes by default, but Oracle does.
+-- warning L1: The trigger reads or changes orders, the table it is defined on. A row-level trigger doing so fails with ORA-04091 (table is mutating), so the body runs in the AFTER STATEMENT section of a compound trigger.
+-- info L4: UPDATE ... FROM was rewritten with correlated subqueries, which take the first matching row as Sybase does.
@@ -0,0 +1,11 @@
+create trigger orders_cancel on orders for delete
+as
+begin
+    update o set status = 'X'
+    from orders o, deleted d
+    where o.cust_id = d.cust_id
+
+    delete o from orders o, deleted d
+    where o.order_id = d.order_id
+end
+go
@@ -0,0 +1,12 @@
+CREATE OR REPLACE PROCEDURE close_inactive_orders AS
+BEGIN
+  UPDATE orders o
+    SET status = 'C'
+    WHERE EXISTS (SELECT 1 FROM customers c WHERE o.cust_id = c.cust_id AND c.active = 0);
+  DELETE FROM orders o
+    WHERE EXISTS (SELECT 1 FROM customers c WHERE o.cust_id = c.cust_id AND c.name IS NULL);
+END close_inactive_orders;
+/
+
+-- info L1: close_inactive_orders changes data without BEGIN TRANSACTION. In Sybase's default unchained mode each statement commits on its own; in Oracle nothing is committed until the caller commits.
+-- info L3: UPDATE ... FROM was rewritten with correlated subqueries, which take the first matching row as Sybase does.
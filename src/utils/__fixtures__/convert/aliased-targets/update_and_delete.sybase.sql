@@ -0,0 +1,10 @@
+create procedure close_inactive_orders as
+begin
+    update o set status = 'C'
+    from orders o, customers c
+    where o.cust_id = c.cust_id and c.active = 0
+
+    delete o from orders o, customers c
+    where o.cust_id = c.cust_id and c.name is null
+end
+go
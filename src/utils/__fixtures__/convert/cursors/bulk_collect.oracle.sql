@@ -0,0 +1,28 @@
+CREATE OR REPLACE PROCEDURE p_archive (
+  p_cust IN NUMBER
+) AS
+  v_id orders.id%TYPE;
+  v_amt orders.amount%TYPE;
+  CURSOR c_orders IS
+    SELECT id, amount
+    FROM orders
+    WHERE cust_id = p_cust;
+  TYPE c_orders_rows_t IS TABLE OF c_orders%ROWTYPE;
+  c_orders_rows c_orders_rows_t;
+BEGIN
+  OPEN c_orders;
+  LOOP
+    FETCH c_orders BULK COLLECT INTO c_orders_rows LIMIT 100;
+    FOR i IN 1 .. c_orders_rows.COUNT LOOP
+      v_id := c_orders_rows(i).id;
+      v_amt := c_orders_rows(i).amount;
+      INSERT INTO order_hist (id, amount)
+        VALUES (v_id, v_amt);
+    END LOOP;
+    EXIT WHEN c_orders%NOTFOUND;
+  END LOOP;
+  CLOSE c_orders;
+END p_archive;
+/
+
+-- info L1: p_archive changes data without BEGIN TRANSACTION. In Sybase's default unchained mode each statement commits on its own; in Oracle nothing is committed until the caller commits.
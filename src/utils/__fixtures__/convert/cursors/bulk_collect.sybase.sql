@@ -0,0 +1,14 @@
+-- settings: {"cursorStyle": "bulk-collect"}
+create procedure p_archive @cust int as
+declare @id int, @amt money
+declare c_orders cursor for select id, amount from orders where cust_id = @cust
+open c_orders
+fetch c_orders into @id, @amt
+while @@sqlstatus = 0
+begin
+  insert into order_hist (id, amount) values (@id, @amt)
+  fetch c_orders into @id, @amt
+end
+close c_orders
+deallocate cursor c_orders
+go
@@ -0,0 +1,23 @@
+CREATE OR REPLACE PROCEDURE p_mark AS
+  v_id orders.id%TYPE;
+  CURSOR c_upd IS
+    SELECT id
+    FROM orders
+    WHERE status = 'N'
+    FOR UPDATE OF status;
+BEGIN
+  FOR c_upd_row IN c_upd LOOP
+    v_id := c_upd_row.id;
+    UPDATE orders
+      SET status = 'Y'
+      WHERE CURRENT OF c_upd;
+  END LOOP;
+  IF 1 = 0 THEN
+    DBMS_OUTPUT.PUT_LINE('error');
+  END IF;
+END p_mark;
+/
+
+-- info L1: p_mark changes data without BEGIN TRANSACTION. In Sybase's default unchained mode each statement commits on its own; in Oracle nothing is committed until the caller commits.
+-- info L3: A FOR UPDATE cursor locks all of its rows when it is opened, not as they are fetched.
+-- info L11: A failed FETCH raises an exception in Oracle, so the fetch status test for an error was replaced by a constant.
@@ -0,0 +1,14 @@
+create procedure p_mark as
+declare @id int
+declare c_upd cursor for select id from orders where status = 'N' for update of status
+open c_upd
+while 1 = 1
+begin
+  fetch c_upd into @id
+  if @@sqlstatus = 2 break
+  update orders set status = 'Y' where current of c_upd
+end
+if @@sqlstatus = 1 print 'error'
+close c_upd
+deallocate c_upd
+go
@@ -0,0 +1,24 @@
+CREATE OR REPLACE PROCEDURE p_total (
+  p_cust IN NUMBER,
+  p_total IN OUT NUMBER
+) AS
+  v_id orders.id%TYPE;
+  v_amt orders.amount%TYPE;
+  CURSOR c_orders IS
+    SELECT id, amount
+    FROM orders
+    WHERE cust_id = p_cust;
+BEGIN
+  p_total := 0;
+  OPEN c_orders;
+  LOOP
+    FETCH c_orders INTO v_id, v_amt;
+    EXIT WHEN c_orders%NOTFOUND;
+    p_total := p_total + v_amt;
+    IF v_amt > 100 THEN
+      EXIT;
+    END IF;
+  END LOOP;
+  CLOSE c_orders;
+END p_total;
+/
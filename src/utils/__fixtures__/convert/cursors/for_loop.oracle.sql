@@ -0,0 +1,22 @@
+CREATE OR REPLACE PROCEDURE p_total (
+  p_cust IN NUMBER,
+  p_total IN OUT NUMBER
+) AS
+  v_id orders.id%TYPE;
+  v_amt orders.amount%TYPE;
+  CURSOR c_orders IS
+    SELECT id, amount
+    FROM orders
+    WHERE cust_id = p_cust;
+BEGIN
+  p_total := 0;
+  FOR c_orders_row IN c_orders LOOP
+    v_id := c_orders_row.id;
+    v_amt := c_orders_row.amount;
+    p_total := p_total + v_amt;
+    IF v_amt > 100 THEN
+      EXIT;
+    END IF;
+  END LOOP;
+END p_total;
+/
@@ -0,0 +1,15 @@
+create procedure p_total @cust int, @total money output as
+declare @id int, @amt money
+select @total = 0
+declare c_orders cursor for select id, amount from orders where cust_id = @cust
+open c_orders
+fetch c_orders into @id, @amt
+while @@sqlstatus = 0
+begin
+  select @total = @total + @amt
+  if @amt > 100 break
+  fetch c_orders into @id, @amt
+end
+close c_orders
+deallocate cursor c_orders
+go
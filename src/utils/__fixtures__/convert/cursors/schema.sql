@@ -0,0 +1,2 @@
+create table orders (id int not null, cust_id int not null, amount money null, status char(1) not null)
+go
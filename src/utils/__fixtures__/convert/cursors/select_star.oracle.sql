@@ -0,0 +1,18 @@
+CREATE OR REPLACE PROCEDURE p_walk AS
+  v_id NUMBER(10);
+  v_cust NUMBER(10);
+  v_amt NUMBER(19,4);
+  v_status CHAR(1);
+  CURSOR c_star IS
+    SELECT *
+    FROM orders;
+BEGIN
+  FOR c_star_row IN c_star LOOP
+    v_id := c_star_row.id;
+    v_cust := c_star_row.cust_id;
+    v_amt := c_star_row.amount;
+    v_status := c_star_row.status;
+    DBMS_OUTPUT.PUT_LINE('row');
+  END LOOP;
+END p_walk;
+/
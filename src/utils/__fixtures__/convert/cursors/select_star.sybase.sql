@@ -0,0 +1,12 @@
+create procedure p_walk as
+declare @id int, @cust int, @amt money, @status char(1)
+declare c_star cursor for select * from orders
+open c_star
+fetch c_star into @id, @cust, @amt, @status
+while (@@sqlstatus != 2)
+begin
+  print 'row'
+  fetch c_star into @id, @cust, @amt, @status
+end
+deallocate cursor c_star
+go
@@ -0,0 +1,5 @@
+CREATE TABLE shifts (
+  shift_id NUMBER(10) NOT NULL,
+  starts_at DATE NOT NULL,
+  logged_at TIMESTAMP NOT NULL
+);
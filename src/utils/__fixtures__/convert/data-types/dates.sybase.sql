@@ -0,0 +1,6 @@
+create table shifts (
+    shift_id int not null,
+    starts_at smalldatetime not null,
+    logged_at datetime not null
+)
+go
@@ -0,0 +1,8 @@
+CREATE TABLE readings (
+  reading_id NUMBER(10) NOT NULL,
+  value BINARY_DOUBLE NOT NULL,
+  ratio BINARY_FLOAT,
+  row_version RAW(8) NOT NULL
+);
+
+-- warning L5: Sybase timestamp values are row versions that change with every update; the RAW(8) column keeps the values but Oracle does not change them.
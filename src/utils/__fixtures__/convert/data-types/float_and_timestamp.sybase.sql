@@ -0,0 +1,7 @@
+create table readings (
+    reading_id int not null,
+    value float not null,
+    ratio real null,
+    row_version timestamp
+)
+go
@@ -0,0 +1,24 @@
+-- sp_addtype ssn_t, 'varchar(11)': declared as VARCHAR2(11) where used
+
+CREATE TABLE employees (
+  employee_id NUMBER(10) NOT NULL,
+  ssn VARCHAR2(11) NOT NULL
+);
+
+CREATE OR REPLACE PROCEDURE find_employee (
+  p_ssn IN VARCHAR2,
+  p_result OUT SYS_REFCURSOR
+) AS
+BEGIN
+  OPEN p_result FOR
+    SELECT employee_id
+    FROM employees
+    WHERE ssn = p_ssn;
+END find_employee;
+/
+
+-- contract: find_employee(p_ssn IN VARCHAR2, p_result OUT SYS_REFCURSOR)
+--   Result sets are returned through OUT SYS_REFCURSOR parameters added at the end of the parameter list; bind a cursor variable for each and fetch from it.
+--   p_result: employee_id
+--   Parameters are named p_<name> instead of @<name>.
+-- info L1: Oracle has no user-defined scalar types; columns and variables of type ssn_t are declared as VARCHAR2(11).
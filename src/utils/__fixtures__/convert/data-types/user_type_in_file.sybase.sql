@@ -0,0 +1,13 @@
+exec sp_addtype ssn_t, 'varchar(11)', 'not null'
+go
+
+create table employees (
+    employee_id int not null,
+    ssn ssn_t
+)
+go
+
+create procedure find_employee @ssn ssn_t
+as
+    select employee_id from employees where ssn = @ssn
+go
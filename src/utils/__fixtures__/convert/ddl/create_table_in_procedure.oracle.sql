@@ -0,0 +1,15 @@
+CREATE OR REPLACE PROCEDURE archive_orders AS
+BEGIN
+  -- BEGIN TRANSACTION: transactions start implicitly in Oracle
+  DELETE FROM orders
+    WHERE status = 'C';
+  EXECUTE IMMEDIATE 'CREATE TABLE order_archive (
+  order_id NUMBER(10) NOT NULL,
+  archived TIMESTAMP DEFAULT SYSDATE NOT NULL
+)';
+  COMMIT;
+END archive_orders;
+/
+
+-- warning L5: CREATE TABLE commits implicitly in Oracle, which ends the transaction begun at line 3; the work before it can no longer be rolled back.
+-- warning L5: CREATE TABLE inside a procedure runs through EXECUTE IMMEDIATE in Oracle; static SQL that uses the table does not compile until the table exists.
@@ -0,0 +1,8 @@
+create procedure archive_orders as
+begin
+    begin transaction
+    delete from orders where status = 'C'
+    create table order_archive (order_id int not null, archived datetime default getdate())
+    commit transaction
+end
+go
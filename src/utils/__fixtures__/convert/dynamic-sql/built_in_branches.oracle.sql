@@ -0,0 +1,16 @@
+CREATE OR REPLACE PROCEDURE p_purge (
+  p_id IN NUMBER
+) AS
+  v_sql VARCHAR2(500);
+BEGIN
+  v_sql := 'delete from orders where 1 = 1';
+  IF p_id > 0 THEN
+    v_sql := v_sql || ' and id = ' || TO_CHAR(p_id) || ' and LENGTH(note) > 3';
+  END IF;
+  EXECUTE IMMEDIATE v_sql;
+  EXECUTE IMMEDIATE 'INSERT INTO log_t (msg, at) VALUES (''purged'', SYSDATE)';
+END p_purge;
+/
+
+-- warning L6: The SQL text in @sql is built in several steps, which is too dynamic to analyze; only function names, operators and temporary tables in its string literals were translated.
+-- info L6: Dynamic SQL was converted to EXECUTE IMMEDIATE, and the T-SQL in its text was translated.
@@ -0,0 +1,8 @@
+create procedure p_purge @id int as
+declare @sql varchar(500)
+select @sql = 'delete from orders where 1 = 1'
+if @id > 0
+  select @sql = @sql + ' and id = ' + convert(varchar, @id) + ' and len(note) > 3'
+exec (@sql)
+exec ('insert into log_t (msg, at) values (''purged'', getdate())')
+go
@@ -0,0 +1,15 @@
+CREATE OR REPLACE PROCEDURE p_find (
+  p_id IN NUMBER,
+  p_name IN VARCHAR2,
+  p_d IN TIMESTAMP
+) AS
+  v_sql VARCHAR2(500);
+BEGIN
+  v_sql := 'SELECT name FROM customers WHERE id = :id AND name = :name';
+  EXECUTE IMMEDIATE v_sql USING p_id, p_name;
+  EXECUTE IMMEDIATE 'DELETE FROM hist WHERE created < :b1' USING TRUNC(p_d);
+END p_find;
+/
+
+-- info L4: Dynamic SQL was converted to EXECUTE IMMEDIATE, and the T-SQL in its text was translated.
+-- warning L4: The dynamic SELECT returns its rows to the client in Sybase, but EXECUTE IMMEDIATE discards them.
@@ -0,0 +1,6 @@
+create procedure p_find @id int, @name varchar(40), @d datetime as
+declare @sql varchar(500)
+select @sql = 'select name from customers where id = ' + convert(varchar, @id) + ' and name = ''' + @name + ''''
+exec(@sql)
+exec ('delete from hist where created < ''' + convert(varchar, @d, 112) + '''')
+go
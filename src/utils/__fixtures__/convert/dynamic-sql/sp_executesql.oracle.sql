@@ -0,0 +1,13 @@
+CREATE OR REPLACE PROCEDURE p_count (
+  p_id IN NUMBER,
+  p_cnt IN OUT NUMBER
+) AS
+  v_upd NVARCHAR2(500);
+BEGIN
+  EXECUTE IMMEDIATE 'SELECT COUNT(*) FROM orders WHERE cust_id = :i AND created < SYSDATE' INTO p_cnt USING p_id;
+  v_upd := 'UPDATE orders SET status = :s WHERE cust_id = :i AND note IS NOT NULL';
+  EXECUTE IMMEDIATE v_upd USING 'X', p_id;
+END p_count;
+/
+
+-- info L3: Dynamic SQL was converted to EXECUTE IMMEDIATE, and the T-SQL in its text was translated.
@@ -0,0 +1,6 @@
+create procedure p_count @id int, @cnt int output as
+declare @upd nvarchar(500)
+exec sp_executesql N'select @c = count(*) from orders where cust_id = @i and created < getdate()', N'@i int, @c int output', @i = @id, @c = @cnt output
+set @upd = N'update orders set status = @s where cust_id = @i and isnull(note, '''') != '''''
+exec sp_executesql @upd, N'@i int, @s varchar(10)', @id, 'X'
+go
@@ -0,0 +1,14 @@
+CREATE OR REPLACE PROCEDURE p_any (
+  p_tbl IN VARCHAR2,
+  p_ids IN VARCHAR2
+) AS
+  v_sql VARCHAR2(500);
+BEGIN
+  v_sql := 'SELECT name FROM ' || DBMS_ASSERT.QUALIFIED_SQL_NAME(p_tbl) || ' WHERE code IN (' || p_ids || ')';
+  EXECUTE IMMEDIATE v_sql;
+END p_any;
+/
+
+-- warning L3: @ids is concatenated into the SQL text.
+-- info L4: Dynamic SQL was converted to EXECUTE IMMEDIATE, and the T-SQL in its text was translated.
+-- warning L4: The dynamic SELECT returns its rows to the client in Sybase, but EXECUTE IMMEDIATE discards them.
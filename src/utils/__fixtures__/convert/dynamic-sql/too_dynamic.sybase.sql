@@ -0,0 +1,5 @@
+create procedure p_any @tbl varchar(30), @ids varchar(200) as
+declare @sql varchar(500)
+select @sql = 'select name from ' + @tbl + ' where code in (' + @ids + ')'
+exec(@sql)
+go
@@ -0,0 +1,21 @@
+CREATE OR REPLACE PROCEDURE close_order (
+  p_id IN NUMBER
+) AS
+  v_exists PLS_INTEGER;
+  v_exists_2 PLS_INTEGER;
+BEGIN
+  SELECT CASE WHEN EXISTS (SELECT 1 FROM orders WHERE id = p_id AND status = 'O') THEN 1 ELSE 0 END INTO v_exists FROM DUAL;
+  SELECT CASE WHEN EXISTS (SELECT 1 FROM orders WHERE id = p_id) THEN 1 ELSE 0 END INTO v_exists_2 FROM DUAL;
+  IF v_exists = 1 THEN
+    UPDATE orders
+      SET status = 'C'
+      WHERE id = p_id;
+  ELSIF v_exists_2 = 1 THEN
+    RAISE_APPLICATION_ERROR(-20001, 'Order is not open');
+  ELSE
+    RAISE_APPLICATION_ERROR(-20002, 'No such order');
+  END IF;
+END close_order;
+/
+
+-- info L1: close_order changes data without BEGIN TRANSACTION. In Sybase's default unchained mode each statement commits on its own; in Oracle nothing is committed until the caller commits.
@@ -0,0 +1,11 @@
+create procedure close_order @id int
+as
+begin
+  if exists (select 1 from orders where id = @id and status = 'O')
+    update orders set status = 'C' where id = @id
+  else if exists (select 1 from orders where id = @id)
+    raiserror 20001 'Order is not open'
+  else
+    raiserror 20002 'No such order'
+end
+go
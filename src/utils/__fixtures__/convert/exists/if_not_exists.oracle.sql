@@ -0,0 +1,24 @@
+CREATE OR REPLACE PROCEDURE add_customer (
+  p_id IN NUMBER,
+  p_name IN VARCHAR2
+) AS
+  v_exists PLS_INTEGER;
+  v_exists_2 PLS_INTEGER;
+BEGIN
+  SELECT CASE WHEN EXISTS (SELECT * FROM customers WHERE id = p_id) THEN 1 ELSE 0 END INTO v_exists FROM DUAL;
+  IF v_exists = 0 THEN
+    INSERT INTO customers (id, name)
+      VALUES (p_id, p_name);
+  END IF;
+  LOOP
+    SELECT CASE WHEN EXISTS (SELECT 1 FROM orders WHERE cust_id = p_id AND status = 'O') THEN 1 ELSE 0 END INTO v_exists FROM DUAL;
+    SELECT CASE WHEN EXISTS (SELECT 1 FROM customers WHERE id = p_id AND name LIKE 'Closed%') THEN 1 ELSE 0 END INTO v_exists_2 FROM DUAL;
+    EXIT WHEN NOT (v_exists = 1 AND v_exists_2 = 0);
+    UPDATE orders
+      SET status = 'C'
+      WHERE cust_id = p_id AND status = 'O';
+  END LOOP;
+END add_customer;
+/
+
+-- info L1: add_customer changes data without BEGIN TRANSACTION. In Sybase's default unchained mode each statement commits on its own; in Oracle nothing is committed until the caller commits.
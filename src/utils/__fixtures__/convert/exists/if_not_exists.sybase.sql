@@ -0,0 +1,12 @@
+create procedure add_customer @id int, @name varchar(40)
+as
+begin
+  if not exists (select * from customers where id = @id)
+    insert into customers (id, name) values (@id, @name)
+  while exists (select 1 from orders where cust_id = @id and status = 'O')
+    and not exists (select 1 from customers where id = @id and name like 'Closed%')
+  begin
+    update orders set status = 'C' where cust_id = @id and status = 'O'
+  end
+end
+go
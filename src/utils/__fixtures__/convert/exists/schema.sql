@@ -0,0 +1,11 @@
+create table orders (
+  id int not null,
+  cust_id int not null,
+  status char(1) not null
+)
+go
+create table customers (
+  id int not null,
+  name varchar(40) not null
+)
+go
@@ -0,0 +1,25 @@
+CREATE OR REPLACE PROCEDURE order_age (
+  p_id IN NUMBER
+) AS
+  v_days NUMBER(10);
+  v_start TIMESTAMP;
+  v_weekday NUMBER(10);
+BEGIN
+  v_start := TO_DATE('2020-01-01', 'YYYY-MM-DD');
+  SELECT (TRUNC(created) - TRUNC(TO_DATE('2020-01-01 08:00:00', 'YYYY-MM-DD HH24:MI:SS')))
+    INTO v_days
+    FROM orders
+    WHERE id = p_id;
+  SELECT TRUNC(created) - TRUNC(created + 1, 'IW') + 2
+    INTO v_weekday
+    FROM orders
+    WHERE id = p_id;
+  UPDATE orders
+    SET due = TO_DATE('20200101', 'YYYYMMDD') + (30)
+    WHERE id = p_id AND created > TO_DATE('Jan 1 2020');
+END order_age;
+/
+
+-- info L1: order_age changes data without BEGIN TRANSACTION. In Sybase's default unchained mode each statement commits on its own; in Oracle nothing is committed until the caller commits.
+-- info L6: SELECT ... INTO raises NO_DATA_FOUND or TOO_MANY_ROWS where Sybase would leave the variables unchanged.
+-- warning L8: The date 'Jan 1 2020' is read with the session's NLS_DATE_FORMAT.
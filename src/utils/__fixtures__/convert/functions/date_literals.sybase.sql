@@ -0,0 +1,10 @@
+create procedure order_age @id int
+as
+begin
+  declare @days int, @start datetime, @weekday int
+  select @start = convert(datetime, '2020-01-01')
+  select @days = datediff(day, '2020-01-01 08:00:00', created) from orders where id = @id
+  select @weekday = datepart(weekday, created) from orders where id = @id
+  update orders set due = dateadd(day, 30, '20200101') where id = @id and created > convert(datetime, 'Jan 1 2020')
+end
+go
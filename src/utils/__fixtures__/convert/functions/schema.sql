@@ -0,0 +1,2 @@
+create table orders (id int not null, created datetime not null, due datetime null)
+go
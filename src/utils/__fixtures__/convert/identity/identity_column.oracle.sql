@@ -0,0 +1,5 @@
+CREATE TABLE orders (
+  id NUMBER(10,0) GENERATED BY DEFAULT AS IDENTITY,
+  cust_id NUMBER(10) NOT NULL,
+  note VARCHAR2(20)
+);
@@ -0,0 +1,2 @@
+create table orders (id numeric(10,0) identity, cust_id int not null, note varchar(20) null)
+go
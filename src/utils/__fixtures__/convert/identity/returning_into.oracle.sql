@@ -0,0 +1,16 @@
+CREATE OR REPLACE PROCEDURE add_order (
+  p_cust IN NUMBER,
+  p_id IN OUT NUMBER
+) AS
+  v_log NUMBER(10);
+BEGIN
+  INSERT INTO orders (cust_id)
+    VALUES (p_cust)
+    RETURNING id INTO p_id;
+  INSERT INTO audit_log (msg)
+    VALUES ('added')
+    RETURNING log_id INTO v_log;
+END add_order;
+/
+
+-- info L1: add_order changes data without BEGIN TRANSACTION. In Sybase's default unchained mode each statement commits on its own; in Oracle nothing is committed until the caller commits.
@@ -0,0 +1,10 @@
+create procedure add_order @cust int, @id int output
+as
+begin
+  declare @log int
+  insert into orders (cust_id) values (@cust)
+  select @id = @@identity
+  insert into audit_log (msg) values ('added')
+  set @log = scope_identity()
+end
+go
@@ -0,0 +1,8 @@
+-- settings: {"identityStyle": "sequence"}
+create procedure add_order @cust int, @id int output
+as
+begin
+  insert into orders (cust_id) values (@cust)
+  select @id = @@identity
+end
+go
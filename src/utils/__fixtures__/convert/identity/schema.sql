@@ -0,0 +1,4 @@
+create table orders (id numeric(10,0) identity, cust_id int not null, note varchar(20) null)
+go
+create table audit_log (log_id int identity, msg varchar(100))
+go
@@ -0,0 +1,16 @@
+CREATE TABLE orders (
+  id NUMBER(10,0) NOT NULL,
+  cust_id NUMBER(10) NOT NULL,
+  note VARCHAR2(20)
+);
+
+CREATE SEQUENCE orders_seq START WITH 1 INCREMENT BY 1;
+
+CREATE OR REPLACE TRIGGER orders_bi
+BEFORE INSERT ON orders
+FOR EACH ROW
+WHEN (NEW.id IS NULL)
+BEGIN
+  :NEW.id := orders_seq.NEXTVAL;
+END;
+/
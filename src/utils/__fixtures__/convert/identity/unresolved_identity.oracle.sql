@@ -0,0 +1,17 @@
+CREATE OR REPLACE PROCEDURE copy_orders (
+  p_id IN NUMBER
+) AS
+BEGIN
+  INSERT INTO orders (cust_id, note)
+    SELECT cust_id, note
+    FROM orders
+    WHERE id = p_id;
+  UPDATE orders
+    SET note = TO_CHAR(NULL /* @@identity */)
+    WHERE id = p_id;
+END copy_orders;
+/
+
+-- info L1: copy_orders changes data without BEGIN TRANSACTION. In Sybase's default unchained mode each statement commits on its own; in Oracle nothing is committed until the caller commits.
+-- warning L4: RETURNING ... INTO only works for a single-row INSERT, so @@identity after this INSERT was not converted.
+-- warning L5: @@identity is read without a preceding single-row INSERT into a table with a known identity column.
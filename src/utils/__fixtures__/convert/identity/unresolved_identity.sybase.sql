@@ -0,0 +1,7 @@
+create procedure copy_orders @id int
+as
+begin
+  insert into orders (cust_id, note) select cust_id, note from orders where id = @id
+  update orders set note = convert(varchar(20), @@identity) where id = @id
+end
+go
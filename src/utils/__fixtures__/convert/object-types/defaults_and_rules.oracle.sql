@@ -0,0 +1,9 @@
+-- create default zero_dflt as 0: applied to the columns it is bound to
+
+-- create rule positive_rule as @value >= 0 and @value < 1000000: applied to the columns it is bound to
+
+-- create rule status_rule as @s in ('A', 'C'): applied to the columns it is bound to
+
+-- info L1: Oracle has no default objects; zero_dflt becomes the DEFAULT of each column it is bound to with sp_bindefault.
+-- info L3: Oracle has no rule objects; positive_rule becomes a CHECK constraint on each column it is bound to with sp_bindrule.
+-- info L5: Oracle has no rule objects; status_rule becomes a CHECK constraint on each column it is bound to with sp_bindrule.
@@ -0,0 +1,6 @@
+create default zero_dflt as 0
+go
+create rule positive_rule as @value >= 0 and @value < 1000000
+go
+create rule status_rule as @s in ('A', 'C')
+go
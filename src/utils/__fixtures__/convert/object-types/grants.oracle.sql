@@ -0,0 +1,12 @@
+GRANT SELECT, INSERT ON orders TO PUBLIC;
+
+GRANT UPDATE (status) ON orders TO clerk WITH GRANT OPTION;
+
+-- grant select (status) on orders to auditor
+
+REVOKE DELETE ON orders FROM clerk;
+
+GRANT CREATE TABLE, CREATE PROCEDURE TO dba_role;
+
+-- warning L5: Oracle grants SELECT on whole objects only, so the column-level permission was left out.
+-- warning L9: The Sybase permission "dump database" has no Oracle equivalent and was left out.
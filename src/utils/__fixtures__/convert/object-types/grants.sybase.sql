@@ -0,0 +1,10 @@
+grant select, insert on orders to public
+go
+grant update (status) on orders to clerk with grant option
+go
+grant select (status) on orders to auditor
+go
+revoke delete on orders from clerk
+go
+grant create table, create function, dump database to dba_role
+go
@@ -0,0 +1,8 @@
+CREATE UNIQUE INDEX orders_pk ON orders (id);
+
+CREATE INDEX orders_status ON orders (status DESC, amount);
+
+DROP INDEX orders_status;
+
+-- info L1: Oracle has no clustered indexes; the index was created as a regular B-tree index.
+-- info L1: Index names are unique per table in Sybase but per schema in Oracle.
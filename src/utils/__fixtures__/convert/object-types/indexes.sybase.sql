@@ -0,0 +1,6 @@
+create unique clustered index orders_pk on orders (id)
+go
+create nonclustered index orders_status on dbo.orders (status desc, amount) with fillfactor = 80 on seg1
+go
+drop index orders.orders_status
+go
@@ -0,0 +1,18 @@
+CREATE OR REPLACE FUNCTION order_total (
+  p_id IN NUMBER,
+  p_tax IN NUMBER DEFAULT 0
+) RETURN NUMBER AS
+  v_total NUMBER(19,4);
+BEGIN
+  SELECT SUM(amount)
+    INTO v_total
+    FROM orders
+    WHERE id = p_id;
+  IF v_total IS NULL THEN
+    RETURN 0;
+  END IF;
+  RETURN v_total * (1 + p_tax);
+END order_total;
+/
+
+-- info L6: SELECT ... INTO raises NO_DATA_FOUND or TOO_MANY_ROWS where Sybase would leave the variables unchanged.
@@ -0,0 +1,11 @@
+create function dbo.order_total (@id int, @tax numeric(5,2) = 0)
+returns money
+as
+begin
+  declare @total money
+  select @total = sum(amount) from orders where id = @id
+  if @total is null
+    return 0
+  return @total * (1 + @tax)
+end
+go
@@ -0,0 +1,3 @@
+CREATE OR REPLACE VIEW order_view AS
+SELECT id, order_total(id, 0) AS total
+FROM orders;
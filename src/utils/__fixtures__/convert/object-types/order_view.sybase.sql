@@ -0,0 +1,2 @@
+create view order_view as select id, dbo.order_total(id, 0) as total from orders
+go
@@ -0,0 +1,15 @@
+CREATE TABLE orders (
+  id NUMBER(10) NOT NULL,
+  amount NUMBER(19,4),
+  status CHAR(1) NOT NULL
+);
+
+ALTER TABLE orders MODIFY (amount DEFAULT 0);
+
+ALTER TABLE orders ADD CONSTRAINT positive_rule_amount CHECK (amount >= 0 AND amount < 1000000) ENABLE NOVALIDATE;
+
+ALTER TABLE orders ADD CONSTRAINT status_rule_status CHECK (status IN ('A', 'C')) ENABLE NOVALIDATE;
+
+-- EXEC sp_bindefault 'missing_dflt', 'orders.status'
+
+-- warning L9: The default missing_dflt is not defined in the uploaded files, so its binding could not be converted.
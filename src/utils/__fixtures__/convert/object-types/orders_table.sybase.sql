@@ -0,0 +1,10 @@
+create table orders (id int, amount money null, status char(1))
+go
+exec sp_bindefault 'zero_dflt', 'orders.amount'
+go
+exec sp_bindrule positive_rule, 'orders.amount'
+go
+exec sp_bindrule 'status_rule', 'orders.status'
+go
+exec sp_bindefault 'missing_dflt', 'orders.status'
+go
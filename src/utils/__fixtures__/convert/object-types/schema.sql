@@ -0,0 +1,8 @@
+create default zero_dflt as 0
+go
+create rule positive_rule as @value >= 0 and @value < 1000000
+go
+create rule status_rule as @s in ('A', 'C')
+go
+create table orders (id int, amount money null, status char(1))
+go
@@ -0,0 +1,3 @@
+CREATE SEQUENCE order_seq start with 1 increment by 1 NOMAXVALUE NOCYCLE cache 20;
+
+CREATE SEQUENCE plain_seq;
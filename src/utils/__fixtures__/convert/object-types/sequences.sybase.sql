@@ -0,0 +1,4 @@
+create sequence order_seq start with 1 increment by 1 no maxvalue no cycle cache 20
+go
+create sequence plain_seq
+go
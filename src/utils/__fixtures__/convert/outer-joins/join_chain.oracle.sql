@@ -0,0 +1,21 @@
+CREATE OR REPLACE PROCEDURE p_chain (
+  p_result1 OUT SYS_REFCURSOR,
+  p_result2 OUT SYS_REFCURSOR
+) AS
+BEGIN
+  OPEN p_result1 FOR
+    SELECT c.name, r.region_name, o.id
+    FROM customers c LEFT OUTER JOIN regions r ON c.region_id = r.region_id LEFT OUTER JOIN orders o ON c.cust_id = o.cust_id
+    WHERE r.region_name = o.status;
+  OPEN p_result2 FOR
+    SELECT c.name
+    FROM customers c RIGHT OUTER JOIN regions r ON r.region_id = c.region_id LEFT OUTER JOIN orders o ON o.cust_id = c.cust_id;
+END p_chain;
+/
+
+-- contract: p_chain(p_result1 OUT SYS_REFCURSOR, p_result2 OUT SYS_REFCURSOR)
+--   Result sets are returned through OUT SYS_REFCURSOR parameters added at the end of the parameter list; bind a cursor variable for each and fetch from it.
+--   p_result1: name, region_name, id
+--   p_result2: name
+-- warning L3: This condition reads the inner tables r and o of outer joins and other tables. It was left in WHERE, where it drops the rows without a match, as an inner join would.
+-- info L3: Sybase outer joins (*= and =*) were rewritten as ANSI outer joins.
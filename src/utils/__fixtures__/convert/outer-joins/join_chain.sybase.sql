@@ -0,0 +1,5 @@
+create procedure p_chain as
+select c.name, r.region_name, o.id from customers c, regions r, orders o
+  where c.region_id *= r.region_id and c.cust_id *= o.cust_id and r.region_name = o.status
+select c.name from customers c, orders o, regions r where o.cust_id =* c.cust_id and r.region_id *= c.region_id
+go
@@ -0,0 +1,24 @@
+CREATE OR REPLACE PROCEDURE p_left (
+  p_r IN NUMBER,
+  p_result1 OUT SYS_REFCURSOR,
+  p_result2 OUT SYS_REFCURSOR
+) AS
+BEGIN
+  OPEN p_result1 FOR
+    SELECT c.name, o.amount
+    FROM customers c LEFT OUTER JOIN orders o ON c.cust_id = o.cust_id AND o.status = 'A'
+    WHERE c.region_id = p_r;
+  OPEN p_result2 FOR
+    SELECT name, amount
+    FROM customers LEFT OUTER JOIN orders ON customers.cust_id = orders.cust_id AND amount > 10;
+END p_left;
+/
+
+-- contract: p_left(p_r IN NUMBER, p_result1 OUT SYS_REFCURSOR, p_result2 OUT SYS_REFCURSOR)
+--   Result sets are returned through OUT SYS_REFCURSOR parameters added at the end of the parameter list; bind a cursor variable for each and fetch from it.
+--   p_result1: name, amount
+--   p_result2: name, amount
+--   Parameters are named p_<name> instead of @<name>.
+-- info L2: Conditions on the inner table o of an outer join were moved into its ON clause, so rows of c without a match are still returned.
+-- info L2: Sybase outer joins (*= and =*) were rewritten as ANSI outer joins.
+-- info L3: Conditions on the inner table orders of an outer join were moved into its ON clause, so rows of customers without a match are still returned.
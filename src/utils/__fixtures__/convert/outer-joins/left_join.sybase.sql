@@ -0,0 +1,4 @@
+create procedure p_left @r int as
+select c.name, o.amount from customers c, orders o where c.cust_id *= o.cust_id and o.status = 'A' and c.region_id = @r
+select name, amount from customers, orders where customers.cust_id *= orders.cust_id and amount > 10
+go
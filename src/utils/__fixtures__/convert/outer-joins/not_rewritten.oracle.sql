@@ -0,0 +1,28 @@
+CREATE OR REPLACE PROCEDURE p_unsafe (
+  p_result1 OUT SYS_REFCURSOR,
+  p_result2 OUT SYS_REFCURSOR
+) AS
+BEGIN
+  OPEN p_result1 FOR
+    SELECT c.name
+    FROM customers c, orders o
+    WHERE c.cust_id = o.cust_id(+) OR o.id = 1;
+  OPEN p_result2 FOR
+    SELECT c.name
+    FROM customers c LEFT OUTER JOIN orders o ON c.cust_id = o.cust_id
+    WHERE EXISTS (SELECT 1 FROM regions r WHERE r.region_id = c.region_id(+));
+  UPDATE customers c
+    SET name = 'x'
+    WHERE EXISTS (SELECT 1 FROM orders o LEFT OUTER JOIN regions r ON o.id = r.region_id WHERE c.cust_id = o.cust_id);
+END p_unsafe;
+/
+
+-- contract: p_unsafe(p_result1 OUT SYS_REFCURSOR, p_result2 OUT SYS_REFCURSOR)
+--   Result sets are returned through OUT SYS_REFCURSOR parameters added at the end of the parameter list; bind a cursor variable for each and fetch from it.
+--   p_result1: name
+--   p_result2: name
+-- info L1: p_unsafe changes data without BEGIN TRANSACTION. In Sybase's default unchained mode each statement commits on its own; in Oracle nothing is committed until the caller commits.
+-- error L2: An outer join under OR or NOT cannot be converted; Oracle rejects it in the (+) notation (ORA-01719).
+-- info L3: Sybase outer joins (*= and =*) were rewritten as ANSI outer joins.
+-- warning L3: This outer join was kept in the (+) notation because it does not compare the columns of two tables in the FROM clause.
+-- info L4: UPDATE ... FROM was rewritten with correlated subqueries, which take the first matching row as Sybase does.
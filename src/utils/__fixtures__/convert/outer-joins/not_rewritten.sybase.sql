@@ -0,0 +1,5 @@
+create procedure p_unsafe as
+select c.name from customers c, orders o where c.cust_id *= o.cust_id or o.id = 1
+select c.name from customers c, orders o where c.cust_id *= o.cust_id and exists (select 1 from regions r where r.region_id *= c.region_id)
+update customers set name = 'x' from customers c, orders o, regions r where c.cust_id = o.cust_id and o.id *= r.region_id
+go
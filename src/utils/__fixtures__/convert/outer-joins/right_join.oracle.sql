@@ -0,0 +1,15 @@
+CREATE OR REPLACE PROCEDURE p_right (
+  p_result OUT SYS_REFCURSOR
+) AS
+BEGIN
+  OPEN p_result FOR
+    SELECT c.name, o.amount
+    FROM orders o RIGHT OUTER JOIN customers c ON o.cust_id = c.cust_id AND o.id IS NULL;
+END p_right;
+/
+
+-- contract: p_right(p_result OUT SYS_REFCURSOR)
+--   Result sets are returned through OUT SYS_REFCURSOR parameters added at the end of the parameter list; bind a cursor variable for each and fetch from it.
+--   p_result: name, amount
+-- warning L2: This NULL test on the inner table o was moved into the ON clause, where Sybase applies it. It does not find the rows of c without a match.
+-- info L2: Sybase outer joins (*= and =*) were rewritten as ANSI outer joins.
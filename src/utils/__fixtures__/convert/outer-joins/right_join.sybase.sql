@@ -0,0 +1,3 @@
+create procedure p_right as
+select c.name, o.amount from orders o, customers c where o.cust_id =* c.cust_id and o.id is null
+go
@@ -0,0 +1,6 @@
+create table orders (id int, cust_id int, amount money, status char(1))
+go
+create table customers (cust_id int, name varchar(30), region_id int)
+go
+create table regions (region_id int, region_name varchar(30))
+go
@@ -0,0 +1,14 @@
+CREATE OR REPLACE PROCEDURE next_batch (
+  p_size IN NUMBER,
+  p_label IN VARCHAR2 DEFAULT 'batch'
+) AS
+  v_size NUMBER(10) := p_size;
+  v_label VARCHAR2(20) := p_label;
+BEGIN
+  IF v_size IS NULL OR v_size < 1 THEN
+    v_size := 100;
+  END IF;
+  v_label := v_label || '_' || TO_CHAR(v_size);
+  DBMS_OUTPUT.PUT_LINE(v_label);
+END next_batch;
+/
@@ -0,0 +1,9 @@
+create procedure next_batch @size int, @label varchar(20) = 'batch'
+as
+begin
+  if @size is null or @size < 1
+    select @size = 100
+  set @label = @label + '_' + convert(varchar(10), @size)
+  print @label
+end
+go
@@ -0,0 +1,17 @@
+CREATE OR REPLACE PROCEDURE order_count (
+  p_cust IN NUMBER,
+  p_total IN OUT NUMBER,
+  p_note IN OUT VARCHAR2
+) AS
+BEGIN
+  SELECT COUNT(*)
+    INTO p_total
+    FROM orders
+    WHERE cust_id = p_cust;
+  p_note := 'counted';
+END order_count;
+/
+
+-- warning L1: Output parameter @total has a default, which Oracle does not allow for IN OUT parameters; the default was dropped.
+-- warning L1: Output parameter @note has a default, which Oracle does not allow for IN OUT parameters; the default was dropped.
+-- info L4: SELECT ... INTO raises NO_DATA_FOUND or TOO_MANY_ROWS where Sybase would leave the variables unchanged.
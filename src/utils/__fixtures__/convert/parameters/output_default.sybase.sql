@@ -0,0 +1,7 @@
+create procedure order_count @cust int, @total int = null output, @note varchar(10) = null output
+as
+begin
+  select @total = count(*) from orders where cust_id = @cust
+  select @note = 'counted'
+end
+go
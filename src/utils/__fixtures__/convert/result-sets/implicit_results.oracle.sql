@@ -0,0 +1,35 @@
+CREATE OR REPLACE PROCEDURE p_orders (
+  p_cust IN NUMBER,
+  p_total IN OUT NUMBER
+) AS
+  c_result1 SYS_REFCURSOR;
+  c_result2 SYS_REFCURSOR;
+BEGIN
+  SELECT SUM(amount)
+    INTO p_total
+    FROM orders
+    WHERE cust = p_cust;
+  OPEN c_result1 FOR
+    SELECT id, amount, o.created AS placed
+    FROM orders o
+    WHERE cust = p_cust
+    ORDER BY id;
+  DBMS_SQL.RETURN_RESULT(c_result1);
+  IF p_total > 100 THEN
+    OPEN c_result2 FOR
+      SELECT 'vip' AS tier, p_total AS total
+      FROM DUAL;
+    DBMS_SQL.RETURN_RESULT(c_result2);
+  END IF;
+  RETURN;
+END p_orders;
+/
+
+-- contract: p_orders(p_cust IN NUMBER, p_total IN OUT NUMBER)
+--   Result sets are returned as implicit results (DBMS_SQL.RETURN_RESULT); the client driver has to read implicit results, which needs Oracle 12c or later.
+--   c_result1: id, amount, placed
+--   c_result2: tier, total
+--   The return status is no longer returned; Oracle procedures have no return value.
+--   Parameters are named p_<name> instead of @<name>, and OUTPUT parameters are IN OUT.
+-- info L3: SELECT ... INTO raises NO_DATA_FOUND or TOO_MANY_ROWS where Sybase would leave the variables unchanged.
+-- info L7: Return status values were dropped; Oracle procedures cannot return a value.
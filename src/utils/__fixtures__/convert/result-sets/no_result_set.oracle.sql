@@ -0,0 +1,17 @@
+CREATE OR REPLACE PROCEDURE p_reset (
+  p_cust IN NUMBER
+) AS
+  v_n NUMBER(10);
+BEGIN
+  SELECT COUNT(*)
+    INTO v_n
+    FROM orders
+    WHERE cust = p_cust;
+  UPDATE orders
+    SET amount = 0
+    WHERE cust = p_cust AND v_n > 0;
+END p_reset;
+/
+
+-- info L1: p_reset changes data without BEGIN TRANSACTION. In Sybase's default unchained mode each statement commits on its own; in Oracle nothing is committed until the caller commits.
+-- info L4: SELECT ... INTO raises NO_DATA_FOUND or TOO_MANY_ROWS where Sybase would leave the variables unchanged.
@@ -0,0 +1,7 @@
+create procedure p_reset @cust int as
+begin
+  declare @n int
+  select @n = count(*) from orders where cust = @cust
+  update orders set amount = 0 where cust = @cust and @n > 0
+end
+go
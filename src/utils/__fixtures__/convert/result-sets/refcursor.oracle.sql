@@ -0,0 +1,33 @@
+CREATE OR REPLACE PROCEDURE p_orders (
+  p_cust IN NUMBER,
+  p_total IN OUT NUMBER,
+  p_result1 OUT SYS_REFCURSOR,
+  p_result2 OUT SYS_REFCURSOR
+) AS
+BEGIN
+  SELECT SUM(amount)
+    INTO p_total
+    FROM orders
+    WHERE cust = p_cust;
+  OPEN p_result1 FOR
+    SELECT id, amount, o.created AS placed
+    FROM orders o
+    WHERE cust = p_cust
+    ORDER BY id;
+  IF p_total > 100 THEN
+    OPEN p_result2 FOR
+      SELECT 'vip' AS tier, p_total AS total
+      FROM DUAL;
+  END IF;
+  RETURN;
+END p_orders;
+/
+
+-- contract: p_orders(p_cust IN NUMBER, p_total IN OUT NUMBER, p_result1 OUT SYS_REFCURSOR, p_result2 OUT SYS_REFCURSOR)
+--   Result sets are returned through OUT SYS_REFCURSOR parameters added at the end of the parameter list; bind a cursor variable for each and fetch from it.
+--   p_result1: id, amount, placed
+--   p_result2: tier, total (only opened on some paths; fetching it otherwise raises ORA-01001)
+--   The return status is no longer returned; Oracle procedures have no return value.
+--   Parameters are named p_<name> instead of @<name>, and OUTPUT parameters are IN OUT.
+-- info L3: SELECT ... INTO raises NO_DATA_FOUND or TOO_MANY_ROWS where Sybase would leave the variables unchanged.
+-- info L7: Return status values were dropped; Oracle procedures cannot return a value.
@@ -0,0 +1,9 @@
+create procedure p_orders @cust int, @total money output as
+begin
+  select @total = sum(amount) from orders where cust = @cust
+  select id, amount, o.created as placed from orders o where cust = @cust order by id
+  if @total > 100
+    select 'vip' as tier, @total total
+  return 0
+end
+go
@@ -0,0 +1,2 @@
+create table orders (id int not null, cust int not null, amount money null, created datetime not null)
+go
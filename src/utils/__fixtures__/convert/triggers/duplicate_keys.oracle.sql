@@ -0,0 +1,31 @@
+CREATE GLOBAL TEMPORARY TABLE tt_order_lines_sales_ins ON COMMIT DELETE ROWS AS
+SELECT * FROM order_lines WHERE 1 = 0;
+
+CREATE OR REPLACE TRIGGER order_lines_sales
+FOR INSERT ON order_lines
+COMPOUND TRIGGER
+  v_trigger_rows PLS_INTEGER := 0;
+  BEFORE STATEMENT IS
+  BEGIN
+    DELETE FROM tt_order_lines_sales_ins;
+  END BEFORE STATEMENT;
+  AFTER EACH ROW IS
+  BEGIN
+    v_trigger_rows := v_trigger_rows + 1;
+    INSERT INTO tt_order_lines_sales_ins (order_id, product_id, qty) VALUES (:NEW.order_id, :NEW.product_id, :NEW.qty);
+  END AFTER EACH ROW;
+  AFTER STATEMENT IS
+  BEGIN
+    IF v_trigger_rows = 0 THEN
+      RETURN;
+    END IF;
+    UPDATE product_sales
+      SET cnt = (SELECT product_sales.cnt + 1 FROM tt_order_lines_sales_ins i WHERE product_sales.product_id = i.product_id AND ROWNUM = 1),
+        qty = (SELECT product_sales.qty + i.qty FROM tt_order_lines_sales_ins i WHERE product_sales.product_id = i.product_id AND ROWNUM = 1)
+      WHERE EXISTS (SELECT 1 FROM tt_order_lines_sales_ins i WHERE product_sales.product_id = i.product_id);
+  END AFTER STATEMENT;
+END order_lines_sales;
+/
+
+-- info L2: The trigger was converted to a compound trigger because it reads @@rowcount.
+-- info L7: UPDATE ... FROM was rewritten with correlated subqueries, which take the first matching row as Sybase does.
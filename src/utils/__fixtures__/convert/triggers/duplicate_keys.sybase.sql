@@ -0,0 +1,12 @@
+-- Several inserted lines can name the same product, which Sybase counts once
+create trigger order_lines_sales on order_lines for insert
+as
+begin
+    if @@rowcount = 0
+        return
+    update product_sales
+    set cnt = cnt + 1, qty = qty + i.qty
+    from product_sales, inserted i
+    where product_sales.product_id = i.product_id
+end
+go
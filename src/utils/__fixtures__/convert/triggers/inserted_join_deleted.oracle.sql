@@ -0,0 +1,15 @@
+CREATE OR REPLACE TRIGGER order_lines_qty
+AFTER UPDATE ON order_lines
+FOR EACH ROW
+BEGIN
+  INSERT INTO qty_changes (order_id, product_id, old_qty, new_qty)
+    SELECT :NEW.order_id, :NEW.product_id, :OLD.qty, :NEW.qty
+    FROM DUAL
+    WHERE :NEW.order_id = :OLD.order_id AND :NEW.product_id = :OLD.product_id AND :NEW.qty <> :OLD.qty;
+  UPDATE product_sales
+    SET qty = product_sales.qty + :NEW.qty - :OLD.qty
+    WHERE :NEW.order_id = :OLD.order_id AND :NEW.product_id = :OLD.product_id AND product_sales.product_id = :NEW.product_id;
+END;
+/
+
+-- info L1: The trigger was converted to a row-level trigger; the columns of inserted and deleted became :NEW and :OLD.
@@ -0,0 +1,14 @@
+create trigger order_lines_qty on order_lines for update
+as
+begin
+    insert into qty_changes (order_id, product_id, old_qty, new_qty)
+    select i.order_id, i.product_id, d.qty, i.qty
+    from inserted i join deleted d on i.order_id = d.order_id and i.product_id = d.product_id
+    where i.qty <> d.qty
+
+    update product_sales
+    set qty = product_sales.qty + i.qty - d.qty
+    from product_sales, inserted i join deleted d on i.order_id = d.order_id and i.product_id = d.product_id
+    where product_sales.product_id = i.product_id
+end
+go
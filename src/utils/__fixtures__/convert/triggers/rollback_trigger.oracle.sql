@@ -0,0 +1,15 @@
+CREATE OR REPLACE TRIGGER order_lines_check
+AFTER INSERT ON order_lines
+FOR EACH ROW
+DECLARE
+  v_exists PLS_INTEGER;
+BEGIN
+  SELECT CASE WHEN EXISTS (SELECT 1 FROM DUAL WHERE :NEW.qty <= 0) THEN 1 ELSE 0 END INTO v_exists FROM DUAL;
+  IF v_exists = 1 THEN
+    RAISE_APPLICATION_ERROR(-20001, 'The quantity must be positive');
+  END IF;
+END;
+/
+
+-- info L1: The trigger was converted to a row-level trigger; the columns of inserted and deleted became :NEW and :OLD.
+-- warning L5: ROLLBACK is not allowed in an Oracle trigger; an error makes the triggering statement fail instead, and the caller has to roll back the rest of its transaction.
@@ -0,0 +1,7 @@
+create trigger order_lines_check on order_lines for insert
+as
+begin
+    if exists (select 1 from inserted where qty <= 0)
+        rollback trigger with raiserror 20001 'The quantity must be positive'
+end
+go
@@ -0,0 +1,13 @@
+create table order_lines (
+    order_id int not null,
+    product_id int not null,
+    qty int not null
+)
+go
+
+create table product_sales (
+    product_id int not null,
+    cnt int not null,
+    qty int not null
+)
+go
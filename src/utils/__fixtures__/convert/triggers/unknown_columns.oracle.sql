@@ -0,0 +1,4 @@
+-- CREATE OR REPLACE TRIGGER invoices_total ON invoices: not converted
+
+-- info L1: The trigger was converted to a compound trigger because it aggregates the rows of inserted or deleted.
+-- error L1: The columns of invoices are unknown, so the rows of inserted and deleted could not be collected and the trigger was not converted.
@@ -0,0 +1,7 @@
+create trigger invoices_total on invoices for insert
+as
+begin
+    update invoice_totals
+    set total = total + (select sum(amount) from inserted)
+end
+go
@@ -0,0 +1,7 @@
+-- two batches; comments and strings must not leak keywords
+use sales
+go
+/* select from nowhere */
+delete from orders where note like '%go%' and id is not null
+truncate table order_audit
+go
@@ -0,0 +1,9 @@
+create table dbo.customers (
+    cust_id     numeric(10,0) identity,
+    name        varchar(40)   not null,
+    region_code char(2)       default 'NA' null,
+    balance     money         null,
+    created     datetime      default getdate() not null,
+    constraint pk_customers primary key (cust_id)
+)
+go
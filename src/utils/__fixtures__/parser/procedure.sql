@@ -0,0 +1,27 @@
+create procedure p_adjust_balance
+    @cust_id int,
+    @amount  money = 0,
+    @new_balance money output
+as
+begin
+    declare @count int, @status char(1)
+
+    select @count = count(*) from customers where cust_id = @cust_id
+    if @count = 0
+    begin
+        raiserror 20001 'Unknown customer %1!', @cust_id
+        return -1
+    end
+
+    while @amount > 1000
+    begin
+        select @amount = @amount - 1000
+        if @amount < 5000 break
+    end
+
+    update customers set balance = balance + @amount where cust_id = @cust_id
+    select @new_balance = balance from customers where cust_id = @cust_id
+    exec p_audit @cust_id, 'adjust'
+    return 0
+end
+go
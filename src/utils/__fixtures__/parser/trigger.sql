@@ -0,0 +1,10 @@
+create trigger tr_orders_ins on orders for insert, update
+as
+if exists (select 1 from inserted where amount < 0)
+    rollback trigger with raiserror 20001 'Negative amount'
+if update(amount)
+begin
+    insert into order_audit (order_id, amount, changed)
+    select i.id, i.amount, getdate() from inserted i
+end
+go
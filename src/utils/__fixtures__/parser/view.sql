@@ -0,0 +1,9 @@
+create view v_big_orders (customer, total)
+as
+select c.name, sum(o.amount)
+from customers c
+     join orders o on o.cust_id = c.cust_id
+where o.status in ('A', 'B') and o.amount between 100 and 1000
+group by c.name
+having sum(o.amount) > 500
+go
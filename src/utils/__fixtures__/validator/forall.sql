@@ -0,0 +1,17 @@
+CREATE OR REPLACE PROCEDURE copy_emps (
+  p_dept IN NUMBER
+) AS
+  TYPE emp_rows_t IS TABLE OF emp%ROWTYPE;
+  l emp_rows_t;
+  r emp%ROWTYPE;
+BEGIN
+  SELECT * BULK COLLECT INTO l FROM emp_stage WHERE dept = p_dept;
+  FORALL i IN 1..l.COUNT INSERT INTO emp VALUES l(i);
+  FORALL i IN INDICES OF l
+    INSERT INTO emp_hist VALUES l(i);
+  FORALL i IN 1 .. l.COUNT
+    UPDATE emp SET sal = l(i).sal WHERE empno = l(i).empno;
+  SELECT * INTO r FROM emp WHERE ROWNUM = 1;
+  INSERT INTO emp_hist VALUES r;
+END copy_emps;
+/
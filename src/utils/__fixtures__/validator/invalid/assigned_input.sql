@@ -0,0 +1,16 @@
+-- expect: PL/SQL compile error at line 6, column 5: IN parameter p_qty cannot be assigned (PLS-00363).
+-- expect: PL/SQL compile error at line 7, column 37: IN parameter p_order_id cannot be assigned (PLS-00363).
+CREATE OR REPLACE PROCEDURE add_line(p_order_id IN NUMBER, p_qty NUMBER, p_price IN OUT NUMBER) AS
+BEGIN
+  IF p_qty IS NULL THEN
+    p_qty := 1;
+    SELECT list_price INTO p_price, p_order_id FROM products WHERE product_id = 1;
+  END IF;
+  p_price := p_price * p_qty;
+  DECLARE
+    p_order_id NUMBER := 0;
+  BEGIN
+    p_order_id := p_order_id + 1;
+  END;
+END add_line;
+/
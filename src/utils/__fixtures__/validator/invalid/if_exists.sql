@@ -0,0 +1,14 @@
+-- expect: PL/SQL compile error at line 6, column 6: EXISTS can only be used in a SQL statement (PLS-00204).
+-- expect: PL/SQL compile error at line 9, column 23: EXISTS can only be used in a SQL statement (PLS-00204).
+CREATE OR REPLACE PROCEDURE close_order(p_order_id IN NUMBER) AS
+  v_open PLS_INTEGER;
+BEGIN
+  IF EXISTS (SELECT 1 FROM order_lines WHERE order_id = p_order_id AND shipped = 0) THEN
+    RAISE_APPLICATION_ERROR(-20001, 'The order has unshipped lines');
+  END IF;
+  v_open := CASE WHEN EXISTS (SELECT 1 FROM orders WHERE order_id = p_order_id) THEN 1 ELSE 0 END;
+  SELECT CASE WHEN EXISTS (SELECT 1 FROM orders WHERE order_id = p_order_id) THEN 1 ELSE 0 END
+    INTO v_open FROM DUAL;
+  UPDATE orders SET status = 'C' WHERE order_id = p_order_id;
+END close_order;
+/
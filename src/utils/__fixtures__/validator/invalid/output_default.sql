@@ -0,0 +1,12 @@
+-- expect: PL/SQL compile error at line 4, column 25: OUT and IN OUT parameters cannot have a default (PLS-00230).
+-- expect: PL/SQL compile error at line 5, column 21: OUT and IN OUT parameters cannot have a default (PLS-00230).
+CREATE OR REPLACE PROCEDURE next_number(
+  p_value IN OUT NUMBER DEFAULT 0,
+  p_step OUT NUMBER := 1,
+  p_limit IN NUMBER DEFAULT 100
+) AS
+BEGIN
+  p_step := 1;
+  p_value := LEAST(p_value + p_step, p_limit);
+END next_number;
+/
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { ProviderRequest } from '@/types';
+import * as browser from '@/utils/aiPrompts';
+import { DEFAULT_CONVERSION_SETTINGS } from '@/utils/conversionSettings';
+import * as edge from '../../supabase/functions/_shared/prompts.ts';
+
+// The browser and the edge function each keep a copy of the prompts; they have to stay the same
+const requests: ProviderRequest[] = [
+  { model: 'm', sybaseCode: 'select 1' },
+  {
+    model: 'm',
+    fileName: 'p_orders.sql',
+    objectType: 'view',
+    sybaseCode: 'create view v as select * from a, b where a.id *= b.id\nexec(@sql)',
+    draft: 'CREATE OR REPLACE VIEW v AS SELECT 1 FROM DUAL;',
+    customPrompt: 'Convert carefully.',
+    oracleCode: 'SELECT 1 FROM DUAL;',
+    issues: [{ id: '1', lineNumber: 2, description: 'Check the join', severity: 'warning', suggestedFix: 'Use ANSI joins' }],
+    schemaContext: 'create table a (id int)',
+    settings: DEFAULT_CONVERSION_SETTINGS,
+  },
+];
+
+describe('aiPrompts', () => {
+  requests.forEach((request, index) => {
+    it(`builds the edge function's prompts for request ${index + 1}`, () => {
+      expect(browser.buildConvertPrompt(request)).toBe(edge.buildConvertPrompt(request));
+      expect(browser.buildExplainPrompt(request)).toBe(edge.buildExplainPrompt(request));
+      expect(browser.buildFixPrompt(request)).toBe(edge.buildFixPrompt(request));
+    });
+  });
+
+  it("computes the edge function's fixture keys and strips fences the same way", () => {
+    (['convert', 'explain', 'fix'] as const).forEach(operation => {
+      expect(browser.fixtureKey(operation, 'select 1\r\n')).toBe(edge.fixtureKey(operation, 'select 1\r\n'));
+    });
+    expect(browser.stripCodeFences('```sql\nBEGIN NULL; END;\n```')).toBe(edge.stripCodeFences('```sql\nBEGIN NULL; END;\n```'));
+  });
+});
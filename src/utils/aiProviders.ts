@@ -0,0 +1,156 @@
+import { ConversionProvider, ProviderModel, ProviderRequest } from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+import { buildConvertPrompt, buildExplainPrompt, buildFixPrompt, fixtureKey, stripCodeFences } from './aiPrompts';
+
+// ---- Gemini through the convert edge function ----
+
+// The Gemini key, the server-side prompt and the rate limit live in supabase/functions/convert,
+// so nothing secret ships in the browser bundle
+const invokeConvertFunction = async (
+  operation: 'convert' | 'explain' | 'fix',
+  request: ProviderRequest
+): Promise<{ convertedCode: string; explanations?: string[] }> => {
+  const { data, error } = await supabase.functions.invoke('convert', {
+    body: {
+      operation,
+      model: request.model,
+      fileName: request.fileName,
+      objectType: request.objectType,
+      sybaseCode: request.sybaseCode,
+      draft: request.draft,
+      customPrompt: request.customPrompt,
+      oracleCode: request.oracleCode,
+      issues: request.issues,
+      schemaContext: request.schemaContext,
+      settings: request.settings,
+    },
+  });
+  if (error) {
+    // Non-2xx responses carry the function's own error message in the body
+    const context = (error as { context?: Response }).context;
+    const details = context ? await context.json().catch(() => null) : null;
+    throw new Error(details?.error || error.message);
+  }
+  return data;
+};
+
+export const createEdgeFunctionProvider = (): ConversionProvider => ({
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: [
+    { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+    { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', description: 'Faster, less thorough' },
+  ],
+  isConfigured: () => !!import.meta.env.VITE_SUPABASE_URL,
+  convert: async request => (await invokeConvertFunction('convert', request)).convertedCode,
+  explain: async request => (await invokeConvertFunction('explain', request)).explanations?.[0] ?? '',
+  fix: async request => (await invokeConvertFunction('fix', request)).convertedCode,
+});
+
+// ---- OpenAI-compatible endpoints (OpenAI, Ollama, LM Studio, vLLM, ...) ----
+
+// Called from the browser, so this is meant for local servers; hosted keys belong in an edge function
+interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  models: string[];
+}
+
+const OPENAI_CONFIG: OpenAICompatibleConfig = {
+  // Ollama's default address, so a local server works without configuration
+  baseUrl: import.meta.env.VITE_OPENAI_BASE_URL || 'http://localhost:11434/v1',
+  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
+  models: (import.meta.env.VITE_OPENAI_MODELS || 'llama3.1').split(',').map((model: string) => model.trim()).filter(Boolean),
+};
+
+const SYSTEM_PROMPT = 'You are an expert database engineer migrating Sybase ASE T-SQL to Oracle PL/SQL.';
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig = OPENAI_CONFIG): ConversionProvider => {
+  const generate = async (model: string, prompt: string) => {
+    const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: prompt },
+        ],
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${await response.text()}`);
+    }
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new Error('OpenAI-compatible endpoint returned no message content');
+    return stripCodeFences(content);
+  };
+  return {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    models: config.models.map(model => ({ id: model, label: model, description: config.baseUrl })),
+    isConfigured: () => !!config.baseUrl && config.models.length > 0,
+    convert: request => generate(request.model, buildConvertPrompt(request)),
+    explain: request => generate(request.model, buildExplainPrompt(request)),
+    fix: request => generate(request.model, buildFixPrompt(request)),
+  };
+};
+
+// ---- Fixture replay ----
+
+// Deterministic provider for tests and demos: replays recorded responses and otherwise
+// answers with the rule-based draft, never touching the network
+export const createMockProvider = (fixtures: Record<string, string> = {}): ConversionProvider => ({
+  id: 'mock',
+  label: 'Mock (fixture replay)',
+  models: [{ id: 'fixtures', label: 'Recorded fixtures', description: 'Deterministic, offline' }],
+  isConfigured: () => true,
+  convert: async request =>
+    fixtures[fixtureKey('convert', request.sybaseCode)] ?? request.draft ?? '',
+  explain: async request =>
+    fixtures[fixtureKey('explain', request.sybaseCode)] ?? 'Mock explanation: no recorded fixture for this file.',
+  fix: async request =>
+    fixtures[fixtureKey('fix', request.sybaseCode)] ?? request.oracleCode ?? request.draft ?? '',
+});
+
+// ---- Registry ----
+
+const providers: ConversionProvider[] = [
+  createEdgeFunctionProvider(),
+  createOpenAICompatibleProvider(),
+  createMockProvider(),
+];
+
+export const DEFAULT_AI_MODEL = 'gemini:gemini-2.5-pro';
+
+export const getProviders = (): ConversionProvider[] => providers;
+
+// Register an additional provider, replacing any existing one with the same id
+export const registerProvider = (provider: ConversionProvider) => {
+  const index = providers.findIndex(existing => existing.id === provider.id);
+  if (index === -1) providers.push(provider);
+  else providers[index] = provider;
+};
+
+export const modelId = (provider: ConversionProvider, model: ProviderModel): string => `${provider.id}:${model.id}`;
+
+// Resolve a "provider:model" id. Bare model ids (and legacy values such as 'gemini' or
+// 'default') resolve to the first provider offering that model, then to the default model.
+export const resolveModel = (aiModel: string): { provider: ConversionProvider; model: string } => {
+  const separator = aiModel.indexOf(':');
+  if (separator !== -1) {
+    const provider = providers.find(p => p.id === aiModel.slice(0, separator));
+    if (provider) return { provider, model: aiModel.slice(separator + 1) };
+  }
+  const byModel = providers.find(p => p.models.some(model => model.id === aiModel));
+  if (byModel) return { provider: byModel, model: aiModel };
+  const byProvider = providers.find(p => p.id === aiModel);
+  if (byProvider && byProvider.models.length > 0) return { provider: byProvider, model: byProvider.models[0].id };
+  if (aiModel !== DEFAULT_AI_MODEL) return resolveModel(DEFAULT_AI_MODEL);
+  throw new Error(`No AI provider registered for model '${aiModel}'`);
+};
@@ -0,0 +1,95 @@
+import { ConversionSettings, CursorStyle, DataTypeMapping, IdentifierCase, IdentityStyle, NamingPolicy, ResultSetStyle } from '@/types';
+import { Json } from '@/integrations/supabase/types';
+import { DEFAULT_TYPE_MAPPINGS, parseDataTypeText } from './dataTypeMapping';
+import { DEFAULT_NAMING_POLICY, isValidPrefix } from './namingPolicy';
+
+export const DEFAULT_CONVERSION_SETTINGS: ConversionSettings = {
+  identityStyle: 'identity',
+  resultSetStyle: 'refcursor',
+  cursorStyle: 'for-loop',
+  naming: DEFAULT_NAMING_POLICY,
+  typeMappings: DEFAULT_TYPE_MAPPINGS,
+};
+
+export const IDENTITY_STYLES: { value: IdentityStyle; label: string; description: string }[] = [
+  { value: 'identity', label: 'Identity column', description: 'GENERATED BY DEFAULT AS IDENTITY (Oracle 12c and later)' },
+  { value: 'sequence', label: 'Sequence and trigger', description: 'A <table>_seq sequence filled in by a <table>_bi trigger' },
+];
+
+export const RESULT_SET_STYLES: { value: ResultSetStyle; label: string; description: string }[] = [
+  { value: 'refcursor', label: 'OUT SYS_REFCURSOR', description: 'A p_result cursor parameter per result set, added to the signature' },
+  { value: 'implicit', label: 'Implicit results', description: 'DBMS_SQL.RETURN_RESULT, signature unchanged (Oracle 12c and later)' },
+];
+
+export const CURSOR_STYLES: { value: CursorStyle; label: string; description: string }[] = [
+  { value: 'for-loop', label: 'Cursor FOR loop', description: 'FOR row IN cursor LOOP; the cursor opens and closes itself' },
+  { value: 'bulk-collect', label: 'BULK COLLECT', description: 'Rows fetched 100 at a time into a collection' },
+  { value: 'explicit', label: 'Explicit FETCH loop', description: 'OPEN, FETCH and EXIT WHEN %NOTFOUND, as in Sybase' },
+];
+
+export const IDENTIFIER_CASES: { value: IdentifierCase; label: string; description: string }[] = [
+  { value: 'as-written', label: 'As written', description: 'Names are written as in Sybase; Oracle stores them in upper case' },
+  { value: 'upper', label: 'UPPER CASE', description: 'Names are written in upper case' },
+  { value: 'lower', label: 'lower case', description: 'Names are written in lower case; Oracle stores them in upper case' },
+  { value: 'quoted', label: 'Preserve case', description: 'Mixed-case names are quoted, so they stay case-sensitive' },
+];
+
+export const MAX_IDENTIFIER_LENGTHS: { value: string; label: string; description: string }[] = [
+  { value: '128', label: '128 characters', description: 'Oracle 12.2 and later' },
+  { value: '30', label: '30 characters', description: 'Oracle 12.1 and earlier' },
+];
+
+const parseNamingPolicy = (value: Json | undefined): NamingPolicy => {
+  const saved = value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+  const reservedWords = saved.reservedWords && typeof saved.reservedWords === 'object' && !Array.isArray(saved.reservedWords)
+    ? Object.fromEntries(Object.entries(saved.reservedWords).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+    : DEFAULT_NAMING_POLICY.reservedWords;
+  const prefix = (name: 'variablePrefix' | 'parameterPrefix') =>
+    typeof saved[name] === 'string' && isValidPrefix(saved[name] as string) ? saved[name] as string : DEFAULT_NAMING_POLICY[name];
+  return {
+    identifierCase: IDENTIFIER_CASES.some(option => option.value === saved.identifierCase)
+      ? saved.identifierCase as IdentifierCase
+      : DEFAULT_NAMING_POLICY.identifierCase,
+    maxLength: MAX_IDENTIFIER_LENGTHS.some(option => Number(option.value) === saved.maxLength)
+      ? saved.maxLength as number
+      : DEFAULT_NAMING_POLICY.maxLength,
+    reservedWords,
+    variablePrefix: prefix('variablePrefix'),
+    parameterPrefix: prefix('parameterPrefix'),
+  };
+};
+
+const parseTypeMappingList = (value: Json | undefined): DataTypeMapping[] => {
+  if (!Array.isArray(value)) return DEFAULT_CONVERSION_SETTINGS.typeMappings;
+  return value.flatMap(item => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+    const { sybaseType, oracleType, description } = item;
+    if (typeof sybaseType !== 'string' || typeof oracleType !== 'string' || !parseDataTypeText(sybaseType) || !parseDataTypeText(oracleType)) return [];
+    return [{ sybaseType, oracleType, ...(typeof description === 'string' ? { description } : {}) }];
+  });
+};
+
+// Settings as saved in migrations.conversion_settings; anything missing or unknown falls back to the default
+export const parseConversionSettings = (value: Json | null | undefined): ConversionSettings => {
+  const saved = value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+  return {
+    identityStyle: IDENTITY_STYLES.some(style => style.value === saved.identityStyle)
+      ? saved.identityStyle as IdentityStyle
+      : DEFAULT_CONVERSION_SETTINGS.identityStyle,
+    resultSetStyle: RESULT_SET_STYLES.some(style => style.value === saved.resultSetStyle)
+      ? saved.resultSetStyle as ResultSetStyle
+      : DEFAULT_CONVERSION_SETTINGS.resultSetStyle,
+    cursorStyle: CURSOR_STYLES.some(style => style.value === saved.cursorStyle)
+      ? saved.cursorStyle as CursorStyle
+      : DEFAULT_CONVERSION_SETTINGS.cursorStyle,
+    naming: parseNamingPolicy(saved.naming),
+    typeMappings: parseTypeMappingList(saved.typeMappings),
+  };
+};
+
+// Settings in the form saved to migrations.conversion_settings
+export const conversionSettingsJson = (settings: ConversionSettings): Json => ({
+  ...settings,
+  naming: { ...settings.naming },
+  typeMappings: settings.typeMappings.map(mapping => ({ ...mapping })),
+});
@@ -1,45 +1,81 @@
-import { ConversionResult, CodeFile, ConversionIssue, DataTypeMapping } from '@/types';
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { ConversionResult, CodeFile, ConversionContext, ConversionIssue, ConversionIssueCategory, ConversionSettings, FunctionUsage, IdentifierMapping } from '@/types';
+import { tokenize } from './tsqlLexer';
+import { convertTempTablesWithRules, convertWithRules, RULE_BASED_MODEL, RuleBasedConversion } from './ruleBasedConverter';
+import { FUNCTION_CATALOG } from './functionCatalog';
+import { resolveModel } from './aiProviders';
+import { buildSchemaCatalog, formatSchemaContext, sliceSchema } from './schemaCatalog';
+import { analyzeTempTables, buildTempTableFile } from './tempTables';
+import { validatePlsql } from './plsqlValidator';
 
-const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
+export const ISSUE_CATEGORY_LABELS: Record<ConversionIssueCategory, string> = {
+  transaction: 'Transactions',
+  'error-handling': 'Error handling',
+  trigger: 'Triggers',
+  'dynamic-sql': 'Dynamic SQL',
+  'outer-join': 'Outer joins',
+};
 
-// Enhanced AI-based code conversion with comprehensive Sybase to Oracle rules
-export const convertSybaseToOracle = async (
-  file: CodeFile,
-  aiModel: string = 'default',
-  customPrompt?: string,
-  skipExplanation: boolean = true
-): Promise<ConversionResult> => {
-  console.log(`[CONVERT] Starting conversion for file: ${file.name} with model: ${aiModel}`);
-  const startTime = Date.now();
+// Helper: issue recorded when the selected AI provider could not be used
+const fallbackIssue = (e: unknown): ConversionIssue => ({
+  id: crypto.randomUUID(),
+  description: `AI conversion was unavailable (${e instanceof Error ? e.message : 'unknown error'}); the rule-based engine was used instead.`,
+  severity: 'warning',
+  suggestedFix: 'Review the converted code, or retry once the AI model is reachable.',
+});
 
-  // Extract data type mappings from original code
-  const dataTypeMapping = extractDataTypeMappings(file.content);
+// Helper: issue recorded when the rule-based engine failed on a file. Without an AI conversion
+// the file has no converted code at all.
+const ruleEngineIssue = (e: unknown, usedRules: boolean): ConversionIssue => ({
+  id: crypto.randomUUID(),
+  description: `The rule-based engine failed on this file (${e instanceof Error ? e.message : 'unknown error'}).`,
+  severity: usedRules ? 'error' : 'warning',
+  suggestedFix: usedRules ? 'Convert the file with an AI model or by hand.' : 'Review the AI conversion without a rule-based draft to compare it with.',
+});
 
-  // Analyze code complexity before conversion
-  const originalComplexity = analyzeCodeComplexity(file.content);
+const EMPTY_RULE_BASED: RuleBasedConversion = {
+  convertedCode: '',
+  issues: [],
+  callerContracts: [],
+  identifierMappings: [],
+  dataTypeMappings: [],
+  functionCalls: [],
+};
 
-  // Use custom prompt if provided, otherwise use default
-  const prompt = customPrompt && customPrompt.trim().length > 0
-    ? `${customPrompt}\n\nSybase code:\n${file.content}`
-    : `Convert the following Sybase SQL code to Oracle PL/SQL. Ensure 100% accuracy and best practices. Output only the converted Oracle code.\n\nSybase code:\n${file.content}`;
-  const model = genAI.getGenerativeModel({ model: "gemini-2.5-pro" });
-  let convertedCode = '';
+// Helper: the rule-based conversion, which is empty when the engine throws, so that an engine
+// failure never stops the AI from converting the file
+const tryConvertWithRules = (file: CodeFile, context: ConversionContext): { ruleBased: RuleBasedConversion; error?: unknown } => {
   try {
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    convertedCode = response.text().replace(/^```[a-zA-Z]*|```$/g, '').trim();
+    return { ruleBased: convertWithRules(file, context) };
   } catch (e) {
-    console.error(`[CONVERT] Error converting file: ${file.name}`, e);
-    throw new Error(`Conversion failed for file: ${file.name}`);
+    console.error(`[CONVERT] Rule-based engine failed for file: ${file.name}`, e);
+    return { ruleBased: EMPTY_RULE_BASED, error: e ?? new Error('unknown error') };
   }
+};
 
-  const conversionTime = Date.now() - startTime;
+// Helper: the tables a file references, described for the AI prompt
+const schemaContextFor = (file: CodeFile, context: ConversionContext): string | undefined => {
+  if (!context.schema) return undefined;
+  return formatSchemaContext(sliceSchema(context.schema, file.content)) || undefined;
+};
+
+// What the rule-based engine found out about a file, reported whichever model converted it
+type RuleBasedAnalysis = Omit<RuleBasedConversion, 'convertedCode' | 'issues'>;
 
-  // Analyze converted code complexity
+// Helper: analyze a finished conversion and assemble the result
+const buildConversionResult = (
+  file: CodeFile,
+  convertedCode: string,
+  engineIssues: ConversionIssue[],
+  startTime: number,
+  explanations: string[],
+  analysis: RuleBasedAnalysis
+): ConversionResult => {
+  // Analyze code complexity before and after conversion
+  const originalComplexity = analyzeCodeComplexity(file.content);
   const convertedComplexity = analyzeCodeComplexity(convertedCode);
 
+  const conversionTime = Date.now() - startTime;
+
   // Generate quantitative performance analysis
   const performanceMetrics = generatePerformanceMetrics(
     originalComplexity,
@@ -50,26 +86,17 @@ export const convertSybaseToOracle = async (
   );
 
   // Generate issues based on quantitative analysis
-  const issues: ConversionIssue[] = generateQuantitativeIssues(
-    originalComplexity,
-    convertedComplexity,
-    file.content,
-    convertedCode
-  );
-
-  // Optionally skip AI explanation for speed
-  let explanations: string[] = [];
-  if (!skipExplanation) {
-    try {
-      const explanationPrompt = `Explain the main changes and rationale for converting the following Sybase SQL code to Oracle PL/SQL. Highlight any complex rewrites, data type changes, and best practices applied.\n\nSybase code:\n${file.content}\n\nOracle code:\n${convertedCode}`;
-      const explanationResult = await model.generateContent(explanationPrompt);
-      const explanationResponse = await explanationResult.response;
-      const explanationText = explanationResponse.text().replace(/^```[a-zA-Z]*|```$/g, '').trim();
-      explanations = [explanationText];
-    } catch (e) {
-      explanations = ["Explanation not available due to an error."];
-    }
-  }
+  const issues: ConversionIssue[] = [
+    ...engineIssues,
+    ...generateQuantitativeIssues(
+      originalComplexity,
+      convertedComplexity,
+      file.content,
+      convertedCode
+    ),
+    // Code that does not parse as PL/SQL makes the result an error
+    ...validatePlsql(convertedCode),
+  ];
 
   console.log(`[CONVERT] Success for file: ${file.name} in ${conversionTime}ms`);
   return {
@@ -77,108 +104,149 @@ export const convertSybaseToOracle = async (
     originalFile: file,
     convertedCode,
     issues,
-    dataTypeMapping,
+    dataTypeMapping: analysis.dataTypeMappings,
     performance: performanceMetrics,
     status: issues.some(i => i.severity === 'error') ? 'error' : 
             issues.length > 0 ? 'warning' : 'success',
     explanations,
+    callerContracts: analysis.callerContracts,
+    identifierMappings: analysis.identifierMappings,
+    functionUsage: analysis.functionCalls,
   };
 };
 
+// Enhanced AI-based code conversion with comprehensive Sybase to Oracle rules
+export const convertSybaseToOracle = async (
+  file: CodeFile,
+  aiModel: string = 'default',
+  customPrompt?: string,
+  skipExplanation: boolean = true,
+  context: ConversionContext = {}
+): Promise<ConversionResult> => {
+  console.log(`[CONVERT] Starting conversion for file: ${file.name} with model: ${aiModel}`);
+  const startTime = Date.now();
+
+  // The deterministic rule-based conversion is the result for the rule-based model,
+  // the first pass handed to the AI, and the fallback when the AI is unavailable
+  const { ruleBased, error: ruleEngineError } = tryConvertWithRules(file, context);
+  const engineIssues: ConversionIssue[] = [];
+  let convertedCode = '';
+  let usedRules = aiModel === RULE_BASED_MODEL;
+
+  const request = {
+    fileName: file.name,
+    objectType: file.type,
+    sybaseCode: file.content,
+    draft: ruleBased.convertedCode,
+    customPrompt,
+    schemaContext: schemaContextFor(file, context),
+    settings: context.settings,
+  };
+  if (!usedRules) {
+    try {
+      const { provider, model } = resolveModel(aiModel);
+      if (!provider.isConfigured()) throw new Error(`${provider.label} is not configured`);
+      convertedCode = await provider.convert({ ...request, model });
+    } catch (e) {
+      console.error(`[CONVERT] AI conversion failed for file: ${file.name}, using rule-based engine`, e);
+      usedRules = true;
+      engineIssues.push(fallbackIssue(e));
+    }
+  }
+  if (usedRules) {
+    convertedCode = ruleBased.convertedCode;
+    engineIssues.push(...ruleBased.issues);
+  }
+  if (ruleEngineError) engineIssues.push(ruleEngineIssue(ruleEngineError, usedRules));
+
+  // Optionally skip AI explanation for speed
+  let explanations: string[] = [];
+  if (!skipExplanation && usedRules) {
+    explanations = ["Converted with the rule-based engine. Statements it could not convert are listed as issues."];
+  } else if (!skipExplanation) {
+    try {
+      const { provider, model } = resolveModel(aiModel);
+      explanations = [await provider.explain({ ...request, model, oracleCode: convertedCode })];
+    } catch (e) {
+      explanations = ["Explanation not available due to an error."];
+    }
+  }
+
+  // The signature changes and names follow the migration's settings, which the AI is asked to apply as well
+  return buildConversionResult(file, convertedCode, engineIssues, startTime, explanations, ruleBased);
+};
+
+// Ask the selected provider to fix the known issues of an existing conversion.
+// The rule-based model has nothing to fix with, so it converts from scratch.
+export const fixConvertedCode = async (
+  file: CodeFile,
+  convertedCode: string,
+  issues: ConversionIssue[],
+  aiModel: string = 'default',
+  context: ConversionContext = {}
+): Promise<ConversionResult> => {
+  if (aiModel === RULE_BASED_MODEL || !convertedCode) {
+    return convertSybaseToOracle(file, aiModel, undefined, true, context);
+  }
+  console.log(`[CONVERT] Fixing file: ${file.name} with model: ${aiModel}`);
+  const startTime = Date.now();
+  const { provider, model } = resolveModel(aiModel);
+  if (!provider.isConfigured()) {
+    throw new Error(`${provider.label} is not configured`);
+  }
+  const fixedCode = await provider.fix({
+    model,
+    fileName: file.name,
+    objectType: file.type,
+    sybaseCode: file.content,
+    oracleCode: convertedCode,
+    issues,
+    schemaContext: schemaContextFor(file, context),
+    settings: context.settings,
+  });
+  return buildConversionResult(file, fixedCode, [], startTime, [], tryConvertWithRules(file, context).ruleBased);
+};
+
+// Context shared by every file of a migration: the table DDL of all uploaded files and
+// the #temp tables created by the shared temporary table script
+export const buildConversionContext = (files: CodeFile[], settings?: ConversionSettings): ConversionContext => ({
+  schema: buildSchemaCatalog(files),
+  settings,
+  sharedTempTables: analyzeTempTables(files).definitions.map(definition => definition.name),
+});
+
+// The shared script creating a global temporary table for each #temp table the files use.
+// It is always converted with the rules, since it only holds table definitions.
+export const convertSharedTempTables = (files: CodeFile[], context: ConversionContext = {}): ConversionResult | undefined => {
+  const analysis = analyzeTempTables(files);
+  const file = buildTempTableFile(analysis);
+  if (!file) return undefined;
+  const startTime = Date.now();
+  const converted = convertTempTablesWithRules(file, context);
+  const conflicts: ConversionIssue[] = analysis.conflicts.map(conflict => ({
+    id: crypto.randomUUID(),
+    description: `${conflict.name} is defined differently in ${conflict.fileName}; the definition from ${conflict.usedFileName} was used.`,
+    severity: 'warning',
+    suggestedFix: `Rename the temporary table in one of the files, or make ${conflict.fileName} match the shared definition.`,
+  }));
+  return buildConversionResult(file, converted.convertedCode, [...converted.issues, ...conflicts], startTime, [], converted);
+};
+
 // Convert multiple files in parallel with support for customPrompt and skipExplanation
 export const convertMultipleFiles = async (
   files: CodeFile[],
   aiModel: string = 'default',
   customPrompt?: string,
-  skipExplanation: boolean = true
+  skipExplanation: boolean = true,
+  context: ConversionContext = {}
 ): Promise<ConversionResult[]> => {
   // Map each file to a conversion promise using the improved convertSybaseToOracle
   const conversionPromises = files.map(file =>
-    convertSybaseToOracle(file, aiModel, customPrompt, skipExplanation)
+    convertSybaseToOracle(file, aiModel, customPrompt, skipExplanation, context)
   );
   return Promise.all(conversionPromises);
 };
 
-// Helper: extract data type mappings from code
-const extractDataTypeMappings = (code: string): DataTypeMapping[] => {
-  const mappings: DataTypeMapping[] = [];
-  const sybaseTypes = [
-    // Numeric types
-    { pattern: /\bint\b/gi, oracle: 'NUMBER(10)', desc: 'Integer type' },
-    { pattern: /\bsmallint\b/gi, oracle: 'NUMBER(5)', desc: 'Small integer type' },
-    { pattern: /\bbigint\b/gi, oracle: 'NUMBER(19)', desc: 'Big integer type' },
-    { pattern: /\btinyint\b/gi, oracle: 'NUMBER(3)', desc: 'Tiny integer type' },
-    { pattern: /\bdecimal\s*\(\s*(\d+)\s*,\s*(\d+)\s*\)/gi, oracle: 'NUMBER($1,$2)', desc: 'Decimal with precision and scale' },
-    { pattern: /\bnumeric\s*\(\s*(\d+)\s*,\s*(\d+)\s*\)/gi, oracle: 'NUMBER($1,$2)', desc: 'Numeric with precision and scale' },
-    { pattern: /\bfloat\b/gi, oracle: 'BINARY_FLOAT', desc: 'Floating point number' },
-    { pattern: /\breal\b/gi, oracle: 'BINARY_FLOAT', desc: 'Real number' },
-    { pattern: /\bmoney\b/gi, oracle: 'NUMBER(19,4)', desc: 'Money type' },
-    { pattern: /\bsmallmoney\b/gi, oracle: 'NUMBER(10,4)', desc: 'Small money type' },
-    
-    // Character types
-    { pattern: /\bchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'CHAR($1)', desc: 'Fixed-length character string' },
-    { pattern: /\bvarchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'VARCHAR2($1)', desc: 'Variable-length character string' },
-    { pattern: /\bnchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'NCHAR($1)', desc: 'Fixed-length Unicode string' },
-    { pattern: /\bnvarchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'NVARCHAR2($1)', desc: 'Variable-length Unicode string' },
-    { pattern: /\btext\b/gi, oracle: 'CLOB', desc: 'Large text data' },
-    { pattern: /\bntext\b/gi, oracle: 'NCLOB', desc: 'Large Unicode text data' },
-    
-    // Binary types
-    { pattern: /\bbinary\s*\(\s*(\d+)\s*\)/gi, oracle: 'RAW($1)', desc: 'Fixed-length binary data' },
-    { pattern: /\bvarbinary\s*\(\s*(\d+)\s*\)/gi, oracle: 'RAW($1)', desc: 'Variable-length binary data' },
-    { pattern: /\bimage\b/gi, oracle: 'BLOB', desc: 'Large binary data' },
-    
-    // Date/Time types
-    { pattern: /\bdatetime\b/gi, oracle: 'TIMESTAMP', desc: 'Date and time' },
-    { pattern: /\bsmalldatetime\b/gi, oracle: 'TIMESTAMP', desc: 'Small date and time' },
-    { pattern: /\bdate\b/gi, oracle: 'DATE', desc: 'Date only' },
-    { pattern: /\btime\b/gi, oracle: 'TIMESTAMP', desc: 'Time only' },
-    { pattern: /\btimestamp\b/gi, oracle: 'TIMESTAMP', desc: 'Timestamp' },
-    
-    // Boolean type
-    { pattern: /\bbit\b/gi, oracle: 'NUMBER(1)', desc: 'Boolean type (0 or 1)' },
-    
-    // Other types
-    { pattern: /\buniqueidentifier\b/gi, oracle: 'RAW(16)', desc: 'Unique identifier' },
-    { pattern: /\bsql_variant\b/gi, oracle: 'VARCHAR2(4000)', desc: 'SQL variant type' },
-    { pattern: /\bxml\b/gi, oracle: 'XMLTYPE', desc: 'XML data type' }
-  ];
-
-  const foundTypes = new Set<string>();
-  
-  sybaseTypes.forEach(({ pattern, oracle, desc }) => {
-    const matches = code.match(pattern);
-    if (matches) {
-      matches.forEach(match => {
-        const sybaseType = match.toLowerCase();
-        if (!foundTypes.has(sybaseType)) {
-          foundTypes.add(sybaseType);
-          
-          // Handle parameterized types
-          let oracleType = oracle;
-          if (match.includes('(')) {
-            const params = match.match(/\(([^)]+)\)/);
-            if (params) {
-              oracleType = oracle.replace(/\$(\d+)/g, (_, index) => {
-                const parts = params[1].split(',').map(p => p.trim());
-                return parts[parseInt(index) - 1] || '255';
-              });
-            }
-          }
-          
-          mappings.push({
-            sybaseType: match,
-            oracleType: oracleType,
-            description: desc
-          });
-        }
-      });
-    }
-  });
-
-  return mappings;
-};
-
 // Analyze code complexity quantitatively
 const analyzeCodeComplexity = (code: string) => {
   const lines = code.split('\n');
@@ -187,9 +255,13 @@ const analyzeCodeComplexity = (code: string) => {
   const emptyLines = lines.filter(line => line.trim() === '').length;
   const codeLines = totalLines - commentLines - emptyLines;
   
-  // Calculate cyclomatic complexity (simplified)
-  const controlStructures = (code.match(/\b(if|while|for|case|when|loop)\b/gi) || []).length;
-  const functions = (code.match(/\b(create|procedure|function|trigger)\b/gi) || []).length;
+  // Calculate cyclomatic complexity (simplified) from keyword tokens, so that
+  // comments and string literals are not counted. "END IF"/"END LOOP" are closers, not branches.
+  const words = keywordTokens(code);
+  const controlStructures = words.filter((word, i) =>
+    ['if', 'while', 'for', 'case', 'when', 'loop'].includes(word) && words[i - 1] !== 'end'
+  ).length;
+  const functions = words.filter(word => ['create', 'procedure', 'function', 'trigger'].includes(word)).length;
   const complexity = controlStructures + functions + 1;
   
   // Calculate maintainability index
@@ -210,24 +282,27 @@ const analyzeCodeComplexity = (code: string) => {
   };
 };
 
-// Analyze loops in code
+// Helper: lower-cased word tokens of T-SQL or PL/SQL code, without comments and strings
+const keywordTokens = (code: string): string[] =>
+  tokenize(code).filter(token => token.type === 'word').map(token => token.value.toLowerCase());
+
+// Analyze loops in code. Works for both dialects: a T-SQL WHILE, a PL/SQL WHILE/FOR ... LOOP
+// and a bare PL/SQL LOOP each count once.
 const analyzeLoops = (code: string) => {
-  const loopPatterns = [
-    /\bwhile\s+/gi,
-    /\bfor\s+/gi,
-    /\bloop\b/gi,
-    /\bcursor\s+for\s+/gi,
-    /\bopen\s+.*\s+for\s+/gi
-  ];
-  
+  const words = keywordTokens(code);
   let totalLoops = 0;
-  loopPatterns.forEach(pattern => {
-    const matches = code.match(pattern);
-    if (matches) {
-      totalLoops += matches.length;
+  let awaitingLoopKeyword = false;
+
+  words.forEach((word, i) => {
+    if (word === 'while' || (word === 'for' && words[i + 2] === 'in')) {
+      totalLoops++;
+      awaitingLoopKeyword = true;
+    } else if (word === 'loop' && words[i - 1] !== 'end') {
+      if (!awaitingLoopKeyword) totalLoops++;
+      awaitingLoopKeyword = false;
     }
   });
-  
+
   return totalLoops;
 };
 
@@ -367,6 +442,58 @@ export const generateConversionReport = (results: ConversionResult[]): string =>
   const totalConvertedLoops = results.reduce((sum, result) => 
     sum + (result.performance?.convertedLoops || 0), 0
   );
+
+  // Categorized issues listed together, so that reviewers can check e.g. all transaction changes at once
+  const categorySections = (Object.keys(ISSUE_CATEGORY_LABELS) as ConversionIssueCategory[])
+    .map(category => {
+      const entries = results.flatMap(result => (result.issues || [])
+        .filter(issue => issue.category === category)
+        .map(issue => `- ${result.originalFile.name}${issue.lineNumber ? ` line ${issue.lineNumber}` : ''} (${issue.severity}): ${issue.description}`));
+      return entries.length ? `### ${ISSUE_CATEGORY_LABELS[category]} (${entries.length})\n${entries.join('\n')}\n` : '';
+    })
+    .filter(section => section)
+    .join('\n');
+
+  const contracts = results.flatMap(result => (result.callerContracts || []).map(contract => `### ${contract.procedure} (${result.originalFile.name})
+- Sybase: \`${contract.sybaseSignature}\`
+- Oracle: \`${contract.oracleSignature}\`
+${contract.changes.map(change => `- ${change}`).join('\n')}
+`));
+
+  const packages = results.filter(result => result.oraclePackage).map(result => `### ${result.oraclePackage!.name}
+${result.oraclePackage!.procedures.map(procedure => `- ${result.oraclePackage!.name}.${procedure}`).join('\n')}
+`);
+
+  // One row per Sybase name; the policy maps it to the same Oracle name in every file
+  const mappings = new Map<string, { mapping: IdentifierMapping; files: Set<string> }>();
+  results.forEach(result => (result.identifierMappings || []).forEach(mapping => {
+    const key = mapping.sybaseName.toLowerCase();
+    const entry = mappings.get(key) || { mapping, files: new Set<string>() };
+    entry.files.add(result.originalFile.name);
+    mappings.set(key, entry);
+  }));
+  const identifiers = [...mappings.values()]
+    .sort((a, b) => a.mapping.sybaseName.localeCompare(b.mapping.sybaseName))
+    .map(({ mapping, files }) => `| ${mapping.sybaseName} | ${mapping.oracleName} | ${mapping.reasons.join(', ')} | ${[...files].join(', ')} |`);
+
+  // Every built-in called in the migration, and whether the function catalog converted its calls
+  const functionCalls = new Map<string, { usage: FunctionUsage; files: Set<string> }>();
+  results.forEach(result => (result.functionUsage || []).forEach(usage => {
+    const entry = functionCalls.get(usage.name) || { usage: { name: usage.name, calls: 0, mapped: 0 }, files: new Set<string>() };
+    entry.usage.calls += usage.calls;
+    entry.usage.mapped += usage.mapped;
+    entry.files.add(result.originalFile.name);
+    functionCalls.set(usage.name, entry);
+  }));
+  const coverageStatus = (usage: FunctionUsage) => {
+    if (!FUNCTION_CATALOG[usage.name]) return 'Not in catalog';
+    if (usage.mapped === usage.calls) return 'Mapped';
+    return usage.mapped ? 'Partly mapped' : 'Unmapped';
+  };
+  const coverage = [...functionCalls.values()].sort((a, b) => a.usage.name.localeCompare(b.usage.name));
+  const coverageRows = coverage.map(({ usage, files }) =>
+    `| ${usage.name} | ${usage.calls} | ${usage.mapped} | ${coverageStatus(usage)} | ${FUNCTION_CATALOG[usage.name]?.description || ''} | ${[...files].join(', ')} |`);
+  const unmapped = coverage.filter(({ usage }) => usage.mapped < usage.calls).map(({ usage }) => `${usage.name}()`);
   
   return `
 # Code Conversion Report
@@ -405,6 +532,16 @@ ${results.map(result => `
 - Performance Score: ${result.performance?.performanceScore || 0}/100
 `).join('')}
 
+## Issues by Category
+${categorySections || 'No categorized issues.\n'}
+## Caller Contract Changes
+${contracts.length ? `Applications calling these procedures have to change how they call them.\n\n${contracts.join('\n')}` : 'No procedure signatures changed.\n'}
+## Packages
+${packages.length ? `Procedures grouped into packages. Callers in the migration now call them with the package name, and applications have to do the same.\n\n${packages.join('\n')}` : 'Every procedure stays standalone.\n'}
+## Identifier Mapping
+${identifiers.length ? `Names renamed by the naming policy. Every file uses the same Oracle name.\n\n| Sybase | Oracle | Reason | Files |\n|--------|--------|--------|-------|\n${identifiers.join('\n')}\n` : 'No identifiers were renamed.\n'}
+## Function Coverage
+${coverageRows.length ? `${coverage.length - unmapped.length} of ${coverage.length} built-in functions were converted automatically in every call.${unmapped.length ? ` Calls of ${unmapped.join(', ')} were not fully converted and need review.` : ''}\n\n| Function | Calls | Converted | Status | Oracle conversion | Files |\n|----------|-------|-----------|--------|-------------------|-------|\n${coverageRows.join('\n')}\n` : 'No built-in function calls were found.\n'}
 ## Recommendations
 - Review all converted code for accuracy
 - Test in Oracle environment
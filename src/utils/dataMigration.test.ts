@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { buildDataMigrationScripts } from '@/utils/dataMigration';
+import { DEFAULT_CONVERSION_SETTINGS } from '@/utils/conversionSettings';
+import { CodeFile } from '@/types';
+
+const files: CodeFile[] = [{
+  id: 'ddl',
+  name: 'orders.sql',
+  type: 'table',
+  content: 'create table orders (id numeric(10,0) identity, cust_id int not null)\ngo\ncreate table regions (code char(2) not null)\ngo\n',
+}];
+
+const postLoad = (identityStyle: 'identity' | 'sequence') =>
+  buildDataMigrationScripts(files, { ...DEFAULT_CONVERSION_SETTINGS, identityStyle })
+    .find(script => script.fileName === 'post_load.sql')!.content;
+
+describe('post_load.sql', () => {
+  it('restarts identity columns after the highest loaded value', () => {
+    expect(postLoad('identity')).toBe([
+      '-- Run after all data is loaded',
+      '-- orders.id',
+      'ALTER TABLE orders MODIFY id GENERATED BY DEFAULT AS IDENTITY (START WITH LIMIT VALUE);',
+      '',
+    ].join('\n'));
+  });
+
+  it('recreates each sequence at MAX + 1', () => {
+    const script = postLoad('sequence');
+    expect(script).toContain('SELECT NVL(MAX(id), 0) + 1 INTO v_next FROM orders;');
+    expect(script).toContain("EXECUTE IMMEDIATE 'CREATE SEQUENCE orders_seq START WITH ' || v_next || ' INCREMENT BY 1';");
+    expect(script).not.toContain('regions');
+  });
+});
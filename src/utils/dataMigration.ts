@@ -0,0 +1,294 @@
+import { CodeFile, ConversionSettings, NamingPolicy, SchemaCatalog, SchemaColumn, SchemaTable } from '@/types';
+import { buildDependencyGraph, sortByDependencyOrder } from './dependencyGraph';
+import { DEFAULT_CONVERSION_SETTINGS } from './conversionSettings';
+import { oracleIdentifier } from './namingPolicy';
+import { oracleDataType } from './ruleBasedConverter';
+import { buildSchemaCatalog, physicalDataType } from './schemaCatalog';
+
+// Scripts that move table contents from Sybase to the converted Oracle tables: bcp exports
+// the rows in character mode, then either SQL*Loader or an external table loads them.
+// Both loaders read the same files, so the delimiters and date masks are shared.
+
+export interface DataMigrationScript {
+  fileName: string;
+  content: string;
+}
+
+// Delimiters unlikely to occur in column data, so values need no quoting
+const FIELD_TERMINATOR = '|~|';
+const RECORD_TERMINATOR = '|~~|\\n';
+// The record terminator in hex, which SQL*Loader and ORACLE_LOADER read the same way
+const RECORD_TERMINATOR_HEX = "X'7C7E7E7C0A'";
+
+const DIRECTORY = 'DATA_MIGRATION_DIR';
+
+// Masks for the way bcp -c writes Sybase dates, e.g. "Jan  5 2024  3:04:05:120PM"
+const DATE_MASKS: Record<string, string> = {
+  datetime: 'Mon DD YYYY HH:MI:SS:FF3AM',
+  smalldatetime: 'Mon DD YYYY HH:MIAM',
+  bigdatetime: 'Mon DD YYYY HH:MI:SS.FF6AM',
+  date: 'Mon DD YYYY',
+  time: 'HH:MI:SS:FF3AM',
+  bigtime: 'HH:MI:SS.FF6AM',
+};
+
+const TIME_TYPES = new Set(['time', 'bigtime']);
+
+// Values with fractional seconds are read as timestamps, also into DATE columns
+const datetimeField = (column: LoadColumn): string => {
+  const mask = DATE_MASKS[column.source.dataType.name];
+  return column.oracleType === 'DATE' && !mask.includes('FF') ? 'DATE' : 'TIMESTAMP';
+};
+
+// Longest value a character field may hold; SQL*Loader defaults to 255
+const LOB_FIELD_LENGTH = 2000000;
+
+type ColumnKind = 'date' | 'clob' | 'blob' | 'raw' | 'bit' | 'other';
+
+interface LoadColumn {
+  name: string;
+  source: SchemaColumn;
+  oracleType: string;
+  kind: ColumnKind;
+  // Characters bcp writes for the longest value
+  length: number;
+}
+
+const columnKind = (column: SchemaColumn, oracleType: string): ColumnKind => {
+  if (DATE_MASKS[column.dataType.name]) return 'date';
+  if (column.dataType.name === 'bit') return 'bit';
+  if (/^N?CLOB$/.test(oracleType)) return 'clob';
+  if (oracleType === 'BLOB') return 'blob';
+  if (oracleType.startsWith('RAW')) return 'raw';
+  return 'other';
+};
+
+// Columns of user-defined types are loaded by their physical type
+const loadColumn = (column: SchemaColumn, settings: ConversionSettings, catalog: SchemaCatalog): LoadColumn => {
+  const oracleType = oracleDataType(column.dataType, settings.typeMappings, catalog) ?? column.dataType.text;
+  const source = { ...column, dataType: physicalDataType(catalog, column.dataType) };
+  const kind = columnKind(source, oracleType);
+  const size = Number(source.dataType.args[0]) || 0;
+  let length = 255;
+  if (kind === 'clob' || kind === 'blob') length = LOB_FIELD_LENGTH;
+  // Binary values are written as two hex digits per byte
+  else if (kind === 'raw') length = Math.max(size * 2, 36);
+  else if (kind === 'date') length = 40;
+  else if (size > length) length = size;
+  return { name: oracleIdentifier(column.name, settings.naming), source, oracleType, kind, length };
+};
+
+// Oracle names follow the migration's naming policy, like the converted DDL
+const tableName = (table: SchemaTable, naming: NamingPolicy) => oracleIdentifier(table.name, naming);
+
+// File names use the bare table name so the .dat, .ctl and log files line up
+const fileBase = (table: SchemaTable) => table.name.replace(/[^\w$#-]/g, '_');
+
+// Binary values arrive as hex text; uniqueidentifier values may also carry dashes
+const rawExpression = (column: LoadColumn, value: string) =>
+  column.source.dataType.name === 'uniqueidentifier' ? `HEXTORAW(REPLACE(${value}, '-'))` : `HEXTORAW(${value})`;
+
+// ---- bcp ----
+
+const bcpScript = (tables: SchemaTable[]): string => {
+  const lines = [
+    '#!/bin/sh',
+    '# Export every converted table from Sybase in character mode.',
+    '# Set SYBASE_SERVER, SYBASE_DATABASE, SYBASE_USER and SYBASE_PASSWORD before running.',
+    'set -e',
+    '',
+    ...tables.map(table =>
+      `bcp "$SYBASE_DATABASE..${table.name}" out ${fileBase(table)}.dat -c -t '${FIELD_TERMINATOR}' -r '${RECORD_TERMINATOR}' -J utf8 -T ${LOB_FIELD_LENGTH} -S "$SYBASE_SERVER" -U "$SYBASE_USER" -P "$SYBASE_PASSWORD"`
+    ),
+  ];
+  return `${lines.join('\n')}\n`;
+};
+
+// ---- SQL*Loader ----
+
+const loaderField = (column: LoadColumn): string => {
+  const bind = `:${column.name}`;
+  switch (column.kind) {
+    case 'date':
+      return `${datetimeField(column)} "${DATE_MASKS[column.source.dataType.name]}"`;
+    case 'bit':
+      return 'INTEGER EXTERNAL';
+    case 'blob':
+      return `CHAR(${column.length}) "TO_BLOB(HEXTORAW(${bind}))"`;
+    case 'raw':
+      return `CHAR(${column.length}) "${rawExpression(column, bind)}"`;
+    default:
+      return `CHAR(${column.length})`;
+  }
+};
+
+const controlFile = (table: SchemaTable, columns: LoadColumn[], naming: NamingPolicy): string => {
+  const notes = [`-- SQL*Loader control file for ${table.name}, reading ${fileBase(table)}.dat from bcp_out.sh`];
+  if (columns.some(column => column.kind === 'blob')) {
+    notes.push('-- Image values pass through HEXTORAW, which takes at most 4000 hex characters (32767 with');
+    notes.push('-- MAX_STRING_SIZE = EXTENDED); export larger values to separate files and load them with LOBFILE.');
+  }
+  if (columns.some(column => TIME_TYPES.has(column.source.dataType.name))) {
+    notes.push('-- Time-only values are loaded as timestamps on the first day of the current month.');
+  }
+  const fields = columns.map(column => `  ${column.name} ${loaderField(column)}`);
+  return [
+    ...notes,
+    'LOAD DATA',
+    'CHARACTERSET AL32UTF8',
+    `INFILE '${fileBase(table)}.dat' "STR ${RECORD_TERMINATOR_HEX}"`,
+    'APPEND',
+    `INTO TABLE ${tableName(table, naming)}`,
+    `FIELDS TERMINATED BY '${FIELD_TERMINATOR}'`,
+    'TRAILING NULLCOLS',
+    '(',
+    fields.join(',\n'),
+    ')',
+    '',
+  ].join('\n');
+};
+
+const loaderScript = (tables: SchemaTable[]): string => {
+  const lines = [
+    '#!/bin/sh',
+    '# Load the exported files with SQL*Loader, parent tables first, then reset the identity columns.',
+    '# Set ORACLE_USER, ORACLE_PASSWORD and ORACLE_CONNECT (host:port/service) before running.',
+    'set -e',
+    '',
+    ...tables.map(table =>
+      `sqlldr userid="$ORACLE_USER/$ORACLE_PASSWORD@$ORACLE_CONNECT" control=${fileBase(table)}.ctl log=${fileBase(table)}.log bad=${fileBase(table)}.bad errors=0`
+    ),
+    '',
+    'echo exit | sqlplus -s "$ORACLE_USER/$ORACLE_PASSWORD@$ORACLE_CONNECT" @post_load.sql',
+  ];
+  return `${lines.join('\n')}\n`;
+};
+
+// ---- External tables ----
+
+// Hex values are staged as text and converted while copying into the real table
+const stagingType = (column: LoadColumn): string => {
+  if (column.kind === 'blob') return 'CLOB';
+  if (column.kind === 'raw') return `VARCHAR2(${column.length})`;
+  if (column.kind === 'date' && column.oracleType === 'DATE') return datetimeField(column);
+  return column.oracleType;
+};
+
+const accessField = (column: LoadColumn): string => {
+  if (column.kind !== 'date') return `${column.name} CHAR(${column.length})`;
+  const mask = DATE_MASKS[column.source.dataType.name];
+  return `${column.name} CHAR(${column.length}) DATE_FORMAT ${datetimeField(column)} MASK "${mask}"`;
+};
+
+const selectExpression = (column: LoadColumn): string => {
+  if (column.kind === 'blob') return `TO_BLOB(HEXTORAW(${column.name}))`;
+  if (column.kind === 'raw') return rawExpression(column, column.name);
+  return column.name;
+};
+
+const externalTableScript = (table: SchemaTable, columns: LoadColumn[], naming: NamingPolicy): string => {
+  const staging = oracleIdentifier(`${table.name}_ext`, naming);
+  const lines = [
+    `-- External table over ${fileBase(table)}.dat, copied into ${table.name} and dropped again`,
+    `CREATE TABLE ${staging} (`,
+    columns.map(column => `  ${column.name} ${stagingType(column)}`).join(',\n'),
+    ')',
+    'ORGANIZATION EXTERNAL (',
+    '  TYPE ORACLE_LOADER',
+    `  DEFAULT DIRECTORY ${DIRECTORY}`,
+    '  ACCESS PARAMETERS (',
+    `    RECORDS DELIMITED BY ${RECORD_TERMINATOR_HEX} CHARACTERSET AL32UTF8`,
+    `    BADFILE ${DIRECTORY}:'${fileBase(table)}_ext.bad'`,
+    `    LOGFILE ${DIRECTORY}:'${fileBase(table)}_ext.log'`,
+    `    FIELDS TERMINATED BY '${FIELD_TERMINATOR}'`,
+    '    MISSING FIELD VALUES ARE NULL',
+    '    (',
+    columns.map(column => `      ${accessField(column)}`).join(',\n'),
+    '    )',
+    '  )',
+    `  LOCATION ('${fileBase(table)}.dat')`,
+    ')',
+    'REJECT LIMIT 0;',
+    '',
+    `INSERT /*+ APPEND */ INTO ${tableName(table, naming)} (${columns.map(column => column.name).join(', ')})`,
+    `SELECT ${columns.map(selectExpression).join(', ')}`,
+    `  FROM ${staging};`,
+    'COMMIT;',
+    '',
+    `DROP TABLE ${staging};`,
+    '',
+  ];
+  return lines.join('\n');
+};
+
+const externalLoadScript = (tables: SchemaTable[]): string => {
+  const lines = [
+    '-- Load the exported files through external tables, parent tables first.',
+    `-- The .dat files must be in a server directory the schema can read, e.g. as a DBA:`,
+    `--   CREATE DIRECTORY ${DIRECTORY} AS '/path/to/data';`,
+    `--   GRANT READ, WRITE ON DIRECTORY ${DIRECTORY} TO <schema>;`,
+    'WHENEVER SQLERROR EXIT FAILURE',
+    ...tables.map(table => `@@${fileBase(table)}_ext.sql`),
+    '@@post_load.sql',
+  ];
+  return `${lines.join('\n')}\n`;
+};
+
+// ---- Identity columns ----
+
+// Identity values are loaded as they were in Sybase; afterwards new rows have to be numbered
+// from MAX + 1 instead of from 1
+const resetIdentity = (table: SchemaTable, column: SchemaColumn, settings: ConversionSettings): string => {
+  const name = oracleIdentifier(column.name, settings.naming);
+  if (settings.identityStyle === 'identity') {
+    // LIMIT VALUE is the highest value in the column, plus one
+    return `ALTER TABLE ${tableName(table, settings.naming)} MODIFY ${name} GENERATED BY DEFAULT AS IDENTITY (START WITH LIMIT VALUE);`;
+  }
+  // The sequence is recreated, so any grants on it have to be given again
+  const sequence = oracleIdentifier(`${table.name}_seq`, settings.naming);
+  return [
+    'DECLARE',
+    '  v_next NUMBER;',
+    'BEGIN',
+    `  SELECT NVL(MAX(${name}), 0) + 1 INTO v_next FROM ${tableName(table, settings.naming)};`,
+    `  EXECUTE IMMEDIATE 'DROP SEQUENCE ${sequence}';`,
+    `  EXECUTE IMMEDIATE 'CREATE SEQUENCE ${sequence} START WITH ' || v_next || ' INCREMENT BY 1';`,
+    'END;',
+    '/',
+  ].join('\n');
+};
+
+const postLoadScript = (tables: SchemaTable[], settings: ConversionSettings): string => {
+  const statements = tables.flatMap(table =>
+    table.columns
+      .filter(column => column.identity)
+      .map(column => `-- ${table.name}.${column.name}\n${resetIdentity(table, column, settings)}`)
+  );
+  return [
+    '-- Run after all data is loaded',
+    statements.length ? statements.join('\n\n') : '-- No identity columns to reset',
+    '',
+  ].join('\n');
+};
+
+// Build the data migration scripts for every table defined in the given files
+export const buildDataMigrationScripts = (files: CodeFile[], settings: ConversionSettings = DEFAULT_CONVERSION_SETTINGS): DataMigrationScript[] => {
+  const catalog = buildSchemaCatalog(files);
+  const graph = buildDependencyGraph(files);
+  // Tables load in the order their DDL deploys, so referenced rows exist first
+  const tables = sortByDependencyOrder(Object.values(catalog.tables), graph, table => table.fileId);
+  if (tables.length === 0) return [];
+
+  const scripts: DataMigrationScript[] = [
+    { fileName: 'bcp_out.sh', content: bcpScript(tables) },
+    { fileName: 'load_sqlldr.sh', content: loaderScript(tables) },
+    { fileName: 'load_external.sql', content: externalLoadScript(tables) },
+    { fileName: 'post_load.sql', content: postLoadScript(tables, settings) },
+  ];
+  tables.forEach(table => {
+    const columns = table.columns.map(column => loadColumn(column, settings, catalog));
+    scripts.push({ fileName: `${fileBase(table)}.ctl`, content: controlFile(table, columns, settings.naming) });
+    scripts.push({ fileName: `${fileBase(table)}_ext.sql`, content: externalTableScript(table, columns, settings.naming) });
+  });
+  return scripts;
+};
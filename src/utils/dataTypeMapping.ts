@@ -0,0 +1,64 @@
+import { DataTypeMapping } from '@/types';
+import { DataTypeSpec } from '@/types/tsqlAst';
+
+// The type mapping a migration starts from, also listed on the upload page. "(n)" and "(p,s)"
+// stand for the length, precision and scale of the Sybase type and are copied to the Oracle type.
+// Types not listed keep the converter's built-in mapping.
+export const DEFAULT_TYPE_MAPPINGS: DataTypeMapping[] = [
+  { sybaseType: 'int', oracleType: 'NUMBER(10)', description: 'Primary keys, counters' },
+  { sybaseType: 'varchar(n)', oracleType: 'VARCHAR2(n)', description: 'Variable length strings; CLOB above 4000 characters' },
+  { sybaseType: 'char(n)', oracleType: 'CHAR(n)', description: 'Fixed length strings' },
+  { sybaseType: 'text', oracleType: 'CLOB', description: 'Large text data' },
+  { sybaseType: 'datetime', oracleType: 'TIMESTAMP', description: 'Date and time; DATE also keeps the time, to the second' },
+  { sybaseType: 'bit', oracleType: 'NUMBER(1)', description: 'Boolean values, with a CHECK (0, 1) constraint' },
+  { sybaseType: 'float', oracleType: 'BINARY_DOUBLE', description: 'Floating point, 8 bytes like Sybase float' },
+  { sybaseType: 'decimal(p,s)', oracleType: 'NUMBER(p,s)', description: 'Precise decimal' },
+  { sybaseType: 'uniqueidentifier', oracleType: 'RAW(16)', description: 'GUID/UUID; use SYS_GUID() for new values' },
+];
+
+const TYPE_TEXT = /^([a-z_][\w$#]*(?:\s+[a-z_][\w$#]*)?)\s*(?:\(([^)]*)\))?$/i;
+
+// A type as written in sp_addtype or in a type mapping, e.g. "varchar(30)" or "numeric(p,s)"
+export const parseDataTypeText = (text: string): DataTypeSpec | undefined => {
+  const match = text.trim().match(TYPE_TEXT);
+  if (!match) return undefined;
+  return {
+    name: match[1].toLowerCase().replace(/\s+/g, ' '),
+    args: match[2] !== undefined ? match[2].split(',').map(arg => arg.trim()) : [],
+    text: text.trim(),
+  };
+};
+
+// The Oracle type a mapping gives a Sybase type, or undefined if no mapping applies. A mapping
+// with arguments only applies to types with as many arguments; one without applies to any.
+export const findTypeMapping = (mappings: DataTypeMapping[], spec: DataTypeSpec): string | undefined => {
+  const patterns = mappings.flatMap(mapping => {
+    const pattern = parseDataTypeText(mapping.sybaseType);
+    return pattern && pattern.name === spec.name ? [{ mapping, pattern }] : [];
+  });
+  const match = patterns.find(({ pattern }) => pattern.args.length > 0 && pattern.args.length === spec.args.length)
+    || patterns.find(({ pattern }) => pattern.args.length === 0);
+  if (!match) return undefined;
+  const placeholders = match.pattern.args.map(arg => arg.toLowerCase());
+  return match.mapping.oracleType.replace(/\(([^)]*)\)/g, (_, inner: string) => {
+    const args = inner.split(',').map(arg => {
+      const index = placeholders.indexOf(arg.trim().toLowerCase());
+      return index >= 0 ? spec.args[index] : arg.trim();
+    });
+    return `(${args.join(',')})`;
+  });
+};
+
+// "sybase_type = ORACLE_TYPE" lines, the way the settings panel edits the mapping
+export const formatTypeMappings = (mappings: DataTypeMapping[]): string =>
+  mappings.map(mapping => `${mapping.sybaseType} = ${mapping.oracleType}`).join('\n');
+
+// Lines that do not name a type on both sides are dropped
+export const parseTypeMappings = (text: string): DataTypeMapping[] =>
+  text.split('\n').flatMap(line => {
+    const [sybase, oracle] = line.split('=').map(part => part.trim());
+    if (!sybase || !oracle || !parseDataTypeText(sybase) || !parseDataTypeText(oracle)) return [];
+    const sybaseType = parseDataTypeText(sybase)!.text;
+    const description = DEFAULT_TYPE_MAPPINGS.find(mapping => mapping.sybaseType.toLowerCase() === sybaseType.toLowerCase())?.description;
+    return [{ sybaseType, oracleType: oracle, ...(description ? { description } : {}) }];
+  });
@@ -1,5 +1,7 @@
 
-import { DatabaseConnection } from '@/types';
+import { DatabaseConnection, DeploymentResult } from '@/types';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
 
 // Simulated function to save database connection details
 export const saveConnection = (connection: DatabaseConnection): Promise<boolean> => {
@@ -15,40 +17,113 @@ export const loadConnection = (type: 'sybase' | 'oracle'): DatabaseConnection |
   return savedConnection ? JSON.parse(savedConnection) : null;
 };
 
-// Simulated function to test database connection
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Calls the deploy edge function, which reaches the database from the server side
+const invokeDeployFunction = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('deploy', { body });
+  if (error) {
+    // Non-2xx responses carry the function's own error message in the body
+    const context = (error as { context?: Response }).context;
+    const details = context ? await context.json().catch(() => null) : null;
+    throw new Error(details?.error || error.message);
+  }
+  return data;
+};
+
+const connectionDetails = ({ host, port, username, password, database, connectionString }: DatabaseConnection) =>
+  ({ host, port, username, password, database, connectionString });
+
 export const testConnection = async (connection: DatabaseConnection): Promise<{ success: boolean; message: string }> => {
-  // In a real app, this would attempt to connect to the database
-  // For this demo, we'll simulate a connection test
-  console.log('Testing connection:', connection);
-  
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 1500));
-  
-  // Randomly succeed or fail for demo purposes
-  const success = Math.random() > 0.2;
-  
-  return {
-    success,
-    message: success ? 'Connection successful!' : 'Connection failed. Please check your credentials and try again.'
-  };
+  if (connection.type !== 'oracle') {
+    return { success: false, message: 'Only Oracle connections can be tested from the browser.' };
+  }
+  try {
+    return await invokeDeployFunction({ operation: 'test', connection: connectionDetails(connection) });
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : 'Connection test failed.' };
+  }
 };
 
-// Simulated function to deploy code to Oracle database
+// Deploy converted objects in the given order; the caller sorts them by dependency
 export const deployToOracle = async (
-  connection: DatabaseConnection, 
-  code: string
-): Promise<{ success: boolean; message: string }> => {
-  // In a real app, this would execute the code against the Oracle database
-  console.log('Deploying code to Oracle:', code);
-  
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 2000));
-  
-  // Randomly succeed or fail for demo purposes
-  const success = Math.random() > 0.1;
-  
-  return {
-    success,
-    message: success ? 'Code deployed successfully!' : 'Deployment failed. Check the code and database connection.'
-  };
+  connection: DatabaseConnection,
+  objects: { id: string; name: string; code: string }[]
+): Promise<DeploymentResult> =>
+  invokeDeployFunction({ operation: 'deploy', connection: connectionDetails(connection), objects });
+
+// Run the rollback script saved with a deployment
+export const rollbackDeployment = async (
+  connection: DatabaseConnection,
+  deploymentId: string,
+  rollbackScript: string
+): Promise<DeploymentResult> =>
+  invokeDeployFunction({
+    operation: 'rollback',
+    connection: connectionDetails(connection),
+    objects: [{ id: deploymentId, name: `rollback-${deploymentId.slice(0, 8)}.sql`, code: rollbackScript }],
+  });
+
+// Files a rolled back deployment had deployed are no longer deployed
+export const markDeploymentRolledBack = async (deploymentId: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from('deployment_file_results')
+    .select('migration_file_id')
+    .eq('deployment_id', deploymentId);
+  if (error) {
+    console.error('Error fetching deployment file results:', error);
+    return;
+  }
+  const fileIds = (data || []).map(row => row.migration_file_id).filter((id): id is string => !!id);
+  if (fileIds.length === 0) return;
+  const { error: updateError } = await supabase.from('migration_files').update({ deployment_status: 'not_deployed' }).in('id', fileIds);
+  if (updateError) console.error('Error updating file deployment status:', updateError);
+};
+
+// Record what a deployment did to each file and update the files' deployment status.
+// Deployed objects carry the id of their migration file; only files of the given migration
+// are touched.
+export const saveDeploymentFileResults = async (
+  deploymentId: string,
+  migrationId: string | null,
+  deployment: DeploymentResult
+): Promise<void> => {
+  const fileIds = new Set<string>();
+  // Generated objects such as packages have ids that are not migration files
+  const objectIds = deployment.objects.map(object => object.id).filter(id => UUID.test(id));
+  if (migrationId && objectIds.length > 0) {
+    const { data, error } = await supabase.from('migration_files').select('id').eq('migration_id', migrationId).in('id', objectIds);
+    if (error) console.error('Error fetching migration files:', error);
+    (data || []).forEach(file => fileIds.add(file.id));
+  }
+
+  const rows = deployment.objects.map((object, index) => {
+    const firstError = object.errors.find(error => error.severity === 'error');
+    return {
+      deployment_id: deploymentId,
+      migration_file_id: fileIds.has(object.id) ? object.id : null,
+      file_name: object.name,
+      execution_order: index + 1,
+      status: object.status,
+      statements_executed: object.statementsExecuted,
+      duration_ms: object.durationMs,
+      error_code: firstError?.code || null,
+      error_message: firstError?.message ?? null,
+      error_line: firstError?.line ?? null,
+      error_column: firstError?.column ?? null,
+      errors: object.errors as unknown as Json,
+    };
+  });
+  const { error } = await supabase.from('deployment_file_results').insert(rows);
+  if (error) console.error('Error saving deployment file results:', error);
+
+  const deployedAt = new Date().toISOString();
+  for (const object of deployment.objects) {
+    if (!fileIds.has(object.id)) continue;
+    const { error: updateError } = await supabase.from('migration_files').update({
+      deployment_status: object.status === 'error' ? 'failed' : 'deployed',
+      last_deployed_at: deployedAt,
+    }).eq('id', object.id).eq('migration_id', migrationId);
+    if (updateError) console.error('Error updating file deployment status:', updateError);
+  }
 };
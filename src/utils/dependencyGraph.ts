@@ -0,0 +1,249 @@
+import { DatabaseObjectRef, DatabaseObjectType, DependencyEdge, DependencyGraph, DependencyNode } from '@/types';
+import { baseName, parseTsql, visitAst } from './tsqlParser';
+import { TEMP_TABLES_FILE_ID } from './tempTables';
+
+interface GraphFile {
+  id: string;
+  name: string;
+  content: string;
+  type?: string;
+}
+
+export interface FileDependencies {
+  defines: DatabaseObjectRef[];
+  references: string[];
+  // #temp tables the file creates or uses
+  tempTables: string[];
+}
+
+// Trigger pseudo-tables are never real dependencies
+const PSEUDO_TABLES = new Set(['inserted', 'deleted']);
+
+const BINDING_PROCEDURES = new Set(['sp_bindefault', 'sp_bindrule']);
+
+// Files without usable references still go tables first, with the defaults and rules bound to
+// their columns before them and the grants on all objects last
+const TYPE_RANK: Record<string, number> = {
+  sequence: 0,
+  default: 0,
+  rule: 0,
+  table: 1,
+  index: 2,
+  view: 3,
+  function: 4,
+  procedure: 5,
+  trigger: 6,
+  grant: 8,
+};
+
+// Extract the objects a file creates and the objects it references
+export const analyzeDependencies = (content: string): FileDependencies => {
+  const { script } = parseTsql(content);
+  const defines: DatabaseObjectRef[] = [];
+  const references = new Set<string>();
+  const tempTables = new Set<string>();
+
+  const define = (parts: string[], type: DatabaseObjectType) => {
+    const name = baseName(parts);
+    if (name.startsWith('#')) tempTables.add(name);
+    else if (name) defines.push({ name, type });
+  };
+  const reference = (parts: string[]) => {
+    const name = baseName(parts);
+    if (name.startsWith('#')) tempTables.add(name);
+    else if (name && !PSEUDO_TABLES.has(name)) references.add(name);
+  };
+
+  visitAst(script, node => {
+    switch (node.kind) {
+      case 'CreateTable':
+        define(node.name, 'table');
+        node.columns.forEach(column => column.references && reference(column.references.table));
+        node.constraints.forEach(constraint => constraint.references && reference(constraint.references.table));
+        break;
+      case 'CreateView':
+        define(node.name, 'view');
+        break;
+      case 'CreateFunction':
+        define(node.name, 'function');
+        break;
+      case 'CreateProcedure':
+        define(node.name, 'procedure');
+        break;
+      case 'CreateIndex':
+        define(node.name, 'index');
+        reference(node.table);
+        break;
+      case 'CreateDefault':
+        define(node.name, 'default');
+        break;
+      case 'CreateRule':
+        define(node.name, 'rule');
+        break;
+      case 'CreateSequence':
+        define(node.name, 'sequence');
+        break;
+      case 'Grant':
+        if (node.object) reference(node.object);
+        break;
+      case 'FunctionCall':
+        // Only user-defined functions are called with their owner
+        if (node.name.includes('.')) reference(node.name.split('.'));
+        break;
+      case 'CreateTrigger':
+        define(node.name, 'trigger');
+        reference(node.table);
+        break;
+      case 'TableRef':
+        reference(node.name);
+        break;
+      case 'Select':
+        if (node.into && baseName(node.into).startsWith('#')) reference(node.into);
+        break;
+      case 'Insert':
+      case 'Update':
+      case 'Delete':
+      case 'Truncate':
+        reference(node.table);
+        break;
+      case 'Exec': {
+        // System procedures live in the server, not in the upload; bindings need the default or rule they bind
+        const bound = node.args[0]?.value;
+        if (BINDING_PROCEDURES.has(baseName(node.procedure)) && bound?.kind === 'Literal' && bound.literalType === 'string') reference(bound.value.split('.'));
+        else if (node.procedure.length && !baseName(node.procedure).startsWith('sp_')) reference(node.procedure);
+        break;
+      }
+    }
+  });
+
+  // An object referencing itself (recursive procedure, self-referencing FK) is not a dependency
+  defines.forEach(object => references.delete(object.name));
+  return { defines, references: [...references], tempTables: [...tempTables] };
+};
+
+// Tarjan's algorithm; components with more than one file are dependency cycles
+const findCycles = (ids: string[], adjacency: Map<string, string[]>): string[][] => {
+  let counter = 0;
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+
+  const strongConnect = (id: string) => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+    for (const next of adjacency.get(id) || []) {
+      if (!index.has(next)) {
+        strongConnect(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    }
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1) cycles.push(component);
+    }
+  };
+
+  ids.forEach(id => {
+    if (!index.has(id)) strongConnect(id);
+  });
+  return cycles;
+};
+
+// Build the file-level dependency graph. The order is a stable topological sort
+// (ties broken by object type, then upload order); cycles are broken at the
+// earliest remaining file so that every file still gets a position.
+export const buildDependencyGraph = (files: GraphFile[]): DependencyGraph => {
+  const analyses = files.map(file => analyzeDependencies(file.content));
+
+  const definedBy = new Map<string, string>();
+  files.forEach((file, i) => {
+    analyses[i].defines.forEach(object => {
+      if (!definedBy.has(object.name)) definedBy.set(object.name, file.id);
+    });
+  });
+
+  const nodes: DependencyNode[] = [];
+  const edgeMap = new Map<string, DependencyEdge>();
+  const dependsOn = new Map<string, string[]>();
+  files.forEach((file, i) => {
+    const external: string[] = [];
+    analyses[i].references.forEach(name => {
+      const target = definedBy.get(name);
+      if (!target) {
+        external.push(name);
+        return;
+      }
+      if (target === file.id) return;
+      const key = `${file.id}->${target}`;
+      const edge = edgeMap.get(key);
+      if (edge) edge.objects.push(name);
+      else edgeMap.set(key, { from: file.id, to: target, objects: [name] });
+    });
+    nodes.push({ fileId: file.id, fileName: file.name, defines: analyses[i].defines, external });
+  });
+  // Files using #temp tables run after the shared script that creates them
+  const shared = files.findIndex(file => file.id === TEMP_TABLES_FILE_ID);
+  if (shared !== -1) {
+    const created = new Set(analyses[shared].tempTables);
+    files.forEach((file, i) => {
+      const used = analyses[i].tempTables.filter(name => created.has(name));
+      if (i !== shared && used.length) edgeMap.set(`${file.id}->${TEMP_TABLES_FILE_ID}`, { from: file.id, to: TEMP_TABLES_FILE_ID, objects: used });
+    });
+  }
+  const edges = [...edgeMap.values()];
+  edges.forEach(edge => dependsOn.set(edge.from, [...(dependsOn.get(edge.from) || []), edge.to]));
+
+  const ids = files.map(file => file.id);
+  const position = new Map(files.map((file, i) => [file.id, i]));
+  const rank = (id: string) => {
+    const i = position.get(id)!;
+    const type = analyses[i].defines[0]?.type ?? files[i].type ?? 'other';
+    return [TYPE_RANK[type] ?? 7, i];
+  };
+  const compare = (a: string, b: string) => {
+    const [typeA, indexA] = rank(a);
+    const [typeB, indexB] = rank(b);
+    return typeA - typeB || indexA - indexB;
+  };
+
+  // Kahn's algorithm, one level at a time
+  const remaining = new Set(ids);
+  const done = new Set<string>();
+  const order: string[] = [];
+  const levels: string[][] = [];
+  while (remaining.size > 0) {
+    let level = [...remaining].filter(id => (dependsOn.get(id) || []).every(dep => done.has(dep)));
+    if (level.length === 0) {
+      // Only cycles are left: break the cycle at the first file in sort order
+      level = [[...remaining].sort(compare)[0]];
+    }
+    level.sort(compare);
+    level.forEach(id => {
+      remaining.delete(id);
+      done.add(id);
+      order.push(id);
+    });
+    levels.push(level);
+  }
+
+  return { nodes, edges, order, levels, cycles: findCycles(ids, dependsOn) };
+};
+
+// Sort any list of file-like items into dependency order
+export const sortByDependencyOrder = <T>(items: T[], graph: DependencyGraph, getId: (item: T) => string): T[] => {
+  const position = new Map(graph.order.map((id, i) => [id, i]));
+  return [...items].sort((a, b) => (position.get(getId(a)) ?? graph.order.length) - (position.get(getId(b)) ?? graph.order.length));
+};
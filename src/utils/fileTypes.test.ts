@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { detectFileType } from '@/utils/fileTypes';
+
+describe('detectFileType', () => {
+  it('types a procedure that creates a #temp table as a procedure', () => {
+    const content = 'create procedure p_report as\nbegin\n  create table #t (id int)\n  select id from #t\nend\ngo\n';
+    expect(detectFileType('report.sql', content)).toBe('procedure');
+  });
+
+  it('types a trigger that creates a #temp table as a trigger', () => {
+    const content = 'create trigger tr_orders on orders for insert as\ncreate table #ids (id int)\ngo\n';
+    expect(detectFileType('orders_audit.sql', content)).toBe('trigger');
+  });
+
+  it('types a table script with its indexes and grants as a table', () => {
+    const content = 'create table orders (id int)\ngo\ncreate index ix_orders on orders (id)\ngo\ngrant select on orders to public\ngo\n';
+    expect(detectFileType('orders.sql', content)).toBe('table');
+  });
+
+  it('prefers the file name to the content', () => {
+    expect(detectFileType('sp_report.sql', 'create table #t (id int)')).toBe('procedure');
+    expect(detectFileType('schema.tab', 'create procedure p as select 1')).toBe('table');
+  });
+});
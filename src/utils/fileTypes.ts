@@ -0,0 +1,57 @@
+import { CodeFileType } from '@/types';
+
+// The kinds of object a file can create, in the order the project tree lists them
+export const CODE_FILE_TYPES: { value: CodeFileType; label: string; title: string }[] = [
+  { value: 'table', label: 'Table', title: 'Tables' },
+  { value: 'view', label: 'View', title: 'Views' },
+  { value: 'function', label: 'Function', title: 'Functions' },
+  { value: 'procedure', label: 'Procedure', title: 'Procedures' },
+  { value: 'trigger', label: 'Trigger', title: 'Triggers' },
+  { value: 'default', label: 'Default', title: 'Defaults' },
+  { value: 'rule', label: 'Rule', title: 'Rules' },
+  { value: 'sequence', label: 'Sequence', title: 'Sequences' },
+  { value: 'index', label: 'Index', title: 'Indexes' },
+  { value: 'grant', label: 'Grant', title: 'Grants' },
+  { value: 'other', label: 'Other', title: 'Other Files' },
+];
+
+// What the statements of a .sql file create, checked in this order: a procedure or trigger
+// whose body creates #temp tables is a procedure or trigger, and a table script that also
+// creates its indexes and grants is a table
+const CONTENT_PATTERNS: [CodeFileType, RegExp][] = [
+  ['procedure', /\bcreate\s+(or\s+replace\s+)?proc(edure)?\b/],
+  ['trigger', /\bcreate\s+(or\s+replace\s+)?trigger\b|\btrigger\s+on\b/],
+  ['view', /\bcreate\s+(or\s+replace\s+)?view\b/],
+  ['function', /\bcreate\s+(or\s+replace\s+)?function\b/],
+  ['table', /\bcreate\s+table\b|\balter\s+table\b/],
+  ['index', /\bcreate\s+(unique\s+)?((non)?clustered\s+)?index\b/],
+  ['default', /\bcreate\s+default\b/],
+  ['rule', /\bcreate\s+rule\b/],
+  ['sequence', /\bcreate\s+sequence\b/],
+  ['grant', /^\s*(grant|revoke)\b/m],
+];
+
+// Guess the type of an uploaded file from its name, then from what it creates
+export const detectFileType = (fileName: string, content: string): CodeFileType => {
+  fileName = fileName.toLowerCase();
+  content = content.toLowerCase();
+
+  if (fileName.includes('table') || fileName.includes('tbl') || fileName.endsWith('.tab')) {
+    return 'table';
+  } else if (fileName.includes('proc') || fileName.includes('sp_') || fileName.endsWith('.prc')) {
+    return 'procedure';
+  } else if (fileName.includes('trig') || fileName.includes('tr_') || fileName.endsWith('.trg')) {
+    return 'trigger';
+  } else if (fileName.endsWith('.vw')) {
+    return 'view';
+  } else if (fileName.endsWith('.udf')) {
+    return 'function';
+  }
+
+  if (fileName.endsWith('.sql')) {
+    const match = CONTENT_PATTERNS.find(([, pattern]) => pattern.test(content));
+    if (match) return match[0];
+  }
+
+  return 'other';
+};
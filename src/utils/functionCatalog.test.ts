@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { dateLiteralMask, mapFunctionCall, renamedFunction } from '@/utils/functionCatalog';
+
+describe('mapFunctionCall', () => {
+  it('swaps the arguments of charindex', () => {
+    expect(mapFunctionCall('charindex', ["'x'", 'name'])).toBe("INSTR(name, 'x')");
+  });
+
+  it('counts Sunday-based week boundaries for datediff(week)', () => {
+    expect(mapFunctionCall('datediff', ['wk', 'a', 'b'])).toBe("(TRUNC(b + 1, 'IW') - TRUNC(a + 1, 'IW')) / 7");
+  });
+
+  it('numbers Sunday-based weeks from the one with January 1 for datepart(week)', () => {
+    expect(mapFunctionCall('datepart', ['week', 'd'])).toBe("(TRUNC(d + 1, 'IW') - TRUNC(TRUNC(d, 'YYYY') + 1, 'IW')) / 7 + 1");
+  });
+
+  it('numbers weekdays from Sunday for datepart(weekday), whatever NLS_TERRITORY says', () => {
+    expect(mapFunctionCall('datepart', ['dw', 'd'])).toBe("TRUNC(d) - TRUNC(d + 1, 'IW') + 2");
+  });
+
+  it('returns NULL from right() for counts below one', () => {
+    expect(mapFunctionCall('right', ['name', 'n'])).toBe('CASE WHEN n <= 0 THEN NULL ELSE SUBSTR(name, -LEAST(n, LENGTH(name))) END');
+  });
+
+  it('turns a LIKE pattern into an anchored regular expression', () => {
+    expect(mapFunctionCall('patindex', ["'%a_b.c%'", 'name'])).toBe("REGEXP_INSTR(name, 'a.b\\.c')");
+    expect(mapFunctionCall('patindex', ["'a%'", 'name'])).toBe("REGEXP_INSTR(name, '^a')");
+  });
+
+  it('has no mapping for unknown date parts or argument counts', () => {
+    expect(mapFunctionCall('datepart', ['tzoffset', 'd'])).toBeUndefined();
+    expect(mapFunctionCall('left', ['name'])).toBeUndefined();
+  });
+});
+
+describe('dateLiteralMask', () => {
+  it('knows the language-independent date formats', () => {
+    expect(dateLiteralMask('2020-01-31')).toBe('YYYY-MM-DD');
+    expect(dateLiteralMask('2020-01-31 8:30:00')).toBe('YYYY-MM-DD HH24:MI:SS');
+    expect(dateLiteralMask('20200131')).toBe('YYYYMMDD');
+  });
+
+  it('has no mask for formats that depend on the language', () => {
+    expect(dateLiteralMask('Jan 31 2020')).toBeUndefined();
+    expect(dateLiteralMask('01/31/2020')).toBeUndefined();
+  });
+});
+
+describe('renamedFunction', () => {
+  it('only renames functions whose arguments stay as they are', () => {
+    expect(renamedFunction('upper', 1)).toBe('UPPER');
+    expect(renamedFunction('charindex', 2)).toBeUndefined();
+  });
+});
@@ -0,0 +1,267 @@
+// Sybase built-in functions and their Oracle equivalents. Templates name the Sybase
+// arguments by position: $1, $2, ... in the order Sybase takes them, $* for all of them.
+// "$1:regex" turns a LIKE pattern literal into a regular expression literal.
+
+export interface BuiltinFunction {
+  // Oracle expression by number of arguments, or one template for any number
+  oracle?: string | Record<number, string>;
+  // Functions whose first argument is a date part: the Oracle expression per part
+  dateParts?: Record<string, string>;
+  description: string;
+}
+
+const sameName = (name: string, description: string): BuiltinFunction => ({ oracle: `${name}($*)`, description });
+
+export const FUNCTION_CATALOG: Record<string, BuiltinFunction> = {
+  // Dates
+  getdate: { oracle: { 0: 'SYSDATE' }, description: 'Current date and time' },
+  getutcdate: { oracle: { 0: 'SYS_EXTRACT_UTC(SYSTIMESTAMP)' }, description: 'Current UTC date and time' },
+  dateadd: {
+    dateParts: {
+      year: 'ADD_MONTHS($3, 12 * ($2))',
+      quarter: 'ADD_MONTHS($3, 3 * ($2))',
+      month: 'ADD_MONTHS($3, $2)',
+      week: '$3 + 7 * ($2)',
+      day: '$3 + ($2)',
+      dayofyear: '$3 + ($2)',
+      hour: '$3 + ($2) / 24',
+      minute: '$3 + ($2) / 1440',
+      second: '$3 + ($2) / 86400',
+    },
+    description: 'Date arithmetic; months and years use ADD_MONTHS',
+  },
+  // datediff counts crossed boundaries, so both dates are truncated to the unit first.
+  // Sybase weeks start on Sunday: TRUNC(x + 1, 'IW') is the Monday after that Sunday,
+  // whatever NLS_TERRITORY says
+  datediff: {
+    dateParts: {
+      year: '(EXTRACT(YEAR FROM $3) - EXTRACT(YEAR FROM $2))',
+      month: "MONTHS_BETWEEN(TRUNC($3, 'MM'), TRUNC($2, 'MM'))",
+      week: "(TRUNC($3 + 1, 'IW') - TRUNC($2 + 1, 'IW')) / 7",
+      day: '(TRUNC($3) - TRUNC($2))',
+      hour: "ROUND((CAST(TRUNC($3, 'HH24') AS DATE) - CAST(TRUNC($2, 'HH24') AS DATE)) * 24)",
+      minute: "ROUND((CAST(TRUNC($3, 'MI') AS DATE) - CAST(TRUNC($2, 'MI') AS DATE)) * 1440)",
+      second: 'ROUND((CAST($3 AS DATE) - CAST($2 AS DATE)) * 86400)',
+    },
+    description: 'Number of date part boundaries between two dates',
+  },
+  // Week 1 is the Sunday-based week that contains January 1, as in Sybase
+  datepart: {
+    dateParts: {
+      year: 'EXTRACT(YEAR FROM $2)',
+      quarter: "TO_NUMBER(TO_CHAR($2, 'Q'))",
+      month: 'EXTRACT(MONTH FROM $2)',
+      week: "(TRUNC($2 + 1, 'IW') - TRUNC(TRUNC($2, 'YYYY') + 1, 'IW')) / 7 + 1",
+      day: 'EXTRACT(DAY FROM $2)',
+      dayofyear: "TO_NUMBER(TO_CHAR($2, 'DDD'))",
+      // Sunday is 1; TO_CHAR(x, 'D') would depend on NLS_TERRITORY
+      weekday: "TRUNC($2) - TRUNC($2 + 1, 'IW') + 2",
+      hour: "TO_NUMBER(TO_CHAR($2, 'HH24'))",
+      minute: "TO_NUMBER(TO_CHAR($2, 'MI'))",
+      second: "TO_NUMBER(TO_CHAR($2, 'SS'))",
+    },
+    description: 'A part of a date as a number',
+  },
+  convert: { description: 'TO_CHAR, TO_DATE, TO_NUMBER or CAST; style codes become format masks' },
+  cast: { description: 'CAST with the Oracle type' },
+
+  // Strings
+  charindex: { oracle: { 2: 'INSTR($2, $1)', 3: 'INSTR($2, $1, $3)' }, description: 'Position of a string; arguments swapped' },
+  patindex: { oracle: { 2: 'REGEXP_INSTR($2, $1:regex)' }, description: 'Position of a LIKE pattern, as a regular expression' },
+  stuff: { oracle: { 4: 'SUBSTR($1, 1, $2 - 1) || $4 || SUBSTR($1, $2 + $3)' }, description: 'Replace part of a string' },
+  replicate: { oracle: { 2: 'RPAD($1, LENGTH($1) * ($2), $1)' }, description: 'Repeat a string' },
+  space: { oracle: { 1: "RPAD(' ', $1)" }, description: 'A string of spaces' },
+  str: {
+    oracle: {
+      1: 'LPAD(TO_CHAR(ROUND($1)), 10)',
+      2: 'LPAD(TO_CHAR(ROUND($1)), $2)',
+      3: "LPAD(TO_CHAR(ROUND($1, $3), 'FM999999999999999990' || CASE WHEN $3 > 0 THEN '.' || RPAD('0', $3, '0') END), $2)",
+    },
+    description: 'Number as right-aligned text, 10 characters by default',
+  },
+  substring: { oracle: { 3: 'SUBSTR($1, $2, $3)' }, description: 'Part of a string' },
+  left: { oracle: { 2: 'SUBSTR($1, 1, $2)' }, description: 'Leading characters' },
+  // SUBSTR(x, -0) would return the whole string
+  right: { oracle: { 2: 'CASE WHEN $2 <= 0 THEN NULL ELSE SUBSTR($1, -LEAST($2, LENGTH($1))) END' }, description: 'Trailing characters' },
+  len: { oracle: { 1: 'LENGTH($1)' }, description: 'Length in characters' },
+  char_length: { oracle: { 1: 'LENGTH($1)' }, description: 'Length in characters' },
+  datalength: { oracle: { 1: 'LENGTHB($1)' }, description: 'Length in bytes' },
+  str_replace: { oracle: { 3: 'REPLACE($1, $2, $3)' }, description: 'Replace every occurrence of a string' },
+  char: { oracle: { 1: 'CHR($1)' }, description: 'Character for a code' },
+  ascii: sameName('ASCII', 'Code of the first character'),
+  upper: sameName('UPPER', 'Upper case'),
+  lower: sameName('LOWER', 'Lower case'),
+  ltrim: sameName('LTRIM', 'Remove leading blanks'),
+  rtrim: sameName('RTRIM', 'Remove trailing blanks'),
+
+  // Nulls
+  isnull: { oracle: { 2: 'NVL($1, $2)' }, description: 'First argument unless it is NULL' },
+  coalesce: sameName('COALESCE', 'First argument that is not NULL'),
+  nullif: sameName('NULLIF', 'NULL when both arguments are equal'),
+
+  // Numbers
+  abs: sameName('ABS', 'Absolute value'),
+  ceiling: { oracle: { 1: 'CEIL($1)' }, description: 'Smallest integer not below the value' },
+  floor: sameName('FLOOR', 'Largest integer not above the value'),
+  round: sameName('ROUND', 'Rounded value'),
+  sign: sameName('SIGN', 'Sign of the value'),
+  power: sameName('POWER', 'Value raised to a power'),
+  sqrt: sameName('SQRT', 'Square root'),
+  square: { oracle: { 1: 'POWER($1, 2)' }, description: 'Square' },
+  exp: sameName('EXP', 'Exponential'),
+  log: { oracle: { 1: 'LN($1)' }, description: 'Natural logarithm' },
+  log10: { oracle: { 1: 'LOG(10, $1)' }, description: 'Base-10 logarithm' },
+  pi: { oracle: { 0: 'ACOS(-1)' }, description: 'Pi' },
+  rand: { oracle: { 0: 'DBMS_RANDOM.VALUE' }, description: 'Random number between 0 and 1' },
+
+  // Aggregates
+  count: sameName('COUNT', 'Number of rows'),
+  sum: sameName('SUM', 'Sum'),
+  avg: sameName('AVG', 'Average'),
+  min: sameName('MIN', 'Minimum'),
+  max: sameName('MAX', 'Maximum'),
+
+  // System
+  newid: {
+    oracle: {
+      0: 'RAWTOHEX(SYS_GUID())',
+      1: "CASE WHEN $1 = 0 THEN RAWTOHEX(SYS_GUID()) ELSE REGEXP_REPLACE(RAWTOHEX(SYS_GUID()), '(.{8})(.{4})(.{4})(.{4})(.{12})', '\\1-\\2-\\3-\\4-\\5') END",
+    },
+    description: 'New GUID as hex text, with dashes when the argument is not 0',
+  },
+  user_name: { oracle: { 0: 'USER' }, description: 'Current user; with a user id it has no equivalent' },
+  suser_name: { oracle: { 0: 'USER' }, description: 'Current login' },
+  db_name: { oracle: { 0: "SYS_CONTEXT('USERENV', 'DB_NAME')" }, description: 'Current database' },
+  host_name: { oracle: { 0: "SYS_CONTEXT('USERENV', 'HOST')" }, description: 'Client host' },
+};
+
+// Sybase convert() style codes and the equivalent Oracle format masks
+export const CONVERT_STYLES: Record<string, string> = {
+  '0': 'MON DD YYYY HH:MIAM',
+  '100': 'MON DD YYYY HH:MIAM',
+  '1': 'MM/DD/YY',
+  '101': 'MM/DD/YYYY',
+  '2': 'YY.MM.DD',
+  '102': 'YYYY.MM.DD',
+  '3': 'DD/MM/YY',
+  '103': 'DD/MM/YYYY',
+  '4': 'DD.MM.YY',
+  '104': 'DD.MM.YYYY',
+  '5': 'DD-MM-YY',
+  '105': 'DD-MM-YYYY',
+  '6': 'DD MON YY',
+  '106': 'DD MON YYYY',
+  '7': 'MON DD, YY',
+  '107': 'MON DD, YYYY',
+  '8': 'HH24:MI:SS',
+  '108': 'HH24:MI:SS',
+  '10': 'MM-DD-YY',
+  '110': 'MM-DD-YYYY',
+  '11': 'YY/MM/DD',
+  '111': 'YYYY/MM/DD',
+  '12': 'YYMMDD',
+  '112': 'YYYYMMDD',
+  '23': 'YYYY-MM-DD"T"HH24:MI:SS',
+  '140': 'YYYY-MM-DD HH24:MI:SS.FF6',
+};
+
+// Date literals Sybase reads the same way whatever the server's language, and their Oracle
+// format masks. Without a mask TO_DATE reads a literal with the session's NLS_DATE_FORMAT.
+const DATE_LITERAL_FORMATS: [RegExp, string][] = [
+  [/^\d{4}-\d{2}-\d{2}$/, 'YYYY-MM-DD'],
+  [/^\d{4}-\d{2}-\d{2} \d{1,2}:\d{2}$/, 'YYYY-MM-DD HH24:MI'],
+  [/^\d{4}-\d{2}-\d{2} \d{1,2}:\d{2}:\d{2}$/, 'YYYY-MM-DD HH24:MI:SS'],
+  [/^\d{4}\/\d{2}\/\d{2}$/, 'YYYY/MM/DD'],
+  [/^\d{8}$/, 'YYYYMMDD'],
+  [/^\d{8} \d{1,2}:\d{2}:\d{2}$/, 'YYYYMMDD HH24:MI:SS'],
+];
+
+// The format mask of a date literal, given without its quotes
+export const dateLiteralMask = (value: string): string | undefined =>
+  DATE_LITERAL_FORMATS.find(([format]) => format.test(value.trim()))?.[1];
+
+// Sybase date part names and their abbreviations
+const DATE_PARTS: Record<string, string> = {
+  yy: 'year', yyyy: 'year', year: 'year',
+  qq: 'quarter', q: 'quarter', quarter: 'quarter',
+  mm: 'month', m: 'month', month: 'month',
+  wk: 'week', ww: 'week', week: 'week',
+  dd: 'day', d: 'day', day: 'day', dy: 'dayofyear', dayofyear: 'dayofyear',
+  dw: 'weekday', weekday: 'weekday',
+  hh: 'hour', hour: 'hour',
+  mi: 'minute', n: 'minute', minute: 'minute',
+  ss: 'second', s: 'second', second: 'second',
+};
+
+const datePart = (name: string): string | undefined => DATE_PARTS[name.toLowerCase().replace(/^'|'$/g, '')];
+
+const REGEX_SPECIAL = /[.\\+*?(){}|^$]/;
+
+// A LIKE pattern literal as a regular expression literal: % and _ become .* and ., and
+// a pattern that does not start or end with % is anchored there
+const likeToRegex = (literal: string): string | undefined => {
+  const match = literal.match(/^'((?:[^']|'')*)'$/);
+  if (!match) return undefined;
+  const pattern = match[1];
+  const body = pattern.replace(/^%+/, '').replace(/%+$/, '');
+  let regex = '';
+  let inClass = false;
+  for (const char of body) {
+    if (inClass) {
+      regex += char;
+      inClass = char !== ']';
+    } else if (char === '[') {
+      regex += char;
+      inClass = true;
+    } else if (char === '%') {
+      regex += '.*';
+    } else if (char === '_') {
+      regex += '.';
+    } else {
+      regex += REGEX_SPECIAL.test(char) ? `\\${char}` : char;
+    }
+  }
+  const start = pattern.startsWith('%') ? '' : '^';
+  const end = pattern.endsWith('%') ? '' : '$';
+  return `'${start}${regex}${end}'`;
+};
+
+const TRANSFORMS: Record<string, (arg: string) => string | undefined> = { regex: likeToRegex };
+
+// Fill a template with the converted arguments; undefined when an argument is missing or cannot be transformed
+const fillTemplate = (template: string, args: string[], distinct: string): string | undefined => {
+  let complete = true;
+  const filled = template.replace(/\$(\*|\d+)(?::(\w+))?/g, (_, index: string, transform?: string) => {
+    if (index === '*') return `${distinct}${args.join(', ')}`;
+    const arg = args[Number(index) - 1];
+    const value = arg !== undefined && transform ? TRANSFORMS[transform]?.(arg) : arg;
+    if (value === undefined) complete = false;
+    return value ?? '';
+  });
+  return complete ? filled : undefined;
+};
+
+// The Oracle expression for a call of a Sybase built-in with already converted arguments,
+// or undefined when the catalog has no mapping for it or for these arguments
+export const mapFunctionCall = (name: string, args: string[], distinct = ''): string | undefined => {
+  const entry = FUNCTION_CATALOG[name];
+  if (!entry) return undefined;
+  if (entry.dateParts) {
+    const part = args[0] !== undefined ? datePart(args[0]) : undefined;
+    const template = part && entry.dateParts[part];
+    return template ? fillTemplate(template, args, distinct) : undefined;
+  }
+  const template = typeof entry.oracle === 'string' ? entry.oracle : entry.oracle?.[args.length];
+  return template ? fillTemplate(template, args, distinct) : undefined;
+};
+
+// For SQL text that cannot be parsed, where only the function name can be replaced: the
+// Oracle name of a built-in whose template keeps the arguments as they are
+export const renamedFunction = (name: string, argCount: number): string | undefined => {
+  const entry = FUNCTION_CATALOG[name];
+  const template = typeof entry?.oracle === 'string' ? entry.oracle : entry?.oracle?.[argCount];
+  const match = template?.match(/^([A-Z_][A-Z0-9_.]*)\((.*)\)$/);
+  if (!match) return undefined;
+  const args = Array.from({ length: argCount }, (_, index) => `$${index + 1}`).join(', ');
+  return match[2] === '$*' || match[2] === args ? match[1] : undefined;
+};
@@ -0,0 +1,102 @@
+import { IdentifierMapping, NamingPolicy } from '@/types';
+
+const SIMPLE_IDENTIFIER = /^[A-Za-z][A-Za-z0-9_$#]*$/;
+
+// Words Oracle does not accept as unquoted names (V$RESERVED_WORDS with RESERVED = 'Y')
+export const ORACLE_RESERVED_WORDS = new Set([
+  'access', 'add', 'all', 'alter', 'and', 'any', 'as', 'asc', 'audit', 'between', 'by', 'char', 'check', 'cluster',
+  'column', 'comment', 'compress', 'connect', 'create', 'current', 'date', 'decimal', 'default', 'delete', 'desc',
+  'distinct', 'drop', 'else', 'exclusive', 'exists', 'file', 'float', 'for', 'from', 'grant', 'group', 'having',
+  'identified', 'immediate', 'in', 'increment', 'index', 'initial', 'insert', 'integer', 'intersect', 'into', 'is',
+  'level', 'like', 'lock', 'long', 'maxextents', 'minus', 'mlslabel', 'mode', 'modify', 'noaudit', 'nocompress',
+  'not', 'nowait', 'null', 'number', 'of', 'offline', 'on', 'online', 'option', 'or', 'order', 'pctfree', 'prior',
+  'public', 'raw', 'rename', 'resource', 'revoke', 'row', 'rowid', 'rownum', 'rows', 'select', 'session', 'set',
+  'share', 'size', 'smallint', 'start', 'successful', 'synonym', 'sysdate', 'table', 'then', 'to', 'trigger', 'uid',
+  'union', 'unique', 'update', 'user', 'validate', 'values', 'varchar', 'varchar2', 'view', 'whenever', 'where', 'with',
+]);
+
+export const DEFAULT_RESERVED_RENAMES: Record<string, string> = {
+  comment: 'comment_text',
+  date: 'date_value',
+  level: 'level_no',
+  size: 'size_value',
+  uid: 'uid_value',
+};
+
+export const DEFAULT_NAMING_POLICY: NamingPolicy = {
+  identifierCase: 'as-written',
+  maxLength: 128,
+  reservedWords: DEFAULT_RESERVED_RENAMES,
+  variablePrefix: 'v_',
+  parameterPrefix: 'p_',
+};
+
+// Length of the "_" and hash that end a shortened name
+const HASH_SUFFIX_LENGTH = 7;
+
+// FNV-1a, so that a name is shortened the same way in every file and every session
+const nameHash = (name: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(36).padStart(HASH_SUFFIX_LENGTH, '0').slice(-(HASH_SUFFIX_LENGTH - 1));
+};
+
+const foldCase = (name: string, policy: NamingPolicy): string => {
+  if (policy.identifierCase === 'upper') return name.toUpperCase();
+  if (policy.identifierCase === 'lower') return name.toLowerCase();
+  return name;
+};
+
+export interface NamedIdentifier {
+  // The name as it appears in Oracle code, quoted where needed
+  name: string;
+  mapping?: IdentifierMapping;
+}
+
+// Apply the naming policy to a Sybase name. "prefix" is the variable or parameter prefix, which also
+// keeps the name from being a reserved word.
+export const nameIdentifier = (sybaseName: string, policy: NamingPolicy, prefix = ''): NamedIdentifier => {
+  const reasons: IdentifierMapping['reasons'] = [];
+  const bare = sybaseName.replace(/^@+/, '');
+  let name = bare;
+  const word = name.toLowerCase();
+  if (!prefix && ORACLE_RESERVED_WORDS.has(word)) {
+    name = policy.reservedWords[word] || `${name}_`;
+    reasons.push('reserved word');
+  }
+  name = foldCase(prefix + name, policy);
+  if (name.length > policy.maxLength) {
+    const hash = foldCase(nameHash(prefix + bare), policy);
+    name = `${name.slice(0, policy.maxLength - HASH_SUFFIX_LENGTH)}_${hash}`;
+    reasons.push('too long');
+  }
+  const mixedCase = /[a-z]/.test(name) && /[A-Z]/.test(name);
+  const quoted = !SIMPLE_IDENTIFIER.test(name) || (policy.identifierCase === 'quoted' && mixedCase);
+  const formatted = quoted ? `"${name.replace(/"/g, '""')}"` : name;
+  return { name: formatted, mapping: reasons.length ? { sybaseName, oracleName: formatted, reasons } : undefined };
+};
+
+export const oracleIdentifier = (sybaseName: string, policy: NamingPolicy = DEFAULT_NAMING_POLICY): string =>
+  nameIdentifier(sybaseName, policy).name;
+
+// The name Oracle stores for an identifier, as used in data dictionary lookups and UPDATING('COL')
+export const storedIdentifier = (identifier: string): string =>
+  identifier.startsWith('"') ? identifier.slice(1, -1).replace(/""/g, '"') : identifier.toUpperCase();
+
+export const isValidPrefix = (prefix: string): boolean => /^[A-Za-z][A-Za-z0-9_]*$/.test(prefix);
+
+// Parse the reserved-word map as edited in the settings: one "word = new_name" per line
+export const parseReservedWords = (text: string): Record<string, string> => {
+  const renames: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const [word, rename] = line.split('=').map(part => part.trim());
+    if (word && rename && SIMPLE_IDENTIFIER.test(rename)) renames[word.toLowerCase()] = rename;
+  });
+  return renames;
+};
+
+export const formatReservedWords = (renames: Record<string, string>): string =>
+  Object.entries(renames).map(([word, rename]) => `${word} = ${rename}`).join('\n');
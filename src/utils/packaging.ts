@@ -0,0 +1,378 @@
+import { CodeFile, ConversionIssue, ConversionResult, NamingPolicy, PackageGroup, PackageGroupingStrategy, PerformanceMetrics } from '@/types';
+import { Token } from '@/types/tsqlAst';
+import { analyzeDependencies, buildDependencyGraph } from './dependencyGraph';
+import { DEFAULT_NAMING_POLICY, oracleIdentifier, storedIdentifier } from './namingPolicy';
+import { tokenizePlsql } from './plsqlLexer';
+
+// Groups converted standalone procedures into Oracle packages. Groups are proposed from the Sybase
+// files and adjusted by the user; each group's converted procedures then become the spec and body
+// of one package, and every call of them is qualified with the package name.
+
+export const PACKAGE_GROUPING_STRATEGIES: { value: PackageGroupingStrategy; label: string; description: string }[] = [
+  { value: 'prefix', label: 'Name prefix', description: 'usp_order_create and usp_order_cancel go into order_pkg' },
+  { value: 'folder', label: 'Folder', description: 'Procedures uploaded from the same folder' },
+  { value: 'call-graph', label: 'Call graph', description: 'Procedures that call each other, directly or through others' },
+];
+
+type PackageFile = Pick<CodeFile, 'id' | 'name' | 'content' | 'type' | 'path'>;
+
+// Leading name parts that say a procedure is a procedure rather than what it works on
+const PROCEDURE_PREFIXES = new Set(['sp', 'usp', 'up', 'p', 'pr', 'prc', 'proc']);
+
+export const isValidPackageName = (name: string): boolean => /^[A-Za-z][A-Za-z0-9_$#]*$/.test(name);
+
+const procedureName = (file: PackageFile): string | undefined =>
+  file.type === 'procedure' ? analyzeDependencies(file.content).defines.find(object => object.type === 'procedure')?.name : undefined;
+
+// "usp_order_create" -> "order"; names without a subject part have none
+const prefixKey = (name: string): string | undefined => {
+  const parts = name.toLowerCase().split('_').filter(part => part);
+  if (parts.length > 2 && PROCEDURE_PREFIXES.has(parts[0])) parts.shift();
+  return parts.length > 1 ? parts[0] : undefined;
+};
+
+// The folders below the uploaded one; files uploaded on their own have none
+const folderKey = (file: PackageFile): string | undefined => {
+  const folders = (file.path || '').split('/').slice(1, -1);
+  return folders.length ? folders.join('_').toLowerCase() : undefined;
+};
+
+// Procedures linked by calls in either direction, keyed by the prefix they share or else by the
+// procedure none of the others calls
+const callGraphClusters = (files: PackageFile[], procedures: Map<string, string>): { key: string; fileIds: string[] }[] => {
+  const graph = buildDependencyGraph(files);
+  const edges = graph.edges.filter(edge => procedures.has(edge.from) && procedures.has(edge.to));
+  const root = new Map<string, string>();
+  const find = (id: string): string => {
+    const parent = root.get(id) ?? id;
+    return parent === id ? id : find(parent);
+  };
+  edges.forEach(edge => root.set(find(edge.from), find(edge.to)));
+  const clusters = new Map<string, string[]>();
+  files.filter(file => procedures.has(file.id)).forEach(file => {
+    const key = find(file.id);
+    clusters.set(key, [...(clusters.get(key) || []), file.id]);
+  });
+  return [...clusters.values()].map(fileIds => {
+    const prefixes = new Set(fileIds.map(id => prefixKey(procedures.get(id)!)));
+    const entry = fileIds.find(id => !edges.some(edge => edge.to === id && edge.from !== id)) ?? fileIds[0];
+    const [prefix] = [...prefixes];
+    return { key: prefixes.size === 1 && prefix ? prefix : procedures.get(entry)!, fileIds };
+  });
+};
+
+// Groups of two or more procedure files; the other procedures stay standalone
+export const proposePackageGroups = (files: PackageFile[], strategy: PackageGroupingStrategy): PackageGroup[] => {
+  const procedures = new Map<string, string>();
+  files.forEach(file => {
+    const name = procedureName(file);
+    if (name) procedures.set(file.id, name);
+  });
+  let clusters: { key: string; fileIds: string[] }[];
+  if (strategy === 'call-graph') {
+    clusters = callGraphClusters(files, procedures);
+  } else {
+    const byKey = new Map<string, string[]>();
+    files.filter(file => procedures.has(file.id)).forEach(file => {
+      const key = strategy === 'prefix' ? prefixKey(procedures.get(file.id)!) : folderKey(file);
+      if (key) byKey.set(key, [...(byKey.get(key) || []), file.id]);
+    });
+    clusters = [...byKey].map(([key, fileIds]) => ({ key, fileIds }));
+  }
+  const names = new Set<string>();
+  return clusters.filter(cluster => cluster.fileIds.length > 1).map(cluster => {
+    const base = `${/^[a-z]/i.test(cluster.key) ? '' : 'pkg_'}${cluster.key.replace(/[^A-Za-z0-9_]/g, '_')}_pkg`;
+    let name = base;
+    for (let suffix = 2; names.has(name); suffix++) name = `${base}${suffix}`;
+    names.add(name);
+    return { name, fileIds: cluster.fileIds };
+  });
+};
+
+// ---- Converted procedures ----
+
+interface Declaration {
+  start: number;
+  end: number;
+  name: string;
+  // Whitespace-insensitive, to find the same declaration in several procedures
+  key: string;
+  // TYPE, SUBTYPE and CONSTANT declarations can move to the package spec
+  hoistable: boolean;
+  references: string[];
+}
+
+// The one CREATE PROCEDURE or CREATE FUNCTION of a converted file, with the other statements of
+// the file around it. Offsets are into the converted code.
+interface StoredUnit {
+  code: string;
+  name: Token;
+  // From PROCEDURE or FUNCTION to the AS or IS of the header
+  headerStart: number;
+  headerEnd: number;
+  // Up to the "/" that ends the unit
+  end: number;
+  parameters: string[];
+  declarations: Declaration[];
+  before: string;
+  after: string;
+}
+
+const wordOf = (token: Token | undefined): string | undefined =>
+  token && token.type === 'word' ? token.value.toLowerCase() : undefined;
+
+const nameOf = (token: Token): string =>
+  token.type === 'quotedIdentifier' ? storedIdentifier(token.text) : token.value.toUpperCase();
+
+const isName = (token: Token | undefined): token is Token => !!token && (token.type === 'word' || token.type === 'quotedIdentifier');
+
+// The index of the PROCEDURE or FUNCTION keyword of each CREATE [OR REPLACE] unit
+const unitStarts = (tokens: Token[]): number[] => tokens.flatMap((token, index) => {
+  if (wordOf(token) !== 'create') return [];
+  let next = index + 1;
+  if (wordOf(tokens[next]) === 'or' && wordOf(tokens[next + 1]) === 'replace') next += 2;
+  if (['editionable', 'noneditionable'].includes(wordOf(tokens[next]) ?? '')) next++;
+  return ['procedure', 'function'].includes(wordOf(tokens[next]) ?? '') ? [next] : [];
+});
+
+const parseDeclarations = (tokens: Token[]): Declaration[] => {
+  const declarations: Declaration[] = [];
+  let first = 0;
+  let depth = 0;
+  tokens.forEach((token, index) => {
+    if (token.value === '(') depth++;
+    if (token.value === ')') depth--;
+    if (token.value !== ';' || depth > 0) return;
+    const part = tokens.slice(first, index + 1);
+    first = index + 1;
+    const keyword = wordOf(part[0]);
+    const named = ['type', 'subtype', 'cursor'].includes(keyword ?? '') ? part[1] : part[0];
+    if (!isName(named)) return;
+    declarations.push({
+      start: part[0].start,
+      end: token.end,
+      name: nameOf(named),
+      key: part.map(item => (item.type === 'string' ? item.text : item.text.toUpperCase())).join(' '),
+      hoistable: keyword === 'type' || keyword === 'subtype' || wordOf(part[1]) === 'constant',
+      references: part.filter(item => item !== named && isName(item)).map(nameOf),
+    });
+  });
+  return declarations;
+};
+
+const parseStoredUnit = (code: string): StoredUnit | undefined => {
+  const tokens = tokenizePlsql(code);
+  const starts = unitStarts(tokens);
+  if (starts.length !== 1) return undefined;
+  const kind = starts[0];
+  let nameIndex = kind + 1;
+  if (tokens[nameIndex + 1]?.value === '.') nameIndex += 2;
+  if (!isName(tokens[nameIndex])) return undefined;
+
+  let depth = 0;
+  let as = -1;
+  const parameters: string[] = [];
+  for (let index = nameIndex + 1; index < tokens.length && as === -1; index++) {
+    const token = tokens[index];
+    if (token.value === '(' || token.value === ',') {
+      if (token.value === '(') depth++;
+      if (depth === 1 && isName(tokens[index + 1])) parameters.push(nameOf(tokens[index + 1]));
+    } else if (token.value === ')') {
+      depth--;
+    } else if (depth === 0 && ['as', 'is'].includes(wordOf(token) ?? '')) {
+      as = index;
+    }
+  }
+  if (as === -1) return undefined;
+  const slash = tokens.findIndex((token, index) => index > as && token.type === 'punctuation' && token.value === '/');
+  const begin = tokens.findIndex((token, index) => index > as && wordOf(token) === 'begin');
+  const declarationTokens = begin === -1 ? [] : tokens.slice(as + 1, begin);
+  // Local subprograms have declarations of their own
+  const nested = declarationTokens.some(token => ['procedure', 'function'].includes(wordOf(token) ?? ''));
+  const createToken = tokens[tokens.slice(0, kind).map(wordOf).lastIndexOf('create')];
+  const end = slash === -1 ? code.length : tokens[slash].start;
+  return {
+    code,
+    name: tokens[nameIndex],
+    headerStart: tokens[kind].start,
+    headerEnd: tokens[as].start,
+    end,
+    parameters,
+    declarations: nested ? [] : parseDeclarations(declarationTokens),
+    before: code.slice(0, createToken.start),
+    after: slash === -1 ? '' : code.slice(tokens[slash].end),
+  };
+};
+
+// Remove the lines holding the given ranges, when nothing else is on them
+const removeRanges = (code: string, ranges: { start: number; end: number }[]): string =>
+  [...ranges].sort((a, b) => b.start - a.start).reduce((text, range) => {
+    const lineStart = text.lastIndexOf('\n', range.start - 1) + 1;
+    const lineEnd = text.indexOf('\n', range.end);
+    const start = text.slice(lineStart, range.start).trim() ? range.start : lineStart;
+    const end = lineEnd !== -1 && !text.slice(range.end, lineEnd).trim() ? lineEnd + 1 : range.end;
+    return text.slice(0, start) + text.slice(end);
+  }, code);
+
+const indent = (text: string): string => text.split('\n').map(line => (line.trim() ? `  ${line}` : '')).join('\n');
+
+// ---- Callers ----
+
+// Packaged procedures by the name Oracle stores for them
+type PackagedProcedures = Map<string, { packageName: string; procedure: string }>;
+
+const QUALIFIER_KEYWORDS = new Set(['procedure', 'function', 'end', 'package', 'body']);
+
+// Qualify each call of a packaged procedure with its package. Names after PROCEDURE, FUNCTION and
+// END are the units' own and stay as they are.
+const qualifyCalls = (code: string, packages: PackagedProcedures): string => {
+  const tokens = tokenizePlsql(code);
+  let text = code;
+  for (let index = tokens.length - 1; index >= 0; index--) {
+    const token = tokens[index];
+    const packageName = isName(token) ? packages.get(nameOf(token))?.packageName : undefined;
+    if (!packageName || tokens[index - 1]?.value === '.' || tokens[index + 1]?.value === '.') continue;
+    if (QUALIFIER_KEYWORDS.has(wordOf(tokens[index - 1]) ?? '')) continue;
+    text = `${text.slice(0, token.start)}${packageName}.${token.text}${text.slice(token.end)}`;
+  }
+  return text;
+};
+
+// Calls in dynamic SQL are text the rewrite cannot see
+const dynamicCallIssues = (code: string, packages: PackagedProcedures): ConversionIssue[] =>
+  tokenizePlsql(code).filter(token => token.type === 'string').flatMap(token => [...packages]
+    .filter(([name]) => new RegExp(`(^|[^\\w$#.])${name.replace(/\$/g, '\\$')}($|[^\\w$#])`, 'i').test(token.value))
+    .map(([, { packageName, procedure }]) => ({
+      id: crypto.randomUUID(),
+      description: `Dynamic SQL calls ${procedure}, which is now ${packageName}.${procedure}.`,
+      severity: 'warning' as const,
+      suggestedFix: `Call ${packageName}.${procedure} in the SQL text.`,
+    })));
+
+// ---- Packages ----
+
+const PERFORMANCE_COUNTS = ['conversionTimeMs', 'linesReduced', 'loopsReduced', 'originalLines', 'convertedLines', 'originalLoops', 'convertedLoops'] as const;
+
+const STATUS_RANK: Record<ConversionResult['status'], number> = { success: 0, warning: 1, error: 2 };
+
+// The Sybase scripts of the members one after the other, each ending in "go"
+const combinedSource = (members: ConversionResult[]): { content: string; offsets: number[] } => {
+  const offsets: number[] = [];
+  let lines = 0;
+  const scripts = members.map(member => {
+    const script = member.originalFile.content.trimEnd();
+    const text = /(^|\n)\s*go\s*$/i.test(script) ? script : `${script}\ngo`;
+    offsets.push(lines);
+    lines += text.split('\n').length + 1;
+    return text;
+  });
+  return { content: `${scripts.join('\n\n')}\n`, offsets };
+};
+
+// TYPE, SUBTYPE and CONSTANT declarations that two or more procedures make the same way, and that
+// refer to none of the procedures' own parameters and variables
+const sharedDeclarations = (units: StoredUnit[]): Map<string, string> => {
+  const counts = new Map<string, number>();
+  const hoistable = (unit: StoredUnit, declaration: Declaration) => {
+    const locals = new Set([...unit.parameters, ...unit.declarations.map(other => other.name)]);
+    return declaration.hoistable && declaration.references.every(name => !locals.has(name));
+  };
+  units.forEach(unit => unit.declarations.filter(declaration => hoistable(unit, declaration))
+    .forEach(declaration => counts.set(declaration.key, (counts.get(declaration.key) || 0) + 1)));
+  // One declaration per name: a name declared differently in other procedures stays local there
+  const shared = new Map<string, string>();
+  const names = new Set<string>();
+  units.forEach(unit => unit.declarations.forEach(declaration => {
+    if ((counts.get(declaration.key) || 0) < 2 || names.has(declaration.name) || shared.has(declaration.key)) return;
+    names.add(declaration.name);
+    shared.set(declaration.key, unit.code.slice(declaration.start, declaration.end));
+  }));
+  return shared;
+};
+
+const packageResult = (name: string, members: ConversionResult[], units: StoredUnit[], packages: PackagedProcedures): ConversionResult => {
+  const shared = sharedDeclarations(units);
+  const specs = units.map(unit => `${unit.code.slice(unit.headerStart, unit.headerEnd).trimEnd()};`);
+  const bodies = units.map(unit => {
+    const hoisted = unit.declarations.filter(declaration => shared.has(declaration.key));
+    const text = removeRanges(unit.code.slice(0, unit.end), hoisted).slice(unit.headerStart);
+    const comments = unit.before.trim();
+    return `${comments ? `${comments}\n` : ''}${qualifyCalls(text.trimEnd(), packages)}`;
+  });
+  const spec = [...(shared.size ? [[...shared.values()].join('\n')] : []), ...specs].map(indent).join('\n\n');
+  const extras = units.map(unit => qualifyCalls(unit.after.trim(), packages)).filter(text => text);
+  const convertedCode = `CREATE OR REPLACE PACKAGE ${name} AS\n${spec}\nEND ${name};\n/\n\n`
+    + `CREATE OR REPLACE PACKAGE BODY ${name} AS\n${bodies.map(indent).join('\n\n')}\nEND ${name};\n/\n`
+    + (extras.length ? `\n${extras.join('\n\n')}\n` : '');
+
+  const { content, offsets } = combinedSource(members);
+  const performance: PerformanceMetrics = {};
+  members.forEach(member => PERFORMANCE_COUNTS.forEach(key => {
+    const value = member.performance?.[key];
+    if (value !== undefined) performance[key] = (performance[key] || 0) + value;
+  }));
+  const procedures = units.map(unit => unit.name.text);
+  return {
+    id: crypto.randomUUID(),
+    originalFile: { id: `package-${name}`, name: `${name}.sql`, content, type: 'procedure' },
+    convertedCode,
+    issues: members.flatMap((member, index) => member.issues.map(issue => ({
+      ...issue,
+      lineNumber: issue.lineNumber !== undefined ? issue.lineNumber + offsets[index] : undefined,
+    }))),
+    dataTypeMapping: members.flatMap(member => member.dataTypeMapping || []),
+    performance,
+    status: members.reduce<ConversionResult['status']>((worst, member) => STATUS_RANK[member.status] > STATUS_RANK[worst] ? member.status : worst, 'success'),
+    callerContracts: members.flatMap(member => (member.callerContracts || []).map(contract => ({
+      ...contract,
+      oracleSignature: `${name}.${contract.oracleSignature}`,
+    }))),
+    identifierMappings: members.flatMap(member => member.identifierMappings || []),
+    functionUsage: members.flatMap(member => member.functionUsage || []),
+    oraclePackage: { name, procedures },
+  };
+};
+
+// Replace the results of each group's procedures with one package result, in the place of the
+// group's first procedure, and qualify the calls in every other result. A procedure whose converted
+// code is not a single CREATE PROCEDURE or FUNCTION stays standalone, with a warning.
+export const buildPackages = (results: ConversionResult[], groups: PackageGroup[], policy: NamingPolicy = DEFAULT_NAMING_POLICY): ConversionResult[] => {
+  const packages: PackagedProcedures = new Map();
+  const planned = groups.map(group => {
+    const name = oracleIdentifier(group.name, policy);
+    const members: ConversionResult[] = [];
+    const units: StoredUnit[] = [];
+    const excluded = new Map<string, ConversionIssue>();
+    group.fileIds.forEach(id => {
+      const member = results.find(result => result.originalFile.id === id);
+      if (!member) return;
+      const unit = member.status !== 'error' ? parseStoredUnit(member.convertedCode) : undefined;
+      if (!unit) {
+        excluded.set(id, {
+          id: crypto.randomUUID(),
+          description: `${member.originalFile.name} was left out of package ${name} because its converted code is not a single procedure.`,
+          severity: 'warning',
+          suggestedFix: 'Fix the conversion, then generate the report again to add it to the package.',
+        });
+        return;
+      }
+      members.push(member);
+      units.push(unit);
+      packages.set(nameOf(unit.name), { packageName: name, procedure: unit.name.text });
+    });
+    return { name, members, units, excluded };
+  }).filter(group => group.members.length > 0 || group.excluded.size > 0);
+
+  const packageOf = new Map<string, (typeof planned)[number]>();
+  planned.forEach(group => group.members.forEach(member => packageOf.set(member.originalFile.id, group)));
+  const excluded = new Map(planned.flatMap(group => [...group.excluded]));
+  return results.flatMap(result => {
+    const group = packageOf.get(result.originalFile.id);
+    if (group) {
+      return group.members[0] === result ? [packageResult(group.name, group.members, group.units, packages)] : [];
+    }
+    const issues = [...(excluded.has(result.originalFile.id) ? [excluded.get(result.originalFile.id)!] : []), ...dynamicCallIssues(result.convertedCode, packages)];
+    const convertedCode = qualifyCalls(result.convertedCode, packages);
+    return [convertedCode === result.convertedCode && issues.length === 0 ? result : { ...result, convertedCode, issues: [...result.issues, ...issues] }];
+  });
+};
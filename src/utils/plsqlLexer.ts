@@ -0,0 +1,189 @@
+import { Token, TokenType } from '@/types/tsqlAst';
+
+// Multi-character operators, longest first so that greedy matching works
+const OPERATORS = [':=', '=>', '..', '||', '**', '<>', '!=', '^=', '~=', '<=', '>=', '<<', '>>', '=', '<', '>', '+', '-', '*', '/', '%', '@'];
+const PUNCTUATION = ['(', ')', ',', '.', ';'];
+
+// Closing delimiters of q'[...]' quoted strings
+const Q_QUOTE_CLOSE: Record<string, string> = { '[': ']', '(': ')', '{': '}', '<': '>' };
+
+const isWordStart = (ch: string) => /[A-Za-zÀ-￿]/.test(ch);
+const isWordPart = (ch: string) => /[A-Za-z0-9_#$À-￿]/.test(ch);
+const isDigit = (ch: string) => ch >= '0' && ch <= '9';
+
+// Tokenize Oracle SQL, PL/SQL and SQL*Plus scripts. Like the T-SQL lexer it never throws.
+// Bind variables (:new, :x) are 'variable' tokens, a "/" alone on its line (the SQL*Plus
+// terminator) is punctuation while division is an operator, and a markdown code fence
+// becomes a single 'unknown' token.
+export const tokenizePlsql = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const push = (type: TokenType, start: number, value: string, startLine: number, startColumn: number) => {
+    tokens.push({
+      type,
+      value,
+      text: source.slice(start, pos),
+      line: startLine,
+      column: startColumn,
+      start,
+      end: pos,
+    });
+  };
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count && pos < source.length; i++) {
+      if (source[pos] === '\n') {
+        line++;
+        lineStart = pos + 1;
+      }
+      pos++;
+    }
+  };
+
+  const restOfLine = () => {
+    const endOfLine = source.indexOf('\n', pos);
+    return source.slice(pos, endOfLine === -1 ? source.length : endOfLine);
+  };
+
+  const readString = (start: number, startLine: number, startColumn: number) => {
+    let value = '';
+    advance(1);
+    while (pos < source.length) {
+      if (source[pos] === '\'') {
+        if (source[pos + 1] === '\'') {
+          value += '\'';
+          advance(2);
+          continue;
+        }
+        advance(1);
+        break;
+      }
+      value += source[pos];
+      advance(1);
+    }
+    push('string', start, value, startLine, startColumn);
+  };
+
+  while (pos < source.length) {
+    const ch = source[pos];
+    const next = source[pos + 1];
+    const start = pos;
+    const startLine = line;
+    const startColumn = pos - lineStart + 1;
+    const atLineStart = source.slice(lineStart, pos).trim() === '';
+
+    if (/\s/.test(ch)) {
+      advance(1);
+      continue;
+    }
+
+    if (atLineStart && source.startsWith('```', pos)) {
+      advance(restOfLine().length);
+      push('unknown', start, '```', startLine, startColumn);
+      continue;
+    }
+
+    if (ch === '-' && next === '-') {
+      advance(restOfLine().length);
+      continue;
+    }
+
+    // Block comments do not nest in Oracle
+    if (ch === '/' && next === '*') {
+      const close = source.indexOf('*/', pos + 2);
+      advance((close === -1 ? source.length : close + 2) - pos);
+      continue;
+    }
+
+    if (ch === '/' && atLineStart && restOfLine().trim() === '/') {
+      advance(1);
+      push('punctuation', start, '/', startLine, startColumn);
+      continue;
+    }
+
+    // q'[...]' and nq'[...]' quoted strings
+    const quotePrefix = /^n?q'/i.exec(source.slice(pos, pos + 3));
+    if (quotePrefix && pos + quotePrefix[0].length < source.length) {
+      advance(quotePrefix[0].length);
+      const open = source[pos];
+      const close = `${Q_QUOTE_CLOSE[open] || open}'`;
+      const end = source.indexOf(close, pos + 1);
+      const valueEnd = end === -1 ? source.length : end;
+      const value = source.slice(pos + 1, valueEnd);
+      advance((end === -1 ? source.length : end + 2) - pos);
+      push('string', start, value, startLine, startColumn);
+      continue;
+    }
+
+    // National character strings
+    if ((ch === 'n' || ch === 'N') && next === '\'') {
+      advance(1);
+      readString(start, startLine, startColumn);
+      continue;
+    }
+
+    if (ch === '\'') {
+      readString(start, startLine, startColumn);
+      continue;
+    }
+
+    if (ch === '"') {
+      const close = source.indexOf('"', pos + 1);
+      advance((close === -1 ? source.length : close + 1) - pos);
+      push('quotedIdentifier', start, source.slice(start + 1, close === -1 ? pos : pos - 1), startLine, startColumn);
+      continue;
+    }
+
+    // Bind variables and trigger correlation names
+    if (ch === ':' && next !== undefined && isWordStart(next)) {
+      advance(1);
+      while (pos < source.length && isWordPart(source[pos])) advance(1);
+      push('variable', start, source.slice(start, pos), startLine, startColumn);
+      continue;
+    }
+
+    if (isDigit(ch) || (ch === '.' && next !== undefined && isDigit(next))) {
+      while (pos < source.length && isDigit(source[pos])) advance(1);
+      // "1..10" is a range, not a decimal
+      if (source[pos] === '.' && source[pos + 1] !== '.') {
+        advance(1);
+        while (pos < source.length && isDigit(source[pos])) advance(1);
+      }
+      if ((source[pos] === 'e' || source[pos] === 'E') && /[-+0-9]/.test(source[pos + 1] || '')) {
+        advance(2);
+        while (pos < source.length && isDigit(source[pos])) advance(1);
+      }
+      // BINARY_FLOAT and BINARY_DOUBLE literal suffixes
+      if (/[fFdD]/.test(source[pos] || '') && !isWordPart(source[pos + 1] || '')) advance(1);
+      push('number', start, source.slice(start, pos), startLine, startColumn);
+      continue;
+    }
+
+    if (isWordStart(ch)) {
+      while (pos < source.length && isWordPart(source[pos])) advance(1);
+      push('word', start, source.slice(start, pos), startLine, startColumn);
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, pos));
+    if (operator) {
+      advance(operator.length);
+      push('operator', start, operator, startLine, startColumn);
+      continue;
+    }
+
+    if (PUNCTUATION.includes(ch)) {
+      advance(1);
+      push('punctuation', start, ch, startLine, startColumn);
+      continue;
+    }
+
+    advance(1);
+    push('unknown', start, ch, startLine, startColumn);
+  }
+
+  return tokens;
+};
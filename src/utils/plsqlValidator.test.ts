@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { validatePlsql } from '@/utils/plsqlValidator';
+
+// Every __fixtures__/validator/<case>.sql is valid Oracle code the validator has to accept
+const fixtures = import.meta.glob('./__fixtures__/validator/*.sql', { query: '?raw', import: 'default', eager: true }) as Record<string, string>;
+
+describe('validatePlsql fixtures', () => {
+  Object.entries(fixtures).forEach(([path, code]) => {
+    it(path.split('/').pop(), () => {
+      expect(validatePlsql(code).map(issue => issue.description)).toEqual([]);
+    });
+  });
+});
+
+// Every __fixtures__/validator/invalid/<case>.sql starts with a '-- expect: <description>' line per issue
+const invalidFixtures = import.meta.glob('./__fixtures__/validator/invalid/*.sql', { query: '?raw', import: 'default', eager: true }) as Record<string, string>;
+
+describe('validatePlsql invalid fixtures', () => {
+  Object.entries(invalidFixtures).forEach(([path, code]) => {
+    it(path.split('/').pop(), () => {
+      const expected = code.split('\n').filter(line => line.startsWith('-- expect: ')).map(line => line.slice('-- expect: '.length));
+      expect(validatePlsql(code).map(issue => issue.description)).toEqual(expected);
+    });
+  });
+});
+
+describe('validatePlsql', () => {
+  it('reports a missing semicolon with its position', () => {
+    const issues = validatePlsql('BEGIN\n  NULL\nEND;\n/\n');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ severity: 'error', lineNumber: 3 });
+  });
+
+  it('reports Sybase leftovers once, not also as syntax errors', () => {
+    const issues = validatePlsql('BEGIN\n  SELECT @@rowcount FROM DUAL;\nEND;\n/\n');
+    expect(issues.length).toBeGreaterThan(0);
+    issues.forEach(issue => expect(issue.description).toMatch(/^Sybase leftover at line 2/));
+  });
+});
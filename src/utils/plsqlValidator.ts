@@ -0,0 +1,1537 @@
+import { ConversionIssue } from '@/types';
+import { Token } from '@/types/tsqlAst';
+import { tokenizePlsql } from './plsqlLexer';
+
+class PlsqlSyntaxError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(message);
+  }
+}
+
+// T-SQL functions that Oracle does not have, with what to use instead
+const TSQL_FUNCTIONS: Record<string, string> = {
+  isnull: 'NVL',
+  getdate: 'SYSDATE',
+  getutcdate: 'SYS_EXTRACT_UTC(SYSTIMESTAMP)',
+  len: 'LENGTH',
+  char_length: 'LENGTH',
+  datalength: 'LENGTHB',
+  charindex: 'INSTR',
+  patindex: 'REGEXP_INSTR',
+  dateadd: 'date arithmetic or ADD_MONTHS',
+  datediff: 'date subtraction or MONTHS_BETWEEN',
+  datepart: 'EXTRACT or TO_CHAR',
+  datename: 'TO_CHAR',
+  newid: 'SYS_GUID',
+  replicate: 'RPAD',
+  space: 'RPAD',
+  stuff: 'SUBSTR and ||',
+  str: 'TO_CHAR',
+  object_id: 'the data dictionary views',
+  db_name: "SYS_CONTEXT('USERENV', 'DB_NAME')",
+  user_name: 'USER',
+  suser_name: 'USER',
+};
+
+// Words that can never be an identifier or start an expression
+const RESERVED = new Set([
+  'all', 'alter', 'and', 'any', 'as', 'asc', 'begin', 'between', 'by', 'check', 'connect', 'create', 'declare',
+  'default', 'delete', 'desc', 'distinct', 'drop', 'else', 'elsif', 'end', 'exception', 'exists', 'for', 'from',
+  'group', 'having', 'if', 'in', 'insert', 'intersect', 'into', 'is', 'like', 'loop', 'minus', 'not', 'null', 'of',
+  'on', 'or', 'order', 'select', 'set', 'start', 'table', 'then', 'union', 'update', 'using', 'values', 'when',
+  'where', 'while', 'with',
+]);
+
+// Words that end a select item or table reference, so they cannot be read as an alias
+const CLAUSE_KEYWORDS = new Set([
+  ...RESERVED,
+  'bulk', 'cross', 'fetch', 'full', 'inner', 'join', 'left', 'limit', 'natural', 'offset', 'outer', 'returning',
+  'return', 'right', 'model', 'pivot', 'unpivot', 'window', 'log', 'partition', 'apply', 'nowait', 'wait', 'skip',
+]);
+
+// SQL*Plus commands that may appear between statements in a deployment script
+const SQLPLUS_COMMANDS = new Set([
+  'set', 'prompt', 'spool', 'whenever', 'exit', 'quit', 'show', 'rem', 'remark', 'define', 'undefine', 'column',
+  'ttitle', 'btitle', 'pause', 'host', 'connect', 'conn', 'accept', 'variable', 'print', 'exec', 'execute',
+]);
+
+const PLSQL_UNITS = new Set(['procedure', 'function', 'trigger', 'package', 'type']);
+
+const COMPARISON_OPERATORS = new Set(['=', '<>', '!=', '^=', '~=', '<', '>', '<=', '>=']);
+
+const CURSOR_ATTRIBUTES = new Set(['found', 'notfound', 'rowcount', 'isopen', 'bulk_rowcount', 'bulk_exceptions', 'type', 'rowtype']);
+
+interface SyntaxProblem {
+  message: string;
+  line: number;
+  column: number;
+  suggestedFix: string;
+  severity?: ConversionIssue['severity'];
+  // What kind of problem it is, when it is not the kind its check reports
+  kind?: string;
+}
+
+// Leftovers from the Sybase source and chat formatting that can never compile
+const findLeftovers = (tokens: Token[]): SyntaxProblem[] => {
+  const problems: SyntaxProblem[] = [];
+  const onlyTokenOnLine = (index: number) =>
+    (index === 0 || tokens[index - 1].line < tokens[index].line) &&
+    (index === tokens.length - 1 || tokens[index + 1].line > tokens[index].line);
+
+  tokens.forEach((token, index) => {
+    const next = tokens[index + 1];
+    const previous = tokens[index - 1];
+    const at = { line: token.line, column: token.column };
+    if (token.type === 'unknown' && token.value === '```') {
+      problems.push({ ...at, message: 'Markdown code fence in the converted code', suggestedFix: 'Remove the ``` lines.' });
+    } else if (token.type === 'operator' && token.value === '@' && next && next.start === token.end) {
+      // A leading @ is a SQL*Plus script call and table@link a database link
+      const startsLine = !previous || previous.line < token.line;
+      const isDatabaseLink = previous && previous.end === token.start && (previous.type === 'word' || previous.type === 'quotedIdentifier');
+      if (startsLine || isDatabaseLink) return;
+      const global = next.type === 'operator' && next.value === '@';
+      const name = global ? `@@${tokens[index + 2]?.text ?? ''}` : `@${next.text}`;
+      problems.push({
+        ...at,
+        message: `T-SQL ${global ? 'global ' : ''}variable '${name}'`,
+        suggestedFix: global ? 'Replace it with the Oracle equivalent (SQL%ROWCOUNT, SQLCODE, ...).' : 'Declare a PL/SQL variable or parameter without the @ prefix.',
+      });
+    } else if (token.type === 'word' && token.value.toLowerCase() === 'go' && onlyTokenOnLine(index)) {
+      problems.push({ ...at, message: "T-SQL batch separator 'go'", suggestedFix: "End PL/SQL units with '/' and SQL statements with ';'." });
+    } else if (token.type === 'word' && next?.value === '(' && TSQL_FUNCTIONS[token.value.toLowerCase()] && previous?.value !== '.') {
+      const name = token.value.toLowerCase();
+      problems.push({ ...at, message: `T-SQL function '${name}('`, suggestedFix: `Use ${TSQL_FUNCTIONS[name]} instead.` });
+    } else if (token.type === 'word' && token.value.toLowerCase() === 'raiserror') {
+      problems.push({ ...at, message: "T-SQL statement 'raiserror'", suggestedFix: 'Use RAISE_APPLICATION_ERROR.' });
+    } else if (token.type === 'unknown' && token.value === '[') {
+      problems.push({ ...at, message: 'T-SQL bracketed identifier', suggestedFix: 'Remove the brackets or use a double-quoted identifier.' });
+    } else if (token.type === 'unknown' && token.value === '#' && next?.start === token.end) {
+      problems.push({ ...at, message: `T-SQL temporary table '#${next.text}'`, suggestedFix: 'Use a global temporary table.' });
+    }
+  });
+  return problems;
+};
+
+// Recursive descent parser over Oracle SQL and PL/SQL. It only checks the structure
+// (names are not resolved), and reports the first error of every statement or unit.
+const parseScript = (tokens: Token[]): SyntaxProblem[] => {
+  const problems: SyntaxProblem[] = [];
+  let pos = 0;
+  // Whether the last query parsed had an INTO clause, which PL/SQL requires
+  let selectedInto = false;
+  // Set while parsing an expression that PL/SQL evaluates itself rather than in a SQL statement
+  let procedural = false;
+  // The IN parameters of the subprogram being parsed, which cannot be assigned
+  let inputParameters = new Set<string>();
+
+  const peek = (offset = 0): Token | undefined => tokens[pos + offset];
+  const atEnd = () => pos >= tokens.length;
+
+  const fail = (message: string, token: Token | undefined = peek()): never => {
+    const at = token || tokens[tokens.length - 1];
+    throw new PlsqlSyntaxError(message, at ? at.line : 1, at ? at.column : 1);
+  };
+
+  const describe = (token: Token | undefined) => (token ? `'${token.text}'` : 'end of input');
+
+  // Code that parses, but that Oracle rejects when it compiles the unit. Parsing goes on.
+  const reject = (message: string, token: Token | undefined, suggestedFix: string) => {
+    const at = token || tokens[tokens.length - 1];
+    problems.push({ message, line: at.line, column: at.column, suggestedFix, kind: 'PL/SQL compile error' });
+  };
+
+  // Unquoted names are not case-sensitive
+  const nameKey = (token: Token) => (token.type === 'quotedIdentifier' ? token.value : token.value.toLowerCase());
+
+  const checkAssignable = (target: Token | undefined) => {
+    if (target && target.type !== 'variable' && inputParameters.has(nameKey(target))) {
+      reject(`IN parameter ${target.text} cannot be assigned (PLS-00363)`, target,
+        'Copy the parameter into a local variable and assign that, or make the parameter IN OUT.');
+    }
+  };
+
+  const next = (): Token => {
+    const token = tokens[pos];
+    if (!token) fail('Unexpected end of input');
+    pos++;
+    return token;
+  };
+
+  const isWord = (token: Token | undefined, ...words: string[]) =>
+    !!token && token.type === 'word' && words.includes(token.value.toLowerCase());
+
+  const atKeyword = (...keywords: string[]) => isWord(peek(), ...keywords);
+
+  const acceptKeyword = (...keywords: string[]): boolean => {
+    if (atKeyword(...keywords)) {
+      pos++;
+      return true;
+    }
+    return false;
+  };
+
+  const expectKeyword = (...keywords: string[]) => {
+    if (!acceptKeyword(...keywords)) fail(`Expected ${keywords.map(k => `'${k.toUpperCase()}'`).join(' or ')} but found ${describe(peek())}`);
+  };
+
+  const atSymbol = (symbol: string, offset = 0) => {
+    const token = peek(offset);
+    return !!token && (token.type === 'punctuation' || token.type === 'operator') && token.value === symbol;
+  };
+
+  const acceptSymbol = (symbol: string): boolean => {
+    if (atSymbol(symbol)) {
+      pos++;
+      return true;
+    }
+    return false;
+  };
+
+  const expectSymbol = (symbol: string) => {
+    if (!acceptSymbol(symbol)) fail(`Expected '${symbol}' but found ${describe(peek())}`);
+  };
+
+  const atTerminator = () => peek()?.type === 'punctuation' && peek()!.value === '/';
+
+  const isIdentifier = (token: Token | undefined) =>
+    !!token && (token.type === 'quotedIdentifier' || (token.type === 'word' && !RESERVED.has(token.value.toLowerCase())));
+
+  const parseIdentifier = (): string => {
+    const token = peek();
+    if (!isIdentifier(token)) fail(`Expected identifier but found ${describe(token)}`);
+    pos++;
+    return token!.value;
+  };
+
+  const parseQualifiedName = (): string[] => {
+    const parts = [parseIdentifier()];
+    while (atSymbol('.') && isIdentifier(peek(1))) {
+      pos++;
+      parts.push(parseIdentifier());
+    }
+    // Database link
+    if (atSymbol('@') && isIdentifier(peek(1))) {
+      pos++;
+      parseQualifiedName();
+    }
+    return parts;
+  };
+
+  const atAlias = () => {
+    const token = peek();
+    return !!token && (token.type === 'quotedIdentifier' || (token.type === 'word' && !CLAUSE_KEYWORDS.has(token.value.toLowerCase())));
+  };
+
+  const parseOptionalAlias = () => {
+    if (acceptKeyword('as')) {
+      parseIdentifier();
+    } else if (atAlias()) {
+      pos++;
+    }
+  };
+
+  // Skip a parenthesized group whose contents are not checked (analytic windows, storage clauses)
+  const skipParenthesized = () => {
+    expectSymbol('(');
+    let depth = 1;
+    while (depth > 0) {
+      const token = next();
+      if (token.value === '(' && token.type === 'punctuation') depth++;
+      if (token.value === ')' && token.type === 'punctuation') depth--;
+    }
+  };
+
+  // ---- Data types ----
+
+  const parseDataType = () => {
+    const first = parseIdentifier().toLowerCase();
+    if (first === 'double') acceptKeyword('precision');
+    if (first === 'long') acceptKeyword('raw');
+    if (first === 'ref') expectKeyword('cursor');
+    while (atSymbol('.') && isIdentifier(peek(1))) {
+      pos++;
+      pos++;
+    }
+    if (atSymbol('%')) {
+      pos++;
+      expectKeyword('type', 'rowtype');
+      return;
+    }
+    if (atSymbol('(')) {
+      pos++;
+      do {
+        if (!acceptSymbol('*')) {
+          const token = next();
+          if (token.type !== 'number') fail(`Expected a length or precision but found ${describe(token)}`, token);
+        }
+        acceptKeyword('byte', 'char');
+      } while (acceptSymbol(','));
+      expectSymbol(')');
+    }
+    if (first === 'interval') {
+      expectKeyword('year', 'day');
+      if (atSymbol('(')) skipParenthesized();
+      expectKeyword('to');
+      expectKeyword('month', 'second');
+      if (atSymbol('(')) skipParenthesized();
+    }
+    if (first === 'timestamp' && acceptKeyword('with')) {
+      acceptKeyword('local');
+      expectKeyword('time');
+      expectKeyword('zone');
+    }
+    if (acceptKeyword('character')) expectKeyword('set');
+  };
+
+  // ---- Expressions ----
+
+  const parseArguments = () => {
+    expectSymbol('(');
+    if (acceptSymbol(')')) return;
+    acceptKeyword('distinct', 'all', 'unique');
+    if (acceptSymbol('*')) {
+      expectSymbol(')');
+      return;
+    }
+    do {
+      // Named notation
+      if (isIdentifier(peek()) && atSymbol('=>', 1)) pos += 2;
+      if (atKeyword('select', 'with') && !atSymbol('(', 1)) parseQuery();
+      else parseExpression();
+      // ORDER BY inside LISTAGG-style calls, AS in CAST-like calls
+      if (acceptKeyword('order')) {
+        expectKeyword('by');
+        parseOrderItems();
+      }
+    } while (acceptSymbol(','));
+    expectSymbol(')');
+  };
+
+  // Name chains: a.b.c, f(x).y, SQL%ROWCOUNT, seq.NEXTVAL, t.*, col(+)
+  const parseNameChain = () => {
+    pos++;
+    for (;;) {
+      if (atSymbol('.')) {
+        pos++;
+        if (acceptSymbol('*')) return;
+        if (peek()?.type === 'word' || peek()?.type === 'quotedIdentifier') {
+          pos++;
+          continue;
+        }
+        fail(`Expected a name after '.' but found ${describe(peek())}`);
+      }
+      if (atSymbol('(') && atSymbol('+', 1) && atSymbol(')', 2)) {
+        pos += 3;
+        continue;
+      }
+      if (atSymbol('(')) {
+        parseArguments();
+        continue;
+      }
+      if (atSymbol('@') && isIdentifier(peek(1))) {
+        pos += 2;
+        continue;
+      }
+      if (atSymbol('%') && CURSOR_ATTRIBUTES.has((peek(1)?.value || '').toLowerCase())) {
+        pos += 2;
+        continue;
+      }
+      break;
+    }
+    // Analytic and ordered-set aggregates
+    if (acceptKeyword('within')) {
+      expectKeyword('group');
+      skipParenthesized();
+    }
+    if (acceptKeyword('keep')) skipParenthesized();
+    if (acceptKeyword('over')) {
+      if (atSymbol('(')) skipParenthesized();
+      else parseIdentifier();
+    }
+  };
+
+  const parseCase = () => {
+    expectKeyword('case');
+    if (!atKeyword('when')) parseExpression();
+    expectKeyword('when');
+    do {
+      parseExpression();
+      expectKeyword('then');
+      parseExpression();
+    } while (acceptKeyword('when'));
+    if (acceptKeyword('else')) parseExpression();
+    expectKeyword('end');
+  };
+
+  const parsePrimary = () => {
+    const token = peek();
+    if (!token) return fail('Expected expression but found end of input');
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        pos++;
+        return;
+      case 'variable':
+        parseNameChain();
+        return;
+      case 'quotedIdentifier':
+        parseNameChain();
+        return;
+    }
+    if (atSymbol('(')) {
+      pos++;
+      if (atKeyword('select', 'with')) {
+        parseQuery();
+      } else {
+        do parseExpression(); while (acceptSymbol(','));
+      }
+      expectSymbol(')');
+      return;
+    }
+    if (token.type !== 'word') fail(`Expected expression but found ${describe(token)}`);
+    const word = token.value.toLowerCase();
+    switch (word) {
+      case 'null':
+      case 'true':
+      case 'false':
+        pos++;
+        return;
+      case 'case':
+        parseCase();
+        return;
+      case 'exists':
+        if (procedural) {
+          reject('EXISTS can only be used in a SQL statement (PLS-00204)', token,
+            'Select CASE WHEN EXISTS (...) THEN 1 ELSE 0 END INTO a variable FROM DUAL and test the variable.');
+        }
+        pos++;
+        expectSymbol('(');
+        parseQuery();
+        expectSymbol(')');
+        return;
+      case 'date':
+      case 'timestamp':
+        if (peek(1)?.type === 'string') {
+          pos += 2;
+          return;
+        }
+        break;
+      case 'interval':
+        if (peek(1)?.type === 'string') {
+          pos += 2;
+          expectKeyword('year', 'month', 'day', 'hour', 'minute', 'second');
+          if (atSymbol('(')) skipParenthesized();
+          if (acceptKeyword('to')) {
+            expectKeyword('year', 'month', 'day', 'hour', 'minute', 'second');
+            if (atSymbol('(')) skipParenthesized();
+          }
+          return;
+        }
+        break;
+      case 'cast':
+        if (atSymbol('(', 1)) {
+          pos += 2;
+          if (acceptKeyword('multiset')) {
+            expectSymbol('(');
+            parseQuery();
+            expectSymbol(')');
+          } else {
+            parseExpression();
+          }
+          expectKeyword('as');
+          parseDataType();
+          expectSymbol(')');
+          return;
+        }
+        break;
+      case 'extract':
+        if (atSymbol('(', 1)) {
+          pos += 2;
+          parseIdentifier();
+          expectKeyword('from');
+          parseExpression();
+          expectSymbol(')');
+          return;
+        }
+        break;
+      case 'trim':
+        if (atSymbol('(', 1)) {
+          pos += 2;
+          const hasSpec = acceptKeyword('leading', 'trailing', 'both');
+          if (hasSpec && acceptKeyword('from')) {
+            parseExpression();
+          } else {
+            if (!(hasSpec && atKeyword('from'))) parseExpression();
+            if (acceptKeyword('from')) parseExpression();
+          }
+          expectSymbol(')');
+          return;
+        }
+        break;
+    }
+    if (RESERVED.has(word)) fail(`Expected expression but found ${describe(token)}`);
+    parseNameChain();
+  };
+
+  const parseUnary = (): void => {
+    if (atSymbol('+') || atSymbol('-') || atKeyword('prior', 'connect_by_root')) {
+      pos++;
+      parseUnary();
+      return;
+    }
+    parsePrimary();
+    while (acceptSymbol('**')) parseUnary();
+  };
+
+  const parseMultiplicative = () => {
+    parseUnary();
+    while (atSymbol('*') || atSymbol('/')) {
+      pos++;
+      parseUnary();
+    }
+  };
+
+  const parseAdditive = () => {
+    parseMultiplicative();
+    while (atSymbol('+') || atSymbol('-') || atSymbol('||')) {
+      pos++;
+      parseMultiplicative();
+    }
+  };
+
+  const parseInList = () => {
+    expectSymbol('(');
+    if (atKeyword('select', 'with')) parseQuery();
+    else do parseExpression(); while (acceptSymbol(','));
+    expectSymbol(')');
+  };
+
+  const parseComparison = () => {
+    parseAdditive();
+    for (;;) {
+      const token = peek();
+      if (token && token.type === 'operator' && COMPARISON_OPERATORS.has(token.value)) {
+        pos++;
+        if (acceptKeyword('any', 'some', 'all')) parseInList();
+        else parseAdditive();
+        continue;
+      }
+      if (acceptKeyword('is')) {
+        acceptKeyword('not');
+        if (acceptKeyword('a')) expectKeyword('set');
+        else if (acceptKeyword('of')) {
+          acceptKeyword('type');
+          skipParenthesized();
+        } else expectKeyword('null', 'nan', 'infinite', 'empty');
+        continue;
+      }
+      const negated = atKeyword('not') && isWord(peek(1), 'like', 'in', 'between', 'member');
+      if (negated) pos++;
+      if (acceptKeyword('like', 'likec', 'like2', 'like4')) {
+        parseAdditive();
+        if (acceptKeyword('escape')) parseAdditive();
+        continue;
+      }
+      if (acceptKeyword('in')) {
+        parseInList();
+        continue;
+      }
+      if (acceptKeyword('between')) {
+        parseAdditive();
+        expectKeyword('and');
+        parseAdditive();
+        continue;
+      }
+      if (acceptKeyword('member')) {
+        acceptKeyword('of');
+        parseAdditive();
+        continue;
+      }
+      if (negated) fail(`Expected LIKE, IN or BETWEEN but found ${describe(peek())}`);
+      return;
+    }
+  };
+
+  const parseNot = (): void => {
+    if (acceptKeyword('not')) {
+      parseNot();
+      return;
+    }
+    parseComparison();
+  };
+
+  const parseAnd = () => {
+    parseNot();
+    while (acceptKeyword('and')) parseNot();
+  };
+
+  const parseExpression = () => {
+    parseAnd();
+    while (acceptKeyword('or')) parseAnd();
+  };
+
+  const inProcedural = <T>(parse: () => T): T => {
+    const outer = procedural;
+    procedural = true;
+    try {
+      return parse();
+    } finally {
+      procedural = outer;
+    }
+  };
+
+  const parseProceduralExpression = () => inProcedural(parseExpression);
+
+  // ---- Queries ----
+
+  const parseOrderItems = () => {
+    do {
+      parseExpression();
+      acceptKeyword('asc', 'desc');
+      if (acceptKeyword('nulls')) expectKeyword('first', 'last');
+    } while (acceptSymbol(','));
+  };
+
+  const parseTargets = () => {
+    do {
+      const token = peek();
+      if (!token || (token.type !== 'word' && token.type !== 'variable' && token.type !== 'quotedIdentifier') || RESERVED.has(token.value.toLowerCase())) {
+        fail(`Expected a variable but found ${describe(token)}`);
+      }
+      checkAssignable(token);
+      parseNameChain();
+    } while (acceptSymbol(','));
+  };
+
+  const parseTableItem = () => {
+    if (atSymbol('(')) {
+      pos++;
+      if (atKeyword('select', 'with')) parseQuery();
+      else parseTableSources();
+      expectSymbol(')');
+    } else if (atKeyword('table') && atSymbol('(', 1)) {
+      pos++;
+      expectSymbol('(');
+      parseExpression();
+      expectSymbol(')');
+    } else if (acceptKeyword('lateral')) {
+      expectSymbol('(');
+      parseQuery();
+      expectSymbol(')');
+    } else {
+      parseQualifiedName();
+    }
+    parseOptionalAlias();
+  };
+
+  const parseTableSource = () => {
+    parseTableItem();
+    for (;;) {
+      if (atKeyword('cross', 'outer') && isWord(peek(1), 'apply')) {
+        pos += 2;
+        parseTableItem();
+        continue;
+      }
+      const start = pos;
+      acceptKeyword('natural');
+      const cross = acceptKeyword('cross');
+      if (!cross && !acceptKeyword('inner')) {
+        if (acceptKeyword('left', 'right', 'full')) acceptKeyword('outer');
+      }
+      if (!acceptKeyword('join')) {
+        pos = start;
+        return;
+      }
+      parseTableItem();
+      if (cross) continue;
+      if (acceptKeyword('on')) parseExpression();
+      else if (acceptKeyword('using')) skipParenthesized();
+    }
+  };
+
+  const parseTableSources = () => {
+    do parseTableSource(); while (acceptSymbol(','));
+  };
+
+  const parseQuerySpecification = () => {
+    if (acceptSymbol('(')) {
+      parseQuery();
+      expectSymbol(')');
+      return;
+    }
+    const select = peek();
+    expectKeyword('select');
+    acceptKeyword('distinct', 'unique', 'all');
+    do {
+      if (!acceptSymbol('*')) {
+        parseExpression();
+        parseOptionalAlias();
+      }
+    } while (acceptSymbol(','));
+    if (acceptKeyword('bulk')) {
+      expectKeyword('collect');
+      expectKeyword('into');
+      parseTargets();
+      selectedInto = true;
+    } else if (acceptKeyword('into')) {
+      parseTargets();
+      selectedInto = true;
+    }
+    if (!acceptKeyword('from')) fail('SELECT has no FROM clause; Oracle needs FROM DUAL', select);
+    parseTableSources();
+    if (acceptKeyword('where')) parseExpression();
+    for (;;) {
+      if (acceptKeyword('start')) {
+        expectKeyword('with');
+        parseExpression();
+      } else if (acceptKeyword('connect')) {
+        expectKeyword('by');
+        acceptKeyword('nocycle');
+        parseExpression();
+      } else {
+        break;
+      }
+    }
+    if (acceptKeyword('group')) {
+      expectKeyword('by');
+      do parseExpression(); while (acceptSymbol(','));
+    }
+    if (acceptKeyword('having')) parseExpression();
+  };
+
+  function parseQuery() {
+    const outer = procedural;
+    procedural = false;
+    try {
+      parseQueryClauses();
+    } finally {
+      procedural = outer;
+    }
+  }
+
+  function parseQueryClauses() {
+    if (acceptKeyword('with')) {
+      do {
+        parseIdentifier();
+        if (atSymbol('(')) skipParenthesized();
+        expectKeyword('as');
+        expectSymbol('(');
+        parseQuery();
+        expectSymbol(')');
+      } while (acceptSymbol(','));
+    }
+    parseQuerySpecification();
+    while (acceptKeyword('union', 'intersect', 'minus')) {
+      acceptKeyword('all');
+      parseQuerySpecification();
+    }
+    if (acceptKeyword('order')) {
+      acceptKeyword('siblings');
+      expectKeyword('by');
+      parseOrderItems();
+    }
+    if (acceptKeyword('offset')) {
+      parseExpression();
+      expectKeyword('row', 'rows');
+    }
+    if (acceptKeyword('fetch')) {
+      expectKeyword('first', 'next');
+      if (!atKeyword('row', 'rows')) parseAdditive();
+      acceptKeyword('percent');
+      expectKeyword('row', 'rows');
+      if (acceptKeyword('with')) expectKeyword('ties');
+      else expectKeyword('only');
+    }
+    if (acceptKeyword('for')) {
+      expectKeyword('update');
+      if (acceptKeyword('of')) {
+        do parseQualifiedName(); while (acceptSymbol(','));
+      }
+      if (acceptKeyword('wait')) next();
+      else if (acceptKeyword('skip')) expectKeyword('locked');
+      else acceptKeyword('nowait');
+    }
+  }
+
+  // ---- DML ----
+
+  const parseReturning = () => {
+    if (!acceptKeyword('returning', 'return')) return;
+    do parseExpression(); while (acceptSymbol(','));
+    if (acceptKeyword('bulk')) expectKeyword('collect');
+    expectKeyword('into');
+    parseTargets();
+  };
+
+  const parseSetClauses = () => {
+    do {
+      if (atSymbol('(')) {
+        skipParenthesized();
+        expectSymbol('=');
+        expectSymbol('(');
+        parseQuery();
+        expectSymbol(')');
+      } else {
+        parseQualifiedName();
+        expectSymbol('=');
+        parseExpression();
+      }
+    } while (acceptSymbol(','));
+  };
+
+  const parseWhere = () => {
+    if (!acceptKeyword('where')) return;
+    if (acceptKeyword('current')) {
+      expectKeyword('of');
+      parseIdentifier();
+    } else {
+      parseExpression();
+    }
+  };
+
+  const parseInsert = () => {
+    expectKeyword('insert');
+    expectKeyword('into');
+    parseQualifiedName();
+    if (atAlias() && !atKeyword('values')) pos++;
+    if (atSymbol('(') && !isWord(peek(1), 'select', 'with')) skipParenthesized();
+    if (acceptKeyword('values')) {
+      if (atSymbol('(')) {
+        pos++;
+        do parseExpression(); while (acceptSymbol(','));
+        expectSymbol(')');
+      } else {
+        // A PL/SQL record, or a collection element such as l(i) in a FORALL
+        parseExpression();
+      }
+    } else {
+      parseQuery();
+    }
+    parseReturning();
+  };
+
+  const parseUpdate = () => {
+    expectKeyword('update');
+    parseTableItem();
+    expectKeyword('set');
+    parseSetClauses();
+    parseWhere();
+    parseReturning();
+  };
+
+  const parseDelete = () => {
+    expectKeyword('delete');
+    acceptKeyword('from');
+    parseTableItem();
+    parseWhere();
+    parseReturning();
+  };
+
+  const parseMerge = () => {
+    expectKeyword('merge');
+    expectKeyword('into');
+    parseTableItem();
+    expectKeyword('using');
+    parseTableItem();
+    expectKeyword('on');
+    expectSymbol('(');
+    parseExpression();
+    expectSymbol(')');
+    while (acceptKeyword('when')) {
+      const matched = !acceptKeyword('not');
+      expectKeyword('matched');
+      expectKeyword('then');
+      if (matched) {
+        expectKeyword('update');
+        expectKeyword('set');
+        parseSetClauses();
+        if (acceptKeyword('where')) parseExpression();
+        if (acceptKeyword('delete')) {
+          expectKeyword('where');
+          parseExpression();
+        }
+      } else {
+        expectKeyword('insert');
+        if (atSymbol('(')) skipParenthesized();
+        expectKeyword('values');
+        expectSymbol('(');
+        do parseExpression(); while (acceptSymbol(','));
+        expectSymbol(')');
+        if (acceptKeyword('where')) parseExpression();
+      }
+    }
+  };
+
+  // SQL statements that PL/SQL runs directly; returns false for anything else
+  const parseSqlStatement = (): boolean => {
+    if (atKeyword('select', 'with') || atSymbol('(')) parseQuery();
+    else if (atKeyword('insert')) parseInsert();
+    else if (atKeyword('update')) parseUpdate();
+    else if (atKeyword('delete')) parseDelete();
+    else if (atKeyword('merge')) parseMerge();
+    else if (acceptKeyword('commit')) acceptKeyword('work');
+    else if (acceptKeyword('rollback')) {
+      acceptKeyword('work');
+      if (acceptKeyword('to')) {
+        acceptKeyword('savepoint');
+        parseIdentifier();
+      }
+    } else if (acceptKeyword('savepoint')) parseIdentifier();
+    else if (atKeyword('lock') && isWord(peek(1), 'table')) skipToSemicolon();
+    else if (atKeyword('set') && isWord(peek(1), 'transaction')) skipToSemicolon();
+    else return false;
+    return true;
+  };
+
+  // ---- PL/SQL ----
+
+  const atBlockEnd = (terminators: string[]) => atEnd() || atKeyword(...terminators);
+
+  const parseStatements = (terminators: string[]) => {
+    const first = peek();
+    if (atBlockEnd(terminators)) fail('A PL/SQL block needs at least one statement (NULL if it does nothing)', first);
+    while (!atBlockEnd(terminators)) parseStatement();
+  };
+
+  const parseLabel = () => {
+    expectSymbol('<<');
+    parseIdentifier();
+    expectSymbol('>>');
+  };
+
+  const parseLoopBody = () => {
+    expectKeyword('loop');
+    parseStatements(['end']);
+    expectKeyword('end');
+    expectKeyword('loop');
+    if (isIdentifier(peek())) pos++;
+    expectSymbol(';');
+  };
+
+  const parseBlock = () => {
+    if (acceptKeyword('declare')) parseDeclarations();
+    expectKeyword('begin');
+    parseStatements(['end', 'exception']);
+    if (acceptKeyword('exception')) {
+      if (!atKeyword('when')) fail(`Expected 'WHEN' but found ${describe(peek())}`);
+      while (acceptKeyword('when')) {
+        do parseQualifiedName(); while (acceptKeyword('or'));
+        expectKeyword('then');
+        parseStatements(['end', 'when']);
+      }
+    }
+    expectKeyword('end');
+    if (isIdentifier(peek())) pos++;
+    expectSymbol(';');
+  };
+
+  function parseStatement() {
+    while (atSymbol('<<')) parseLabel();
+    const token = peek();
+    if (!token) return fail('Unexpected end of input');
+    const word = token.type === 'word' ? token.value.toLowerCase() : '';
+    switch (word) {
+      case 'null':
+        pos++;
+        expectSymbol(';');
+        return;
+      case 'return':
+        pos++;
+        if (!atSymbol(';')) parseProceduralExpression();
+        expectSymbol(';');
+        return;
+      case 'exit':
+      case 'continue':
+        pos++;
+        if (isIdentifier(peek())) pos++;
+        if (acceptKeyword('when')) parseProceduralExpression();
+        expectSymbol(';');
+        return;
+      case 'goto':
+        pos++;
+        parseIdentifier();
+        expectSymbol(';');
+        return;
+      case 'raise':
+        pos++;
+        if (!atSymbol(';')) parseQualifiedName();
+        expectSymbol(';');
+        return;
+      case 'if':
+        pos++;
+        parseProceduralExpression();
+        expectKeyword('then');
+        parseStatements(['elsif', 'else', 'end']);
+        while (acceptKeyword('elsif')) {
+          parseProceduralExpression();
+          expectKeyword('then');
+          parseStatements(['elsif', 'else', 'end']);
+        }
+        if (acceptKeyword('else')) parseStatements(['end']);
+        expectKeyword('end');
+        expectKeyword('if');
+        expectSymbol(';');
+        return;
+      case 'case':
+        pos++;
+        if (!atKeyword('when')) parseProceduralExpression();
+        expectKeyword('when');
+        do {
+          parseProceduralExpression();
+          expectKeyword('then');
+          parseStatements(['when', 'else', 'end']);
+        } while (acceptKeyword('when'));
+        if (acceptKeyword('else')) parseStatements(['end']);
+        expectKeyword('end');
+        expectKeyword('case');
+        if (isIdentifier(peek())) pos++;
+        expectSymbol(';');
+        return;
+      case 'loop':
+        parseLoopBody();
+        return;
+      case 'while':
+        pos++;
+        parseProceduralExpression();
+        parseLoopBody();
+        return;
+      case 'for':
+        pos++;
+        parseIdentifier();
+        expectKeyword('in');
+        acceptKeyword('reverse');
+        if (atSymbol('(') && isWord(peek(1), 'select', 'with')) {
+          pos++;
+          parseQuery();
+          expectSymbol(')');
+        } else {
+          parseAdditive();
+          if (acceptSymbol('..')) parseAdditive();
+        }
+        parseLoopBody();
+        return;
+      case 'forall':
+        pos++;
+        parseIdentifier();
+        expectKeyword('in');
+        if (acceptKeyword('indices', 'values')) {
+          expectKeyword('of');
+          parseNameChain();
+        } else {
+          parseAdditive();
+          expectSymbol('..');
+          parseAdditive();
+        }
+        if (acceptKeyword('save')) expectKeyword('exceptions');
+        if (!parseSqlStatement()) fail(`Expected a DML statement after FORALL but found ${describe(peek())}`);
+        expectSymbol(';');
+        return;
+      case 'declare':
+      case 'begin':
+        parseBlock();
+        return;
+      case 'open':
+        pos++;
+        parseIdentifier();
+        if (atSymbol('(')) parseArguments();
+        if (acceptKeyword('for')) {
+          if (atKeyword('select', 'with')) parseQuery();
+          else parseExpression();
+          if (acceptKeyword('using')) parseUsing();
+        }
+        expectSymbol(';');
+        return;
+      case 'fetch':
+        pos++;
+        parseIdentifier();
+        if (acceptKeyword('bulk')) expectKeyword('collect');
+        expectKeyword('into');
+        parseTargets();
+        if (acceptKeyword('limit')) parseExpression();
+        expectSymbol(';');
+        return;
+      case 'close':
+        pos++;
+        parseIdentifier();
+        expectSymbol(';');
+        return;
+      case 'execute':
+        pos++;
+        expectKeyword('immediate');
+        parseExpression();
+        if (acceptKeyword('bulk')) {
+          expectKeyword('collect');
+          expectKeyword('into');
+          parseTargets();
+        } else if (acceptKeyword('into')) {
+          parseTargets();
+        }
+        if (acceptKeyword('using')) parseUsing();
+        parseReturning();
+        expectSymbol(';');
+        return;
+      case 'pipe':
+        pos++;
+        expectKeyword('row');
+        expectSymbol('(');
+        parseExpression();
+        expectSymbol(')');
+        expectSymbol(';');
+        return;
+    }
+    const query = atKeyword('select', 'with') ? token : undefined;
+    selectedInto = false;
+    if (parseSqlStatement()) {
+      if (query && !selectedInto) fail('SELECT in PL/SQL needs INTO, BULK COLLECT INTO or a cursor', query);
+      expectSymbol(';');
+      return;
+    }
+    // Assignment or procedure call
+    if (!token || !(token.type === 'word' || token.type === 'variable' || token.type === 'quotedIdentifier') || RESERVED.has(word)) {
+      fail(`Expected a statement but found ${describe(token)}`);
+    }
+    inProcedural(parseNameChain);
+    if (acceptSymbol(':=')) {
+      checkAssignable(token);
+      parseProceduralExpression();
+    } else if (atSymbol('=')) {
+      fail("Expected ':=' for an assignment but found '='");
+    }
+    expectSymbol(';');
+  }
+
+  function parseUsing() {
+    do {
+      if (acceptKeyword('in')) acceptKeyword('out');
+      else acceptKeyword('out');
+      parseExpression();
+    } while (acceptSymbol(','));
+  }
+
+  // The names of the IN parameters
+  const parseParameters = (): string[] => {
+    const inputs: string[] = [];
+    if (!acceptSymbol('(')) return inputs;
+    do {
+      const name = peek()!;
+      parseIdentifier();
+      const output = acceptKeyword('in') ? acceptKeyword('out') : acceptKeyword('out');
+      acceptKeyword('nocopy');
+      parseDataType();
+      const defaultValue = peek();
+      if (acceptSymbol(':=') || acceptKeyword('default')) {
+        if (output) {
+          reject('OUT and IN OUT parameters cannot have a default (PLS-00230)', defaultValue,
+            'Remove the default and pass a value in every call, or make the parameter IN.');
+        }
+        parseProceduralExpression();
+      }
+      if (!output) inputs.push(nameKey(name));
+    } while (acceptSymbol(','));
+    expectSymbol(')');
+    return inputs;
+  };
+
+  // PROCEDURE or FUNCTION, as a declaration (spec) or with a body
+  const parseSubprogram = () => {
+    const isFunction = atKeyword('function');
+    expectKeyword('procedure', 'function');
+    parseQualifiedName();
+    const inputs = parseParameters();
+    if (isFunction) {
+      expectKeyword('return');
+      if (acceptKeyword('self')) {
+        expectKeyword('as');
+        expectKeyword('result');
+      } else {
+        parseDataType();
+      }
+    }
+    while (acceptKeyword('deterministic', 'pipelined', 'parallel_enable', 'result_cache', 'authid', 'current_user', 'definer')) {
+      if (atSymbol('(')) skipParenthesized();
+    }
+    if (acceptSymbol(';')) return;
+    expectKeyword('is', 'as');
+    if (acceptKeyword('language')) {
+      skipToSemicolon();
+      return;
+    }
+    if (acceptKeyword('external')) {
+      skipToSemicolon();
+      return;
+    }
+    const outer = inputParameters;
+    inputParameters = new Set(inputs);
+    parseDeclarations();
+    parseBlock();
+    inputParameters = outer;
+  };
+
+  // Compound trigger timing points: BEFORE STATEMENT IS BEGIN ... END BEFORE STATEMENT;
+  const parseTimingPoint = () => {
+    const timing = next().value.toLowerCase();
+    if (timing === 'instead') expectKeyword('of');
+    if (acceptKeyword('each')) expectKeyword('row');
+    else expectKeyword('statement');
+    expectKeyword('is');
+    expectKeyword('begin');
+    parseStatements(['end', 'exception']);
+    if (acceptKeyword('exception')) {
+      while (acceptKeyword('when')) {
+        do parseQualifiedName(); while (acceptKeyword('or'));
+        expectKeyword('then');
+        parseStatements(['end', 'when']);
+      }
+    }
+    expectKeyword('end');
+    expectKeyword(timing);
+    if (timing === 'instead') expectKeyword('of');
+    if (acceptKeyword('each')) expectKeyword('row');
+    else expectKeyword('statement');
+    expectSymbol(';');
+  };
+
+  const parseTypeDeclaration = () => {
+    expectKeyword('type');
+    parseIdentifier();
+    expectKeyword('is', 'as');
+    if (acceptKeyword('record')) {
+      expectSymbol('(');
+      do {
+        parseIdentifier();
+        parseDataType();
+        if (acceptKeyword('not')) expectKeyword('null');
+        if (acceptSymbol(':=') || acceptKeyword('default')) parseExpression();
+      } while (acceptSymbol(','));
+      expectSymbol(')');
+    } else if (acceptKeyword('table')) {
+      expectKeyword('of');
+      parseDataType();
+      if (acceptKeyword('not')) expectKeyword('null');
+      if (acceptKeyword('index')) {
+        expectKeyword('by');
+        parseDataType();
+      }
+    } else if (acceptKeyword('varray', 'varying')) {
+      acceptKeyword('array');
+      skipParenthesized();
+      expectKeyword('of');
+      parseDataType();
+      if (acceptKeyword('not')) expectKeyword('null');
+    } else if (acceptKeyword('ref')) {
+      expectKeyword('cursor');
+      if (acceptKeyword('return')) parseDataType();
+    } else {
+      fail(`Expected RECORD, TABLE, VARRAY or REF CURSOR but found ${describe(peek())}`);
+    }
+    expectSymbol(';');
+  };
+
+  function parseDeclarations() {
+    while (!atEnd() && !atKeyword('begin', 'end')) {
+      if (acceptKeyword('pragma')) {
+        skipToSemicolon();
+        continue;
+      }
+      if (atKeyword('procedure', 'function')) {
+        parseSubprogram();
+        continue;
+      }
+      // Object type members
+      if (atKeyword('member', 'static', 'constructor', 'map', 'order', 'final', 'overriding', 'not', 'instantiable')) {
+        while (acceptKeyword('member', 'static', 'constructor', 'map', 'order', 'final', 'overriding', 'not', 'instantiable'));
+        parseSubprogram();
+        continue;
+      }
+      if (atKeyword('before', 'after', 'instead') && isWord(peek(1), 'statement', 'each', 'of')) {
+        parseTimingPoint();
+        continue;
+      }
+      if (atKeyword('cursor')) {
+        pos++;
+        parseIdentifier();
+        parseParameters();
+        if (acceptKeyword('return')) parseDataType();
+        if (acceptKeyword('is')) parseQuery();
+        expectSymbol(';');
+        continue;
+      }
+      if (atKeyword('type')) {
+        parseTypeDeclaration();
+        continue;
+      }
+      if (acceptKeyword('subtype')) {
+        parseIdentifier();
+        expectKeyword('is');
+        parseDataType();
+        if (acceptKeyword('range')) {
+          parseAdditive();
+          expectSymbol('..');
+          parseAdditive();
+        }
+        if (acceptKeyword('not')) expectKeyword('null');
+        expectSymbol(';');
+        continue;
+      }
+      // A variable of an inner block hides the parameter of the same name
+      inputParameters.delete(nameKey(peek()!));
+      parseIdentifier();
+      if (acceptKeyword('exception')) {
+        expectSymbol(';');
+        continue;
+      }
+      acceptKeyword('constant');
+      parseDataType();
+      if (acceptKeyword('not')) expectKeyword('null');
+      if (acceptSymbol(':=') || acceptKeyword('default')) parseProceduralExpression();
+      expectSymbol(';');
+    }
+  }
+
+  function skipToSemicolon() {
+    let depth = 0;
+    while (!atEnd() && !atTerminator()) {
+      const token = next();
+      if (token.type !== 'punctuation') continue;
+      if (token.value === '(') depth++;
+      else if (token.value === ')') depth--;
+      else if (token.value === ';' && depth <= 0) {
+        pos--;
+        break;
+      }
+    }
+    if (depth > 0) fail('Unbalanced parentheses');
+  }
+
+  // ---- Top level ----
+
+  // The unit keyword after CREATE [OR REPLACE] [EDITIONABLE] ...
+  const createdUnit = (): string | undefined => {
+    let offset = 1;
+    while (isWord(peek(offset), 'or', 'replace', 'editionable', 'noneditionable', 'force', 'noforce')) offset++;
+    const word = peek(offset);
+    return word && word.type === 'word' ? word.value.toLowerCase() : undefined;
+  };
+
+  const parsePlsqlUnit = () => {
+    expectKeyword('create');
+    while (acceptKeyword('or', 'replace', 'editionable', 'noneditionable', 'force', 'noforce'));
+    const unit = next().value.toLowerCase();
+    if (unit === 'procedure' || unit === 'function') {
+      pos--;
+      parseSubprogram();
+      return;
+    }
+    if (unit === 'package') {
+      acceptKeyword('body');
+      parseQualifiedName();
+      while (acceptKeyword('authid', 'current_user', 'definer'));
+      expectKeyword('is', 'as');
+      parseDeclarations();
+      if (atKeyword('begin')) {
+        pos++;
+        parseStatements(['end', 'exception']);
+      }
+      expectKeyword('end');
+      if (isIdentifier(peek())) pos++;
+      expectSymbol(';');
+      return;
+    }
+    if (unit === 'type') {
+      if (acceptKeyword('body')) {
+        parseQualifiedName();
+        expectKeyword('is', 'as');
+        parseDeclarations();
+        expectKeyword('end');
+        expectSymbol(';');
+        return;
+      }
+      parseQualifiedName();
+      skipToSemicolon();
+      expectSymbol(';');
+      return;
+    }
+    // Trigger
+    parseQualifiedName();
+    const compoundOrSimple = acceptKeyword('for');
+    if (!compoundOrSimple) {
+      if (acceptKeyword('instead')) expectKeyword('of');
+      else expectKeyword('before', 'after');
+    }
+    do {
+      expectKeyword('insert', 'update', 'delete');
+      if (acceptKeyword('of')) {
+        do parseIdentifier(); while (acceptSymbol(','));
+      }
+    } while (acceptKeyword('or'));
+    expectKeyword('on');
+    if (!acceptKeyword('database', 'schema')) parseQualifiedName();
+    if (acceptKeyword('referencing')) {
+      while (acceptKeyword('new', 'old', 'parent')) {
+        acceptKeyword('as');
+        parseIdentifier();
+      }
+    }
+    if (acceptKeyword('for')) {
+      expectKeyword('each');
+      expectKeyword('row');
+    }
+    while (acceptKeyword('follows', 'precedes')) parseQualifiedName();
+    acceptKeyword('enable', 'disable');
+    if (acceptKeyword('when')) {
+      expectSymbol('(');
+      parseExpression();
+      expectSymbol(')');
+    }
+    if (acceptKeyword('compound')) {
+      expectKeyword('trigger');
+      parseDeclarations();
+      expectKeyword('end');
+      if (isIdentifier(peek())) pos++;
+      expectSymbol(';');
+      return;
+    }
+    if (compoundOrSimple) fail(`Expected 'COMPOUND TRIGGER' but found ${describe(peek())}`);
+    parseBlock();
+  };
+
+  const parseView = () => {
+    expectKeyword('create');
+    while (acceptKeyword('or', 'replace', 'editionable', 'noneditionable', 'force', 'noforce'));
+    expectKeyword('view');
+    parseQualifiedName();
+    if (atSymbol('(')) skipParenthesized();
+    expectKeyword('as');
+    parseQuery();
+    if (acceptKeyword('with')) {
+      if (acceptKeyword('check')) expectKeyword('option');
+      else {
+        expectKeyword('read');
+        expectKeyword('only');
+      }
+      if (acceptKeyword('constraint')) parseIdentifier();
+    }
+  };
+
+  const skipLine = () => {
+    const line = peek()!.line;
+    while (!atEnd() && peek()!.line === line) pos++;
+  };
+
+  const isLineStart = () => pos === 0 || tokens[pos - 1].line < peek()!.line;
+
+  const report = (error: PlsqlSyntaxError) => {
+    problems.push({
+      message: error.message,
+      line: error.line,
+      column: error.column,
+      suggestedFix: 'Correct the statement so that it compiles in Oracle.',
+    });
+  };
+
+  // After an error, continue with the next statement or unit
+  const recover = (plsql: boolean) => {
+    while (!atEnd()) {
+      if (atTerminator()) {
+        pos++;
+        return;
+      }
+      // A unit missing its terminator ends where the next CREATE starts
+      if (atKeyword('create') && isLineStart()) return;
+      const token = next();
+      if (!plsql && token.type === 'punctuation' && token.value === ';') return;
+    }
+  };
+
+  while (!atEnd()) {
+    const token = peek()!;
+    if (atTerminator()) {
+      pos++;
+      continue;
+    }
+    if (isLineStart() && (atSymbol('@') || (token.type === 'word' && SQLPLUS_COMMANDS.has(token.value.toLowerCase()) && !isWord(peek(1), 'transaction')))) {
+      skipLine();
+      continue;
+    }
+    if (token.type === 'unknown' && token.value === '```') {
+      pos++;
+      continue;
+    }
+
+    const unit = atKeyword('create') ? createdUnit() : undefined;
+    const plsql = !!unit && PLSQL_UNITS.has(unit) || atKeyword('declare', 'begin') || atSymbol('<<');
+    const start = token;
+    const startPos = pos;
+    procedural = false;
+    inputParameters = new Set();
+    try {
+      if (plsql) {
+        if (atKeyword('create')) parsePlsqlUnit();
+        else {
+          while (atSymbol('<<')) parseLabel();
+          parseBlock();
+        }
+        if (atTerminator()) {
+          pos++;
+        } else {
+          const end = tokens[pos - 1];
+          problems.push({
+            message: `Missing '/' after the PL/SQL ${unit || 'block'} that starts on line ${start.line}`,
+            line: end.line,
+            column: end.column,
+            suggestedFix: "Add a line containing only '/' after the unit so that SQL*Plus and SQLcl run it.",
+          });
+        }
+        continue;
+      }
+      if (unit === 'view') parseView();
+      else if (!parseSqlStatement()) {
+        if (!atKeyword('create', 'alter', 'drop', 'grant', 'revoke', 'comment', 'truncate', 'rename', 'analyze', 'purge')) {
+          fail(`Expected a SQL statement but found ${describe(token)}`);
+        }
+        // DDL is only checked for balanced parentheses
+        skipToSemicolon();
+      }
+      if (!acceptSymbol(';') && !atTerminator()) fail(`Expected ';' but found ${describe(peek())}`);
+      if (tokens[pos - 1].value === ';' && atTerminator()) {
+        problems.push({
+          message: "'/' after a statement that already ends with ';' runs it a second time",
+          line: peek()!.line,
+          column: peek()!.column,
+          suggestedFix: "Remove the '/' line or the ';'.",
+          severity: 'warning',
+        });
+      }
+    } catch (error) {
+      if (!(error instanceof PlsqlSyntaxError)) throw error;
+      report(error);
+      if (pos === startPos) pos++;
+      recover(plsql);
+    }
+  }
+  return problems;
+};
+
+// Check converted Oracle code for syntax errors and Sybase leftovers without a database.
+// Problems are errors since the code would not compile as is.
+export const validatePlsql = (code: string): ConversionIssue[] => {
+  if (!code.trim()) return [];
+  const tokens = tokenizePlsql(code);
+  const leftovers = findLeftovers(tokens);
+  // A leftover usually breaks the grammar too; report it once, as the leftover
+  const flaggedLines = new Set(leftovers.map(problem => problem.line));
+  const syntaxErrors = parseScript(tokens).filter(problem => !flaggedLines.has(problem.line));
+
+  const toIssue = (kind: string) => (problem: SyntaxProblem): ConversionIssue => ({
+    id: crypto.randomUUID(),
+    lineNumber: problem.line,
+    columnNumber: problem.column,
+    description: `${problem.kind ?? kind} at line ${problem.line}, column ${problem.column}: ${problem.message}.`,
+    severity: problem.severity ?? 'error',
+    suggestedFix: problem.suggestedFix,
+  });
+  return [
+    ...leftovers.map(toIssue('Sybase leftover')),
+    ...syntaxErrors.map(toIssue('PL/SQL syntax error')),
+  ].sort((a, b) => (a.lineNumber ?? 0) - (b.lineNumber ?? 0));
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { convertWithRules } from '@/utils/ruleBasedConverter';
+import { validatePlsql } from '@/utils/plsqlValidator';
+import { buildSchemaCatalog } from '@/utils/schemaCatalog';
+import { parseConversionSettings } from '@/utils/conversionSettings';
+import { detectFileType } from '@/utils/fileTypes';
+
+// One folder per conversion pass under __fixtures__/convert. Each <case>.sybase.sql is converted
+// against the folder's schema.sql, if any, and compared with <case>.oracle.sql. A first line
+// "-- settings: {...}" selects the conversion settings, in the form saved with a migration.
+const fixtures = import.meta.glob('./__fixtures__/convert/*/*.sql', { query: '?raw', import: 'default', eager: true }) as Record<string, string>;
+
+const SETTINGS_LINE = /^--\s*settings:\s*(.*)\n/;
+
+const passes = new Map<string, string[]>();
+Object.keys(fixtures).filter(path => path.endsWith('.sybase.sql')).forEach(path => {
+  const folder = path.slice(0, path.lastIndexOf('/'));
+  passes.set(folder, [...(passes.get(folder) || []), path]);
+});
+
+// The converted code followed by the changed caller contracts, the converter's issues and anything
+// the validator rejects
+const expectedText = (path: string, source: string) => {
+  const settingsLine = source.match(SETTINGS_LINE);
+  const content = source.replace(SETTINGS_LINE, '');
+  const schemaSource = fixtures[`${path.slice(0, path.lastIndexOf('/'))}/schema.sql`];
+  const name = path.split('/').pop()!;
+  const schema = schemaSource ? buildSchemaCatalog([{ id: 'schema', content: schemaSource }]) : undefined;
+  const settings = parseConversionSettings(settingsLine ? JSON.parse(settingsLine[1]) : undefined);
+
+  const result = convertWithRules({ id: name, name, type: detectFileType(name, content), content }, { schema, settings });
+  const contracts = result.callerContracts.flatMap(contract => [
+    `-- contract: ${contract.oracleSignature}`,
+    ...contract.changes.map(change => `--   ${change}`),
+  ]);
+  const issues = result.issues.map(issue => `-- ${issue.severity}${issue.lineNumber ? ` L${issue.lineNumber}` : ''}: ${issue.description}`);
+  const invalid = validatePlsql(result.convertedCode).map(issue => `-- invalid L${issue.lineNumber}: ${issue.description}`);
+  const notes = [...contracts, ...issues, ...invalid];
+  return [result.convertedCode.trimEnd(), ...(notes.length > 0 ? ['', ...notes] : [])].join('\n') + '\n';
+};
+
+passes.forEach((paths, folder) => {
+  describe(`convertWithRules ${folder.split('/').pop()}`, () => {
+    paths.forEach(path => {
+      it(path.split('/').pop()!.replace('.sybase.sql', ''), async () => {
+        await expect(expectedText(path, fixtures[path])).toMatchFileSnapshot(path.replace('.sybase.sql', '.oracle.sql'));
+      });
+    });
+  });
+});
@@ -0,0 +1,3423 @@
+import {
+  CallerContract,
+  CodeFile,
+  ConversionContext,
+  ConversionIssue,
+  ConversionIssueCategory,
+  CursorStyle,
+  DataTypeMapping,
+  FunctionUsage,
+  IdentifierMapping,
+  IdentityStyle,
+  NamingPolicy,
+  ResultSetStyle,
+  SchemaCatalog,
+  SchemaColumn,
+  SchemaTable,
+} from '@/types';
+import {
+  AstNode,
+  CreateDefaultStatement,
+  CreateFunctionStatement,
+  CreateIndexStatement,
+  CreateProcedureStatement,
+  CreateRuleStatement,
+  CreateSequenceStatement,
+  CreateTableStatement,
+  CreateTriggerStatement,
+  CreateViewStatement,
+  CursorStatement,
+  DataTypeSpec,
+  DeclareCursorStatement,
+  DeleteStatement,
+  ExecArgument,
+  ExecStatement,
+  Expression,
+  FetchStatement,
+  FunctionCallExpression,
+  GrantStatement,
+  IfStatement,
+  InsertStatement,
+  NodeBase,
+  ProcedureParameter,
+  RaiserrorStatement,
+  SelectStatement,
+  SetStatement,
+  Statement,
+  TableReference,
+  TableSource,
+  TruncateStatement,
+  UpdateStatement,
+  WhileStatement,
+} from '@/types/tsqlAst';
+import { findTypeMapping } from './dataTypeMapping';
+import { CONVERT_STYLES, dateLiteralMask, FUNCTION_CATALOG, mapFunctionCall, renamedFunction } from './functionCatalog';
+import { DEFAULT_NAMING_POLICY, nameIdentifier, storedIdentifier } from './namingPolicy';
+import { findColumn, findTable, objectBinding, physicalDataType, userTypeDefinition, withFileTypes } from './schemaCatalog';
+import { tokenize } from './tsqlLexer';
+import { baseName, parseTsql, visitAst } from './tsqlParser';
+import { TEMP_TABLES_FILE_NAME } from './tempTables';
+
+// Model id under which the deterministic engine is offered next to the AI models
+export const RULE_BASED_MODEL = 'rule-based';
+
+export interface RuleBasedConversion {
+  convertedCode: string;
+  issues: ConversionIssue[];
+  callerContracts: CallerContract[];
+  identifierMappings: IdentifierMapping[];
+  dataTypeMappings: DataTypeMapping[];
+  functionCalls: FunctionUsage[];
+}
+
+// State of the PL/SQL unit (procedure, trigger or anonymous block) being emitted
+interface UnitScope {
+  declarations: string[];
+  declared: Set<string>;
+  parameters: Set<string>;
+  variableTypes: Map<string, DataTypeSpec>;
+  cursors: string[];
+  lastFetchedCursor?: string;
+  // @@identity and scope_identity() references not yet folded into a RETURNING clause
+  identityReferences: number;
+  // Variable holding the identity value of the latest INSERT
+  lastIdentity?: string;
+  // Set while emitting a user-defined function, whose RETURN keeps its value
+  returnsValue?: boolean;
+  // Set while emitting a trigger body
+  trigger?: CreateTriggerStatement;
+  // Row-level triggers: the pseudo-table columns that become :NEW and :OLD
+  pseudoRows?: PseudoRows;
+  // Compound triggers: the global temporary table holding the rows of each pseudo-table
+  pseudoTables?: Map<string, string>;
+  // Compound triggers: the variable counting the triggering rows, while @@rowcount still refers to them
+  triggerRows?: string;
+  // BEGIN TRANSACTION nesting at the statement being emitted, in source order
+  transactionDepth: number;
+  transactionStart?: NodeBase;
+  // Set while emitting an EXCEPTION handler, where SQLCODE holds the error
+  inErrorHandler?: boolean;
+  // Cursor that returns the rows of each result set SELECT of a procedure
+  resultCursors?: Map<SelectStatement, string>;
+  // SQL text of each variable run as dynamic SQL, keyed by lower-case name
+  dynamicSql: Map<string, DynamicSql>;
+  // Cursor loops keyed by their WHILE, and the statements they take the place of, such as the first FETCH
+  cursorLoops: Map<Statement, CursorLoop>;
+  replacedStatements: Set<Statement>;
+  // Keyed by lower-case cursor name: the record fields of cursors read through records,
+  // the cursors read with BULK COLLECT, and those closed by a CLOSE or a cursor FOR loop
+  cursorFields: Map<string, string[]>;
+  bulkCursors: Set<string>;
+  closedCursors: Set<string>;
+  // The variable an EXISTS of a procedural condition was evaluated into, and how many of them are declared
+  existsChecks: Map<Expression, string>;
+  existsVariables: number;
+}
+
+interface PseudoRows {
+  // Alias of each pseudo-table in the query being emitted, mapped to :NEW or :OLD
+  aliases: Map<string, string>;
+  // Row that unqualified columns belong to; with other sources in the query, only the columns of the triggering table
+  unqualified?: { row: string; table?: SchemaTable };
+}
+
+interface ConverterState {
+  source: string;
+  issues: ConversionIssue[];
+  reported: Set<string>;
+  // DDL that has to run before the unit currently being emitted (temporary tables)
+  preamble: string[];
+  tempTables: Set<string>;
+  // Temporary tables created by the migration's shared script rather than by this file
+  sharedTempTables: Set<string>;
+  savepoints: Set<string>;
+  // Tables from all uploaded DDL, used to resolve column types
+  schema?: SchemaCatalog;
+  identityStyle: IdentityStyle;
+  resultSetStyle: ResultSetStyle;
+  cursorStyle: CursorStyle;
+  callerContracts: CallerContract[];
+  naming: NamingPolicy;
+  // Keyed by lower-case Sybase name
+  identifierMappings: Map<string, IdentifierMapping>;
+  typeMappings: DataTypeMapping[];
+  // The Sybase types converted, keyed by lower-case type text
+  dataTypeMappings: Map<string, DataTypeMapping>;
+  // Keyed by lower-case function name
+  functionCalls: Map<string, FunctionUsage>;
+  recordedCalls: Set<NodeBase>;
+  // Expressions whose Oracle text was worked out before they are emitted (dynamic SQL)
+  rewrites: Map<Expression, string>;
+  // Values of create default and conditions of create rule, keyed by lower-case name
+  defaults: Map<string, Expression>;
+  rules: Map<string, Expression>;
+  scope?: UnitScope;
+}
+
+type Severity = ConversionIssue['severity'];
+
+const INDENT = '  ';
+
+const addIssue = (
+  state: ConverterState,
+  node: NodeBase | undefined,
+  severity: Severity,
+  description: string,
+  suggestedFix?: string,
+  category?: ConversionIssueCategory
+) => {
+  state.issues.push({
+    id: crypto.randomUUID(),
+    lineNumber: node?.line,
+    description,
+    severity,
+    suggestedFix,
+    originalCode: node ? state.source.slice(node.start, node.end).split('\n')[0].trim() : undefined,
+    category,
+  });
+};
+
+// Report an issue only the first time a given key is seen in the file
+const addIssueOnce = (
+  state: ConverterState,
+  key: string,
+  node: NodeBase | undefined,
+  severity: Severity,
+  description: string,
+  suggestedFix?: string,
+  category?: ConversionIssueCategory
+) => {
+  if (state.reported.has(key)) return;
+  state.reported.add(key);
+  addIssue(state, node, severity, description, suggestedFix, category);
+};
+
+// ---- Names ----
+
+// Names follow the migration's naming policy; renamed ones are listed in the report
+const formatIdentifier = (state: ConverterState, name: string, prefix = ''): string => {
+  const { name: formatted, mapping } = nameIdentifier(name, state.naming, prefix);
+  if (mapping) state.identifierMappings.set(mapping.sybaseName.toLowerCase(), mapping);
+  return formatted;
+};
+
+// #temp tables become global temporary tables with a tt_ prefix
+const tempTableName = (name: string): string => `tt_${name.replace(/^#+/, '')}`;
+
+const isTempTable = (parts: string[]): boolean => parts.length > 0 && parts[parts.length - 1].startsWith('#');
+
+// Database and dbo owner qualifiers have no meaning in the target schema
+const formatObjectName = (state: ConverterState, parts: string[]): string => {
+  const name = parts[parts.length - 1] || '';
+  if (name.startsWith('#')) return formatIdentifier(state, tempTableName(name));
+  const owner = parts.length >= 2 ? parts[parts.length - 2] : '';
+  const formatted = formatIdentifier(state, name);
+  return owner && owner.toLowerCase() !== 'dbo' ? `${formatIdentifier(state, owner)}.${formatted}` : formatted;
+};
+
+// In the 'sequence' identity style, the sequence and trigger that fill a table's identity column
+const identityObjectName = (state: ConverterState, table: string[], suffix: string): string =>
+  formatObjectName(state, [...table.slice(0, -1), `${table[table.length - 1]}_${suffix}`]);
+
+const identitySequenceName = (state: ConverterState, table: string[]): string => identityObjectName(state, table, 'seq');
+
+const identityTriggerName = (state: ConverterState, table: string[]): string => identityObjectName(state, table, 'bi');
+
+const formatColumnName = (state: ConverterState, parts: string[]): string =>
+  parts
+    .filter(part => part !== '')
+    .map((part, index, all) => formatIdentifier(state, part.startsWith('#') && index < all.length - 1 ? tempTableName(part) : part))
+    .join('.');
+
+const variableName = (state: ConverterState, name: string): string => {
+  const prefix = state.scope?.parameters.has(name.toLowerCase()) ? state.naming.parameterPrefix : state.naming.variablePrefix;
+  return formatIdentifier(state, name, prefix);
+};
+
+// ---- Data types ----
+
+const sized = (oracle: string) => (args: string[]) => (args.length ? `${oracle}(${args.join(',')})` : oracle);
+
+// Types the migration's type mapping does not list
+const TYPE_MAP: Record<string, (args: string[]) => string> = {
+  int: () => 'NUMBER(10)',
+  integer: () => 'NUMBER(10)',
+  smallint: () => 'NUMBER(5)',
+  tinyint: () => 'NUMBER(3)',
+  bigint: () => 'NUMBER(19)',
+  'unsigned int': () => 'NUMBER(10)',
+  'unsigned integer': () => 'NUMBER(10)',
+  'unsigned smallint': () => 'NUMBER(5)',
+  'unsigned tinyint': () => 'NUMBER(3)',
+  'unsigned bigint': () => 'NUMBER(20)',
+  numeric: sized('NUMBER'),
+  decimal: sized('NUMBER'),
+  dec: sized('NUMBER'),
+  // float is 8 bytes unless its precision is below 16
+  float: args => (args[0] && Number(args[0]) < 16 ? 'BINARY_FLOAT' : 'BINARY_DOUBLE'),
+  real: () => 'BINARY_FLOAT',
+  'double precision': () => 'BINARY_DOUBLE',
+  money: () => 'NUMBER(19,4)',
+  smallmoney: () => 'NUMBER(10,4)',
+  char: args => `CHAR(${args[0] || 1})`,
+  character: args => `CHAR(${args[0] || 1})`,
+  varchar: args => `VARCHAR2(${args[0] || 1})`,
+  nchar: args => `NCHAR(${args[0] || 1})`,
+  unichar: args => `NCHAR(${args[0] || 1})`,
+  nvarchar: args => `NVARCHAR2(${args[0] || 1})`,
+  univarchar: args => `NVARCHAR2(${args[0] || 1})`,
+  sysname: () => 'VARCHAR2(30)',
+  longsysname: () => 'VARCHAR2(255)',
+  text: () => 'CLOB',
+  ntext: () => 'NCLOB',
+  unitext: () => 'NCLOB',
+  binary: args => `RAW(${args[0] || 1})`,
+  varbinary: args => `RAW(${args[0] || 1})`,
+  image: () => 'BLOB',
+  datetime: () => 'TIMESTAMP',
+  // Minutes are the precision of smalldatetime
+  smalldatetime: () => 'DATE',
+  bigdatetime: () => 'TIMESTAMP(6)',
+  date: () => 'DATE',
+  time: () => 'TIMESTAMP',
+  bigtime: () => 'TIMESTAMP(6)',
+  // A row version Sybase sets on every change, not a date
+  timestamp: () => 'RAW(8)',
+  bit: () => 'NUMBER(1)',
+  uniqueidentifier: () => 'RAW(16)',
+  sql_variant: () => 'VARCHAR2(4000)',
+  xml: () => 'XMLTYPE',
+};
+
+// Strings longer than VARCHAR2 and NVARCHAR2 allow become LOBs
+const withStringLimits = (oracle: string): string => {
+  const match = oracle.match(/^(N?)VARCHAR2\((\d+)\)$/i);
+  if (!match) return oracle;
+  return Number(match[2]) > (match[1] ? 2000 : 4000) ? `${match[1].toUpperCase()}CLOB` : oracle;
+};
+
+// The Oracle column type for a Sybase type: the migration's type mapping first, then the built-in
+// one. A user-defined type has the type of its physical type unless the type mapping lists it.
+// Undefined for types without a mapping.
+export const oracleDataType = (spec: DataTypeSpec, typeMappings: DataTypeMapping[] = [], catalog?: SchemaCatalog): string | undefined => {
+  const oracle = findTypeMapping(typeMappings, spec) ?? TYPE_MAP[spec.name]?.(spec.args);
+  if (oracle) return withStringLimits(oracle);
+  const physical = physicalDataType(catalog, spec);
+  return physical !== spec ? oracleDataType(physical, typeMappings) : undefined;
+};
+
+const STRING_TYPES = new Set([
+  'char', 'character', 'varchar', 'nchar', 'nvarchar', 'unichar', 'univarchar', 'text', 'ntext', 'unitext', 'sysname', 'longsysname',
+]);
+const DATE_TYPES = new Set(['datetime', 'smalldatetime', 'bigdatetime', 'date', 'time', 'bigtime']);
+
+// Physical type of user-defined types, used where the kind of value matters
+const valueType = (state: ConverterState, spec: DataTypeSpec): DataTypeSpec => physicalDataType(state.schema, spec);
+
+const convertDataType = (state: ConverterState, spec: DataTypeSpec, node?: NodeBase, parameter = false): string => {
+  const oracle = oracleDataType(spec, state.typeMappings, state.schema);
+  if (!oracle) {
+    addIssueOnce(state, `type:${spec.name}`, node, 'warning', `No Oracle mapping for data type '${spec.text}'; kept as is.`,
+      'Add the type to the migration\'s type mapping, or include the file with its sp_addtype.');
+    return spec.text;
+  }
+  const profile = state.typeMappings.find(mapping => findTypeMapping([mapping], spec) !== undefined);
+  if (spec.name === 'timestamp' && !profile) {
+    addIssueOnce(state, 'type:timestamp', node, 'warning', 'Sybase timestamp values are row versions that change with every update; the RAW(8) column keeps the values but Oracle does not change them.',
+      'Compare ORA_ROWSCN instead (create the table with ROWDEPENDENCIES), or keep a version column that a trigger increments.');
+  }
+  const key = spec.text.toLowerCase().replace(/\s+/g, '');
+  if (!state.dataTypeMappings.has(key)) {
+    const userType = !profile && state.schema?.types[spec.name];
+    const description = userType ? `User-defined type (sp_addtype) for ${userType.dataType.text}` : profile?.description;
+    state.dataTypeMappings.set(key, { sybaseType: spec.text, oracleType: oracle, ...(description ? { description } : {}) });
+  }
+  // PL/SQL parameters cannot carry a length, precision or scale
+  return parameter ? oracle.replace(/\(.*\)$/, '') : oracle;
+};
+
+// ---- Schema lookups ----
+
+interface ResolvedColumn {
+  table: SchemaTable;
+  column: SchemaColumn;
+}
+
+interface ScopeSource {
+  alias: string;
+  // Set for tables found in the catalog
+  table?: SchemaTable;
+}
+
+// The sources of a FROM clause under the name they are referenced by
+const sourceInScope = (state: ConverterState, source: TableSource): ScopeSource[] => {
+  switch (source.kind) {
+    case 'Join':
+      return [...sourceInScope(state, source.left), ...sourceInScope(state, source.right)];
+    case 'DerivedTable':
+      return [{ alias: (source.alias || '').toLowerCase() }];
+    case 'TableRef':
+      return [{ alias: (source.alias || baseName(source.name)).toLowerCase(), table: findTable(state.schema, source.name) }];
+  }
+};
+
+const sourcesInScope = (state: ConverterState, from: TableSource[]): ScopeSource[] =>
+  from.flatMap(source => sourceInScope(state, source));
+
+const resolveColumn = (state: ConverterState, expr: Expression, from: TableSource[]): ResolvedColumn | undefined => {
+  if (expr.kind !== 'Column' || !state.schema) return undefined;
+  const name = expr.parts[expr.parts.length - 1];
+  const qualifier = expr.parts.length > 1 ? expr.parts[expr.parts.length - 2].toLowerCase() : undefined;
+  const matches: ResolvedColumn[] = [];
+  sourcesInScope(state, from).forEach(source => {
+    if (qualifier && source.alias !== qualifier) return;
+    const column = source.table && findColumn(source.table, name);
+    if (source.table && column) matches.push({ table: source.table, column });
+  });
+  // An unqualified column found in several tables is ambiguous
+  return matches.length === 1 ? matches[0] : undefined;
+};
+
+const anchoredType = (state: ConverterState, source: ResolvedColumn): string =>
+  `${formatIdentifier(state, source.table.name)}.${formatIdentifier(state, source.column.name)}%TYPE`;
+
+// Anchor a variable to the column it is filled from, so it follows the table definition.
+// A declared type that disagrees with the column is kept and reported.
+const variableType = (state: ConverterState, name: string, spec: DataTypeSpec, node: NodeBase, source?: ResolvedColumn): string => {
+  if (!source) return convertDataType(state, spec, node);
+  // A type without a mapping is resolved through the column
+  if (!oracleDataType(spec, state.typeMappings, state.schema)) return anchoredType(state, source);
+  const declared = convertDataType(state, spec, node);
+  if (declared === convertDataType(state, source.column.dataType, node)) return anchoredType(state, source);
+  addIssue(state, node, 'warning',
+    `${name} is declared as ${spec.text} but receives ${source.table.name}.${source.column.name} (${source.column.dataType.text}).`,
+    `Declare it as ${anchoredType(state, source)} unless the difference is intended.`);
+  return declared;
+};
+
+// Column definitions for SELECT INTO #temp when every selected column comes from a catalog table
+const selectedColumnDefinitions = (state: ConverterState, select: SelectStatement): string[] | undefined => {
+  if (!state.schema) return undefined;
+  const sources = sourcesInScope(state, select.from);
+  const definitions: string[] = [];
+  for (const item of select.columns) {
+    const expression = item.expression;
+    if (expression.kind === 'Star') {
+      const qualifier = expression.qualifier.length ? baseName(expression.qualifier) : undefined;
+      const expanded = sources.filter(source => !qualifier || source.alias === qualifier);
+      if (expanded.length === 0 || expanded.some(source => !source.table)) return undefined;
+      expanded.forEach(source => source.table!.columns.forEach(column => {
+        definitions.push(`${formatIdentifier(state, column.name)} ${convertDataType(state, column.dataType, select)}`);
+      }));
+      continue;
+    }
+    const resolved = resolveColumn(state, expression, select.from);
+    if (!resolved) return undefined;
+    definitions.push(`${formatIdentifier(state, item.alias || resolved.column.name)} ${convertDataType(state, resolved.column.dataType, select)}`);
+  }
+  return definitions;
+};
+
+// ---- Expressions ----
+
+const quoteString = (value: string): string => `'${value.replace(/'/g, "''")}'`;
+
+const STRING_FUNCTIONS = new Set([
+  'substring', 'upper', 'lower', 'ltrim', 'rtrim', 'str', 'replicate', 'char', 'space', 'stuff', 'left', 'right',
+  'user_name', 'suser_name', 'db_name', 'object_name', 'reverse', 'str_replace', 'replace',
+]);
+
+// Heuristic used to turn '+' into '||' when either operand is character data
+const isStringExpression = (state: ConverterState, expr: Expression): boolean => {
+  switch (expr.kind) {
+    case 'Literal':
+      return expr.literalType === 'string';
+    case 'Variable': {
+      const type = state.scope?.variableTypes.get(expr.name.toLowerCase());
+      return !!type && STRING_TYPES.has(valueType(state, type).name);
+    }
+    case 'FunctionCall': {
+      const name = expr.name.toLowerCase();
+      if (name === 'convert') return !!expr.dataType && STRING_TYPES.has(valueType(state, expr.dataType).name);
+      if (name === 'isnull' || name === 'coalesce') return expr.args.some(arg => isStringExpression(state, arg));
+      return STRING_FUNCTIONS.has(name);
+    }
+    case 'Cast':
+      return STRING_TYPES.has(valueType(state, expr.dataType).name);
+    case 'Binary':
+      return expr.operator === '+' && (isStringExpression(state, expr.left) || isStringExpression(state, expr.right));
+    case 'Paren':
+      return isStringExpression(state, expr.expression);
+    case 'Case':
+      return expr.whens.some(when => isStringExpression(state, when.then)) || (!!expr.else && isStringExpression(state, expr.else));
+    default:
+      return false;
+  }
+};
+
+// Sybase print/raiserror messages use %1!, %2! placeholders filled from the argument list
+const formatMessage = (state: ConverterState, message: Expression, args: Expression[]): string => {
+  if (message.kind !== 'Literal' || message.literalType !== 'string' || args.length === 0) {
+    return emitExpression(state, message);
+  }
+  const pieces = message.value.split(/%(\d+)!/);
+  const parts: string[] = [];
+  pieces.forEach((piece, index) => {
+    if (index % 2 === 0) {
+      if (piece) parts.push(quoteString(piece));
+    } else {
+      const arg = args[Number(piece) - 1];
+      parts.push(arg ? emitExpression(state, arg) : 'NULL');
+    }
+  });
+  return parts.length ? parts.join(' || ') : "''";
+};
+
+const emitConvert = (state: ConverterState, expr: FunctionCallExpression): string => {
+  const spec = expr.dataType!;
+  const value = expr.args[0] ? emitExpression(state, expr.args[0]) : 'NULL';
+  const style = expr.args[1]?.kind === 'Literal' ? expr.args[1].value : undefined;
+  const mask = style !== undefined ? CONVERT_STYLES[style] : undefined;
+  recordFunctionCall(state, expr, 'convert', style === undefined || !!mask);
+  if (style !== undefined && !mask) {
+    addIssueOnce(state, `style:${style}`, expr, 'warning', `convert() style ${style} has no Oracle format mask equivalent.`,
+      'Supply an explicit TO_CHAR/TO_DATE format mask.');
+  }
+  if (STRING_TYPES.has(valueType(state, spec).name)) {
+    return mask ? `TO_CHAR(${value}, '${mask}')` : `TO_CHAR(${value})`;
+  }
+  if (DATE_TYPES.has(valueType(state, spec).name)) {
+    if (expr.args[0] && isStringExpression(state, expr.args[0])) {
+      if (mask) return `TO_DATE(${value}, '${mask}')`;
+      return emitDateLiteral(state, expr.args[0]) ?? `TO_DATE(${value})`;
+    }
+    return `CAST(${value} AS ${convertDataType(state, spec, expr)})`;
+  }
+  if (expr.args[0] && isStringExpression(state, expr.args[0]) && oracleDataType(spec, state.typeMappings, state.schema)?.startsWith('NUMBER')) {
+    return `TO_NUMBER(${value})`;
+  }
+  return `CAST(${value} AS ${convertDataType(state, spec, expr)})`;
+};
+
+// A string literal used as a date, read with an explicit format mask when its format is known
+const emitDateLiteral = (state: ConverterState, expr: Expression): string | undefined => {
+  if (expr.kind !== 'Literal' || expr.literalType !== 'string') return undefined;
+  const mask = dateLiteralMask(expr.value);
+  if (mask) return `TO_DATE(${quoteString(expr.value)}, '${mask}')`;
+  addIssueOnce(state, `date-literal:${expr.value}`, expr, 'warning', `The date '${expr.value}' is read with the session's NLS_DATE_FORMAT.`,
+    "Write the date as 'YYYY-MM-DD' or give TO_DATE a format mask.");
+  return `TO_DATE(${quoteString(expr.value)})`;
+};
+
+const emitFunctionCall = (state: ConverterState, expr: FunctionCallExpression): string => {
+  const name = expr.name.toLowerCase();
+  if (name === 'convert' && expr.dataType) return emitConvert(state, expr);
+  if (isIdentityReference(expr)) return emitIdentityReference(state, expr);
+  if (name === 'update' && state.scope?.trigger) return emitColumnUpdated(state, expr);
+  if (expr.star) {
+    recordFunctionCall(state, expr, name, true);
+    return `${expr.name.toUpperCase()}(*)`;
+  }
+  // Arguments after the date part are dates, except for the number dateadd adds
+  const isDate = (index: number) => !!FUNCTION_CATALOG[name]?.dateParts && index > 0 && !(name === 'dateadd' && index === 1);
+  const args = expr.args.map((arg, index) => (isDate(index) && emitDateLiteral(state, arg)) || emitExpression(state, arg));
+  // User-defined functions are called with their owner, e.g. dbo.order_total(@id)
+  if (name.includes('.')) return `${formatObjectName(state, expr.name.split('.'))}(${args.join(', ')})`;
+  const distinct = expr.distinct ? 'DISTINCT ' : '';
+  const mapped = mapFunctionCall(name, args, distinct);
+  recordFunctionCall(state, expr, name, mapped !== undefined);
+  if (mapped !== undefined) return mapped;
+  if (FUNCTION_CATALOG[name]) {
+    addIssueOnce(state, `function:${name}`, expr, 'warning', `${expr.name}() could not be converted with these arguments.`);
+  } else {
+    addIssueOnce(state, `function:${name}`, expr, 'info', `${expr.name}() is not in the function catalog and was kept as written.`,
+      'Check that Oracle has a function of this name, or convert the call manually.');
+  }
+  return `${expr.name.toUpperCase()}(${distinct}${args.join(', ')})`;
+};
+
+// Calls of Sybase built-ins, for the migration's function coverage report
+const recordFunctionCall = (state: ConverterState, node: NodeBase, name: string, mapped: boolean) => {
+  // Some expressions are emitted more than once
+  if (state.recordedCalls.has(node)) return;
+  state.recordedCalls.add(node);
+  const usage = state.functionCalls.get(name) || { name, calls: 0, mapped: 0 };
+  usage.calls += 1;
+  if (mapped) usage.mapped += 1;
+  state.functionCalls.set(name, usage);
+};
+
+// Cursor attribute used in place of @@sqlstatus / @@fetch_status comparisons
+const currentCursor = (state: ConverterState, node: NodeBase): string => {
+  const cursor = state.scope?.lastFetchedCursor || state.scope?.cursors[0];
+  if (!cursor) {
+    addIssue(state, node, 'warning', 'Fetch status is checked without a cursor in scope.', 'Use the %FOUND/%NOTFOUND attribute of the fetched cursor.');
+    return 'c_unknown';
+  }
+  return cursor;
+};
+
+// Fetch status after the last row: 2 for @@sqlstatus, -1 for @@fetch_status. The other
+// non-zero statuses report errors, which raise exceptions in Oracle instead.
+const FETCH_STATUS_VARIABLES: Record<string, number> = { '@@sqlstatus': 2, '@@fetch_status': -1 };
+
+// What a comparison of the fetch status tests: that a row was fetched, that the rows ran out,
+// or a fetch error, which never holds in Oracle, or its negation
+type FetchStatusTest = 'found' | 'notfound' | 'error' | 'no-error';
+
+const fetchStatusTest = (expr: Expression): FetchStatusTest | undefined => {
+  if (expr.kind === 'Paren') return fetchStatusTest(expr.expression);
+  if (expr.kind !== 'Binary' || !['=', '<>', '!='].includes(expr.operator)) return undefined;
+  const status = expr.left.kind === 'GlobalVariable' ? expr.left : expr.right.kind === 'GlobalVariable' ? expr.right : undefined;
+  const literal = status === expr.left ? expr.right : expr.left;
+  const end = status && FETCH_STATUS_VARIABLES[status.name.toLowerCase()];
+  const value = literal.kind === 'Literal' ? Number(literal.value)
+    : literal.kind === 'Unary' && literal.operator === '-' && literal.operand.kind === 'Literal' ? -Number(literal.operand.value)
+    : NaN;
+  if (end === undefined || Number.isNaN(value)) return undefined;
+  const equal = expr.operator === '=';
+  if (value === 0) return equal ? 'found' : 'notfound';
+  if (value === end) return equal ? 'notfound' : 'found';
+  return equal ? 'error' : 'no-error';
+};
+
+const emitFetchStatusComparison = (state: ConverterState, expr: Expression & { kind: 'Binary' }): string | undefined => {
+  const test = fetchStatusTest(expr);
+  if (!test) return undefined;
+  if (test === 'error' || test === 'no-error') {
+    addIssueOnce(state, 'fetch-error-status', expr, 'info', 'A failed FETCH raises an exception in Oracle, so the fetch status test for an error was replaced by a constant.',
+      'Handle fetch errors in an EXCEPTION section.', 'error-handling');
+    return test === 'error' ? '1 = 0' : '1 = 1';
+  }
+  return `${currentCursor(state, expr)}%${test === 'found' ? 'FOUND' : 'NOTFOUND'}`;
+};
+
+const GLOBAL_VARIABLES: Record<string, string> = {
+  '@@rowcount': 'SQL%ROWCOUNT',
+  '@@error': 'SQLCODE',
+  '@@spid': "SYS_CONTEXT('USERENV', 'SID')",
+  '@@servername': "SYS_CONTEXT('USERENV', 'SERVER_HOST')",
+  '@@nestlevel': '0',
+};
+
+const emitGlobalVariable = (state: ConverterState, expr: Expression & { kind: 'GlobalVariable' }): string => {
+  const name = expr.name.toLowerCase();
+  if (isIdentityReference(expr)) return emitIdentityReference(state, expr);
+  if (name === '@@error' && !state.scope?.inErrorHandler) {
+    addIssueOnce(state, name, expr, 'warning', '@@error was mapped to SQLCODE; Oracle raises exceptions instead of setting an error code.',
+      'Move the error handling into an EXCEPTION section.', 'error-handling');
+  }
+  if (name === '@@trancount') {
+    addIssueOnce(state, name, expr, 'warning', 'Oracle transactions do not nest; @@trancount was mapped to 1 while a transaction is open and 0 otherwise.',
+      'Check the logic that depends on the nesting level.', 'transaction');
+    return 'CASE WHEN DBMS_TRANSACTION.LOCAL_TRANSACTION_ID IS NULL THEN 0 ELSE 1 END';
+  }
+  if (name === '@@rowcount' && state.scope?.triggerRows) return state.scope.triggerRows;
+  if (FETCH_STATUS_VARIABLES[name] !== undefined) {
+    return `CASE WHEN ${currentCursor(state, expr)}%FOUND THEN 0 ELSE ${FETCH_STATUS_VARIABLES[name]} END`;
+  }
+  const mapped = GLOBAL_VARIABLES[name];
+  if (mapped) return mapped;
+  addIssueOnce(state, name, expr, 'warning', `Global variable ${expr.name} has no Oracle equivalent.`);
+  return `NULL /* ${expr.name} */`;
+};
+
+// ---- Identity values ----
+
+const isIdentityReference = (expr: Expression): boolean =>
+  (expr.kind === 'GlobalVariable' && expr.name.toLowerCase() === '@@identity') ||
+  (expr.kind === 'FunctionCall' && expr.name.toLowerCase() === 'scope_identity' && expr.args.length === 0);
+
+// Holds the identity value for @@identity references that do not directly follow their INSERT
+const IDENTITY_VARIABLE = 'v_last_identity';
+
+// The variable the latest INSERT returned its identity value into
+const emitIdentityReference = (state: ConverterState, expr: Expression): string => {
+  if (state.scope?.lastIdentity) return state.scope.lastIdentity;
+  addIssueOnce(state, 'identity', expr, 'warning',
+    '@@identity is read without a preceding single-row INSERT into a table with a known identity column.',
+    'Add RETURNING <identity column> INTO <variable> to the INSERT that generates the value.');
+  return 'NULL /* @@identity */';
+};
+
+const COMPARISON_MAP: Record<string, string> = { '!=': '<>', '!<': '>=', '!>': '<=' };
+
+const isEmptyString = (expr: Expression): boolean => expr.kind === 'Literal' && expr.literalType === 'string' && expr.value === '';
+
+const emitBinary = (state: ConverterState, expr: Expression & { kind: 'Binary' }): string => {
+  const fetchStatus = emitFetchStatusComparison(state, expr);
+  if (fetchStatus) return fetchStatus;
+
+  const operator = expr.operator.toLowerCase();
+  // With ansinull off Sybase treats "= null" as a null test
+  if (['=', '!=', '<>'].includes(operator) && expr.right.kind === 'Literal' && expr.right.literalType === 'null') {
+    return `${emitExpression(state, expr.left)} IS ${operator === '=' ? '' : 'NOT '}NULL`;
+  }
+  // Oracle stores '' as NULL, so a comparison with '' is never true
+  if (['=', '!=', '<>'].includes(operator) && (isEmptyString(expr.left) || isEmptyString(expr.right))) {
+    let tested = isEmptyString(expr.right) ? expr.left : expr.right;
+    // isnull(x, '') = '' holds exactly when x is NULL or empty, which Oracle does not tell apart
+    if (tested.kind === 'FunctionCall' && ['isnull', 'coalesce'].includes(tested.name.toLowerCase())
+      && tested.args.length === 2 && isEmptyString(tested.args[1])) {
+      recordFunctionCall(state, tested, tested.name.toLowerCase(), true);
+      tested = tested.args[0];
+    } else if (operator === '=') {
+      addIssueOnce(state, 'empty-string', expr, 'info', "Oracle stores '' as NULL, so the comparison with '' became an IS NULL test, which NULL values now pass as well.");
+    }
+    return `${emitExpression(state, tested)} IS ${operator === '=' ? '' : 'NOT '}NULL`;
+  }
+  const left = emitExpression(state, expr.left);
+  const right = emitExpression(state, expr.right);
+  switch (operator) {
+    case 'and':
+    case 'or':
+      return `${left} ${operator.toUpperCase()} ${right}`;
+    case '+':
+      return isStringExpression(state, expr) ? `${left} || ${right}` : `${left} + ${right}`;
+    case '%':
+      return `MOD(${left}, ${right})`;
+    case '&':
+      return `BITAND(${left}, ${right})`;
+    case '*=':
+      return `${left} = ${right}(+)`;
+    case '=*':
+      return `${left}(+) = ${right}`;
+    case '|':
+    case '^':
+      addIssueOnce(state, `operator:${operator}`, expr, 'warning', `Bitwise operator '${operator}' has no direct Oracle equivalent.`,
+        'Rewrite using BITAND arithmetic.');
+      return `${left} ${operator} ${right}`;
+    default:
+      return `${left} ${COMPARISON_MAP[operator] || operator} ${right}`;
+  }
+};
+
+const emitExpression = (state: ConverterState, expr: Expression): string => {
+  const rewritten = state.rewrites.get(expr);
+  if (rewritten !== undefined) return rewritten;
+  switch (expr.kind) {
+    case 'Literal':
+      if (expr.literalType === 'string') return quoteString(expr.value);
+      if (expr.literalType === 'binary') return `HEXTORAW('${expr.value.slice(2)}')`;
+      if (expr.literalType === 'null') return 'NULL';
+      return expr.value;
+    case 'Variable':
+      return variableName(state, expr.name);
+    case 'GlobalVariable':
+      return emitGlobalVariable(state, expr);
+    case 'Column':
+      return emitColumn(state, expr.parts);
+    case 'Star':
+      return expr.qualifier.length ? `${formatColumnName(state, expr.qualifier)}.*` : '*';
+    case 'FunctionCall':
+      return emitFunctionCall(state, expr);
+    case 'Cast':
+      recordFunctionCall(state, expr, 'cast', true);
+      return `CAST(${emitExpression(state, expr.expression)} AS ${convertDataType(state, expr.dataType, expr)})`;
+    case 'Binary':
+      return emitBinary(state, expr);
+    case 'Unary':
+      if (expr.operator.toLowerCase() === 'not') {
+        const checked = state.scope?.existsChecks.get(expr.operand);
+        return checked ? `${checked} = 0` : `NOT ${emitExpression(state, expr.operand)}`;
+      }
+      if (expr.operator === '~') {
+        addIssueOnce(state, 'operator:~', expr, 'warning', "Bitwise operator '~' has no direct Oracle equivalent.");
+      }
+      return `${expr.operator}${emitExpression(state, expr.operand)}`;
+    case 'Between':
+      return `${emitExpression(state, expr.expression)} ${expr.not ? 'NOT ' : ''}BETWEEN ${emitExpression(state, expr.low)} AND ${emitExpression(state, expr.high)}`;
+    case 'In': {
+      const list = expr.subquery ? emitQueryInline(state, expr.subquery) : expr.list.map(item => emitExpression(state, item)).join(', ');
+      return `${emitExpression(state, expr.expression)} ${expr.not ? 'NOT ' : ''}IN (${list})`;
+    }
+    case 'Like': {
+      const escape = expr.escape ? ` ESCAPE ${emitExpression(state, expr.escape)}` : '';
+      return `${emitExpression(state, expr.expression)} ${expr.not ? 'NOT ' : ''}LIKE ${emitExpression(state, expr.pattern)}${escape}`;
+    }
+    case 'IsNull':
+      return `${emitExpression(state, expr.expression)} IS ${expr.not ? 'NOT ' : ''}NULL`;
+    case 'Exists': {
+      const checked = state.scope?.existsChecks.get(expr);
+      return checked ? `${checked} = 1` : `EXISTS (${emitQueryInline(state, expr.query)})`;
+    }
+    case 'Case': {
+      const operand = expr.operand ? ` ${emitExpression(state, expr.operand)}` : '';
+      const whens = expr.whens.map(when => ` WHEN ${emitExpression(state, when.when)} THEN ${emitExpression(state, when.then)}`).join('');
+      const otherwise = expr.else ? ` ELSE ${emitExpression(state, expr.else)}` : '';
+      return `CASE${operand}${whens}${otherwise} END`;
+    }
+    case 'Subquery':
+      return `(${emitQueryInline(state, expr.query)})`;
+    case 'Paren':
+      return `(${emitExpression(state, expr.expression)})`;
+  }
+};
+
+// ---- Outer joins ----
+
+// The FROM list and WHERE condition of a query after its *= and =* predicates became ANSI joins
+interface JoinedSources {
+  from: TableSource[];
+  where?: Expression;
+}
+
+// The tables a Sybase outer join links: every row of the preserved table is kept, with NULLs for the
+// columns of the inner table where no row matches
+interface OuterJoin {
+  preserved: string;
+  inner: string;
+  on: Expression[];
+}
+
+const isOuterJoinPredicate = (expr: Expression): expr is Expression & { kind: 'Binary' } =>
+  expr.kind === 'Binary' && (expr.operator === '*=' || expr.operator === '=*');
+
+const conjuncts = (expr: Expression | undefined): Expression[] => {
+  if (!expr) return [];
+  if (expr.kind === 'Binary' && expr.operator.toLowerCase() === 'and') return [...conjuncts(expr.left), ...conjuncts(expr.right)];
+  return [expr];
+};
+
+const conjunction = (terms: Expression[]): Expression | undefined =>
+  terms.reduce<Expression | undefined>((left, right) => left
+    ? { kind: 'Binary', operator: 'and', left, right, start: left.start, end: right.end, line: left.line, endLine: right.endLine }
+    : right, undefined);
+
+// The sources whose columns a condition reads, or undefined if a column cannot be placed. Qualified
+// columns of other queries, such as those of a subquery, are not sources of this one.
+const referencedSources = (sources: ScopeSource[], expr: Expression): Set<string> | undefined => {
+  const found = new Set<string>();
+  let unknown = false;
+  visitAst(expr, node => {
+    if (node.kind !== 'Column') return;
+    const name = node.parts[node.parts.length - 1];
+    const qualifier = node.parts.length > 1 ? node.parts[node.parts.length - 2].toLowerCase() : undefined;
+    const matches = sources.filter(source => qualifier ? source.alias === qualifier : source.table && findColumn(source.table, name));
+    if (matches.length === 1) found.add(matches[0].alias);
+    else if (!qualifier || matches.length > 1) unknown = true;
+  });
+  return unknown ? undefined : found;
+};
+
+// *= and =* under an OR or NOT, which neither notation can express; those of subqueries belong to them
+const nestedOuterJoins = (where: Expression, terms: Expression[]): Expression[] => {
+  const subqueries = new Set<AstNode>();
+  const nested: Expression[] = [];
+  visitAst(where, (node, parent) => {
+    if (node.kind === 'Select' || (parent && subqueries.has(parent))) subqueries.add(node);
+    else if (isOuterJoinPredicate(node as Expression) && !terms.includes(node as Expression)) nested.push(node as Expression);
+  });
+  return nested;
+};
+
+const isNullTest = (expr: Expression): boolean =>
+  (expr.kind === 'IsNull' && !expr.not)
+  || (expr.kind === 'Binary' && expr.operator === '=' && expr.right.kind === 'Literal' && expr.right.literalType === 'null');
+
+// Sybase applies the other conditions on an inner table while joining, so they move into the ON
+// clause; in WHERE they would drop the preserved rows without a match. A query whose outer joins
+// cannot be rewritten keeps the (+) notation, which cannot be mixed with ANSI joins.
+const rewriteOuterJoins = (state: ConverterState, from: TableSource[], where: Expression | undefined): JoinedSources => {
+  const terms = conjuncts(where);
+  const predicates = terms.filter(isOuterJoinPredicate);
+  const nested = where ? nestedOuterJoins(where, terms) : [];
+  if (nested.length) {
+    addIssue(state, nested[0], 'error', 'An outer join under OR or NOT cannot be converted; Oracle rejects it in the (+) notation (ORA-01719).',
+      'Rewrite the query with a LEFT OUTER JOIN, or split it into a UNION.', 'outer-join');
+    return { from, where };
+  }
+  if (predicates.length === 0) return { from, where };
+  const keep = (node: NodeBase, reason: string): JoinedSources => {
+    addIssue(state, node, 'warning', `This outer join was kept in the (+) notation because ${reason}.`,
+      'Rewrite it as a LEFT OUTER JOIN and check which conditions belong in its ON clause.', 'outer-join');
+    return { from, where };
+  };
+
+  const sources = sourcesInScope(state, from);
+  const joins = new Map<string, OuterJoin>();
+  for (const predicate of predicates) {
+    const [left, right] = [referencedSources(sources, predicate.left), referencedSources(sources, predicate.right)];
+    if (!left || !right || left.size !== 1 || right.size !== 1) return keep(predicate, 'it does not compare the columns of two tables in the FROM clause');
+    const [leftTable, rightTable] = [[...left][0], [...right][0]];
+    if (leftTable === rightTable) return keep(predicate, `it compares ${leftTable} with itself`);
+    const [preserved, inner] = predicate.operator === '*=' ? [leftTable, rightTable] : [rightTable, leftTable];
+    const join = joins.get(inner) ?? { preserved, inner, on: [] };
+    if (join.preserved !== preserved) return keep(predicate, `${inner} is the inner table of outer joins with both ${join.preserved} and ${preserved}`);
+    join.on.push({ ...predicate, operator: '=' });
+    joins.set(inner, join);
+  }
+
+  const filters: Expression[] = [];
+  terms.forEach(term => {
+    if (isOuterJoinPredicate(term)) return;
+    const referenced = referencedSources(sources, term);
+    const inner = referenced && [...referenced].filter(alias => joins.has(alias));
+    if (!inner) {
+      addIssue(state, term, 'info', 'This condition next to an outer join reads columns that could not be matched to a table, so it was left in WHERE.',
+        'If it restricts the inner table of the outer join, move it into the ON clause.', 'outer-join');
+      filters.push(term);
+      return;
+    }
+    if (inner.length === 0) {
+      filters.push(term);
+      return;
+    }
+    const join = joins.get(inner[0])!;
+    if (inner.length > 1 || [...referenced!].some(alias => alias !== join.inner && alias !== join.preserved)) {
+      addIssue(state, term, 'warning',
+        `This condition reads ${inner.length > 1 ? `the inner tables ${inner.join(' and ')} of outer joins` : `the inner table ${inner[0]} of an outer join`} and other tables. It was left in WHERE, where it drops the rows without a match, as an inner join would.`,
+        'Check whether Sybase returned those rows, and move the condition into the ON clause if so.', 'outer-join');
+      filters.push(term);
+      return;
+    }
+    if (isNullTest(term)) {
+      addIssue(state, term, 'warning',
+        `This NULL test on the inner table ${join.inner} was moved into the ON clause, where Sybase applies it. It does not find the rows of ${join.preserved} without a match.`,
+        'If that is what it is meant to do, move it back to WHERE, or use NOT EXISTS.', 'outer-join');
+    } else if (referenced!.size === 1) {
+      addIssueOnce(state, `outer-join-filter:${join.inner}`, term, 'info',
+        `Conditions on the inner table ${join.inner} of an outer join were moved into its ON clause, so rows of ${join.preserved} without a match are still returned.`,
+        undefined, 'outer-join');
+    }
+    join.on.push(term);
+  });
+
+  // Joins to a preserved table that is itself the inner table of another join are added after that one
+  let trees = from.map(source => ({ source, aliases: sourceInScope(state, source).map(scoped => scoped.alias) }));
+  const pending = [...joins.values()];
+  while (pending.length) {
+    const index = pending.findIndex(join => !pending.some(other => other.inner === join.preserved));
+    if (index === -1) return keep(predicates[0], 'its tables join each other in a cycle');
+    const [join] = pending.splice(index, 1);
+    const preserved = trees.find(tree => tree.aliases.includes(join.preserved))!;
+    const inner = trees.find(tree => tree.aliases.includes(join.inner))!;
+    if (preserved === inner) return keep(join.on[0], `${join.inner} is already joined to ${join.preserved}`);
+    const innerFirst = trees.indexOf(inner) < trees.indexOf(preserved);
+    const source: TableSource = {
+      kind: 'Join',
+      joinType: innerFirst ? 'right' : 'left',
+      left: innerFirst ? inner.source : preserved.source,
+      right: innerFirst ? preserved.source : inner.source,
+      on: conjunction(join.on),
+      start: preserved.source.start,
+      end: preserved.source.end,
+      line: preserved.source.line,
+      endLine: preserved.source.endLine,
+    };
+    const merged = { source, aliases: [...preserved.aliases, ...inner.aliases] };
+    trees = trees.flatMap(tree => {
+      if (tree === (innerFirst ? inner : preserved)) return [merged];
+      return tree === preserved || tree === inner ? [] : [tree];
+    });
+  }
+  addIssueOnce(state, 'outer-join', predicates[0], 'info', 'Sybase outer joins (*= and =*) were rewritten as ANSI outer joins.', undefined, 'outer-join');
+  return { from: trees.map(tree => tree.source), where: conjunction(filters) };
+};
+
+// ---- Queries ----
+
+const emitTableSource = (state: ConverterState, source: TableSource): string => {
+  switch (source.kind) {
+    case 'TableRef': {
+      if (isPseudoTable(source) && (state.scope?.pseudoRows || state.scope?.pseudoTables)) return emitPseudoTable(state, source);
+      const alias = source.alias ? ` ${formatIdentifier(state, source.alias)}` : '';
+      if (source.hints.length > 0) {
+        addIssueOnce(state, 'hints', source, 'info', `Table hints (${source.hints.join(', ')}) were removed; Oracle uses optimizer hints and row-level locking instead.`);
+      }
+      return `${formatObjectName(state, source.name)}${alias}`;
+    }
+    case 'DerivedTable':
+      return `(${emitQueryInline(state, source.query)})${source.alias ? ` ${formatIdentifier(state, source.alias)}` : ''}`;
+    case 'Join': {
+      const joinType = {
+        inner: 'JOIN',
+        left: 'LEFT OUTER JOIN',
+        right: 'RIGHT OUTER JOIN',
+        full: 'FULL OUTER JOIN',
+        cross: 'CROSS JOIN',
+      }[source.joinType];
+      const on = source.on ? ` ON ${emitExpression(state, source.on)}` : '';
+      const right = emitTableSource(state, source.right);
+      return `${emitTableSource(state, source.left)} ${joinType} ${source.right.kind === 'Join' ? `(${right})` : right}${on}`;
+    }
+  }
+};
+
+const emitSelectItem = (state: ConverterState, item: SelectStatement['columns'][number]): string => {
+  const expression = emitExpression(state, item.expression);
+  return item.alias ? `${expression} AS ${formatIdentifier(state, item.alias)}` : expression;
+};
+
+// Emit a query as lines. "into" receives the PL/SQL variables of a SELECT ... INTO.
+const emitQuery = (state: ConverterState, query: SelectStatement, into: string[] = []): string[] => {
+  const lines: string[] = [];
+  let current = query;
+  let leave = enterPseudoRows(state, current.from);
+  for (;;) {
+    const columns = current.columns.map(item => emitSelectItem(state, item)).join(', ');
+    lines.push(`SELECT ${current.distinct ? 'DISTINCT ' : ''}${columns}`);
+    if (current === query && into.length) lines.push(`INTO ${into.join(', ')}`);
+    const rows = rowSources(state, current.from, current.where);
+    const { from, where } = rewriteOuterJoins(state, rows.from, rows.where);
+    lines.push(from.length ? `FROM ${from.map(source => emitTableSource(state, source)).join(', ')}` : 'FROM DUAL');
+    if (where) lines.push(`WHERE ${emitExpression(state, where)}`);
+    if (current.groupBy.length) lines.push(`GROUP BY ${current.groupBy.map(item => emitExpression(state, item)).join(', ')}`);
+    if (current.having) lines.push(`HAVING ${emitExpression(state, current.having)}`);
+    if (!current.union) break;
+    lines.push(current.union.all ? 'UNION ALL' : 'UNION');
+    current = current.union.query;
+    leave();
+    leave = enterPseudoRows(state, current.from);
+  }
+  // ORDER BY applies to the whole compound query; the parser keeps it on the last branch
+  const orderBy = current.orderBy.length ? current.orderBy : query.orderBy;
+  if (orderBy.length) {
+    lines.push(`ORDER BY ${orderBy.map(item => `${emitExpression(state, item.expression)}${item.direction ? ` ${item.direction.toUpperCase()}` : ''}`).join(', ')}`);
+  }
+  leave();
+  if (query.top) lines.push(`FETCH FIRST ${emitExpression(state, query.top)} ROWS ONLY`);
+  const forUpdate = query.forUpdate;
+  if (forUpdate) lines.push(`FOR UPDATE${forUpdate.columns.length ? ` OF ${forUpdate.columns.map(name => formatIdentifier(state, name)).join(', ')}` : ''}`);
+  return lines;
+};
+
+const emitQueryInline = (state: ConverterState, query: SelectStatement): string => emitQuery(state, query).join(' ');
+
+// Indent a multi-line statement and terminate it with a semicolon
+const block = (lines: string[], indent: string): string[] =>
+  lines.map((line, index) => `${indent}${index === 0 ? '' : INDENT}${line}${index === lines.length - 1 ? ';' : ''}`);
+
+// ---- Statements ----
+
+// "insert ...; select @id = @@identity" becomes a single INSERT ... RETURNING ... INTO @id,
+// and error checks and RAISERROR are rewritten together with the statements around them
+const emitStatements = (state: ConverterState, statements: Statement[], indent: string): string[] => {
+  const lines: string[] = [];
+  for (let index = 0; index < statements.length; index++) {
+    const statement = statements[index];
+    if (state.scope?.replacedStatements.has(statement)) continue;
+    // In a compound trigger, @@rowcount counts the triggering rows until the body runs a statement of its own
+    if (state.scope?.triggerRows && statements.slice(0, index).some(previous => ROW_COUNTING_KINDS.has(previous.kind))) {
+      state.scope.triggerRows = undefined;
+    }
+    const target = statement.kind === 'Insert' && canReturnIdentity(state, statement)
+      ? identityAssignment(state, statements[index + 1])
+      : undefined;
+    if (statement.kind === 'Insert' && target) {
+      state.scope!.identityReferences--;
+      lines.push(...emitInsert(state, statement, indent, target));
+      index++;
+      continue;
+    }
+    const guarded = emitErrorGuard(state, statement, statements[index + 1], indent);
+    if (guarded) {
+      lines.push(...guarded);
+      index++;
+      continue;
+    }
+    if (statement.kind === 'Raiserror') {
+      const [raised, used] = emitRaiserrorSequence(state, statements.slice(index), indent);
+      lines.push(...raised);
+      index += used - 1;
+      continue;
+    }
+    lines.push(...emitStatement(state, statement, indent));
+  }
+  return lines;
+};
+
+// A PL/SQL statement list may not be empty
+const emitBody = (state: ConverterState, statement: Statement, indent: string): string[] => {
+  const lines = emitStatement(state, statement, indent);
+  return lines.some(line => line.trim() && !line.trim().startsWith('--')) ? lines : [...lines, `${indent}NULL;`];
+};
+
+const usesVariables = (node: Statement): boolean => {
+  let found = false;
+  visitAst(node, child => {
+    if (child.kind === 'Variable') found = true;
+  });
+  return found;
+};
+
+const referencesColumns = (expr: Expression): boolean => {
+  let found = false;
+  visitAst(expr, child => {
+    if (child.kind === 'Column') found = true;
+  });
+  return found;
+};
+
+// ---- Temporary tables ----
+
+const noteSharedTempTable = (state: ConverterState, name: string, node: NodeBase) => {
+  if (!state.sharedTempTables.has(name)) return;
+  addIssueOnce(state, `shared:${name}`, node, 'info',
+    `${tempTableName(name)} is created by the shared ${TEMP_TABLES_FILE_NAME} script, which has to run before this file.`);
+};
+
+// Queue the global temporary table a SELECT ... INTO #x fills, unless it already exists.
+// query is the converted SELECT without its INTO.
+const defineTempTable = (state: ConverterState, select: SelectStatement, query: string[]) => {
+  const name = baseName(select.into!);
+  const target = formatObjectName(state, select.into!);
+  noteSharedTempTable(state, name, select);
+  if (state.tempTables.has(name)) return;
+  state.tempTables.add(name);
+  const definitions = selectedColumnDefinitions(state, select);
+  if (definitions) {
+    state.preamble.push(
+      `CREATE GLOBAL TEMPORARY TABLE ${target} (`,
+      definitions.map(line => `${INDENT}${line}`).join(',\n'),
+      ') ON COMMIT PRESERVE ROWS;',
+      ''
+    );
+    return;
+  }
+  // The table shape is taken from the query itself; the rows are inserted where the SELECT INTO was
+  state.preamble.push(
+    `CREATE GLOBAL TEMPORARY TABLE ${target} ON COMMIT PRESERVE ROWS AS`,
+    `SELECT * FROM (${query.join(' ')}) WHERE 1 = 0;`,
+    ''
+  );
+  if (usesVariables(select)) {
+    addIssue(state, select, 'warning', `The definition of ${target} was derived from a query that uses variables.`,
+      `Replace the variables in the CREATE GLOBAL TEMPORARY TABLE ${target} statement with literal values of the same type.`);
+  }
+};
+
+const emitSelectStatement = (state: ConverterState, select: SelectStatement, indent: string): string[] => {
+  const assignments = select.columns.filter(item => item.assignTo);
+  if (assignments.length > 0) {
+    const targets = assignments.map(item => variableName(state, item.assignTo!));
+    // "select @a = 1, @b = @c" without a table is just a series of assignments
+    if (select.from.length === 0 && !select.where) {
+      return assignments.map((item, index) => `${indent}${targets[index]} := ${emitExpression(state, item.expression)};`);
+    }
+    addIssueOnce(state, 'select-into', select, 'info',
+      'SELECT ... INTO raises NO_DATA_FOUND or TOO_MANY_ROWS where Sybase would leave the variables unchanged.',
+      'Add an exception handler if the query can return zero or several rows.', 'error-handling');
+    return block(emitQuery(state, select, targets), indent);
+  }
+
+  if (select.into) {
+    const target = formatObjectName(state, select.into);
+    const query = emitQuery(state, { ...select, into: undefined });
+    if (isTempTable(select.into)) {
+      defineTempTable(state, select, query);
+      // SELECT INTO always starts a new table; the global one may still hold rows from an earlier call
+      const clear = state.scope ? [`${indent}DELETE FROM ${target};`] : [];
+      return [...clear, ...block([`INSERT INTO ${target}`, ...query], indent)];
+    }
+    if (state.scope) {
+      addIssue(state, select, 'warning', `SELECT INTO ${target} creates a table inside a procedure, which requires dynamic SQL in Oracle.`,
+        `Create ${target} ahead of time and use INSERT INTO ... SELECT.`);
+      return block([`INSERT INTO ${target}`, ...query], indent);
+    }
+    return block([`CREATE TABLE ${target} AS`, ...query], indent);
+  }
+
+  const cursor = state.scope?.resultCursors?.get(select);
+  if (cursor) {
+    const lines = block([`OPEN ${cursor} FOR`, ...emitQuery(state, select)], indent);
+    return state.resultSetStyle === 'implicit' ? [...lines, `${indent}DBMS_SQL.RETURN_RESULT(${cursor});`] : lines;
+  }
+  if (state.scope) {
+    addIssueOnce(state, 'result-set', select, 'warning',
+      'A SELECT that returns a result set is not valid inside PL/SQL.',
+      'Return the rows through an OUT SYS_REFCURSOR parameter.');
+  }
+  return block(emitQuery(state, select), indent);
+};
+
+const identityColumn = (state: ConverterState, table: string[]): SchemaColumn | undefined =>
+  findTable(state.schema, table)?.columns.find(column => column.identity);
+
+// RETURNING ... INTO only works for an INSERT of a single VALUES row
+const canReturnIdentity = (state: ConverterState, insert: InsertStatement): boolean =>
+  !!state.scope && insert.values.length === 1 && !!identityColumn(state, insert.table);
+
+// The variable a statement such as "select @id = @@identity" or "set @id = scope_identity()" assigns
+const identityAssignment = (state: ConverterState, statement: Statement | undefined): string | undefined => {
+  if (statement?.kind === 'Set' && statement.variable && statement.value && isIdentityReference(statement.value)) {
+    return variableName(state, statement.variable);
+  }
+  if (statement?.kind === 'Select' && statement.columns.length === 1 && statement.from.length === 0 && !statement.where) {
+    const item = statement.columns[0];
+    if (item.assignTo && isIdentityReference(item.expression)) return variableName(state, item.assignTo);
+  }
+  return undefined;
+};
+
+// Keeps the new identity value when the unit reads @@identity later on
+const identityReturning = (state: ConverterState, insert: InsertStatement, target?: string): string[] => {
+  const scope = state.scope;
+  if (!scope || (!target && scope.identityReferences === 0)) return [];
+  const column = identityColumn(state, insert.table);
+  if (!column) return [];
+  if (insert.values.length !== 1) {
+    scope.lastIdentity = undefined;
+    addIssue(state, insert, 'warning', 'RETURNING ... INTO only works for a single-row INSERT, so @@identity after this INSERT was not converted.',
+      'Query the inserted rows for their identity values instead.');
+    return [];
+  }
+  let into = target;
+  if (!into) {
+    into = IDENTITY_VARIABLE;
+    if (!scope.declared.has('@@identity')) {
+      scope.declared.add('@@identity');
+      scope.declarations.push(`${IDENTITY_VARIABLE} ${convertDataType(state, column.dataType, insert)};`);
+    }
+  }
+  scope.lastIdentity = into;
+  return [`RETURNING ${formatIdentifier(state, column.name)} INTO ${into}`];
+};
+
+const emitInsert = (state: ConverterState, insert: InsertStatement, indent: string, identityTarget?: string): string[] => {
+  const columns = insert.columns.length ? ` (${insert.columns.map(name => formatIdentifier(state, name)).join(', ')})` : '';
+  const head = `INSERT INTO ${formatObjectName(state, insert.table)}${columns}`;
+  if (insert.query) {
+    identityReturning(state, insert);
+    return block([head, ...emitQuery(state, insert.query)], indent);
+  }
+  if (insert.exec) {
+    addIssue(state, insert, 'error', 'INSERT ... EXEC has no Oracle equivalent.',
+      'Have the procedure return a SYS_REFCURSOR and insert its rows in a loop.');
+    return [`${indent}-- ${head} EXEC ${formatObjectName(state, insert.exec.procedure)}`];
+  }
+  // Oracle only accepts a single VALUES row per INSERT
+  const rows = insert.values.map(row => `VALUES (${row.map(value => emitExpression(state, value)).join(', ')})`);
+  const returning = identityReturning(state, insert, identityTarget);
+  return rows.flatMap(row => block([head, row, ...returning], indent));
+};
+
+// Alias under which the updated/deleted table is known in a Sybase FROM clause. Sybase may name
+// the target by its alias, as in "update o set ... from orders o", so the table is that of the match.
+const targetAlias = (table: string[], from: TableSource[]): { table: string[]; alias?: string; others: TableSource[]; found: boolean } => {
+  const target = baseName(table);
+  const matches = (source: TableSource) =>
+    source.kind === 'TableRef' &&
+    (baseName(source.name) === target || (!!source.alias && source.alias.toLowerCase() === target));
+  const match = from.find(matches);
+  if (!match || match.kind !== 'TableRef') return { table, others: from, found: false };
+  return { table: match.name, alias: match.alias, others: from.filter(source => source !== match), found: true };
+};
+
+// The table a statement changes
+const changedTable = (statement: InsertStatement | UpdateStatement | DeleteStatement | TruncateStatement): string[] =>
+  statement.kind === 'Update' || statement.kind === 'Delete' ? targetAlias(statement.table, statement.from).table : statement.table;
+
+// In the correlated subqueries, a source with a column of the same name, such as the global
+// temporary table copying the rows of a trigger, would capture the unqualified columns of the
+// updated table; they are qualified with its alias or name
+const qualifyTargetColumns = (state: ConverterState, target: string[], alias: string | undefined, expressions: (Expression | undefined)[]) => {
+  const table = findTable(state.schema, target);
+  if (!table) return;
+  const qualifier = alias ? formatIdentifier(state, alias) : formatObjectName(state, target);
+  const walk = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+      return;
+    }
+    if (!value || typeof value !== 'object') return;
+    const node = value as AstNode;
+    // A subquery resolves the columns against its own sources first
+    if (node.kind === 'Select') return;
+    if (node.kind === 'Column' && node.parts.length === 1 && findColumn(table, node.parts[0])) {
+      state.rewrites.set(node, `${qualifier}.${formatIdentifier(state, node.parts[0])}`);
+      return;
+    }
+    Object.values(value).forEach(walk);
+  };
+  expressions.forEach(walk);
+};
+
+// Sybase "update t set ... from t, other where ..." becomes correlated subqueries. Sybase updates
+// a row once even if several rows of the other tables match it, so each subquery takes the first.
+const emitUpdate = (state: ConverterState, update: UpdateStatement, indent: string): string[] => {
+  const { table: target, alias, others: sources } = targetAlias(update.table, update.from);
+  const leave = enterPseudoRows(state, update.from, true);
+  const rows = rowSources(state, sources, update.where);
+  const { from: others, where: condition } = rewriteOuterJoins(state, rows.from, rows.where);
+  const table = `${formatObjectName(state, target)}${alias ? ` ${formatIdentifier(state, alias)}` : ''}`;
+  const lines = [`UPDATE ${table}`];
+  const otherSources = others.map(source => emitTableSource(state, source)).join(', ');
+  if (others.length > 0) qualifyTargetColumns(state, target, alias, [condition, ...update.set.map(assignment => assignment.value)]);
+  const where = condition ? emitExpression(state, condition) : undefined;
+  const firstRow = where
+    ? `WHERE ${condition!.kind === 'Binary' && condition!.operator.toLowerCase() === 'or' ? `(${where})` : where} AND ROWNUM = 1`
+    : 'WHERE ROWNUM = 1';
+
+  const assignments = update.set.map((assignment, index) => {
+    const target = formatColumnName(state, assignment.target.slice(-1));
+    const value = emitExpression(state, assignment.value);
+    if (assignment.variable) {
+      addIssue(state, update, 'warning', `Assigning ${assignment.variable} inside an UPDATE is not supported in Oracle.`,
+        'Use the RETURNING INTO clause or a separate SELECT.');
+    }
+    const separator = index < update.set.length - 1 ? ',' : '';
+    const prefix = index === 0 ? 'SET ' : INDENT;
+    if (others.length === 0 || !referencesColumns(assignment.value)) return `${prefix}${target} = ${value}${separator}`;
+    return `${prefix}${target} = (SELECT ${value} FROM ${otherSources} ${firstRow})${separator}`;
+  });
+  lines.push(...assignments);
+
+  if (update.currentOf) {
+    lines.push(`WHERE CURRENT OF ${formatIdentifier(state, update.currentOf)}`);
+  } else if (others.length > 0) {
+    lines.push(`WHERE EXISTS (SELECT 1 FROM ${otherSources}${where ? ` WHERE ${where}` : ''})`);
+    addIssueOnce(state, 'update-from', update, 'info', 'UPDATE ... FROM was rewritten with correlated subqueries, which take the first matching row as Sybase does.',
+      'Consider a MERGE statement if the joined tables are large.');
+  } else if (where) {
+    lines.push(`WHERE ${where}`);
+  }
+  leave();
+  return block(lines, indent);
+};
+
+const emitDelete = (state: ConverterState, statement: DeleteStatement, indent: string): string[] => {
+  const { table, alias, others: sources } = targetAlias(statement.table, statement.from);
+  const leave = enterPseudoRows(state, statement.from, true);
+  const rows = rowSources(state, sources, statement.where);
+  const { from: others, where: condition } = rewriteOuterJoins(state, rows.from, rows.where);
+  const lines = [`DELETE FROM ${formatObjectName(state, table)}${alias ? ` ${formatIdentifier(state, alias)}` : ''}`];
+  const where = condition ? emitExpression(state, condition) : undefined;
+  if (statement.currentOf) {
+    lines.push(`WHERE CURRENT OF ${formatIdentifier(state, statement.currentOf)}`);
+  } else if (others.length > 0) {
+    const sources = others.map(source => emitTableSource(state, source)).join(', ');
+    lines.push(`WHERE EXISTS (SELECT 1 FROM ${sources}${where ? ` WHERE ${where}` : ''})`);
+  } else if (where) {
+    lines.push(`WHERE ${where}`);
+  }
+  leave();
+  return block(lines, indent);
+};
+
+// ---- EXISTS in procedural code ----
+
+// PL/SQL only allows EXISTS inside a SQL statement (PLS-00204), so each EXISTS of an IF, WHILE or
+// assignment is first selected into a local, and the condition tests the local instead
+const EXISTS_VARIABLE = 'v_exists';
+
+// The EXISTS tests of an expression outside of its subqueries, which are SQL and keep theirs
+const proceduralExists = (expr: Expression): Expression[] => {
+  const found: Expression[] = [];
+  const walk = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+      return;
+    }
+    if (!value || typeof value !== 'object') return;
+    const node = value as AstNode;
+    if (node.kind === 'Exists') {
+      found.push(node);
+      return;
+    }
+    if (node.kind === 'Select') return;
+    Object.values(value).forEach(walk);
+  };
+  walk(expr);
+  return found;
+};
+
+// SELECT ... INTO statements that evaluate the EXISTS tests of the expressions, which are then
+// emitted as tests of their variables. The variables are reused by the next statement.
+const emitExistsChecks = (state: ConverterState, expressions: (Expression | undefined)[], indent: string): string[] => {
+  const scope = state.scope;
+  if (!scope) return [];
+  const tests = expressions.flatMap(expr => expr ? proceduralExists(expr) : []);
+  return tests.map((test, index) => {
+    const variable = index === 0 ? EXISTS_VARIABLE : `${EXISTS_VARIABLE}_${index + 1}`;
+    if (index >= scope.existsVariables) {
+      scope.declarations.push(`${variable} PLS_INTEGER;`);
+      scope.existsVariables = index + 1;
+    }
+    scope.existsChecks.set(test, variable);
+    const query = emitQueryInline(state, (test as Expression & { kind: 'Exists' }).query);
+    return `${indent}SELECT CASE WHEN EXISTS (${query}) THEN 1 ELSE 0 END INTO ${variable} FROM DUAL;`;
+  });
+};
+
+// A COMMIT or ROLLBACK in a branch, typically an error branch that returns, does not change
+// the transaction nesting of the statements after the IF
+const emitIf = (state: ConverterState, statement: IfStatement, indent: string): string[] => {
+  const depth = state.scope?.transactionDepth;
+  // The ELSIF conditions are evaluated up front; a query has no side effects to order
+  const conditions: Expression[] = [];
+  for (let branch: Statement | undefined = statement; branch?.kind === 'If'; branch = branch.else) conditions.push(branch.condition);
+  const lines = emitExistsChecks(state, conditions, indent);
+  lines.push(`${indent}IF ${emitExpression(state, statement.condition)} THEN`);
+  lines.push(...emitBody(state, statement.then, indent + INDENT));
+  let otherwise = statement.else;
+  while (otherwise && otherwise.kind === 'If') {
+    lines.push(`${indent}ELSIF ${emitExpression(state, otherwise.condition)} THEN`);
+    lines.push(...emitBody(state, otherwise.then, indent + INDENT));
+    otherwise = otherwise.else;
+  }
+  if (otherwise) {
+    lines.push(`${indent}ELSE`);
+    lines.push(...emitBody(state, otherwise, indent + INDENT));
+  }
+  lines.push(`${indent}END IF;`);
+  if (state.scope) state.scope.transactionDepth = depth!;
+  return lines;
+};
+
+// Sybase user errors start at 20000, Oracle application errors live in -20000..-20999
+const applicationErrorNumber = (state: ConverterState, statement: RaiserrorStatement): string => {
+  const errorNumber = statement.errorNumber;
+  if (!errorNumber) return '-20000';
+  if (errorNumber.kind === 'Literal' && errorNumber.literalType === 'number') {
+    const value = Number(errorNumber.value);
+    if (value >= 20000 && value <= 20999) return `-${value}`;
+    addIssue(state, statement, 'info', `Error number ${value} is outside the Oracle application error range and was mapped to -20000.`,
+      undefined, 'error-handling');
+    return '-20000';
+  }
+  return `-(${emitExpression(state, errorNumber)})`;
+};
+
+const emitRaiserror = (state: ConverterState, statement: RaiserrorStatement, indent: string): string[] => {
+  let message: string;
+  if (statement.message) {
+    message = formatMessage(state, statement.message, statement.args);
+  } else {
+    addIssue(state, statement, 'warning', 'RAISERROR without a message relies on sysusermessages, which does not exist in Oracle.',
+      'Supply the message text explicitly.', 'error-handling');
+    message = `'Error ' || ${applicationErrorNumber(state, statement).replace(/^-/, '')}`;
+  }
+  return [`${indent}RAISE_APPLICATION_ERROR(${applicationErrorNumber(state, statement)}, ${message});`];
+};
+
+const emitExec = (state: ConverterState, exec: ExecStatement, indent: string): string[] => {
+  const dynamic = dynamicStatement(exec);
+  if (dynamic) return emitDynamicSql(state, exec, dynamic, indent);
+  const userType = userTypeDefinition(exec);
+  if (userType) {
+    const spec = { name: userType.name.toLowerCase(), args: [], text: userType.name };
+    const oracle = oracleDataType(spec, state.typeMappings, state.schema) ?? oracleDataType(userType.dataType, state.typeMappings);
+    addIssue(state, exec, 'info', `Oracle has no user-defined scalar types; columns and variables of type ${userType.name} are declared as ${oracle ?? userType.dataType.text}.`);
+    return [`${indent}-- sp_addtype ${userType.name}, '${userType.dataType.text}': declared as ${oracle ?? userType.dataType.text} where used`];
+  }
+  if (objectBinding(exec)) return emitBinding(state, exec, indent);
+  const name = baseName(exec.procedure);
+  if (name.startsWith('sp_')) {
+    addIssue(state, exec, 'warning', `System procedure ${name} has no Oracle equivalent and was commented out.`);
+    return [`${indent}-- EXEC ${state.source.slice(exec.start, exec.end).replace(/^\s*exec(ute)?\s+/i, '').split('\n')[0]}`];
+  }
+  const args = exec.args.map(arg => {
+    const value = emitExpression(state, arg.value);
+    return arg.name ? `${formatIdentifier(state, arg.name, state.naming.parameterPrefix)} => ${value}` : value;
+  });
+  const call = `${formatObjectName(state, exec.procedure)}${args.length ? `(${args.join(', ')})` : ''};`;
+  if (exec.returnVariable) {
+    addIssue(state, exec, 'warning', 'Procedure return status values do not exist in Oracle; the status variable is set to 0.',
+      'Convert the called procedure to a function or add an OUT parameter for the status.');
+    return [`${indent}${call}`, `${indent}${variableName(state, exec.returnVariable)} := 0;`];
+  }
+  return [`${indent}${call}`];
+};
+
+// "if exists (select ... from sysobjects ...) drop ..." guards are obsolete with CREATE OR REPLACE
+const isDropGuard = (state: ConverterState, statement: Statement): boolean => {
+  if (statement.kind !== 'If' || statement.else) return false;
+  const condition = state.source.slice(statement.condition.start, statement.condition.end).toLowerCase();
+  if (!/sysobjects|object_id\s*\(/.test(condition)) return false;
+  const body = statement.then.kind === 'Block' ? statement.then.statements : [statement.then];
+  return body.length > 0 && body.every(item => item.kind === 'Drop' || item.kind === 'Print');
+};
+
+const emitDrop = (state: ConverterState, statement: Statement & { kind: 'Drop' }, indent: string): string[] => {
+  if (statement.names.some(parts => !isTempTable(parts))) noteDdlInTransaction(state, statement, `DROP ${statement.objectType.toUpperCase()}`);
+  return statement.names.flatMap(parts => {
+    const objectType = statement.objectType.toUpperCase();
+    // Sybase names indexes as table.index
+    const name = statement.objectType === 'index' ? formatIdentifier(state, parts[parts.length - 1]) : formatObjectName(state, parts);
+    if (isTempTable(parts)) return [`${indent}DELETE FROM ${name};`];
+    if (statement.objectType === 'default' || statement.objectType === 'rule') {
+      return [`${indent}-- DROP ${objectType} ${name}: converted to column ${statement.objectType === 'default' ? 'defaults' : 'CHECK constraints'}`];
+    }
+    if (state.scope) return [`${indent}EXECUTE IMMEDIATE 'DROP ${objectType} ${name}';`];
+    return [`${indent}DROP ${objectType} ${name};`];
+  });
+};
+
+// ---- Schema objects ----
+
+// DDL inside a program unit runs through EXECUTE IMMEDIATE
+const emitDdl = (state: ConverterState, statement: Statement, ddl: string, text: string, indent: string): string[] => {
+  noteDdlInTransaction(state, statement, ddl);
+  return [state.scope ? `${indent}EXECUTE IMMEDIATE ${quoteString(text)};` : `${indent}${text};`];
+};
+
+// The statement as written, for the comment that replaces it
+const sourceLine = (state: ConverterState, statement: Statement): string =>
+  state.source.slice(statement.start, statement.end).split('\n')[0].trim();
+
+const emitCreateIndex = (state: ConverterState, index: CreateIndexStatement, indent: string): string[] => {
+  if (index.clustered) {
+    addIssueOnce(state, 'clustered-index', index, 'info', 'Oracle has no clustered indexes; the index was created as a regular B-tree index.',
+      'Consider an index-organized table if the rows are mostly read in the order of this index.');
+  }
+  addIssueOnce(state, 'index-names', index, 'info', 'Index names are unique per table in Sybase but per schema in Oracle.',
+    'Rename indexes that share a name with an index of another table.');
+  const columns = index.columns.map(column => `${formatIdentifier(state, column.name)}${column.descending ? ' DESC' : ''}`).join(', ');
+  const text = `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${formatObjectName(state, index.name)} ON ${formatObjectName(state, index.table)} (${columns})`;
+  return emitDdl(state, index, 'CREATE INDEX', text, indent);
+};
+
+// SQL Anywhere writes NO MINVALUE, NO CACHE ... where Oracle writes NOMINVALUE, NOCACHE
+const emitCreateSequence = (state: ConverterState, sequence: CreateSequenceStatement, indent: string): string[] => {
+  const options = sequence.options
+    .replace(/\bno\s+(minvalue|maxvalue|cache|cycle|order)\b/gi, (_, option: string) => `NO${option.toUpperCase()}`)
+    .replace(/\s+/g, ' ');
+  return emitDdl(state, sequence, 'CREATE SEQUENCE', `CREATE SEQUENCE ${formatObjectName(state, sequence.name)}${options ? ` ${options}` : ''}`, indent);
+};
+
+// Oracle has no default and rule objects: the value of a default becomes the DEFAULT of the
+// columns sp_bindefault binds it to, and a rule a CHECK constraint on the columns of sp_bindrule
+const emitBindableObject = (state: ConverterState, statement: CreateDefaultStatement | CreateRuleStatement, indent: string): string[] => {
+  const name = statement.name[statement.name.length - 1];
+  const expression = statement.kind === 'CreateDefault' ? statement.value : statement.condition;
+  const text = state.source.slice(expression.start, expression.end).replace(/\s+/g, ' ');
+  if (statement.kind === 'CreateDefault') {
+    state.defaults.set(name.toLowerCase(), expression);
+    addIssue(state, statement, 'info', `Oracle has no default objects; ${name} becomes the DEFAULT of each column it is bound to with sp_bindefault.`);
+    return [`${indent}-- create default ${name} as ${text}: applied to the columns it is bound to`];
+  }
+  state.rules.set(name.toLowerCase(), expression);
+  addIssue(state, statement, 'info', `Oracle has no rule objects; ${name} becomes a CHECK constraint on each column it is bound to with sp_bindrule.`);
+  return [`${indent}-- create rule ${name} as ${text}: applied to the columns it is bound to`];
+};
+
+const emitBinding = (state: ConverterState, exec: ExecStatement, indent: string): string[] => {
+  const binding = objectBinding(exec)!;
+  const comment = [`${indent}-- EXEC ${sourceLine(state, exec).replace(/^exec(ute)?\s+/i, '')}`];
+  const expression = (binding.kind === 'default' ? state.defaults : state.rules).get(binding.name.toLowerCase());
+  if (!expression) {
+    addIssue(state, exec, 'warning', `The ${binding.kind} ${binding.name} is not defined in the uploaded files, so its binding could not be converted.`,
+      `Upload the file that creates the ${binding.kind}, or convert the binding manually.`);
+    return comment;
+  }
+  const columnName = binding.target[binding.target.length - 1];
+  if (binding.target.length < 2) {
+    addIssue(state, exec, 'warning', `The ${binding.kind} ${binding.name} is bound to the user-defined type ${columnName}; Oracle cannot attach it to a type.`,
+      `Add the ${binding.kind === 'default' ? 'DEFAULT' : 'CHECK constraint'} to each column of type ${columnName}.`);
+    return comment;
+  }
+  const table = formatObjectName(state, binding.target.slice(0, -1));
+  const column = formatIdentifier(state, columnName);
+  if (binding.kind === 'default') {
+    return emitDdl(state, exec, 'ALTER TABLE', `ALTER TABLE ${table} MODIFY (${column} DEFAULT ${emitExpression(state, expression)})`, indent);
+  }
+  // The rule's variable stands for the column
+  visitAst(expression, node => {
+    if (node.kind === 'Variable') state.rewrites.set(node, column);
+  });
+  const constraint = formatIdentifier(state, `${binding.name}_${columnName}`);
+  // Like the rule, the constraint only checks new and changed values, not the rows already there
+  const text = `ALTER TABLE ${table} ADD CONSTRAINT ${constraint} CHECK (${emitExpression(state, expression)}) ENABLE NOVALIDATE`;
+  return emitDdl(state, exec, 'ALTER TABLE', text, indent);
+};
+
+const OBJECT_PRIVILEGES = new Set(['all', 'select', 'insert', 'update', 'delete', 'references', 'execute']);
+
+// Column lists are allowed for these object privileges only
+const COLUMN_PRIVILEGES = new Set(['insert', 'update', 'references']);
+
+// Sybase statement permissions; Oracle's CREATE PROCEDURE covers functions as well
+const SYSTEM_PRIVILEGES: Record<string, string> = {
+  'create table': 'CREATE TABLE',
+  'create view': 'CREATE VIEW',
+  'create procedure': 'CREATE PROCEDURE',
+  'create function': 'CREATE PROCEDURE',
+  'create trigger': 'CREATE TRIGGER',
+  'create sequence': 'CREATE SEQUENCE',
+};
+
+const emitGrant = (state: ConverterState, grant: GrantStatement, indent: string): string[] => {
+  const columns = grant.columns.length ? ` (${grant.columns.map(name => formatIdentifier(state, name)).join(', ')})` : '';
+  const privileges = grant.privileges.flatMap(privilege => {
+    if (!grant.object) {
+      if (SYSTEM_PRIVILEGES[privilege]) return [SYSTEM_PRIVILEGES[privilege]];
+      addIssue(state, grant, 'warning', `The Sybase permission "${privilege}" has no Oracle equivalent and was left out.`,
+        'Grant the matching Oracle system privileges instead.');
+      return [];
+    }
+    if (!OBJECT_PRIVILEGES.has(privilege)) {
+      addIssue(state, grant, 'warning', `The Sybase permission "${privilege}" has no Oracle equivalent and was left out.`);
+      return [];
+    }
+    if (!columns) return [privilege.toUpperCase()];
+    if (COLUMN_PRIVILEGES.has(privilege)) return [`${privilege.toUpperCase()}${columns}`];
+    addIssue(state, grant, 'warning', `Oracle grants ${privilege.toUpperCase()} on whole objects only, so the column-level permission was left out.`,
+      'Grant it on a view of these columns instead.');
+    return [];
+  });
+  if (privileges.length === 0) return [`${indent}-- ${sourceLine(state, grant)}`];
+  const grantees = grant.grantees.map(name => (name.toLowerCase() === 'public' ? 'PUBLIC' : formatIdentifier(state, name))).join(', ');
+  const keyword = grant.action.toUpperCase();
+  const text = [
+    `${keyword} ${privileges.join(', ')}`,
+    ...(grant.object ? [`ON ${formatObjectName(state, grant.object)}`] : []),
+    `${grant.action === 'grant' ? 'TO' : 'FROM'} ${grantees}`,
+    ...(grant.withGrantOption ? [grant.object ? 'WITH GRANT OPTION' : 'WITH ADMIN OPTION'] : []),
+  ].join(' ');
+  return emitDdl(state, grant, keyword, text, indent);
+};
+
+// ---- Transactions and error handling ----
+
+// Sybase counts nested BEGIN TRANSACTIONs and only the outermost COMMIT commits. Oracle starts
+// a transaction implicitly and every COMMIT ends it, so the nesting is followed in source order.
+const emitTransaction = (state: ConverterState, statement: Statement & { kind: 'Transaction' }, indent: string): string[] => {
+  const scope = state.scope;
+  switch (statement.action) {
+    case 'begin':
+      if (scope?.transactionDepth) {
+        addIssue(state, statement, 'warning', 'Oracle transactions do not nest; only the outermost COMMIT of this nested transaction was kept.',
+          'Check that the inner transaction does not have to commit on its own.', 'transaction');
+      } else if (scope) {
+        scope.transactionStart = statement;
+      }
+      if (scope) scope.transactionDepth++;
+      return [`${indent}-- BEGIN TRANSACTION: transactions start implicitly in Oracle`];
+    case 'commit':
+      if (scope?.trigger) {
+        addIssue(state, statement, 'error', 'COMMIT is not allowed in an Oracle trigger (ORA-04092).',
+          'Remove the COMMIT; the changes are committed together with the triggering statement.', 'transaction');
+        return [`${indent}-- COMMIT removed: not allowed in a trigger`];
+      }
+      if (scope && scope.transactionDepth > 1) {
+        scope.transactionDepth--;
+        return [`${indent}-- COMMIT of a nested transaction: only the outermost COMMIT commits`];
+      }
+      if (scope && scope.transactionDepth === 0) {
+        addIssueOnce(state, 'commit-without-begin', statement, 'warning', "COMMIT without a BEGIN TRANSACTION in the same unit also commits the caller's work in Oracle.",
+          'Leave the COMMIT to the caller if this code runs inside a larger transaction.', 'transaction');
+      }
+      if (scope) scope.transactionDepth = 0;
+      return [`${indent}COMMIT;`];
+    case 'save':
+      addIssueOnce(state, 'savepoint', statement, 'info',
+        'ROLLBACK TO SAVEPOINT fails in Oracle (ORA-01086) once a COMMIT or a DDL statement has ended the transaction that set the savepoint.',
+        undefined, 'transaction');
+      return [`${indent}SAVEPOINT ${formatIdentifier(state, statement.name || 'sp')};`];
+    case 'rollback':
+      if (statement.name && state.savepoints.has(statement.name.toLowerCase())) {
+        return [`${indent}ROLLBACK TO SAVEPOINT ${formatIdentifier(state, statement.name)};`];
+      }
+      if (scope?.trigger) {
+        noteTriggerRollback(state, statement);
+        if (statement.raiserror) return emitRaiserror(state, statement.raiserror, indent);
+        return [`${indent}RAISE_APPLICATION_ERROR(-20000, 'Transaction rolled back by trigger');`];
+      }
+      if (scope) scope.transactionDepth = 0;
+      return [`${indent}ROLLBACK;`, ...(statement.raiserror ? emitRaiserror(state, statement.raiserror, indent) : [])];
+  }
+};
+
+const noteTriggerRollback = (state: ConverterState, statement: Statement) =>
+  addIssue(state, statement, 'warning',
+    'ROLLBACK is not allowed in an Oracle trigger; an error makes the triggering statement fail instead, and the caller has to roll back the rest of its transaction.',
+    'Make the caller roll back when the trigger raises an error.', 'transaction');
+
+// DDL commits the open transaction in Oracle
+const noteDdlInTransaction = (state: ConverterState, statement: Statement, ddl: string) => {
+  const start = state.scope?.transactionStart;
+  if (!state.scope?.transactionDepth || !start) return;
+  addIssue(state, statement, 'warning',
+    `${ddl} commits implicitly in Oracle, which ends the transaction begun at line ${start.line}; the work before it can no longer be rolled back.`,
+    'Move the DDL out of the transaction.', 'transaction');
+};
+
+// Sybase levels 0-3 and their names; Oracle has READ COMMITTED and SERIALIZABLE only
+const ISOLATION_LEVELS: Record<string, string> = {
+  '0': 'READ COMMITTED',
+  'read uncommitted': 'READ COMMITTED',
+  '1': 'READ COMMITTED',
+  'read committed': 'READ COMMITTED',
+  '2': 'SERIALIZABLE',
+  'repeatable read': 'SERIALIZABLE',
+  '3': 'SERIALIZABLE',
+  serializable: 'SERIALIZABLE',
+};
+
+// "set chained" and "set transaction isolation level"; other options are left to the caller
+const emitTransactionOption = (state: ConverterState, statement: SetStatement, indent: string): string[] | undefined => {
+  const option = statement.option!;
+  const value = option.value.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (option.name === 'chained') {
+    if (value === 'on') return [`${indent}-- SET CHAINED ON: Oracle transactions are always chained`];
+    addIssue(state, statement, 'warning', 'Unchained mode does not exist in Oracle: statements are not committed one by one, only by an explicit COMMIT.',
+      'Add a COMMIT where the work has to be committed.', 'transaction');
+    return [`${indent}-- SET CHAINED OFF: not available in Oracle`];
+  }
+  if (option.name !== 'transaction' || !value.startsWith('isolation level')) return undefined;
+  const level = value.replace('isolation level', '').trim();
+  const mapped = ISOLATION_LEVELS[level];
+  if (!mapped) {
+    addIssue(state, statement, 'warning', `Isolation level ${level} has no Oracle equivalent.`, undefined, 'transaction');
+    return [];
+  }
+  if (['0', 'read uncommitted'].includes(level)) {
+    addIssue(state, statement, 'warning', 'Oracle does not allow dirty reads; READ COMMITTED was used instead.', undefined, 'transaction');
+  } else if (['2', 'repeatable read'].includes(level)) {
+    addIssue(state, statement, 'info', 'Oracle has no REPEATABLE READ; SERIALIZABLE was used, which can fail with ORA-08177 when rows change concurrently.',
+      'Retry the transaction on ORA-08177, or lock the rows with SELECT ... FOR UPDATE.', 'transaction');
+  }
+  const sql = `ALTER SESSION SET ISOLATION_LEVEL = ${mapped}`;
+  return [state.scope ? `${indent}EXECUTE IMMEDIATE '${sql}';` : `${indent}${sql};`];
+};
+
+// Statements whose failure a following @@error check handles
+const ERROR_SOURCES = new Set(['Select', 'Insert', 'Update', 'Delete', 'Truncate', 'Exec', 'Set', 'Fetch']);
+
+const isErrorVariable = (expr: Expression): boolean => expr.kind === 'GlobalVariable' && expr.name.toLowerCase() === '@@error';
+
+// "if @@error != 0" (or <> 0, > 0) without an ELSE
+const isErrorCheck = (statement: Statement): statement is IfStatement =>
+  statement.kind === 'If' &&
+  !statement.else &&
+  statement.condition.kind === 'Binary' &&
+  ['!=', '<>', '>'].includes(statement.condition.operator) &&
+  isErrorVariable(statement.condition.left) &&
+  statement.condition.right.kind === 'Literal' &&
+  statement.condition.right.value === '0';
+
+// "select @err = @@error" or "set @err = @@error"
+const isErrorCapture = (statement: Statement): boolean => {
+  if (statement.kind === 'Set') return !!statement.value && isErrorVariable(statement.value);
+  return statement.kind === 'Select' &&
+    statement.from.length === 0 &&
+    statement.columns.every(item => item.assignTo) &&
+    statement.columns.some(item => isErrorVariable(item.expression));
+};
+
+// Sybase sets @@error and carries on where Oracle raises an exception. A statement followed by
+// an @@error check runs in its own block with the check's body as the EXCEPTION handler; one
+// followed by "select @err = @@error" captures SQLCODE, which is 0 outside a handler.
+const emitErrorGuard = (state: ConverterState, statement: Statement, next: Statement | undefined, indent: string): string[] | undefined => {
+  const scope = state.scope;
+  if (!scope || !next || !ERROR_SOURCES.has(statement.kind)) return undefined;
+  const check = isErrorCheck(next) ? next : undefined;
+  if (!check && !isErrorCapture(next)) return undefined;
+  const inner = indent + INDENT;
+  const body = emitStatement(state, statement, inner);
+  // The handler only runs on failure, so its COMMIT or ROLLBACK does not change the nesting after it
+  const depth = scope.transactionDepth;
+  scope.inErrorHandler = true;
+  if (!check) body.push(...emitStatement(state, next, inner));
+  const handler = check ? emitBody(state, check.then, inner + INDENT) : emitStatement(state, next, inner + INDENT);
+  scope.inErrorHandler = false;
+  scope.transactionDepth = depth;
+  if (!check) {
+    addIssueOnce(state, 'error-capture', next, 'info',
+      'The captured @@error value is SQLCODE: 0 on success, otherwise a negative Oracle error number instead of a Sybase one.',
+      'Check comparisons of the captured value against specific Sybase error numbers.', 'error-handling');
+  }
+  return [`${indent}BEGIN`, ...body, `${indent}EXCEPTION`, `${inner}WHEN OTHERS THEN`, ...handler, `${indent}END;`];
+};
+
+// RAISERROR does not stop a Sybase procedure, RAISE_APPLICATION_ERROR does: a ROLLBACK right
+// after it has to run first, and a RETURN after it is no longer reached.
+// Returns the lines and the number of statements used.
+const emitRaiserrorSequence = (state: ConverterState, statements: Statement[], indent: string): [string[], number] => {
+  const raiserror = statements[0] as RaiserrorStatement;
+  const rollback = statements[1]?.kind === 'Transaction' && statements[1].action === 'rollback' && !statements[1].name && !statements[1].raiserror ? statements[1] : undefined;
+  const after = statements.slice(rollback ? 2 : 1);
+  const returns = after[0]?.kind === 'Return';
+  if (state.scope && !returns && after.length > 0) {
+    addIssue(state, raiserror, 'warning', 'RAISERROR does not stop a Sybase procedure, but RAISE_APPLICATION_ERROR does: the statements after it no longer run.',
+      'Move the statements that still have to run before the error is raised.', 'error-handling');
+  }
+  const lines: string[] = [];
+  if (rollback && state.scope?.trigger) {
+    // The error itself undoes the triggering statement
+    noteTriggerRollback(state, rollback);
+  } else if (rollback) {
+    lines.push(...emitTransaction(state, rollback, indent));
+  }
+  lines.push(...emitRaiserror(state, raiserror, indent));
+  return [lines, 1 + (rollback ? 1 : 0) + (returns ? 1 : 0)];
+};
+
+const isAlwaysTrue = (condition: Expression): boolean =>
+  condition.kind === 'Binary' &&
+  condition.operator === '=' &&
+  condition.left.kind === 'Literal' &&
+  condition.right.kind === 'Literal' &&
+  condition.left.value === condition.right.value;
+
+const emitStatement = (state: ConverterState, statement: Statement, indent: string): string[] => {
+  switch (statement.kind) {
+    case 'Select':
+      return emitSelectStatement(state, statement, indent);
+    case 'Insert':
+      return emitInsert(state, statement, indent);
+    case 'Update':
+      return emitUpdate(state, statement, indent);
+    case 'Delete':
+      return emitDelete(state, statement, indent);
+    case 'Truncate': {
+      const name = formatObjectName(state, statement.table);
+      if (isTempTable(statement.table)) return [`${indent}DELETE FROM ${name};`];
+      noteDdlInTransaction(state, statement, 'TRUNCATE TABLE');
+      return [state.scope ? `${indent}EXECUTE IMMEDIATE 'TRUNCATE TABLE ${name}';` : `${indent}TRUNCATE TABLE ${name};`];
+    }
+    case 'Declare':
+      // Declarations are hoisted into the unit's declaration section; initial values stay in place
+      return statement.variables
+        .filter(variable => variable.value)
+        .flatMap(variable => [
+          ...emitExistsChecks(state, [variable.value], indent),
+          `${indent}${variableName(state, variable.name)} := ${emitExpression(state, variable.value!)};`,
+        ]);
+    case 'DeclareCursor':
+      return [];
+    case 'Open':
+      return [`${indent}OPEN ${formatIdentifier(state, statement.cursor)};`];
+    case 'Close':
+      return [`${indent}CLOSE ${formatIdentifier(state, statement.cursor)};`];
+    case 'Deallocate':
+      return emitDeallocate(state, statement, indent);
+    case 'Fetch':
+      if (state.scope) state.scope.lastFetchedCursor = formatIdentifier(state, statement.cursor);
+      return [`${indent}FETCH ${formatIdentifier(state, statement.cursor)} INTO ${statement.into.map(name => variableName(state, name)).join(', ')};`];
+    case 'Set':
+      if (statement.variable && statement.value) {
+        return [
+          ...emitExistsChecks(state, [statement.value], indent),
+          `${indent}${variableName(state, statement.variable)} := ${emitExpression(state, statement.value)};`,
+        ];
+      }
+      if (statement.option) {
+        const lines = emitTransactionOption(state, statement, indent);
+        if (lines) return lines;
+      }
+      if (statement.option?.name.toLowerCase() === 'rowcount' && statement.option.value !== '0') {
+        addIssue(state, statement, 'warning', 'SET ROWCOUNT has no Oracle equivalent.', 'Limit the affected queries with FETCH FIRST n ROWS ONLY or ROWNUM.');
+      }
+      return [];
+    case 'If':
+      if (isDropGuard(state, statement)) {
+        return [`${indent}-- Existence check and DROP removed: objects are created with CREATE OR REPLACE`];
+      }
+      return emitIf(state, statement, indent);
+    case 'While':
+      if (state.scope?.cursorLoops.has(statement)) return emitCursorLoop(state, state.scope.cursorLoops.get(statement)!, indent);
+      // "while 1 = 1" is the Sybase spelling of an unconditional loop
+      if (isAlwaysTrue(statement.condition)) {
+        return [`${indent}LOOP`, ...emitBody(state, statement.body, indent + INDENT), `${indent}END LOOP;`];
+      }
+      // The EXISTS tests are evaluated again on every iteration
+      if (proceduralExists(statement.condition).length > 0) {
+        return [
+          `${indent}LOOP`,
+          ...emitExistsChecks(state, [statement.condition], indent + INDENT),
+          `${indent}${INDENT}EXIT WHEN NOT (${emitExpression(state, statement.condition)});`,
+          ...emitBody(state, statement.body, indent + INDENT),
+          `${indent}END LOOP;`,
+        ];
+      }
+      return [
+        `${indent}WHILE ${emitExpression(state, statement.condition)} LOOP`,
+        ...emitBody(state, statement.body, indent + INDENT),
+        `${indent}END LOOP;`,
+      ];
+    case 'Block':
+      return emitStatements(state, statement.statements, indent);
+    case 'Return':
+      if (statement.value && state.scope?.returnsValue) {
+        return [...emitExistsChecks(state, [statement.value], indent), `${indent}RETURN ${emitExpression(state, statement.value)};`];
+      }
+      if (statement.value) {
+        addIssueOnce(state, 'return-status', statement, 'info', 'Return status values were dropped; Oracle procedures cannot return a value.',
+          'Convert the procedure to a function or add an OUT parameter if callers rely on the status.', 'error-handling');
+      }
+      return [`${indent}RETURN;`];
+    case 'Print':
+      return [`${indent}DBMS_OUTPUT.PUT_LINE(${statement.args[0] ? formatMessage(state, statement.args[0], statement.args.slice(1)) : "''"});`];
+    case 'Raiserror':
+      return emitRaiserror(state, statement, indent);
+    case 'Exec':
+      return emitExec(state, statement, indent);
+    case 'Transaction':
+      if (statement.action === 'save' && statement.name) state.savepoints.add(statement.name.toLowerCase());
+      return emitTransaction(state, statement, indent);
+    case 'Break':
+      return [`${indent}EXIT;`];
+    case 'Continue':
+      return [`${indent}CONTINUE;`];
+    case 'Goto':
+      return [`${indent}GOTO ${formatIdentifier(state, statement.label)};`];
+    case 'Label':
+      return [`${indent}<<${formatIdentifier(state, statement.name)}>>`];
+    case 'Use':
+      return [`${indent}-- USE ${statement.database}: connect to the target schema instead`];
+    case 'Drop':
+      return emitDrop(state, statement, indent);
+    case 'CreateTable':
+      if (isTempTable(statement.name)) {
+        const name = baseName(statement.name);
+        noteSharedTempTable(state, name, statement);
+        if (!state.tempTables.has(name)) {
+          state.preamble.push(...emitCreateTable(state, statement), '');
+          state.tempTables.add(name);
+        }
+        return state.scope ? [`${indent}DELETE FROM ${formatObjectName(state, statement.name)};`] : [];
+      }
+      noteDdlInTransaction(state, statement, 'CREATE TABLE');
+      if (state.scope) {
+        addIssue(state, statement, 'warning', 'CREATE TABLE inside a procedure runs through EXECUTE IMMEDIATE in Oracle; static SQL that uses the table does not compile until the table exists.',
+          'Create the table once as part of the schema instead.');
+        // Inside a procedure the table keeps its identity column, so this is a single statement
+        return [`${indent}EXECUTE IMMEDIATE ${quoteString(emitCreateTable(state, statement).join('\n').replace(/;$/, ''))};`];
+      }
+      return emitCreateTable(state, statement).map(line => `${indent}${line}`);
+    case 'CreateProcedure':
+    case 'CreateFunction':
+    case 'CreateTrigger':
+    case 'CreateView':
+      addIssue(state, statement, 'error', 'CREATE PROCEDURE, FUNCTION, TRIGGER and VIEW are not supported inside another program unit.');
+      return [];
+    case 'CreateIndex':
+      return emitCreateIndex(state, statement, indent);
+    case 'CreateSequence':
+      return emitCreateSequence(state, statement, indent);
+    case 'CreateDefault':
+    case 'CreateRule':
+      return emitBindableObject(state, statement, indent);
+    case 'Grant':
+      return emitGrant(state, statement, indent);
+    case 'Unknown':
+      addIssue(state, statement, 'warning', 'Statement could not be converted automatically and was left as a comment.',
+        'Convert this statement manually.');
+      return [`${indent}/* UNCONVERTED:`, ...statement.text.split('\n').map(line => `${indent}${line}`), `${indent}*/`];
+  }
+};
+
+// ---- Cursors ----
+
+// A Sybase cursor loop: an optional OPEN, a FETCH and a WHILE @@sqlstatus = 0 loop that
+// fetches again at its end, or a WHILE 1 = 1 loop that starts with the FETCH and a BREAK
+// at the end of the rows. It becomes one loop in the migration's cursor style.
+interface CursorLoop {
+  cursor: string;
+  into: string[];
+  body: Statement[];
+  style: CursorStyle;
+  // Record fields, in the order of the cursor's columns
+  fields: string[];
+}
+
+// Rows per BULK COLLECT batch
+const BULK_LIMIT = 100;
+
+const loopStatements = (statement: Statement): Statement[] => (statement.kind === 'Block' ? statement.statements : [statement]);
+
+const isCursorStatement = (statement: Statement | undefined, kind: 'Open' | 'Close' | 'Fetch', cursor: string): boolean =>
+  !!statement && statement.kind === kind && statement.cursor.toLowerCase() === cursor.toLowerCase();
+
+const sameTargets = (fetch: FetchStatement, other: Statement | undefined): boolean =>
+  !!other && other.kind === 'Fetch' && other.cursor.toLowerCase() === fetch.cursor.toLowerCase()
+  && other.into.join(',').toLowerCase() === fetch.into.join(',').toLowerCase();
+
+// "if @@sqlstatus = 2 break"
+const isFetchExit = (statement: Statement | undefined): boolean => {
+  if (statement?.kind !== 'If' || statement.else || fetchStatusTest(statement.condition) !== 'notfound') return false;
+  const then = loopStatements(statement.then);
+  return then.length === 1 && then[0].kind === 'Break';
+};
+
+interface CursorLoopMatch {
+  loop: WhileStatement;
+  fetch: FetchStatement;
+  // The FETCH before a WHILE @@sqlstatus = 0 loop
+  priming?: FetchStatement;
+  open?: Statement;
+  body: Statement[];
+}
+
+const matchCursorLoop = (statements: Statement[], index: number): CursorLoopMatch | undefined => {
+  const loop = statements[index];
+  if (loop.kind !== 'While') return undefined;
+  const body = loopStatements(loop.body);
+  const previous = statements[index - 1];
+  if (previous?.kind === 'Fetch' && fetchStatusTest(loop.condition) === 'found' && sameTargets(previous, body[body.length - 1])) {
+    const open = isCursorStatement(statements[index - 2], 'Open', previous.cursor) ? statements[index - 2] : undefined;
+    return { loop, fetch: previous, priming: previous, open, body: body.slice(0, -1) };
+  }
+  const [fetch, exit] = body;
+  if (fetch?.kind === 'Fetch' && isAlwaysTrue(loop.condition) && isFetchExit(exit)) {
+    const open = isCursorStatement(previous, 'Open', fetch.cursor) ? previous : undefined;
+    return { loop, fetch, open, body: body.slice(2) };
+  }
+  return undefined;
+};
+
+// Statements that leave the loop they are in, not counting nested loops
+const breaksLoop = (statements: Statement[]): boolean =>
+  statements.some(statement =>
+    statement.kind === 'Break'
+    || (statement.kind === 'Block' && breaksLoop(statement.statements))
+    || (statement.kind === 'If' && breaksLoop(statement.else ? [statement.then, statement.else] : [statement.then])));
+
+// Tests for a fetch error do not depend on the cursor, since they become constants
+const readsFetchStatus = (statements: Statement[]): boolean => {
+  const errorTests = new Set<Expression>();
+  let found = false;
+  visitAst(statements, node => {
+    if (node.kind === 'Binary' && ['error', 'no-error'].includes(fetchStatusTest(node) ?? '')) errorTests.add(node.left).add(node.right);
+    if (node.kind === 'GlobalVariable' && !errorTests.has(node) && FETCH_STATUS_VARIABLES[node.name.toLowerCase()] !== undefined) found = true;
+  });
+  return found;
+};
+
+// The statements after a loop that still see its fetch status: those before the next FETCH or OPEN
+const statementsAfterLoop = (statements: Statement[]): Statement[] => {
+  const next = statements.findIndex(statement => {
+    let fetches = statement.kind === 'Open';
+    visitAst(statement, node => {
+      if (node.kind === 'Fetch') fetches = true;
+    });
+    return fetches;
+  });
+  return next === -1 ? statements : statements.slice(0, next);
+};
+
+// Names of the record fields a cursor's rows have, or undefined when a * cannot be expanded
+const cursorFields = (state: ConverterState, query: SelectStatement): string[] | undefined => {
+  const names: string[] = [];
+  for (const [index, item] of query.columns.entries()) {
+    if (item.expression.kind === 'Star') {
+      const qualifier = item.expression.qualifier.length ? baseName(item.expression.qualifier) : undefined;
+      const sources = sourcesInScope(state, query.from).filter(source => !qualifier || source.alias === qualifier);
+      if (sources.length === 0 || sources.some(source => !source.table)) return undefined;
+      sources.forEach(source => names.push(...source.table!.columns.map(column => column.name)));
+      continue;
+    }
+    const expression = item.expression;
+    names.push(item.alias || (expression.kind === 'Column' ? expression.parts[expression.parts.length - 1] : `column${index + 1}`));
+  }
+  // Fields of a record need distinct names
+  return names.map((name, index) =>
+    names.slice(0, index).some(other => other.toLowerCase() === name.toLowerCase()) ? `${name}_${index + 1}` : name);
+};
+
+// The style a loop is written in: the migration's, unless the loop needs an explicit FETCH
+const cursorLoopStyle = (
+  state: ConverterState,
+  match: CursorLoopMatch,
+  cursor: string,
+  fields: string[] | undefined,
+  after: Statement[]
+): CursorStyle => {
+  if (state.cursorStyle === 'explicit') return 'explicit';
+  const reasons: string[] = [];
+  if (!fields) reasons.push('the columns of its query are not known');
+  if (readsFetchStatus(statementsAfterLoop(after))) reasons.push('the fetch status is read after the loop');
+  if (state.cursorStyle === 'for-loop' && !match.open) reasons.push('it is not opened right before the loop');
+  if (state.cursorStyle === 'bulk-collect') {
+    if (breaksLoop(match.body)) reasons.push('the loop body leaves the loop with BREAK');
+    if (readsFetchStatus(match.body)) reasons.push('the loop body reads the fetch status');
+    let currentOf = false;
+    visitAst(match.body, node => {
+      if ((node.kind === 'Update' || node.kind === 'Delete') && node.currentOf?.toLowerCase() === cursor.toLowerCase()) currentOf = true;
+    });
+    if (currentOf) reasons.push('it changes rows WHERE CURRENT OF the cursor');
+  }
+  if (reasons.length === 0) return state.cursorStyle;
+  addIssue(state, match.loop, 'info', `The loop over cursor ${cursor} was converted to an explicit FETCH loop because ${reasons.join(' and ')}.`);
+  return 'explicit';
+};
+
+// Find the cursor loops of a unit before its cursors are declared, since cursor FOR loops and
+// BULK COLLECT read the rows through records that need a name for every column
+const planCursorLoops = (state: ConverterState, statements: Statement[], scope: UnitScope) => {
+  const declarations = new Map<string, DeclareCursorStatement>();
+  const lists: Statement[][] = [statements];
+  visitAst(statements, node => {
+    if (node.kind === 'DeclareCursor' && !declarations.has(node.name.toLowerCase())) declarations.set(node.name.toLowerCase(), node);
+    if (node.kind === 'Close') scope.closedCursors.add(node.cursor.toLowerCase());
+    if (node.kind === 'Block') lists.push(node.statements);
+    if (node.kind === 'While' && node.body.kind !== 'Block') lists.push([node.body]);
+  });
+  lists.forEach(list => list.forEach((_, index) => {
+    const match = matchCursorLoop(list, index);
+    if (!match) return;
+    const { fetch } = match;
+    const key = fetch.cursor.toLowerCase();
+    const declaration = declarations.get(key);
+    const fields = declaration && cursorFields(state, declaration.query);
+    const after = list.slice(index + 1);
+    const style = cursorLoopStyle(state, match, fetch.cursor, fields, after);
+    scope.cursorLoops.set(match.loop, { cursor: fetch.cursor, into: fetch.into, body: match.body, style, fields: fields ?? [] });
+    if (match.priming) scope.replacedStatements.add(match.priming);
+    if (style !== 'explicit') scope.cursorFields.set(key, fields!);
+    if (style === 'bulk-collect') scope.bulkCursors.add(key);
+    if (style === 'for-loop') {
+      // The cursor FOR loop opens and closes the cursor itself
+      scope.replacedStatements.add(match.open!);
+      const close = after.find(statement => isCursorStatement(statement, 'Close', fetch.cursor));
+      if (close) scope.replacedStatements.add(close);
+      scope.closedCursors.add(key);
+    }
+    if (declaration?.forUpdate || declaration?.query.forUpdate) {
+      let commits = false;
+      visitAst(match.body, node => {
+        if (node.kind === 'Transaction' && node.action === 'commit') commits = true;
+      });
+      if (commits) {
+        addIssue(state, match.loop, 'warning', `COMMIT inside the loop over the FOR UPDATE cursor ${fetch.cursor} releases its locks, and the next FETCH fails with ORA-01002.`,
+          'Commit after the loop, or select the rows again after each commit.', 'transaction');
+      }
+    }
+  }));
+};
+
+const emitCursorLoop = (state: ConverterState, loop: CursorLoop, indent: string): string[] => {
+  const cursor = formatIdentifier(state, loop.cursor);
+  const targets = loop.into.map(name => variableName(state, name));
+  const inner = indent + INDENT;
+  if (state.scope) state.scope.lastFetchedCursor = cursor;
+  if (loop.style === 'explicit') {
+    return [
+      `${indent}LOOP`,
+      `${inner}FETCH ${cursor} INTO ${targets.join(', ')};`,
+      `${inner}EXIT WHEN ${cursor}%NOTFOUND;`,
+      ...emitStatements(state, loop.body, inner),
+      `${indent}END LOOP;`,
+    ];
+  }
+  const fields = loop.fields.map(field => formatIdentifier(state, field));
+  if (loop.style === 'for-loop') {
+    const row = formatIdentifier(state, `${loop.cursor}_row`);
+    const body = emitStatements(state, loop.body, inner);
+    return [
+      `${indent}FOR ${row} IN ${cursor} LOOP`,
+      ...targets.map((target, index) => `${inner}${target} := ${row}.${fields[index]};`),
+      ...body,
+      `${indent}END LOOP;`,
+    ];
+  }
+  const rows = formatIdentifier(state, `${loop.cursor}_rows`);
+  const row = inner + INDENT;
+  return [
+    `${indent}LOOP`,
+    `${inner}FETCH ${cursor} BULK COLLECT INTO ${rows} LIMIT ${BULK_LIMIT};`,
+    `${inner}FOR i IN 1 .. ${rows}.COUNT LOOP`,
+    ...targets.map((target, index) => `${row}${target} := ${rows}(i).${fields[index]};`),
+    ...emitStatements(state, loop.body, row),
+    `${inner}END LOOP;`,
+    `${inner}EXIT WHEN ${cursor}%NOTFOUND;`,
+    `${indent}END LOOP;`,
+  ];
+};
+
+// Oracle has no DEALLOCATE; the cursor only has to be closed, as Sybase does when deallocating an open cursor
+const emitDeallocate = (state: ConverterState, statement: CursorStatement, indent: string): string[] => {
+  const key = statement.cursor.toLowerCase();
+  if (state.scope?.closedCursors.has(key)) return [];
+  const cursor = formatIdentifier(state, statement.cursor);
+  return [`${indent}IF ${cursor}%ISOPEN THEN`, `${indent}${INDENT}CLOSE ${cursor};`, `${indent}END IF;`];
+};
+
+// ---- Dynamic SQL ----
+
+// exec(@sql) and sp_executesql become EXECUTE IMMEDIATE. The string pieces of the SQL text are
+// joined into one statement, with placeholders for the concatenated expressions, and converted
+// like any other T-SQL. Placeholders where the statement expects a value become bind variables;
+// the other ones are concatenated into the Oracle text again.
+
+interface DynamicParameter {
+  // Lower-case, with the @
+  name: string;
+  output: boolean;
+}
+
+interface DynamicStatement {
+  statement: Expression;
+  parameters: DynamicParameter[];
+  // sp_executesql arguments after the statement and the parameter list
+  values: ExecArgument[];
+  // The parameter list is not a string literal
+  unknownParameters: boolean;
+}
+
+interface DynamicSql {
+  // PL/SQL expression for the SQL text
+  text: string;
+  // Bind placeholders in the order the USING clause lists them
+  bindNames: string[];
+  // Values of the placeholders that stand for concatenated expressions
+  values: Map<string, Expression>;
+  // sp_executesql output parameters filled by a single-row SELECT
+  into: string[];
+  returnsRows: boolean;
+  translated: boolean;
+}
+
+const COMPARISON_OPERATORS = new Set(['=', '<>', '!=', '<', '>', '<=', '>=', '!<', '!>']);
+
+const PLACEHOLDER = /zz_dyn_(\d+)_/gi;
+
+const placeholder = (index: number): string => `zz_dyn_${index}_`;
+
+const placeholderIndex = (expr: Expression): number | undefined => {
+  const text = expr.kind === 'Column' && expr.parts.length === 1 ? expr.parts[0]
+    : expr.kind === 'Literal' && expr.literalType === 'string' ? expr.value
+    : undefined;
+  const match = text?.match(/^zz_dyn_(\d+)_$/i);
+  return match ? Number(match[1]) : undefined;
+};
+
+const isStringLiteral = (expr: Expression): expr is Expression & { kind: 'Literal' } =>
+  expr.kind === 'Literal' && expr.literalType === 'string';
+
+// The operands of a chain of string concatenations
+const concatenationPieces = (expr: Expression): Expression[] =>
+  expr.kind === 'Binary' && expr.operator === '+' ? [...concatenationPieces(expr.left), ...concatenationPieces(expr.right)] : [expr];
+
+// "@id int, @count int output", the second argument of sp_executesql
+const parseParameterList = (text: string): DynamicParameter[] =>
+  text.split(/,(?![^(]*\))/).flatMap(item => {
+    const match = item.trim().match(/^(@\w+)\s+.*?(\s+(?:output|out))?$/i);
+    return match ? [{ name: match[1].toLowerCase(), output: !!match[2] }] : [];
+  });
+
+// The SQL text, parameters and parameter values of exec(...) and sp_executesql
+const dynamicStatement = (exec: ExecStatement): DynamicStatement | undefined => {
+  if (exec.dynamic) return { statement: exec.dynamic, parameters: [], values: [], unknownParameters: false };
+  if (baseName(exec.procedure) !== 'sp_executesql' || exec.args.length === 0) return undefined;
+  const argument = (name: string, index: number) =>
+    exec.args.find(arg => arg.name?.toLowerCase() === name) ?? (exec.args[index]?.name ? undefined : exec.args[index]);
+  const statement = argument('@statement', 0);
+  const definition = argument('@params', 1);
+  if (!statement) return undefined;
+  return {
+    statement: statement.value,
+    parameters: definition && isStringLiteral(definition.value) ? parseParameterList(definition.value.value) : [],
+    values: exec.args.filter(arg => arg !== statement && arg !== definition),
+    unknownParameters: !!definition && !isStringLiteral(definition.value),
+  };
+};
+
+// The value passed for an sp_executesql parameter, by name or by position
+const parameterValue = (dynamic: DynamicStatement, parameter: DynamicParameter): Expression | undefined => {
+  const named = dynamic.values.find(arg => arg.name?.toLowerCase() === parameter.name);
+  if (named) return named.value;
+  const positional = dynamic.values.filter(arg => !arg.name);
+  return positional[dynamic.parameters.indexOf(parameter)]?.value;
+};
+
+// convert(varchar, @id) and cast(@id as varchar) only turn the value into text for the concatenation
+const unwrapConversion = (expr: Expression): Expression => {
+  if (expr.kind === 'FunctionCall' && expr.name.toLowerCase() === 'convert' && expr.args.length === 1) return expr.args[0];
+  if (expr.kind === 'Cast') return expr.expression;
+  return expr;
+};
+
+// '...' + convert(varchar, @d, 112) + '...' turns a date into text that the statement compares with
+// a date column, which Oracle would read back with NLS_DATE_FORMAT. The date itself is bound
+// instead, truncated to the day when the style has no time of day.
+const quotedDateValue = (state: ConverterState, expr: Expression): string | undefined => {
+  if (expr.kind !== 'FunctionCall' || expr.name.toLowerCase() !== 'convert' || expr.args[0]?.kind !== 'Variable') return undefined;
+  const type = state.scope?.variableTypes.get(expr.args[0].name.toLowerCase());
+  if (!type || !DATE_TYPES.has(valueType(state, type).name)) return undefined;
+  const style = expr.args[1]?.kind === 'Literal' ? expr.args[1].value : undefined;
+  const mask = style !== undefined ? CONVERT_STYLES[style] : undefined;
+  if (style !== undefined && !mask?.includes('YY')) return undefined;
+  const value = emitExpression(state, expr.args[0]);
+  return mask && !mask.includes('HH') ? `TRUNC(${value})` : value;
+};
+
+// Placeholders where the statement expects a value: compared with, listed, inserted or assigned
+const valuePlaceholders = (statements: Statement[]): Expression[] => {
+  const values: Expression[] = [];
+  visitAst(statements, node => {
+    if (node.kind === 'Binary' && COMPARISON_OPERATORS.has(node.operator)) values.push(node.right);
+    if (node.kind === 'In') values.push(...node.list);
+    if (node.kind === 'Between') values.push(node.low, node.high);
+    if (node.kind === 'Like') values.push(node.pattern);
+    if (node.kind === 'Insert') values.push(...node.values.flat());
+    if (node.kind === 'Update') values.push(...node.set.map(assignment => assignment.value));
+  });
+  return values.filter(value => placeholderIndex(value) !== undefined);
+};
+
+// Placeholders that make up a whole table name
+const objectPlaceholders = (statements: Statement[]): Set<number> => {
+  const indexes = new Set<number>();
+  const add = (name: string[]) => {
+    const match = baseName(name).match(/^zz_dyn_(\d+)_$/);
+    if (match) indexes.add(Number(match[1]));
+  };
+  visitAst(statements, node => {
+    if (node.kind === 'TableRef') add(node.name);
+    if (node.kind === 'Insert' || node.kind === 'Update' || node.kind === 'Delete' || node.kind === 'Truncate') add(node.table);
+  });
+  return indexes;
+};
+
+// Bind placeholders in the order they appear outside string literals
+const bindPlaceholders = (sql: string): string[] =>
+  [...sql.replace(/'(?:[^']|'')*'/g, "''").matchAll(/:([A-Za-z_]\w*)/g)].map(match => match[1]);
+
+// SQL text that cannot be parsed as a whole only gets its function names, comparison
+// operators, temporary tables and parameters translated
+const translateSqlFragment = (state: ConverterState, text: string, parameters: DynamicParameter[]): string => {
+  const tokens = tokenize(text);
+  const edits: { start: number; end: number; text: string }[] = [];
+  tokens.forEach((token, index) => {
+    if (token.type === 'operator' && COMPARISON_MAP[token.value]) {
+      edits.push({ start: token.start, end: token.end, text: COMPARISON_MAP[token.value] });
+    } else if (token.type === 'variable' && parameters.some(parameter => parameter.name === token.value.toLowerCase())) {
+      edits.push({ start: token.start, end: token.end, text: `:${token.value.slice(1)}` });
+    } else if (token.type === 'word' && token.value.startsWith('#')) {
+      edits.push({ start: token.start, end: token.end, text: formatIdentifier(state, tempTableName(token.value)) });
+    } else if (token.type === 'word' && tokens[index + 1]?.value === '(' && FUNCTION_CATALOG[token.value.toLowerCase()]) {
+      let depth = 0;
+      let count = tokens[index + 2]?.value === ')' ? 0 : 1;
+      const close = tokens.slice(index + 2).find(next => {
+        if (next.value === '(') depth++;
+        if (next.value === ')' && depth-- === 0) return true;
+        if (next.value === ',' && depth === 0) count++;
+        return false;
+      });
+      if (!close) return;
+      const name = token.value.toLowerCase();
+      const constant = count === 0 ? mapFunctionCall(name, []) : undefined;
+      const renamed = count > 0 ? renamedFunction(name, count) : undefined;
+      if (constant) edits.push({ start: token.start, end: close.end, text: constant });
+      if (renamed) edits.push({ start: token.start, end: token.end, text: renamed });
+    }
+  });
+  return edits.reduceRight((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), text);
+};
+
+// Convert the T-SQL of a dynamic statement to Oracle SQL, or to a PL/SQL block when it needs one.
+// bindValue gives the bind placeholder for a concatenated value, if it can be bound.
+const translateSqlText = (
+  state: ConverterState,
+  text: string,
+  node: NodeBase,
+  parameters: DynamicParameter[],
+  bindValue: (index: number, quoted: boolean) => string | undefined
+) => {
+  const { script, errors } = parseTsql(text);
+  const statements = script.batches.flatMap(batch => batch.statements);
+  if (errors.length || statements.length === 0 || statements.some(statement => statement.kind === 'Unknown')) return undefined;
+  const inner: ConverterState = {
+    ...state, source: text, issues: [], reported: new Set(), preamble: [], callerContracts: [], rewrites: new Map(), scope: undefined,
+  };
+  visitAst(statements, child => {
+    if (child.kind === 'Variable' && parameters.some(parameter => parameter.name === child.name.toLowerCase())) {
+      inner.rewrites.set(child, `:${child.name.slice(1)}`);
+    }
+  });
+  valuePlaceholders(statements).forEach(value => {
+    const bind = bindValue(placeholderIndex(value)!, value.kind === 'Literal');
+    if (bind) inner.rewrites.set(value, bind);
+  });
+  // select @count = count(*) ... filling output parameters becomes SELECT ... INTO
+  const [first] = statements;
+  const outputs = parameters.filter(parameter => parameter.output).map(parameter => parameter.name);
+  const into = statements.length === 1 && first.kind === 'Select' && !first.into
+    && first.columns.every(item => item.assignTo && outputs.includes(item.assignTo.toLowerCase()))
+    ? first.columns.map(item => item.assignTo!.toLowerCase())
+    : [];
+  const procedural = statements.length > 1 || statements.some(statement =>
+    PROCEDURAL_KINDS.has(statement.kind) || (statement.kind === 'Set' && !!statement.variable)
+    || (statement.kind === 'Select' && !into.length && statement.columns.some(item => item.assignTo)));
+  let lines: string[];
+  if (into.length) {
+    lines = emitQuery(inner, { ...(first as SelectStatement), columns: (first as SelectStatement).columns.map(item => ({ ...item, assignTo: undefined })) });
+  } else if (procedural) {
+    const unit = emitUnit(inner, ['DECLARE'], statements, 'END;').slice(0, -1);
+    lines = unit[1] === 'BEGIN' ? unit.slice(1) : unit;
+  } else {
+    lines = emitStatements(inner, statements, '');
+  }
+  lines = lines.map(line => line.trim()).filter(line => line);
+  const separator = lines.some(line => line.startsWith('--')) ? '\n' : ' ';
+  // Converting one statement can give several, e.g. SELECT INTO #x
+  const block = procedural || lines.filter(line => line.endsWith(';')).length > 1;
+  const sql = procedural ? lines.join(separator) : block ? `BEGIN ${lines.join(separator)} END;` : lines.join(separator).replace(/;$/, '');
+
+  state.issues.push(...inner.issues.map(issue => ({
+    ...issue,
+    lineNumber: node.line,
+    originalCode: state.source.slice(node.start, node.end).split('\n')[0].trim(),
+    description: `In dynamic SQL: ${issue.description}`,
+  })));
+  state.preamble.push(...inner.preamble);
+  return {
+    sql,
+    block,
+    into,
+    returnsRows: !block && !into.length && first.kind === 'Select' && !first.into,
+    objectNames: objectPlaceholders(statements),
+  };
+};
+
+// Translate the SQL text an expression builds. canBind tells whether a concatenated value
+// still has the same value when the statement runs.
+const translateDynamicSql = (
+  state: ConverterState,
+  expr: Expression,
+  node: NodeBase,
+  parameters: DynamicParameter[],
+  canBind: (value: Expression) => boolean
+): DynamicSql => {
+  const pieces = concatenationPieces(expr);
+  const untranslated = (): DynamicSql => ({
+    text: emitExpression(state, expr),
+    bindNames: parameters.map(parameter => parameter.name.slice(1)),
+    values: new Map(),
+    into: [],
+    returnsRows: false,
+    translated: false,
+  });
+  if (!pieces.some(isStringLiteral)) {
+    addIssue(state, node, 'warning', 'The SQL text is not built from string literals here, so it could not be translated.',
+      'Check that the statement it holds at run time is valid Oracle SQL.', 'dynamic-sql');
+    return untranslated();
+  }
+
+  const values = new Map<string, Expression>();
+  const bindValue = (index: number, quoted: boolean): string | undefined => {
+    const value = quoted ? pieces[index] : unwrapConversion(pieces[index]);
+    // Unquoted character data is SQL text, such as a column name or an IN list
+    if ((!quoted && isStringExpression(state, value)) || !canBind(value)) return undefined;
+    const date = quoted ? quotedDateValue(state, value) : undefined;
+    if (date) state.rewrites.set(value, date);
+    const base = value.kind === 'Variable' ? value.name.slice(1) : `b${index}`;
+    let name = base;
+    for (let suffix = 2; values.has(name) || parameters.some(parameter => parameter.name === `@${name.toLowerCase()}`); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    values.set(name, value);
+    return `:${name}`;
+  };
+  const template = pieces.map((piece, index) => (isStringLiteral(piece) ? piece.value : placeholder(index))).join('');
+  const translated = translateSqlText(state, template, node, parameters, bindValue);
+  if (!translated) {
+    addIssue(state, node, 'warning',
+      'The SQL text is too dynamic to analyze; only function names, operators and temporary tables in its string literals were translated.',
+      'Review the statement it builds at run time.', 'dynamic-sql');
+    pieces.filter(isStringLiteral).forEach(piece => state.rewrites.set(piece, quoteString(translateSqlFragment(state, piece.value, parameters))));
+    return untranslated();
+  }
+
+  const text = quoteString(translated.sql)
+    .replace(PLACEHOLDER, (_, index: string) => {
+      const piece = pieces[Number(index)];
+      const value = piece.kind === 'Binary' ? `(${emitExpression(state, piece)})` : emitExpression(state, piece);
+      if (translated.objectNames.has(Number(index))) return `' || DBMS_ASSERT.QUALIFIED_SQL_NAME(${value}) || '`;
+      addIssueOnce(state, `dynamic-concatenation:${piece.start}`, piece, 'warning',
+        `${state.source.slice(piece.start, piece.end)} is concatenated into the SQL text.`,
+        'Pass values as bind variables (USING); check names with DBMS_ASSERT.', 'dynamic-sql');
+      return `' || ${value} || '`;
+    })
+    .replace(/^'' \|\| /, '')
+    .replace(/ \|\| ''$/, '');
+  const names = bindPlaceholders(translated.sql);
+  return {
+    text,
+    // Placeholders of a PL/SQL block are bound by name, those of a SQL statement by position
+    bindNames: translated.block ? [...new Set(names)] : names,
+    values,
+    into: translated.into,
+    returnsRows: translated.returnsRows,
+    translated: true,
+  };
+};
+
+// Where each variable is assigned, in source order; value is set for plain assignments
+const variableAssignments = (statements: Statement[]): Map<string, { node: NodeBase; value?: Expression }[]> => {
+  const assignments = new Map<string, { node: NodeBase; value?: Expression }[]>();
+  const add = (name: string, node: NodeBase, value?: Expression) => {
+    const key = name.toLowerCase();
+    assignments.set(key, [...(assignments.get(key) ?? []), { node, value }]);
+  };
+  visitAst(statements, node => {
+    if (node.kind === 'Set' && node.variable) add(node.variable, node, node.value);
+    if (node.kind === 'Declare') node.variables.forEach(variable => variable.value && add(variable.name, node, variable.value));
+    if (node.kind === 'Select') {
+      node.columns.forEach(item => item.assignTo && add(item.assignTo, node, node.from.length === 0 && !node.where ? item.expression : undefined));
+    }
+    if (node.kind === 'Fetch') node.into.forEach(name => add(name, node));
+    if (node.kind === 'Update') node.set.forEach(assignment => assignment.variable && add(assignment.variable, node));
+    if (node.kind === 'Exec') {
+      node.args.forEach(arg => arg.output && arg.value.kind === 'Variable' && add(arg.value.name, node));
+      if (node.returnVariable) add(node.returnVariable, node);
+    }
+  });
+  return assignments;
+};
+
+// Translate the SQL text of the variables a unit runs as dynamic SQL. Text assigned once, before
+// it runs, is translated as a whole; text built in several steps only piece by piece.
+const planDynamicSql = (state: ConverterState, statements: Statement[], scope: UnitScope) => {
+  const uses = new Map<string, { name: string; exec: ExecStatement; parameters: DynamicParameter[] }>();
+  visitAst(statements, node => {
+    if (node.kind !== 'Exec') return;
+    const dynamic = dynamicStatement(node);
+    if (dynamic?.statement.kind !== 'Variable') return;
+    const key = dynamic.statement.name.toLowerCase();
+    const use = uses.get(key);
+    const parameters = [...(use?.parameters ?? []), ...dynamic.parameters.filter(parameter => !use?.parameters.some(known => known.name === parameter.name))];
+    uses.set(key, { name: dynamic.statement.name, exec: use?.exec ?? node, parameters });
+  });
+  if (uses.size === 0) return;
+  const assignments = variableAssignments(statements);
+  // A concatenated value can be bound when nothing changes it between the assignment and the EXECUTE IMMEDIATE
+  const unchangedAfter = (position: number) => (value: Expression) => {
+    let changed = false;
+    visitAst(value, child => {
+      if (child.kind === 'Variable' && assignments.get(child.name.toLowerCase())?.some(assignment => assignment.node.start > position)) changed = true;
+    });
+    return !changed;
+  };
+  uses.forEach(({ name, exec, parameters }, key) => {
+    const assigned = assignments.get(key) ?? [];
+    const [assignment] = assigned;
+    let selfReference = false;
+    if (assignment?.value) {
+      visitAst(assignment.value, child => {
+        if (child.kind === 'Variable' && child.name.toLowerCase() === key) selfReference = true;
+      });
+    }
+    if (assigned.length === 1 && assignment.value && assignment.node.start < exec.start && !selfReference) {
+      const plan = translateDynamicSql(state, assignment.value, assignment.node, parameters, unchangedAfter(assignment.node.start));
+      state.rewrites.set(assignment.value, plan.text);
+      scope.dynamicSql.set(key, plan);
+      return;
+    }
+    assigned.forEach(({ value }) => {
+      if (!value) return;
+      concatenationPieces(value)
+        .filter(isStringLiteral)
+        .forEach(piece => state.rewrites.set(piece, quoteString(translateSqlFragment(state, piece.value, parameters))));
+    });
+    addIssue(state, exec, 'warning',
+      assigned.length
+        ? `The SQL text in ${name} is built in several steps, which is too dynamic to analyze; only function names, operators and temporary tables in its string literals were translated.`
+        : `The SQL text in ${name} is not built in this unit, so it could not be translated.`,
+      'Review the statement it builds at run time.', 'dynamic-sql');
+    scope.dynamicSql.set(key, {
+      text: variableName(state, name),
+      bindNames: parameters.map(parameter => parameter.name.slice(1)),
+      values: new Map(),
+      into: [],
+      returnsRows: false,
+      translated: false,
+    });
+  });
+};
+
+const emitDynamicSql = (state: ConverterState, exec: ExecStatement, dynamic: DynamicStatement, indent: string): string[] => {
+  const variable = dynamic.statement.kind === 'Variable' ? dynamic.statement.name.toLowerCase() : undefined;
+  const plan = (variable && state.scope?.dynamicSql.get(variable))
+    || translateDynamicSql(state, dynamic.statement, exec, dynamic.parameters, () => true);
+  const text = variable ? emitExpression(state, dynamic.statement) : plan.text;
+  addIssueOnce(state, 'dynamic-sql', exec, 'info',
+    'Dynamic SQL was converted to EXECUTE IMMEDIATE, and the T-SQL in its text was translated.',
+    'Test every dynamic statement; only SQL text built in the same unit is translated.', 'dynamic-sql');
+  if (dynamic.unknownParameters) {
+    addIssue(state, exec, 'warning', 'The sp_executesql parameter list is not a string literal, so its parameters could not be bound.',
+      'Add a USING clause with the parameter values.', 'dynamic-sql');
+  }
+  if (!plan.translated && dynamic.parameters.length > 1) {
+    addIssue(state, exec, 'warning', 'The USING clause lists the parameters in declaration order, but Oracle binds placeholders by position.',
+      'Reorder the USING clause to match the order of the placeholders in the SQL text.', 'dynamic-sql');
+  }
+  if (plan.returnsRows) {
+    addIssue(state, exec, 'warning', 'The dynamic SELECT returns its rows to the client in Sybase, but EXECUTE IMMEDIATE discards them.',
+      'Open a SYS_REFCURSOR for the statement (OPEN ... FOR ... USING) and return it.', 'dynamic-sql');
+  }
+  const argument = (name: string): string => {
+    const parameter = dynamic.parameters.find(candidate => candidate.name === `@${name.toLowerCase()}`);
+    const value = parameter && parameterValue(dynamic, parameter);
+    if (value) return emitExpression(state, value);
+    addIssue(state, exec, 'error', `No value is passed for the parameter @${name} of the dynamic SQL.`, undefined, 'dynamic-sql');
+    return 'NULL';
+  };
+  const using = plan.bindNames.map(name => {
+    const value = plan.values.get(name);
+    if (value) return emitExpression(state, value);
+    const output = dynamic.parameters.some(parameter => parameter.output && parameter.name === `@${name.toLowerCase()}`);
+    return `${output ? 'IN OUT ' : ''}${argument(name)}`;
+  });
+  const into = plan.into.map(name => argument(name.slice(1)));
+  return [`${indent}EXECUTE IMMEDIATE ${text}${into.length ? ` INTO ${into.join(', ')}` : ''}${using.length ? ` USING ${using.join(', ')}` : ''};`];
+};
+
+// ---- Result sets ----
+
+interface ResultSet {
+  select: SelectStatement;
+  // Inside an IF, so only returned on some paths
+  conditional: boolean;
+  inLoop: boolean;
+}
+
+// SELECTs that send their rows to the client, in source order. Subqueries and cursor
+// queries are not statements, so they are not found.
+const findResultSets = (statements: Statement[], conditional = false, inLoop = false): ResultSet[] =>
+  statements.flatMap(statement => {
+    switch (statement.kind) {
+      case 'Select':
+        return statement.into || statement.columns.some(item => item.assignTo) ? [] : [{ select: statement, conditional, inLoop }];
+      case 'Block':
+        return findResultSets(statement.statements, conditional, inLoop);
+      case 'If':
+        return findResultSets(statement.else ? [statement.then, statement.else] : [statement.then], true, inLoop);
+      case 'While':
+        return findResultSets([statement.body], true, true);
+      default:
+        return [];
+    }
+  });
+
+// p_result for OUT parameters and c_result for implicit result cursors, numbered when there are several
+const resultCursorName = (style: ResultSetStyle, index: number, count: number): string =>
+  `${style === 'refcursor' ? 'p' : 'c'}_result${count > 1 ? index + 1 : ''}`;
+
+const resultColumns = (state: ConverterState, select: SelectStatement): string =>
+  select.columns
+    .map(item => {
+      if (item.alias) return item.alias;
+      if (item.expression.kind === 'Column') return item.expression.parts[item.expression.parts.length - 1];
+      return state.source.slice(item.expression.start, item.expression.end);
+    })
+    .join(', ');
+
+// What callers of a procedure have to change: how they read its result sets and its lost
+// return status. Procedures without either keep their contract apart from parameter names.
+const noteCallerContract = (
+  state: ConverterState,
+  procedure: CreateProcedureStatement,
+  name: string,
+  parameters: string[],
+  resultSets: ResultSet[],
+  cursors: string[]
+) => {
+  const changes: string[] = [];
+  if (resultSets.length && state.resultSetStyle === 'refcursor') {
+    changes.push('Result sets are returned through OUT SYS_REFCURSOR parameters added at the end of the parameter list; bind a cursor variable for each and fetch from it.');
+  } else if (resultSets.length) {
+    changes.push('Result sets are returned as implicit results (DBMS_SQL.RETURN_RESULT); the client driver has to read implicit results, which needs Oracle 12c or later.');
+  }
+  resultSets.forEach((result, index) => {
+    const conditional = result.conditional && state.resultSetStyle === 'refcursor' ? ' (only opened on some paths; fetching it otherwise raises ORA-01001)' : '';
+    changes.push(`${cursors[index]}: ${resultColumns(state, result.select)}${conditional}`);
+  });
+  let returnsStatus = false;
+  visitAst(procedure.body, node => {
+    if (node.kind === 'Return' && node.value) returnsStatus = true;
+  });
+  if (returnsStatus) changes.push('The return status is no longer returned; Oracle procedures have no return value.');
+  if (changes.length === 0) return;
+  if (procedure.parameters.length) {
+    changes.push(`Parameters are named p_<name> instead of @<name>${procedure.parameters.some(parameter => parameter.output) ? ', and OUTPUT parameters are IN OUT' : ''}.`);
+  }
+  const sybaseParameters = procedure.parameters.map(parameter => `${parameter.name} ${parameter.dataType.text}${parameter.output ? ' OUTPUT' : ''}`);
+  state.callerContracts.push({
+    procedure: name,
+    sybaseSignature: `${procedure.name.join('.')}(${sybaseParameters.join(', ')})`,
+    oracleSignature: `${name}(${parameters.map(parameter => parameter.trim()).join(', ')})`,
+    changes,
+  });
+};
+
+// ---- Triggers ----
+
+// Sybase triggers fire once per statement and see its rows in the inserted and deleted
+// pseudo-tables. A trigger that handles those rows one at a time becomes a row-level trigger
+// on :NEW and :OLD. One that handles them as a set, or that reads its own table, becomes a
+// compound trigger that collects the rows and runs the body after the statement.
+type TriggerStyle = 'statement' | 'row' | 'compound';
+
+const PSEUDO_ROWS: Record<string, string> = { inserted: ':NEW', deleted: ':OLD' };
+
+// Events whose rows appear in each pseudo-table
+const PSEUDO_EVENTS: Record<string, CreateTriggerStatement['events']> = {
+  inserted: ['insert', 'update'],
+  deleted: ['update', 'delete'],
+};
+
+const EVENT_PREDICATES: Record<CreateTriggerStatement['events'][number], string> = {
+  insert: 'INSERTING',
+  update: 'UPDATING',
+  delete: 'DELETING',
+};
+
+const AGGREGATE_FUNCTIONS = new Set(['count', 'count_big', 'sum', 'avg', 'min', 'max']);
+
+// Statements after which @@rowcount no longer counts the rows of the triggering statement
+const ROW_COUNTING_KINDS = new Set(['Select', 'Insert', 'Update', 'Delete', 'Truncate']);
+
+const TRIGGER_ROW_COUNT = 'v_trigger_rows';
+
+const isPseudoTable = (source: TableSource): source is TableReference =>
+  source.kind === 'TableRef' && source.name.length === 1 && baseName(source.name) in PSEUDO_ROWS;
+
+const pseudoAlias = (source: TableReference): string => (source.alias || baseName(source.name)).toLowerCase();
+
+// Pseudo-tables anywhere in a FROM clause, including both sides of joins
+const pseudoSources = (from: TableSource[]): TableReference[] =>
+  from.flatMap(source => {
+    if (source.kind === 'Join') return pseudoSources([source.left, source.right]);
+    return isPseudoTable(source) ? [source] : [];
+  });
+
+// Register the pseudo-tables of a query for the columns emitted inside it; returns the function that
+// restores the enclosing query's registrations. "otherSources" is set for UPDATE and DELETE, whose
+// target table is a source next to the FROM clause.
+const enterPseudoRows = (state: ConverterState, from: TableSource[], otherSources = false): (() => void) => {
+  const scope = state.scope;
+  const previous = scope?.pseudoRows;
+  if (!scope || !previous) return () => undefined;
+  const aliases = new Map(previous.aliases);
+  // An alias of a real table hides a pseudo-table alias of the enclosing query
+  sourcesInScope(state, from).forEach(source => aliases.delete(source.alias));
+  const pseudo = pseudoSources(from);
+  pseudo.forEach(source => aliases.set(pseudoAlias(source), PSEUDO_ROWS[baseName(source.name)]));
+  let unqualified: PseudoRows['unqualified'];
+  if (pseudo.length === 1) {
+    const row = PSEUDO_ROWS[baseName(pseudo[0].name)];
+    const alone = !otherSources && from.length === 1 && from[0] === pseudo[0];
+    const table = findTable(state.schema, scope.trigger!.table);
+    if (alone) unqualified = { row };
+    else if (table) unqualified = { row, table };
+  }
+  scope.pseudoRows = { aliases, unqualified };
+  return () => {
+    scope.pseudoRows = previous;
+  };
+};
+
+// A source without the pseudo-tables it inner joins, and the ON conditions of those joins
+const withoutPseudoTables = (source: TableSource): { source?: TableSource; on: Expression[] } => {
+  if (isPseudoTable(source)) return { on: [] };
+  // An outer join keeps its pseudo-table, which becomes DUAL
+  if (source.kind !== 'Join' || (source.joinType !== 'inner' && source.joinType !== 'cross')) return { source, on: [] };
+  const left = withoutPseudoTables(source.left);
+  const right = withoutPseudoTables(source.right);
+  const on = [...left.on, ...right.on];
+  if (left.source && right.source) return { source: { ...source, left: left.source, right: right.source }, on };
+  return { source: left.source ?? right.source, on: source.on ? [...on, source.on] : on };
+};
+
+// The pseudo-tables of a row-level trigger are not sources of the query; their columns become :NEW and :OLD.
+// The condition of a join with them, such as "inserted i join deleted d on i.id = d.id", moves to WHERE.
+const rowSources = (state: ConverterState, from: TableSource[], where: Expression | undefined): JoinedSources => {
+  if (!state.scope?.pseudoRows) return { from, where };
+  const sources = from.map(withoutPseudoTables);
+  return {
+    from: sources.flatMap(source => source.source ? [source.source] : []),
+    where: conjunction([...sources.flatMap(source => source.on), ...conjuncts(where)]),
+  };
+};
+
+const emitPseudoTable = (state: ConverterState, source: TableReference): string => {
+  const copy = state.scope?.pseudoTables?.get(baseName(source.name));
+  // A pseudo-table outer joined in a row-level trigger leaves its single row's columns to the ON condition
+  if (!copy) return 'DUAL';
+  return `${copy} ${formatIdentifier(state, source.alias || baseName(source.name))}`;
+};
+
+const emitColumn = (state: ConverterState, parts: string[]): string => {
+  const rows = state.scope?.pseudoRows;
+  const name = parts[parts.length - 1];
+  if (rows && parts.length > 1) {
+    const row = rows.aliases.get(parts[parts.length - 2].toLowerCase());
+    if (row) return `${row}.${formatIdentifier(state, name)}`;
+  }
+  const unqualified = rows?.unqualified;
+  if (unqualified && parts.length === 1 && (!unqualified.table || findColumn(unqualified.table, name))) {
+    return `${unqualified.row}.${formatIdentifier(state, name)}`;
+  }
+  return formatColumnName(state, parts);
+};
+
+// Sybase update(col) is also true for every column of an INSERT
+const emitColumnUpdated = (state: ConverterState, expr: FunctionCallExpression): string => {
+  const events = state.scope!.trigger!.events;
+  const column = expr.args[0];
+  if (column?.kind !== 'Column') {
+    addIssue(state, expr, 'warning', 'update() was expected to name a column.', undefined, 'trigger');
+    return 'UPDATING';
+  }
+  const name = column.parts[column.parts.length - 1];
+  const updating = `UPDATING(${quoteString(storedIdentifier(formatIdentifier(state, name)))})`;
+  if (!events.includes('insert')) return updating;
+  return events.includes('update') ? `(INSERTING OR ${updating})` : 'INSERTING';
+};
+
+const containsAggregate = (expr: Expression): boolean => {
+  let found = false;
+  visitAst(expr, node => {
+    if (node.kind === 'FunctionCall' && AGGREGATE_FUNCTIONS.has(node.name.toLowerCase())) found = true;
+  });
+  return found;
+};
+
+const hasUnqualifiedColumn = (node: SelectStatement | UpdateStatement | DeleteStatement, matches: (name: string) => boolean): boolean => {
+  let found = false;
+  visitAst(node, child => {
+    if (child.kind === 'Column' && child.parts.length === 1 && matches(child.parts[0])) found = true;
+  });
+  return found;
+};
+
+// Why the body has to see the triggering rows as a set rather than one at a time
+const setBasedReasons = (state: ConverterState, trigger: CreateTriggerStatement, statements: Statement[]): string[] => {
+  const reasons = new Set<string>();
+  const table = findTable(state.schema, trigger.table);
+  visitAst(statements, node => {
+    if (node.kind !== 'Select' && node.kind !== 'Update' && node.kind !== 'Delete') return;
+    const pseudo = pseudoSources(node.from);
+    if (pseudo.length === 0) return;
+    if (node.kind === 'Select') {
+      const aliases = new Set(pseudo.map(pseudoAlias));
+      if (node.groupBy.length || node.columns.some(item => containsAggregate(item.expression))) {
+        reasons.add('it aggregates the rows of inserted or deleted');
+      }
+      if (node.columns.some(item => item.expression.kind === 'Star' &&
+        (item.expression.qualifier.length === 0 || aliases.has(baseName(item.expression.qualifier))))) {
+        reasons.add('it selects * from inserted or deleted');
+      }
+    }
+    const alone = node.kind === 'Select' && node.from.length === 1 && isPseudoTable(node.from[0]);
+    // Unqualified columns belong to a pseudo-table when the triggering table has them
+    const ambiguous = (column: string) => !table || (pseudo.length > 1 && !!findColumn(table, column));
+    if (!alone && hasUnqualifiedColumn(node, ambiguous)) {
+      reasons.add('it joins inserted or deleted to other tables using unqualified columns');
+    }
+  });
+  return [...reasons];
+};
+
+// Whether the body reads @@rowcount before running a statement of its own
+const readsTriggerRowCount = (statements: Statement[]): boolean => {
+  for (const statement of statements) {
+    let reads = false;
+    visitAst(statement, node => {
+      if (node.kind === 'GlobalVariable' && node.name.toLowerCase() === '@@rowcount') reads = true;
+    });
+    if (reads) return true;
+    if (ROW_COUNTING_KINDS.has(statement.kind)) return false;
+  }
+  return false;
+};
+
+const usedPseudoTables = (statements: Statement[]): Set<string> => {
+  const used = new Set<string>();
+  visitAst(statements, node => {
+    if (node.kind === 'TableRef' && isPseudoTable(node)) used.add(baseName(node.name));
+  });
+  return used;
+};
+
+// Pick the trigger style and report what Oracle does differently. A row-level trigger that reads
+// or changes its own table fails with ORA-04091, so such triggers always become compound triggers.
+const chooseTriggerStyle = (state: ConverterState, trigger: CreateTriggerStatement, statements: Statement[]): TriggerStyle => {
+  const readsRowCount = readsTriggerRowCount(statements);
+  if (usedPseudoTables(statements).size === 0 && !readsRowCount) return 'statement';
+  const reasons = setBasedReasons(state, trigger, statements);
+  if (readsRowCount) reasons.unshift('it reads @@rowcount');
+  const table = formatObjectName(state, trigger.table);
+
+  if (trigger.timing === 'instead of') {
+    if (reasons.length) {
+      addIssue(state, trigger, 'warning', `Oracle INSTEAD OF triggers fire once per row, but this trigger handles the rows as a set: ${reasons.join('; ')}.`,
+        'Rewrite the body for a single row using :NEW and :OLD.', 'trigger');
+    }
+    return 'row';
+  }
+
+  const name = baseName(trigger.table);
+  let reads = false;
+  let changes = false;
+  let calls = false;
+  visitAst(statements, node => {
+    if (node.kind === 'TableRef' && baseName(node.name) === name) reads = true;
+    if ((node.kind === 'Insert' || node.kind === 'Update' || node.kind === 'Delete' || node.kind === 'Truncate') && baseName(changedTable(node)) === name) changes = true;
+    if (node.kind === 'Exec' && !node.dynamic) calls = true;
+  });
+  if (changes) {
+    addIssue(state, trigger, 'warning', `The trigger changes ${table}, its own table. Sybase does not fire a trigger again for its own changes by default, but Oracle does.`,
+      `Make sure the change does not fire the trigger endlessly, or set the values through :NEW in a BEFORE EACH ROW trigger.`, 'trigger');
+  }
+  if (reads || changes) {
+    addIssue(state, trigger, 'warning',
+      `The trigger reads or changes ${table}, the table it is defined on. A row-level trigger doing so fails with ORA-04091 (table is mutating), so the body runs in the AFTER STATEMENT section of a compound trigger.`,
+      'Check that the body does not depend on running once per row.', 'trigger');
+    return 'compound';
+  }
+  if (reasons.length) {
+    addIssue(state, trigger, 'info', `The trigger was converted to a compound trigger because ${reasons.join(' and ')}.`, undefined, 'trigger');
+    return 'compound';
+  }
+  if (calls) {
+    addIssue(state, trigger, 'warning', `The trigger became a row-level trigger and calls procedures. If they read or change ${table}, Oracle raises ORA-04091 (table is mutating).`,
+      'Check the called procedures, and convert the trigger to a compound trigger if they use the table.', 'trigger');
+  }
+  addIssue(state, trigger, 'info', 'The trigger was converted to a row-level trigger; the columns of inserted and deleted became :NEW and :OLD.', undefined, 'trigger');
+  return 'row';
+};
+
+// AFTER EACH ROW copies the rows into one global temporary table per pseudo-table, and
+// AFTER STATEMENT runs the body against them under the pseudo-table names
+const emitCompoundTrigger = (state: ConverterState, trigger: CreateTriggerStatement, statements: Statement[], scope: UnitScope): string[] => {
+  const name = formatObjectName(state, trigger.name);
+  const table = formatObjectName(state, trigger.table);
+  const columns = findTable(state.schema, trigger.table)?.columns.map(column => formatIdentifier(state, column.name));
+  const used = usedPseudoTables(statements);
+  // Without the columns the body would run against empty copies of inserted and deleted
+  if (used.size && !columns) {
+    addIssue(state, trigger, 'error', `The columns of ${table} are unknown, so the rows of inserted and deleted could not be collected and the trigger was not converted.`,
+      `Upload the CREATE TABLE of ${table} and convert the file again.`, 'trigger');
+    return [`-- CREATE OR REPLACE TRIGGER ${name} ON ${table}: not converted`];
+  }
+
+  const clear: string[] = [];
+  const collect: string[] = [];
+  scope.pseudoTables = new Map();
+  if (readsTriggerRowCount(statements)) {
+    scope.triggerRows = TRIGGER_ROW_COUNT;
+    scope.declarations.push(`${TRIGGER_ROW_COUNT} PLS_INTEGER := 0;`);
+    collect.push(`${TRIGGER_ROW_COUNT} := ${TRIGGER_ROW_COUNT} + 1;`);
+  }
+  Object.keys(PSEUDO_ROWS).filter(pseudo => used.has(pseudo)).forEach(pseudo => {
+    const copy = `tt_${baseName(trigger.name)}_${pseudo === 'inserted' ? 'ins' : 'del'}`;
+    scope.pseudoTables!.set(pseudo, copy);
+    state.preamble.push(`CREATE GLOBAL TEMPORARY TABLE ${copy} ON COMMIT DELETE ROWS AS`, `SELECT * FROM ${table} WHERE 1 = 0;`, '');
+    clear.push(`DELETE FROM ${copy};`);
+    const events = trigger.events.filter(event => PSEUDO_EVENTS[pseudo].includes(event));
+    // The pseudo-table stays empty for the other events
+    if (events.length === 0) return;
+    const row = PSEUDO_ROWS[pseudo];
+    const insert = `INSERT INTO ${copy} (${columns!.join(', ')}) VALUES (${columns!.map(column => `${row}.${column}`).join(', ')});`;
+    if (events.length === trigger.events.length) collect.push(insert);
+    else collect.push(`IF ${events.map(event => EVENT_PREDICATES[event]).join(' OR ')} THEN`, `${INDENT}${insert}`, 'END IF;');
+  });
+
+  const body = emitUnitBody(state, statements, scope, INDENT + INDENT);
+  const hasStatements = body.some(line => line.trim() && !line.trim().startsWith('--'));
+  const section = (timing: string, lines: string[]) => [
+    `${INDENT}${timing} IS`,
+    `${INDENT}BEGIN`,
+    ...(lines.length ? lines : [`${INDENT}NULL;`]).map(line => `${INDENT}${INDENT}${line}`),
+    `${INDENT}END ${timing};`,
+  ];
+  return [
+    `CREATE OR REPLACE TRIGGER ${name}`,
+    `FOR ${trigger.events.map(event => event.toUpperCase()).join(' OR ')} ON ${table}`,
+    'COMPOUND TRIGGER',
+    ...scope.declarations.map(line => `${INDENT}${line}`),
+    ...(clear.length ? section('BEFORE STATEMENT', clear) : []),
+    ...(collect.length ? section('AFTER EACH ROW', collect) : []),
+    `${INDENT}AFTER STATEMENT IS`,
+    `${INDENT}BEGIN`,
+    ...body,
+    ...(hasStatements ? [] : [`${INDENT}${INDENT}NULL;`]),
+    `${INDENT}END AFTER STATEMENT;`,
+    `END ${name};`,
+    '/',
+  ];
+};
+
+// ---- Program units ----
+
+// Catalog columns that variables receive through SELECT assignments and FETCH ... INTO.
+// Variables filled from several different columns, or from expressions, map to null.
+const collectColumnSources = (state: ConverterState, statements: Statement[]): Map<string, ResolvedColumn | null> => {
+  const sources = new Map<string, ResolvedColumn | null>();
+  if (!state.schema) return sources;
+  const record = (variable: string, resolved?: ResolvedColumn) => {
+    const key = variable.toLowerCase();
+    const previous = sources.get(key);
+    const agrees = previous === undefined || (previous !== null && resolved?.column === previous.column);
+    sources.set(key, resolved && agrees ? resolved : null);
+  };
+  const cursors = new Map<string, SelectStatement>();
+  visitAst(statements, node => {
+    if (node.kind === 'DeclareCursor') cursors.set(node.name.toLowerCase(), node.query);
+  });
+  visitAst(statements, node => {
+    if (node.kind === 'Select') {
+      node.columns.forEach(item => item.assignTo && record(item.assignTo, resolveColumn(state, item.expression, node.from)));
+    }
+    if (node.kind === 'Fetch') {
+      const query = cursors.get(node.cursor.toLowerCase());
+      node.into.forEach((variable, index) => {
+        const item = query?.columns[index];
+        record(variable, query && item && !query.columns.some(column => column.expression.kind === 'Star')
+          ? resolveColumn(state, item.expression, query.from)
+          : undefined);
+      });
+    }
+  });
+  return sources;
+};
+
+// Hoist DECLAREs and cursor declarations into the declaration section of the unit
+const collectDeclarations = (state: ConverterState, statements: Statement[], scope: UnitScope) => {
+  const sources = collectColumnSources(state, statements);
+  visitAst(statements, node => {
+    if (node.kind === 'Declare') {
+      node.variables.forEach(variable => {
+        const key = variable.name.toLowerCase();
+        const source = sources.get(key) ?? undefined;
+        scope.variableTypes.set(key, source && !oracleDataType(variable.dataType, state.typeMappings, state.schema) ? source.column.dataType : variable.dataType);
+        if (scope.declared.has(key)) return;
+        scope.declared.add(key);
+        scope.declarations.push(`${variableName(state, variable.name)} ${variableType(state, variable.name, variable.dataType, node, source)};`);
+      });
+    }
+  });
+  // Cursor queries are emitted once the variable types are known
+  const queries = new Map<string, string>();
+  visitAst(statements, node => {
+    if (node.kind === 'DeclareCursor') {
+      const name = formatIdentifier(state, node.name);
+      const key = node.name.toLowerCase();
+      const text = state.source.slice(node.query.start, node.query.end).replace(/\s+/g, ' ').toLowerCase();
+      if (queries.has(key)) {
+        if (queries.get(key) !== text) {
+          addIssue(state, node, 'warning', `Cursor ${node.name} is declared again with a different query; Oracle cursors are declared once, so the first query is used.`,
+            'Give the second cursor a name of its own.');
+        }
+        return;
+      }
+      queries.set(key, text);
+      scope.cursors.push(name);
+      const forUpdate = node.forUpdate || node.query.forUpdate;
+      if (forUpdate) {
+        addIssueOnce(state, 'cursor-for-update', node, 'info', 'A FOR UPDATE cursor locks all of its rows when it is opened, not as they are fetched.',
+          undefined, 'transaction');
+      }
+      // Records need a name for every column
+      const fields = scope.cursorFields.get(key);
+      const columns = node.query.columns.map((item, index) => {
+        const field = fields?.[index];
+        const named = item.expression.kind === 'Column' && item.expression.parts[item.expression.parts.length - 1].toLowerCase() === field?.toLowerCase();
+        return field && !item.alias && !named && item.expression.kind !== 'Star' ? { ...item, alias: field } : item;
+      });
+      const query = emitQuery(state, { ...node.query, columns, forUpdate });
+      scope.declarations.push(...block([`CURSOR ${name} IS`, ...query], ''));
+      if (scope.bulkCursors.has(key)) {
+        const rows = formatIdentifier(state, `${node.name}_rows`);
+        scope.declarations.push(`TYPE ${rows}_t IS TABLE OF ${name}%ROWTYPE;`, `${rows} ${rows}_t;`);
+      }
+    }
+  });
+};
+
+const newScope = (): UnitScope => ({
+  declarations: [],
+  declared: new Set(),
+  parameters: new Set(),
+  variableTypes: new Map(),
+  cursors: [],
+  identityReferences: 0,
+  transactionDepth: 0,
+  dynamicSql: new Map(),
+  cursorLoops: new Map(),
+  replacedStatements: new Set(),
+  cursorFields: new Map(),
+  bulkCursors: new Set(),
+  closedCursors: new Set(),
+  existsChecks: new Map(),
+  existsVariables: 0,
+});
+
+// Emit the statements of a unit, collecting its declarations into the scope
+const emitUnitBody = (state: ConverterState, statements: Statement[], scope: UnitScope, indent: string): string[] => {
+  state.scope = scope;
+  planCursorLoops(state, statements, scope);
+  collectDeclarations(state, statements, scope);
+  planDynamicSql(state, statements, scope);
+  visitAst(statements, node => {
+    if ((node.kind === 'GlobalVariable' || node.kind === 'FunctionCall') && isIdentityReference(node)) scope.identityReferences++;
+  });
+  const body = emitStatements(state, statements, indent);
+  state.scope = undefined;
+  return body;
+};
+
+// Emit a PL/SQL unit: header, hoisted declarations and body
+const emitUnit = (state: ConverterState, header: string[], statements: Statement[], end: string, scope = newScope()): string[] => {
+  const body = emitUnitBody(state, statements, scope, INDENT);
+  const hasStatements = body.some(line => line.trim() && !line.trim().startsWith('--'));
+  return [
+    ...header,
+    ...scope.declarations.map(line => `${INDENT}${line}`),
+    'BEGIN',
+    ...body,
+    ...(hasStatements ? [] : [`${INDENT}NULL;`]),
+    end,
+    '/',
+  ];
+};
+
+// A procedure body written as BEGIN ... END is a single block; unwrap it
+const unwrapBody = (statements: Statement[]): Statement[] =>
+  statements.length === 1 && statements[0].kind === 'Block' ? statements[0].statements : statements;
+
+// The lower-case names of the variables a unit assigns to
+const assignedVariables = (statements: Statement[]): Set<string> => {
+  const assigned = new Set<string>();
+  visitAst(statements, node => {
+    if (node.kind === 'Set' && node.variable) assigned.add(node.variable.toLowerCase());
+    if (node.kind === 'Select') node.columns.forEach(item => item.assignTo && assigned.add(item.assignTo.toLowerCase()));
+    if (node.kind === 'Fetch') node.into.forEach(name => assigned.add(name.toLowerCase()));
+    if (node.kind === 'Exec') {
+      node.args.forEach(arg => arg.output && arg.value.kind === 'Variable' && assigned.add(arg.value.name.toLowerCase()));
+      if (node.returnVariable) assigned.add(node.returnVariable.toLowerCase());
+    }
+  });
+  return assigned;
+};
+
+// Sybase parameters can be assigned like locals, but Oracle IN parameters cannot (PLS-00363). An
+// assigned input parameter is copied into a local, which the body uses in its place.
+const copyAssignedParameters = (state: ConverterState, scope: UnitScope, unit: NodeBase, parameters: ProcedureParameter[], body: Statement[]) => {
+  const assigned = assignedVariables(body);
+  parameters.filter(parameter => !parameter.output && assigned.has(parameter.name.toLowerCase())).forEach(parameter => {
+    const key = parameter.name.toLowerCase();
+    const name = variableName(state, parameter.name);
+    scope.parameters.delete(key);
+    scope.declared.add(key);
+    scope.declarations.push(`${variableName(state, parameter.name)} ${convertDataType(state, parameter.dataType, unit)} := ${name};`);
+  });
+};
+
+const emitProcedure = (state: ConverterState, procedure: CreateProcedureStatement): string[] => {
+  const scope = newScope();
+  procedure.parameters.forEach(parameter => {
+    scope.parameters.add(parameter.name.toLowerCase());
+    scope.variableTypes.set(parameter.name.toLowerCase(), parameter.dataType);
+  });
+  state.scope = scope;
+  const parameters = procedure.parameters.map(parameter => {
+    const mode = parameter.output ? 'IN OUT' : 'IN';
+    const name = variableName(state, parameter.name);
+    // OUT and IN OUT parameters cannot have a default (PLS-00230)
+    if (parameter.default && parameter.output) {
+      addIssue(state, procedure, 'warning', `Output parameter ${parameter.name} has a default, which Oracle does not allow for IN OUT parameters; the default was dropped.`,
+        `Pass a variable for ${name} in every call, or assign the default to it at the start of ${formatObjectName(state, procedure.name)}.`);
+    }
+    const defaultValue = parameter.default && !parameter.output ? ` DEFAULT ${emitExpression(state, parameter.default)}` : '';
+    return `${INDENT}${name} ${mode} ${convertDataType(state, parameter.dataType, procedure, true)}${defaultValue}`;
+  });
+  copyAssignedParameters(state, scope, procedure, procedure.parameters, unwrapBody(procedure.body));
+  state.scope = undefined;
+  const name = formatObjectName(state, procedure.name);
+
+  const resultSets = findResultSets(unwrapBody(procedure.body));
+  const cursors = resultSets.map((_, index) => resultCursorName(state.resultSetStyle, index, resultSets.length));
+  scope.resultCursors = new Map(resultSets.map((result, index) => [result.select, cursors[index]]));
+  if (state.resultSetStyle === 'refcursor') {
+    parameters.push(...cursors.map(cursor => `${INDENT}${cursor} OUT SYS_REFCURSOR`));
+  } else {
+    scope.declarations.push(...cursors.map(cursor => `${cursor} SYS_REFCURSOR;`));
+  }
+  resultSets.filter(result => result.inLoop).forEach(result => {
+    addIssue(state, result.select, 'warning', 'This result set is returned once per loop iteration in Sybase; the cursor only returns the rows of the last iteration.',
+      'Collect the rows of all iterations in a temporary table and return them with a single cursor.');
+  });
+  noteCallerContract(state, procedure, name, parameters, resultSets, cursors);
+
+  const header = parameters.length
+    ? [`CREATE OR REPLACE PROCEDURE ${name} (`, parameters.join(',\n'), ') AS']
+    : [`CREATE OR REPLACE PROCEDURE ${name} AS`];
+  noteUnchainedChanges(state, procedure, name);
+  return emitUnit(state, header, unwrapBody(procedure.body), `END ${name};`, scope);
+};
+
+const emitFunction = (state: ConverterState, func: CreateFunctionStatement): string[] => {
+  const scope: UnitScope = { ...newScope(), returnsValue: true };
+  func.parameters.forEach(parameter => {
+    scope.parameters.add(parameter.name.toLowerCase());
+    scope.variableTypes.set(parameter.name.toLowerCase(), parameter.dataType);
+  });
+  state.scope = scope;
+  const parameters = func.parameters.map(parameter => {
+    const defaultValue = parameter.default ? ` DEFAULT ${emitExpression(state, parameter.default)}` : '';
+    return `${INDENT}${variableName(state, parameter.name)} IN ${convertDataType(state, parameter.dataType, func, true)}${defaultValue}`;
+  });
+  copyAssignedParameters(state, scope, func, func.parameters, unwrapBody(func.body));
+  state.scope = undefined;
+  const name = formatObjectName(state, func.name);
+  const returns = convertDataType(state, func.returns, func, true);
+  const header = parameters.length
+    ? [`CREATE OR REPLACE FUNCTION ${name} (`, parameters.join(',\n'), `) RETURN ${returns} AS`]
+    : [`CREATE OR REPLACE FUNCTION ${name} RETURN ${returns} AS`];
+  return emitUnit(state, header, unwrapBody(func.body), `END ${name};`, scope);
+};
+
+// Sybase procedures usually run in unchained mode, where every statement outside an explicit
+// transaction commits on its own
+const noteUnchainedChanges = (state: ConverterState, procedure: CreateProcedureStatement, name: string) => {
+  let changesData = false;
+  let usesTransactions = false;
+  visitAst(procedure.body, node => {
+    if ((node.kind === 'Insert' || node.kind === 'Update' || node.kind === 'Delete') && !isTempTable(changedTable(node))) changesData = true;
+    if (node.kind === 'Transaction') usesTransactions = true;
+  });
+  if (!changesData || usesTransactions) return;
+  addIssue(state, procedure, 'info',
+    `${name} changes data without BEGIN TRANSACTION. In Sybase's default unchained mode each statement commits on its own; in Oracle nothing is committed until the caller commits.`,
+    'Make sure the caller commits, or add a COMMIT at the end of the procedure.', 'transaction');
+};
+
+const emitTrigger = (state: ConverterState, trigger: CreateTriggerStatement): string[] => {
+  const statements = unwrapBody(trigger.body);
+  const scope: UnitScope = { ...newScope(), trigger };
+  const style = chooseTriggerStyle(state, trigger, statements);
+  if (style === 'compound') return emitCompoundTrigger(state, trigger, statements, scope);
+  const events = trigger.events.map(event => event.toUpperCase()).join(' OR ');
+  const timing = trigger.timing === 'instead of' ? 'INSTEAD OF' : 'AFTER';
+  const header = [`CREATE OR REPLACE TRIGGER ${formatObjectName(state, trigger.name)}`, `${timing} ${events} ON ${formatObjectName(state, trigger.table)}`];
+  if (style === 'row') {
+    header.push('FOR EACH ROW');
+    scope.pseudoRows = { aliases: new Map() };
+  }
+  const lines = emitUnit(state, [...header, 'DECLARE'], statements, 'END;', scope);
+  // An empty declaration section is allowed, but drop the keyword when there is nothing to declare
+  return lines[header.length + 1] === 'BEGIN' ? [...lines.slice(0, header.length), ...lines.slice(header.length + 1)] : lines;
+};
+
+const emitView = (state: ConverterState, view: CreateViewStatement): string[] => {
+  const columns = view.columns.length ? ` (${view.columns.map(name => formatIdentifier(state, name)).join(', ')})` : '';
+  const query = emitQuery(state, view.query);
+  if (view.withCheckOption) query.push('WITH CHECK OPTION');
+  query[query.length - 1] += ';';
+  return [`CREATE OR REPLACE VIEW ${formatObjectName(state, view.name)}${columns} AS`, ...query];
+};
+
+const emitCreateTable = (state: ConverterState, table: CreateTableStatement): string[] => {
+  const temporary = isTempTable(table.name);
+  // A sequence and trigger are only created next to permanent tables in the schema script
+  const sequenceStyle = state.identityStyle === 'sequence' && !temporary && !state.scope;
+  const definitions = table.columns.map(column => {
+    const oracleType = convertDataType(state, column.dataType, column);
+    const parts = [formatIdentifier(state, column.name), oracleType];
+    if (column.identity) parts.push(sequenceStyle ? 'NOT NULL' : 'GENERATED BY DEFAULT AS IDENTITY');
+    if (column.default) parts.push(`DEFAULT ${emitExpression(state, column.default)}`);
+    // Sybase columns are NOT NULL unless declared otherwise
+    if (!column.identity && column.nullable !== true) parts.push('NOT NULL');
+    if (column.primaryKey) parts.push('PRIMARY KEY');
+    if (column.unique) parts.push('UNIQUE');
+    if (column.references) {
+      const columns = column.references.columns.length ? ` (${column.references.columns.map(name => formatIdentifier(state, name)).join(', ')})` : '';
+      parts.push(`REFERENCES ${formatObjectName(state, column.references.table)}${columns}`);
+    }
+    if (column.check) parts.push(`CHECK (${emitExpression(state, column.check)})`);
+    if (valueType(state, column.dataType).name === 'bit' && oracleType.startsWith('NUMBER')) parts.push(`CHECK (${formatIdentifier(state, column.name)} IN (0, 1))`);
+    return parts.join(' ');
+  });
+  const constraints = table.constraints.map(constraint => {
+    const name = constraint.name ? `CONSTRAINT ${formatIdentifier(state, constraint.name)} ` : '';
+    const columns = `(${constraint.columns.map(name => formatIdentifier(state, name)).join(', ')})`;
+    switch (constraint.constraintType) {
+      case 'primaryKey':
+        return `${name}PRIMARY KEY ${columns}`;
+      case 'unique':
+        return `${name}UNIQUE ${columns}`;
+      case 'foreignKey': {
+        const references = constraint.references!;
+        const referenced = references.columns.length ? ` (${references.columns.map(name => formatIdentifier(state, name)).join(', ')})` : '';
+        return `${name}FOREIGN KEY ${columns} REFERENCES ${formatObjectName(state, references.table)}${referenced}`;
+      }
+      case 'check':
+        return `${name}CHECK (${constraint.check ? emitExpression(state, constraint.check) : '1 = 1'})`;
+    }
+  });
+  const head = temporary ? 'CREATE GLOBAL TEMPORARY TABLE' : 'CREATE TABLE';
+  const lines = [
+    `${head} ${formatObjectName(state, table.name)} (`,
+    [...definitions, ...constraints].map(line => `${INDENT}${line}`).join(',\n'),
+    temporary ? ') ON COMMIT PRESERVE ROWS;' : ');',
+  ];
+  const identity = table.columns.find(column => column.identity);
+  if (!sequenceStyle || !identity) return lines;
+  // Explicit values, such as rows loaded from Sybase, are kept; only missing ones are numbered
+  const column = formatIdentifier(state, identity.name);
+  const sequence = identitySequenceName(state, table.name);
+  return [
+    ...lines,
+    '',
+    `CREATE SEQUENCE ${sequence} START WITH 1 INCREMENT BY 1;`,
+    '',
+    `CREATE OR REPLACE TRIGGER ${identityTriggerName(state, table.name)}`,
+    `BEFORE INSERT ON ${formatObjectName(state, table.name)}`,
+    'FOR EACH ROW',
+    `WHEN (NEW.${column} IS NULL)`,
+    'BEGIN',
+    `${INDENT}:NEW.${column} := ${sequence}.NEXTVAL;`,
+    'END;',
+    '/',
+  ];
+};
+
+// Statements that need a PL/SQL block when they appear outside of a procedure
+const PROCEDURAL_KINDS = new Set([
+  'Declare', 'DeclareCursor', 'Open', 'Close', 'Deallocate', 'Fetch', 'If', 'While', 'Block', 'Return', 'Print',
+  'Raiserror', 'Exec', 'Goto', 'Label', 'Break', 'Continue',
+]);
+
+const needsPlsql = (statement: Statement): boolean => {
+  // sp_addtype only leaves a comment, and bindings become ALTER TABLE statements
+  if (statement.kind === 'Exec' && (userTypeDefinition(statement) || objectBinding(statement))) return false;
+  if (PROCEDURAL_KINDS.has(statement.kind)) return true;
+  if (statement.kind === 'Set') return !!statement.variable;
+  if (statement.kind === 'Select' && statement.columns.some(item => item.assignTo)) return true;
+  return usesVariables(statement);
+};
+
+const UNIT_KINDS = new Set([
+  'CreateProcedure', 'CreateFunction', 'CreateTrigger', 'CreateView', 'CreateTable', 'CreateIndex', 'CreateSequence', 'CreateDefault',
+  'CreateRule', 'Drop', 'Use', 'Unknown',
+]);
+
+// Top-level statements: program units are emitted as is, and runs of loose statements
+// become either plain SQL or an anonymous block when they need PL/SQL
+const emitBatch = (state: ConverterState, statements: Statement[]): string[] => {
+  const output: string[] = [];
+  let pending: Statement[] = [];
+
+  // Temporary tables discovered while emitting a unit have to exist before it
+  const pushUnit = (lines: string[]) => {
+    const preamble = state.preamble.splice(0);
+    if (lines.length || preamble.length) output.push(...preamble, ...lines, '');
+  };
+
+  const flushPending = () => {
+    if (pending.length === 0) return;
+    const loose = pending;
+    pending = [];
+    if (loose.some(needsPlsql)) {
+      const unit = emitUnit(state, ['DECLARE'], loose, 'END;');
+      // Drop the DECLARE keyword when nothing was declared
+      pushUnit(unit[1] === 'BEGIN' ? unit.slice(1) : unit);
+    } else {
+      pushUnit(emitStatements(state, loose, ''));
+    }
+  };
+
+  statements.forEach(statement => {
+    if (!UNIT_KINDS.has(statement.kind) && !isDropGuard(state, statement)) {
+      pending.push(statement);
+      return;
+    }
+    flushPending();
+    switch (statement.kind) {
+      case 'CreateProcedure':
+        pushUnit(emitProcedure(state, statement));
+        break;
+      case 'CreateFunction':
+        pushUnit(emitFunction(state, statement));
+        break;
+      case 'CreateTrigger':
+        pushUnit(emitTrigger(state, statement));
+        break;
+      case 'CreateView':
+        pushUnit(emitView(state, statement));
+        break;
+      default:
+        pushUnit(emitStatement(state, statement, ''));
+    }
+  });
+  flushPending();
+  return output;
+};
+
+const createState = (file: CodeFile, context: ConversionContext): ConverterState => ({
+  source: file.content,
+  issues: [],
+  reported: new Set(),
+  preamble: [],
+  tempTables: new Set(context.sharedTempTables),
+  sharedTempTables: new Set(context.sharedTempTables),
+  savepoints: new Set(),
+  schema: context.schema,
+  identityStyle: context.settings?.identityStyle ?? 'identity',
+  resultSetStyle: context.settings?.resultSetStyle ?? 'refcursor',
+  cursorStyle: context.settings?.cursorStyle ?? 'for-loop',
+  callerContracts: [],
+  naming: context.settings?.naming ?? DEFAULT_NAMING_POLICY,
+  identifierMappings: new Map(),
+  typeMappings: context.settings?.typeMappings ?? [],
+  dataTypeMappings: new Map(),
+  functionCalls: new Map(),
+  recordedCalls: new Set(),
+  rewrites: new Map(),
+  defaults: new Map(Object.entries(context.schema?.defaults ?? {}).map(([name, object]) => [name, object.expression])),
+  rules: new Map(Object.entries(context.schema?.rules ?? {}).map(([name, object]) => [name, object.expression])),
+});
+
+const parseWithIssues = (state: ConverterState, file: CodeFile) => {
+  const { script, errors } = parseTsql(file.content);
+  errors.forEach(error => {
+    state.issues.push({
+      id: crypto.randomUUID(),
+      lineNumber: error.line,
+      description: `Could not parse statement: ${error.message}`,
+      severity: 'warning',
+      suggestedFix: 'Convert this statement manually.',
+    });
+  });
+  return script;
+};
+
+const finish = (state: ConverterState, output: string[]): RuleBasedConversion => {
+  const convertedCode = output.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  return {
+    convertedCode: convertedCode ? `${convertedCode}\n` : '',
+    issues: state.issues,
+    callerContracts: state.callerContracts,
+    identifierMappings: [...state.identifierMappings.values()],
+    dataTypeMappings: [...state.dataTypeMappings.values()],
+    functionCalls: [...state.functionCalls.values()],
+  };
+};
+
+// Convert Sybase T-SQL to Oracle PL/SQL with deterministic rewrite rules.
+// Anything the rules cannot handle is reported as an issue rather than guessed.
+export const convertWithRules = (file: CodeFile, context: ConversionContext = {}): RuleBasedConversion => {
+  const state = createState(file, context);
+  const script = parseWithIssues(state, file);
+  // Columns declared with a type the file's own sp_addtype creates
+  state.schema = withFileTypes(state.schema, script, file.id);
+  if (file.type === 'trigger' && !script.batches.some(batch => batch.statements.some(statement => statement.kind === 'CreateTrigger'))) {
+    addIssue(state, undefined, 'warning', 'The file is marked as a trigger but contains no CREATE TRIGGER statement, so it was converted as plain SQL.',
+      'Check the file type, or add the CREATE TRIGGER header.', 'trigger');
+  }
+  return finish(state, script.batches.flatMap(batch => emitBatch(state, batch.statements)));
+};
+
+// Convert the migration's shared temporary table script (see tempTables.ts): every
+// CREATE TABLE #x and SELECT ... INTO #x only defines its global temporary table
+export const convertTempTablesWithRules = (file: CodeFile, context: ConversionContext = {}): RuleBasedConversion => {
+  const state = createState(file, { ...context, sharedTempTables: [] });
+  const script = parseWithIssues(state, file);
+  const output: string[] = [];
+  script.batches.forEach(batch => batch.statements.forEach(statement => {
+    if (statement.kind === 'CreateTable' && isTempTable(statement.name)) {
+      state.tempTables.add(baseName(statement.name));
+      output.push(...emitCreateTable(state, statement), '');
+    } else if (statement.kind === 'Select' && statement.into && isTempTable(statement.into)) {
+      defineTempTable(state, statement, emitQuery(state, { ...statement, into: undefined }));
+      output.push(...state.preamble.splice(0));
+    }
+  }));
+  return finish(state, output);
+};
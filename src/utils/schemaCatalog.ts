@@ -0,0 +1,156 @@
+import { BindableObject, SchemaCatalog, SchemaColumn, SchemaTable, UserDataType } from '@/types';
+import { DataTypeSpec, ExecStatement, Script } from '@/types/tsqlAst';
+import { parseDataTypeText } from './dataTypeMapping';
+import { analyzeDependencies } from './dependencyGraph';
+import { baseName, parseTsql, visitAst } from './tsqlParser';
+
+interface CatalogFile {
+  id: string;
+  content: string;
+}
+
+// The type an "exec sp_addtype name, 'physical type'" creates
+export const userTypeDefinition = (exec: ExecStatement): { name: string; dataType: DataTypeSpec } | undefined => {
+  if (baseName(exec.procedure) !== 'sp_addtype') return undefined;
+  const [name, physical] = [0, 1].map(index => {
+    const value = exec.args[index]?.value;
+    if (value?.kind === 'Literal' && value.literalType === 'string') return value.value;
+    if (value?.kind === 'Column') return value.parts[value.parts.length - 1];
+    return undefined;
+  });
+  const dataType = physical && parseDataTypeText(physical);
+  return name && dataType ? { name, dataType } : undefined;
+};
+
+// The default or rule an "exec sp_bindefault name, 'table.column'" or sp_bindrule binds, and
+// the column or user-defined type it is bound to
+export const objectBinding = (exec: ExecStatement): { kind: 'default' | 'rule'; name: string; target: string[] } | undefined => {
+  const procedure = baseName(exec.procedure);
+  if (procedure !== 'sp_bindefault' && procedure !== 'sp_bindrule') return undefined;
+  const [name, target] = [0, 1].map(index => {
+    const value = exec.args[index]?.value;
+    if (value?.kind === 'Literal' && value.literalType === 'string') return value.value;
+    if (value?.kind === 'Column') return value.parts.join('.');
+    return undefined;
+  });
+  if (!name || !target) return undefined;
+  return { kind: procedure === 'sp_bindefault' ? 'default' : 'rule', name: name.split('.').pop()!, target: target.split('.') };
+};
+
+// Collect every permanent table and user-defined type defined in the uploaded files
+export const buildSchemaCatalog = (files: CatalogFile[]): SchemaCatalog => {
+  const tables: Record<string, SchemaTable> = {};
+  const types: Record<string, UserDataType> = {};
+  const defaults: Record<string, BindableObject> = {};
+  const rules: Record<string, BindableObject> = {};
+  files.forEach(file => {
+    const { script } = parseTsql(file.content);
+    visitAst(script, node => {
+      if (node.kind === 'CreateDefault' || node.kind === 'CreateRule') {
+        const objects = node.kind === 'CreateDefault' ? defaults : rules;
+        const expression = node.kind === 'CreateDefault' ? node.value : node.condition;
+        const name = baseName(node.name);
+        if (!objects[name]) {
+          objects[name] = { name: node.name[node.name.length - 1], fileId: file.id, expression, text: file.content.slice(expression.start, expression.end) };
+        }
+        return;
+      }
+      if (node.kind === 'Exec') {
+        const definition = userTypeDefinition(node);
+        if (definition && !types[definition.name.toLowerCase()]) types[definition.name.toLowerCase()] = { ...definition, fileId: file.id };
+        return;
+      }
+      if (node.kind !== 'CreateTable') return;
+      const name = baseName(node.name);
+      // Temporary tables are local to one procedure; the first definition of a name wins
+      if (!name || name.startsWith('#') || tables[name]) return;
+
+      // The name keeps its case, which the naming policy may preserve
+      const table: SchemaTable = { name: node.name[node.name.length - 1], fileId: file.id, columns: [], primaryKey: [], foreignKeys: [] };
+      node.columns.forEach(column => {
+        table.columns.push({
+          name: column.name,
+          dataType: column.dataType,
+          // Sybase columns are NOT NULL unless declared otherwise
+          nullable: column.nullable === true && !column.identity,
+          identity: column.identity,
+        });
+        if (column.primaryKey) table.primaryKey.push(column.name);
+        if (column.references) {
+          table.foreignKeys.push({ columns: [column.name], table: baseName(column.references.table), referencedColumns: column.references.columns });
+        }
+      });
+      node.constraints.forEach(constraint => {
+        if (constraint.constraintType === 'primaryKey') table.primaryKey.push(...constraint.columns);
+        if (constraint.constraintType === 'foreignKey' && constraint.references) {
+          table.foreignKeys.push({
+            columns: constraint.columns,
+            table: baseName(constraint.references.table),
+            referencedColumns: constraint.references.columns,
+          });
+        }
+      });
+      tables[name] = table;
+    });
+  });
+  return { tables, types, defaults, rules };
+};
+
+// The catalog with the user-defined types a file creates itself, for a file that is converted
+// before it was added to the catalog. Types already in the catalog keep their definition.
+export const withFileTypes = (catalog: SchemaCatalog | undefined, script: Script, fileId: string): SchemaCatalog | undefined => {
+  const types: Record<string, UserDataType> = { ...catalog?.types };
+  let added = false;
+  visitAst(script, node => {
+    const definition = node.kind === 'Exec' ? userTypeDefinition(node) : undefined;
+    if (!definition || types[definition.name.toLowerCase()]) return;
+    types[definition.name.toLowerCase()] = { ...definition, fileId };
+    added = true;
+  });
+  return added ? { tables: {}, defaults: {}, rules: {}, ...catalog, types } : catalog;
+};
+
+export const findTable = (catalog: SchemaCatalog | undefined, parts: string[]): SchemaTable | undefined =>
+  catalog?.tables[baseName(parts)];
+
+export const findColumn = (table: SchemaTable, name: string): SchemaColumn | undefined =>
+  table.columns.find(column => column.name.toLowerCase() === name.toLowerCase());
+
+// The physical type of a user-defined type, or the type itself
+export const physicalDataType = (catalog: SchemaCatalog | undefined, spec: DataTypeSpec): DataTypeSpec =>
+  catalog?.types[spec.name]?.dataType ?? spec;
+
+// The part of the catalog a file needs: the tables it references and the user-defined
+// types of those tables and of the file itself
+export const sliceSchema = (catalog: SchemaCatalog, content: string): SchemaCatalog => {
+  const tables: Record<string, SchemaTable> = {};
+  analyzeDependencies(content).references.forEach(name => {
+    if (catalog.tables[name]) tables[name] = catalog.tables[name];
+  });
+  const words = new Set(content.toLowerCase().match(/[\w$#]+/g));
+  Object.values(tables).forEach(table => table.columns.forEach(column => words.add(column.dataType.name)));
+  const types = Object.fromEntries(Object.entries(catalog.types).filter(([name]) => words.has(name)));
+  const defaults = Object.fromEntries(Object.entries(catalog.defaults).filter(([name]) => words.has(name)));
+  const rules = Object.fromEntries(Object.entries(catalog.rules).filter(([name]) => words.has(name)));
+  return { tables, types, defaults, rules };
+};
+
+// Compact DDL-like summary for the AI prompt
+export const formatSchemaContext = (catalog: SchemaCatalog): string =>
+  [
+    ...Object.values(catalog.types).map(type => `sp_addtype ${type.name}, '${type.dataType.text}'`),
+    ...Object.values(catalog.defaults).map(object => `create default ${object.name} as ${object.text}`),
+    ...Object.values(catalog.rules).map(object => `create rule ${object.name} as ${object.text}`),
+    ...Object.values(catalog.tables).map(table => {
+      const columns = table.columns.map(column =>
+        `  ${column.name} ${column.dataType.text}${column.identity ? ' IDENTITY' : ''}${column.nullable ? ' NULL' : ' NOT NULL'}`
+      );
+      const keys = [
+        ...(table.primaryKey.length ? [`  PRIMARY KEY (${table.primaryKey.join(', ')})`] : []),
+        ...table.foreignKeys.map(key =>
+          `  FOREIGN KEY (${key.columns.join(', ')}) REFERENCES ${key.table}${key.referencedColumns.length ? ` (${key.referencedColumns.join(', ')})` : ''}`
+        ),
+      ];
+      return `${table.name} (\n${[...columns, ...keys].join(',\n')}\n)`;
+    }),
+  ].join('\n');
@@ -0,0 +1,156 @@
+import { CodeFile, CodeFileSource, ConversionResult } from '@/types';
+import { Statement } from '@/types/tsqlAst';
+import { parseTsql, visitAst } from './tsqlParser';
+
+export interface ScriptObject {
+  name: string;
+  type: CodeFile['type'];
+  content: string;
+  source: CodeFileSource;
+}
+
+interface ObjectGroup {
+  name?: string;
+  type?: CodeFile['type'];
+  statements: Statement[];
+}
+
+// The object a statement creates, named without its owner
+const createdObject = (statement: Statement): { name: string; type: CodeFile['type'] } | undefined => {
+  const name = (parts: string[]) => parts.filter(part => part.length > 0).pop() || '';
+  switch (statement.kind) {
+    case 'CreateTable':
+      return { name: name(statement.name), type: 'table' };
+    case 'CreateProcedure':
+      return { name: name(statement.name), type: 'procedure' };
+    case 'CreateTrigger':
+      return { name: name(statement.name), type: 'trigger' };
+    case 'CreateView':
+      return { name: name(statement.name), type: 'view' };
+    case 'CreateFunction':
+      return { name: name(statement.name), type: 'function' };
+    case 'CreateDefault':
+      return { name: name(statement.name), type: 'default' };
+    case 'CreateRule':
+      return { name: name(statement.name), type: 'rule' };
+    case 'CreateSequence':
+      return { name: name(statement.name), type: 'sequence' };
+    default:
+      return undefined;
+  }
+};
+
+// Drops and "if exists ... drop" guards prepare the object that follows them
+const preparesNextObject = (statement: Statement): boolean => {
+  if (statement.kind === 'Drop' || statement.kind === 'Use') return true;
+  if (statement.kind !== 'If') return false;
+  let drops = false;
+  visitAst(statement, node => {
+    if (node.kind === 'Drop') drops = true;
+  });
+  return drops;
+};
+
+const isSeparatorLine = (line: string) => /^\s*(go\s*)?$/i.test(line);
+
+// Split a script such as a ddlgen or defncopy dump into one piece per object. Statements that
+// prepare an object (drop guards) go with the object after them, everything else (grants,
+// sp_procxmode calls, indexes) with the object before them. Returns a single piece when the
+// script defines at most one object.
+export const splitScript = (fileName: string, content: string): ScriptObject[] => {
+  const lines = content.split('\n');
+  const whole: ScriptObject[] = [{
+    name: fileName,
+    type: 'other',
+    content,
+    source: { fileName, startLine: 1, endLine: lines.length },
+  }];
+
+  const { script } = parseTsql(content);
+  const groups: ObjectGroup[] = [];
+  let current: ObjectGroup | undefined;
+  script.batches.flatMap(batch => batch.statements).forEach(statement => {
+    const object = createdObject(statement);
+    if (object) {
+      // A group holding only preparation statements is adopted by its object
+      if (current && !current.name) {
+        current.name = object.name;
+        current.type = object.type;
+        current.statements.push(statement);
+      } else {
+        current = { ...object, statements: [statement] };
+        groups.push(current);
+      }
+      return;
+    }
+    if (!current || (current.name && preparesNextObject(statement))) {
+      current = { statements: [] };
+      groups.push(current);
+    }
+    current.statements.push(statement);
+  });
+  // Trailing statements without an object of their own belong to the last object
+  if (groups.length > 1 && !groups[groups.length - 1].name) {
+    const trailing = groups.pop()!;
+    groups[groups.length - 1].statements.push(...trailing.statements);
+  }
+  if (groups.filter(group => group.name).length <= 1) return whole;
+
+  // Line ranges: blank lines and "go" after an object stay with it, comments before the
+  // next object move with that object. Together the ranges cover the whole script.
+  const starts = groups.map((group, index) => {
+    if (index === 0) return 1;
+    const previousEnd = groups[index - 1].statements[groups[index - 1].statements.length - 1].endLine;
+    let line = previousEnd + 1;
+    while (line < group.statements[0].line && isSeparatorLine(lines[line - 1])) line++;
+    return line;
+  });
+
+  const used = new Map<string, number>();
+  return groups.map((group, index) => {
+    const startLine = starts[index];
+    const endLine = index === groups.length - 1 ? lines.length : starts[index + 1] - 1;
+    // Overloaded names (a table and its trigger named alike) still need distinct file names
+    const baseName = (group.name || fileName).replace(/[^\w.$#-]/g, '_');
+    const count = (used.get(baseName.toLowerCase()) ?? 0) + 1;
+    used.set(baseName.toLowerCase(), count);
+    return {
+      name: `${count > 1 ? `${baseName}_${count}` : baseName}.sql`,
+      type: group.type || 'other',
+      content: lines.slice(startLine - 1, endLine).join('\n'),
+      source: { fileName, startLine, endLine },
+    };
+  });
+};
+
+export interface MergedOutput {
+  fileName: string;
+  convertedCode: string;
+  results: ConversionResult[];
+}
+
+// Put objects split out of the same script back together, in their original order.
+// Files that were never split are passed through on their own.
+export const mergeSplitResults = (results: ConversionResult[]): MergedOutput[] => {
+  const merged: MergedOutput[] = [];
+  const bySource = new Map<string, MergedOutput>();
+  results.forEach(result => {
+    const source = result.originalFile.source;
+    if (!source) {
+      merged.push({ fileName: result.originalFile.name, convertedCode: result.convertedCode, results: [result] });
+      return;
+    }
+    let output = bySource.get(source.fileName);
+    if (!output) {
+      output = { fileName: source.fileName, convertedCode: '', results: [] };
+      bySource.set(source.fileName, output);
+      merged.push(output);
+    }
+    output.results.push(result);
+  });
+  bySource.forEach(output => {
+    output.results.sort((a, b) => a.originalFile.source!.startLine - b.originalFile.source!.startLine);
+    output.convertedCode = output.results.map(result => result.convertedCode.trimEnd()).join('\n\n') + '\n';
+  });
+  return merged;
+};
@@ -0,0 +1,117 @@
+import { CodeFile } from '@/types';
+import { CreateTableStatement, SelectStatement } from '@/types/tsqlAst';
+import { baseName, parseTsql, visitAst } from './tsqlParser';
+
+// #temp tables across all files of a migration. Oracle needs them created ahead of time,
+// so each one gets a single global temporary table in a shared script that runs before
+// the procedures using it.
+
+export const TEMP_TABLES_FILE_ID = 'shared-temp-tables';
+export const TEMP_TABLES_FILE_NAME = 'temp_tables.sql';
+
+export interface TempTableDefinition {
+  // Lower-case, with the leading #
+  name: string;
+  fileName: string;
+  statement: CreateTableStatement | SelectStatement;
+  // Sybase source of the defining statement
+  text: string;
+}
+
+export interface TempTableConflict {
+  name: string;
+  fileName: string;
+  usedFileName: string;
+}
+
+export interface TempTableAnalysis {
+  // The definition each table is created from, in the order the tables were found
+  definitions: TempTableDefinition[];
+  // File ids using each table, keyed by name
+  usedBy: Record<string, string[]>;
+  // Files that define a table differently from the definition that was used
+  conflicts: TempTableConflict[];
+}
+
+const isTempName = (parts: string[]) => baseName(parts).startsWith('#');
+
+// Column names in order, to tell whether two definitions of a table agree
+const shape = (statement: CreateTableStatement | SelectStatement): string => {
+  if (statement.kind === 'CreateTable') {
+    return statement.columns.map(column => `${column.name} ${column.dataType.text}`.toLowerCase()).join(',');
+  }
+  return statement.columns
+    .map(item => item.alias || (item.expression.kind === 'Column' ? item.expression.parts[item.expression.parts.length - 1] : '?'))
+    .join(',')
+    .toLowerCase();
+};
+
+export const analyzeTempTables = (files: Pick<CodeFile, 'id' | 'name' | 'content'>[]): TempTableAnalysis => {
+  const candidates = new Map<string, TempTableDefinition[]>();
+  const usedBy: Record<string, string[]> = {};
+
+  files.forEach(file => {
+    if (file.id === TEMP_TABLES_FILE_ID) return;
+    const { script } = parseTsql(file.content);
+    const use = (parts: string[]) => {
+      const name = baseName(parts);
+      if (!name.startsWith('#')) return;
+      usedBy[name] = usedBy[name] || [];
+      if (!usedBy[name].includes(file.id)) usedBy[name].push(file.id);
+    };
+    const define = (parts: string[], statement: CreateTableStatement | SelectStatement) => {
+      const name = baseName(parts);
+      const text = file.content.slice(statement.start, statement.end).trim();
+      candidates.set(name, [...(candidates.get(name) || []), { name, fileName: file.name, statement, text }]);
+    };
+    visitAst(script, node => {
+      switch (node.kind) {
+        case 'CreateTable':
+          if (isTempName(node.name)) {
+            use(node.name);
+            define(node.name, node);
+          }
+          break;
+        case 'Select':
+          if (node.into && isTempName(node.into)) {
+            use(node.into);
+            define(node.into, node);
+          }
+          break;
+        case 'TableRef':
+          use(node.name);
+          break;
+        case 'Insert':
+        case 'Update':
+        case 'Delete':
+        case 'Truncate':
+          use(node.table);
+          break;
+      }
+    });
+  });
+
+  const definitions: TempTableDefinition[] = [];
+  const conflicts: TempTableConflict[] = [];
+  candidates.forEach(found => {
+    // An explicit CREATE TABLE says more about the columns than a SELECT INTO
+    const used = found.find(definition => definition.statement.kind === 'CreateTable') || found[0];
+    definitions.push(used);
+    found.forEach(definition => {
+      if (shape(definition.statement) !== shape(used.statement) && !conflicts.some(conflict => conflict.name === used.name && conflict.fileName === definition.fileName)) {
+        conflicts.push({ name: used.name, fileName: definition.fileName, usedFileName: used.fileName });
+      }
+    });
+  });
+  return { definitions, usedBy, conflicts };
+};
+
+// Sybase script holding the statement that defines each table, converted into the shared
+// global temporary table script
+export const buildTempTableFile = (analysis: TempTableAnalysis): CodeFile | undefined => {
+  if (analysis.definitions.length === 0) return undefined;
+  const content = analysis.definitions
+    .map(definition => `-- ${definition.name} from ${definition.fileName}\n${definition.text}\ngo`)
+    .join('\n\n');
+  return { id: TEMP_TABLES_FILE_ID, name: TEMP_TABLES_FILE_NAME, content: `${content}\n`, type: 'table' };
+};
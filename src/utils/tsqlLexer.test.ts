@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { tokenize } from '@/utils/tsqlLexer';
+
+const summary = (source: string, options?: { includeComments?: boolean }) =>
+  tokenize(source, options).map(token => [token.type, token.value]);
+
+describe('tokenize', () => {
+  it('classifies variables, literals and operators', () => {
+    expect(summary("select @a = @@rowcount, 'it''s', 0x1F, 1.5e3 where x *= y")).toEqual([
+      ['word', 'select'],
+      ['variable', '@a'],
+      ['operator', '='],
+      ['globalVariable', '@@rowcount'],
+      ['punctuation', ','],
+      ['string', "it's"],
+      ['punctuation', ','],
+      ['binary', '0x1F'],
+      ['punctuation', ','],
+      ['number', '1.5e3'],
+      ['word', 'where'],
+      ['word', 'x'],
+      ['operator', '*='],
+      ['word', 'y'],
+    ]);
+  });
+
+  it('reads bracketed identifiers and double-quoted strings', () => {
+    expect(summary('[order details] "Name"')).toEqual([['quotedIdentifier', 'order details'], ['string', 'Name']]);
+  });
+
+  it('drops comments unless asked for them', () => {
+    const source = '-- line\nselect /* block\nspans */ 1';
+    expect(summary(source).map(([, value]) => value)).toEqual(['select', '1']);
+    expect(summary(source, { includeComments: true }).filter(([type]) => type === 'comment')).toHaveLength(2);
+  });
+
+  it('tracks lines and columns across multi-line tokens', () => {
+    const tokens = tokenize("select 'a\nb',\n  x");
+    expect(tokens.map(token => [token.line, token.column])).toEqual([[1, 1], [1, 8], [2, 3], [3, 3]]);
+  });
+
+  it('turns characters it does not understand into unknown tokens', () => {
+    expect(summary('select ?')).toEqual([['word', 'select'], ['unknown', '?']]);
+  });
+});
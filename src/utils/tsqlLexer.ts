@@ -0,0 +1,175 @@
+import { Token, TokenType } from '@/types/tsqlAst';
+
+// Multi-character operators, longest first so that greedy matching works
+const OPERATORS = ['*=', '=*', '!=', '<>', '>=', '<=', '!<', '!>', '||', ':=', '=', '<', '>', '+', '-', '*', '/', '%', '&', '|', '^', '~'];
+const PUNCTUATION = ['(', ')', ',', '.', ';'];
+
+const isWordStart = (ch: string) => /[A-Za-z_#À-￿]/.test(ch);
+const isWordPart = (ch: string) => /[A-Za-z0-9_#$À-￿]/.test(ch);
+const isDigit = (ch: string) => ch >= '0' && ch <= '9';
+
+// Tokenize Sybase T-SQL source. The lexer never throws: characters it does not
+// understand become 'unknown' tokens so that callers can report them with a position.
+// It is also lenient enough to tokenize PL/SQL output for metrics and validation.
+export const tokenize = (source: string, options: { includeComments?: boolean } = {}): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const push = (type: TokenType, start: number, value: string, startLine: number, startColumn: number) => {
+    if (type === 'comment' && !options.includeComments) return;
+    tokens.push({
+      type,
+      value,
+      text: source.slice(start, pos),
+      line: startLine,
+      column: startColumn,
+      start,
+      end: pos,
+    });
+  };
+
+  // Advance over a slice of the source, keeping line bookkeeping right
+  const advance = (count: number) => {
+    for (let i = 0; i < count && pos < source.length; i++) {
+      if (source[pos] === '\n') {
+        line++;
+        lineStart = pos + 1;
+      }
+      pos++;
+    }
+  };
+
+  while (pos < source.length) {
+    const ch = source[pos];
+    const next = source[pos + 1];
+    const start = pos;
+    const startLine = line;
+    const startColumn = pos - lineStart + 1;
+
+    if (/\s/.test(ch)) {
+      advance(1);
+      continue;
+    }
+
+    // Line comment
+    if (ch === '-' && next === '-') {
+      const endOfLine = source.indexOf('\n', pos);
+      advance((endOfLine === -1 ? source.length : endOfLine) - pos);
+      push('comment', start, source.slice(start + 2, pos).trim(), startLine, startColumn);
+      continue;
+    }
+
+    // Block comment, nesting allowed as in Sybase
+    if (ch === '/' && next === '*') {
+      let depth = 0;
+      while (pos < source.length) {
+        if (source[pos] === '/' && source[pos + 1] === '*') {
+          depth++;
+          advance(2);
+        } else if (source[pos] === '*' && source[pos + 1] === '/') {
+          depth--;
+          advance(2);
+          if (depth === 0) break;
+        } else {
+          advance(1);
+        }
+      }
+      push('comment', start, source.slice(start + 2, Math.max(start + 2, pos - 2)).trim(), startLine, startColumn);
+      continue;
+    }
+
+    // String literals. Double quotes are strings too, since Sybase runs with
+    // quoted_identifier off by default. N'...' national strings are plain strings.
+    const national = (ch === 'N' || ch === 'n') && next === '\'';
+    if (ch === '\'' || ch === '"' || national) {
+      const quote = national ? next : ch;
+      let value = '';
+      advance(national ? 2 : 1);
+      while (pos < source.length) {
+        if (source[pos] === quote) {
+          if (source[pos + 1] === quote) {
+            value += quote;
+            advance(2);
+            continue;
+          }
+          advance(1);
+          break;
+        }
+        value += source[pos];
+        advance(1);
+      }
+      push('string', start, value, startLine, startColumn);
+      continue;
+    }
+
+    // Bracketed identifier
+    if (ch === '[') {
+      const close = source.indexOf(']', pos);
+      advance((close === -1 ? source.length : close + 1) - pos);
+      push('quotedIdentifier', start, source.slice(start + 1, close === -1 ? pos : pos - 1), startLine, startColumn);
+      continue;
+    }
+
+    // Global (@@) and local (@) variables
+    if (ch === '@') {
+      const isGlobal = next === '@';
+      advance(isGlobal ? 2 : 1);
+      while (pos < source.length && isWordPart(source[pos])) advance(1);
+      push(isGlobal ? 'globalVariable' : 'variable', start, source.slice(start, pos), startLine, startColumn);
+      continue;
+    }
+
+    // Binary literals
+    if (ch === '0' && (next === 'x' || next === 'X')) {
+      advance(2);
+      while (pos < source.length && /[0-9A-Fa-f]/.test(source[pos])) advance(1);
+      push('binary', start, source.slice(start, pos), startLine, startColumn);
+      continue;
+    }
+
+    // Numbers, including decimals and exponents
+    if (isDigit(ch) || (ch === '.' && next !== undefined && isDigit(next))) {
+      while (pos < source.length && isDigit(source[pos])) advance(1);
+      if (source[pos] === '.' && source[pos + 1] !== '.') {
+        advance(1);
+        while (pos < source.length && isDigit(source[pos])) advance(1);
+      }
+      if ((source[pos] === 'e' || source[pos] === 'E') && /[-+0-9]/.test(source[pos + 1] || '')) {
+        advance(2);
+        while (pos < source.length && isDigit(source[pos])) advance(1);
+      }
+      push('number', start, source.slice(start, pos), startLine, startColumn);
+      continue;
+    }
+
+    if (isWordStart(ch)) {
+      while (pos < source.length && isWordPart(source[pos])) advance(1);
+      push('word', start, source.slice(start, pos), startLine, startColumn);
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, pos));
+    if (operator) {
+      advance(operator.length);
+      push('operator', start, operator, startLine, startColumn);
+      continue;
+    }
+
+    if (PUNCTUATION.includes(ch)) {
+      advance(1);
+      push('punctuation', start, ch, startLine, startColumn);
+      continue;
+    }
+
+    advance(1);
+    push('unknown', start, ch, startLine, startColumn);
+  }
+
+  return tokens;
+};
+
+// Helper: true when the token is the given (case-insensitive) keyword
+export const isKeyword = (token: Token | undefined, ...keywords: string[]): boolean =>
+  !!token && token.type === 'word' && keywords.includes(token.value.toLowerCase());
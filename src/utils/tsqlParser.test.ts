@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { parseTsql, visitAst } from '@/utils/tsqlParser';
+
+// Each __fixtures__/parser/<case>.sql is parsed and compared with <case>.ast.json
+const fixtures = import.meta.glob('./__fixtures__/parser/*.sql', { query: '?raw', import: 'default', eager: true }) as Record<string, string>;
+
+const SPAN_KEYS = new Set(['start', 'end', 'line', 'endLine']);
+
+// Helper: the tree without source spans, which would make the expected files unreadable
+const withoutSpans = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(withoutSpans);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value)
+    .filter(([key]) => !SPAN_KEYS.has(key))
+    .map(([key, item]) => [key, withoutSpans(item)]));
+};
+
+describe('parseTsql fixtures', () => {
+  Object.entries(fixtures).forEach(([path, source]) => {
+    it(path.split('/').pop(), async () => {
+      const { script, errors } = parseTsql(source);
+      expect(errors).toEqual([]);
+      await expect(JSON.stringify(withoutSpans(script), null, 2) + '\n').toMatchFileSnapshot(path.replace(/\.sql$/, '.ast.json'));
+    });
+  });
+});
+
+describe('parseTsql', () => {
+  it('splits batches on go and keeps source spans', () => {
+    const source = 'select 1\ngo\nselect 2\n';
+    const { script } = parseTsql(source);
+    expect(script.batches).toHaveLength(2);
+    const second = script.batches[1].statements[0];
+    expect(second).toMatchObject({ kind: 'Select', line: 3 });
+    expect(source.slice(second.start, second.end)).toBe('select 2');
+  });
+
+  it('keeps statements it cannot parse as Unknown and reports them', () => {
+    const { script, errors } = parseTsql('select from\ngo\nprint "ok"\n');
+    expect(errors).toHaveLength(1);
+    expect(errors[0].line).toBe(1);
+    expect(script.batches[0].statements[0].kind).toBe('Unknown');
+    expect(script.batches[1].statements[0].kind).toBe('Print');
+  });
+
+  it('reports a truncated WITH GRANT OPTION or GRANT OPTION FOR as a syntax error', () => {
+    const { script, errors } = parseTsql('revoke grant option select on orders from bob\ngo\ngrant select on orders to bob with grant');
+    expect(errors.map(error => [error.line, error.message])).toEqual([
+      [1, "Expected 'FOR' but found 'select'"],
+      [3, "Expected 'OPTION' but found end of input"],
+    ]);
+    expect(script.batches.map(batch => batch.statements[0].kind)).toEqual(['Unknown', 'Unknown']);
+  });
+
+  it('ignores keywords inside comments and strings', () => {
+    const { script } = parseTsql("-- while 1 = 1\nselect 'if exists' /* begin end */\n");
+    const kinds: string[] = [];
+    visitAst(script, node => kinds.push(node.kind));
+    expect(kinds).toEqual(['Batch', 'Select', 'Literal']);
+  });
+});
@@ -0,0 +1,1337 @@
+import {
+  AstNode,
+  Batch,
+  BlockStatement,
+  ColumnDefinition,
+  CreateDefaultStatement,
+  CreateFunctionStatement,
+  CreateIndexStatement,
+  CreateProcedureStatement,
+  CreateRuleStatement,
+  CreateSequenceStatement,
+  CreateTableStatement,
+  CreateTriggerStatement,
+  CreateViewStatement,
+  DataTypeSpec,
+  DeclareCursorStatement,
+  DeclareStatement,
+  DeleteStatement,
+  ExecArgument,
+  ExecStatement,
+  Expression,
+  FetchStatement,
+  GrantStatement,
+  IfStatement,
+  IndexColumn,
+  InsertStatement,
+  NodeBase,
+  OrderItem,
+  ParseError,
+  ParseResult,
+  ProcedureParameter,
+  RaiserrorStatement,
+  SelectItem,
+  SelectStatement,
+  SetStatement,
+  Statement,
+  TableConstraint,
+  TableSource,
+  Token,
+  UpdateAssignment,
+  UpdateStatement,
+  WhileStatement,
+} from '@/types/tsqlAst';
+import { isKeyword, tokenize } from './tsqlLexer';
+
+// Keywords that begin a statement; used to end loosely delimited constructs and for error recovery
+const STATEMENT_KEYWORDS = new Set([
+  'select', 'insert', 'update', 'delete', 'declare', 'set', 'if', 'while', 'begin', 'return',
+  'print', 'raiserror', 'exec', 'execute', 'create', 'drop', 'alter', 'truncate', 'open', 'fetch',
+  'close', 'deallocate', 'commit', 'rollback', 'save', 'break', 'continue', 'goto', 'use', 'grant',
+  'revoke', 'waitfor', 'dump', 'load', 'checkpoint', 'readtext', 'writetext', 'setuser',
+]);
+
+// Words that can never be an alias or a bare column name
+const RESERVED = new Set([
+  ...STATEMENT_KEYWORDS,
+  'from', 'where', 'group', 'order', 'having', 'union', 'join', 'inner', 'left', 'right', 'full',
+  'cross', 'outer', 'on', 'into', 'values', 'as', 'and', 'or', 'not', 'else', 'end', 'go', 'for',
+  'holdlock', 'noholdlock', 'shared', 'readpast', 'at', 'plan', 'compute', 'by', 'when', 'then',
+  'case', 'is', 'in', 'like', 'between', 'exists', 'null', 'distinct', 'all', 'top', 'with',
+]);
+
+const COMPARISON_OPERATORS = new Set(['=', '<>', '!=', '<', '>', '<=', '>=', '!<', '!>', '*=', '=*']);
+
+class TsqlSyntaxError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(message);
+  }
+}
+
+// Helper: join the parts of a (possibly multi-part) object name
+export const nameToString = (parts: string[]): string => parts.join('.');
+
+// Helper: the unqualified, lower-cased object name used for cross-file lookups
+export const baseName = (parts: string[]): string =>
+  (parts.filter(p => p.length > 0).pop() || '').toLowerCase();
+
+// Parse a Sybase T-SQL script into batches of statements. Parsing is error tolerant:
+// statements that cannot be parsed are kept as 'Unknown' nodes and reported in errors.
+export const parseTsql = (source: string): ParseResult => {
+  const tokens = tokenize(source);
+  const errors: ParseError[] = [];
+  let pos = 0;
+
+  const peek = (offset = 0): Token | undefined => tokens[pos + offset];
+  const last = (): Token => tokens[Math.max(0, pos - 1)];
+  const atEnd = () => pos >= tokens.length;
+
+  const endLineOf = (token: Token) => token.line + (token.text.match(/\n/g) || []).length;
+
+  const isLineStart = (index: number) =>
+    index === 0 || (index < tokens.length && endLineOf(tokens[index - 1]) < tokens[index].line);
+
+  const fail = (message: string, token: Token | undefined = peek()): never => {
+    const at = token || tokens[tokens.length - 1];
+    throw new TsqlSyntaxError(message, at ? at.line : 1, at ? at.column : 1);
+  };
+
+  const describe = (token: Token | undefined) => (token ? `'${token.text}'` : 'end of input');
+
+  const span = <T extends object>(startToken: Token, node: T): T & NodeBase => {
+    const endToken = last();
+    return {
+      ...node,
+      start: startToken.start,
+      end: Math.max(startToken.end, endToken.end),
+      line: startToken.line,
+      endLine: Math.max(startToken.line, endLineOf(endToken)),
+    };
+  };
+
+  const next = (): Token => {
+    const token = tokens[pos];
+    if (!token) fail('Unexpected end of input');
+    pos++;
+    return token;
+  };
+
+  const atKeyword = (...keywords: string[]) => isKeyword(peek(), ...keywords);
+
+  const acceptKeyword = (...keywords: string[]): boolean => {
+    if (atKeyword(...keywords)) {
+      pos++;
+      return true;
+    }
+    return false;
+  };
+
+  const expectKeyword = (keyword: string) => {
+    if (!acceptKeyword(keyword)) fail(`Expected '${keyword.toUpperCase()}' but found ${describe(peek())}`);
+  };
+
+  const atSymbol = (symbol: string, offset = 0) => {
+    const token = peek(offset);
+    return !!token && (token.type === 'punctuation' || token.type === 'operator') && token.value === symbol;
+  };
+
+  const acceptSymbol = (symbol: string): boolean => {
+    if (atSymbol(symbol)) {
+      pos++;
+      return true;
+    }
+    return false;
+  };
+
+  const expectSymbol = (symbol: string) => {
+    if (!acceptSymbol(symbol)) fail(`Expected '${symbol}' but found ${describe(peek())}`);
+  };
+
+  const isIdentifierToken = (token: Token | undefined) =>
+    !!token && (token.type === 'quotedIdentifier' || (token.type === 'word' && !RESERVED.has(token.value.toLowerCase())));
+
+  const atBatchSeparator = () => atKeyword('go') && isLineStart(pos);
+
+  // A statement keyword at the start of a line reliably begins a new statement
+  const atStatementBoundary = () => {
+    if (atEnd()) return true;
+    if (!isLineStart(pos)) return false;
+    return atBatchSeparator() || atKeyword('end', 'else') || (peek()!.type === 'word' && STATEMENT_KEYWORDS.has(peek()!.value.toLowerCase()));
+  };
+
+  const parseIdentifier = (): string => {
+    const token = peek();
+    if (token && (token.type === 'word' || token.type === 'quotedIdentifier')) {
+      pos++;
+      return token.value;
+    }
+    return fail(`Expected identifier but found ${describe(token)}`);
+  };
+
+  // Qualified names, including the "db..table" form that skips the owner
+  const parseQualifiedName = (): string[] => {
+    const parts = [parseIdentifier()];
+    while (atSymbol('.')) {
+      pos++;
+      if (atSymbol('.')) {
+        parts.push('');
+        continue;
+      }
+      parts.push(parseIdentifier());
+    }
+    return parts;
+  };
+
+  const parseIdentifierList = (): string[] => {
+    const names = [parseIdentifier()];
+    while (acceptSymbol(',')) names.push(parseIdentifier());
+    return names;
+  };
+
+  const parseParenthesizedIdentifiers = (): string[] => {
+    expectSymbol('(');
+    const names = parseIdentifierList();
+    expectSymbol(')');
+    return names;
+  };
+
+  const parseDataType = (): DataTypeSpec => {
+    const startToken = peek();
+    let name = parseIdentifier().toLowerCase();
+    // Multi-word type names
+    if (name === 'double' && acceptKeyword('precision')) name = 'double precision';
+    else if (name === 'unsigned' && atKeyword('int', 'integer', 'smallint', 'bigint', 'tinyint')) name = `unsigned ${next().value.toLowerCase()}`;
+    else if ((name === 'char' || name === 'character') && acceptKeyword('varying')) name = 'varchar';
+    const args: string[] = [];
+    if (atSymbol('(')) {
+      pos++;
+      do {
+        args.push(next().value);
+      } while (acceptSymbol(','));
+      expectSymbol(')');
+    }
+    return { name, args, text: source.slice(startToken!.start, last().end) };
+  };
+
+  // ---- Expressions ----
+
+  const parseExpression = (): Expression => parseOr();
+
+  const parseOr = (): Expression => {
+    const startToken = peek()!;
+    let left = parseAnd();
+    while (atKeyword('or')) {
+      pos++;
+      const right = parseAnd();
+      left = span(startToken, { kind: 'Binary' as const, operator: 'or', left, right });
+    }
+    return left;
+  };
+
+  const parseAnd = (): Expression => {
+    const startToken = peek()!;
+    let left = parseNot();
+    while (atKeyword('and')) {
+      pos++;
+      const right = parseNot();
+      left = span(startToken, { kind: 'Binary' as const, operator: 'and', left, right });
+    }
+    return left;
+  };
+
+  const parseNot = (): Expression => {
+    const startToken = peek()!;
+    if (atKeyword('not')) {
+      pos++;
+      const operand = parseNot();
+      return span(startToken, { kind: 'Unary' as const, operator: 'not', operand });
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): Expression => {
+    const startToken = peek()!;
+    const left = parseAdditive();
+    const token = peek();
+    if (token && token.type === 'operator' && COMPARISON_OPERATORS.has(token.value)) {
+      pos++;
+      const right = parseAdditive();
+      return span(startToken, { kind: 'Binary' as const, operator: token.value, left, right });
+    }
+    if (atKeyword('is')) {
+      pos++;
+      const not = acceptKeyword('not');
+      expectKeyword('null');
+      return span(startToken, { kind: 'IsNull' as const, expression: left, not });
+    }
+    const not = atKeyword('not') && isKeyword(peek(1), 'like', 'in', 'between');
+    if (not) pos++;
+    if (acceptKeyword('like')) {
+      const pattern = parseAdditive();
+      const escape = acceptKeyword('escape') ? parseAdditive() : undefined;
+      return span(startToken, { kind: 'Like' as const, expression: left, pattern, escape, not });
+    }
+    if (acceptKeyword('between')) {
+      const low = parseAdditive();
+      expectKeyword('and');
+      const high = parseAdditive();
+      return span(startToken, { kind: 'Between' as const, expression: left, low, high, not });
+    }
+    if (acceptKeyword('in')) {
+      expectSymbol('(');
+      if (atKeyword('select')) {
+        const subquery = parseSelect();
+        expectSymbol(')');
+        return span(startToken, { kind: 'In' as const, expression: left, list: [], subquery, not });
+      }
+      const list = [parseExpression()];
+      while (acceptSymbol(',')) list.push(parseExpression());
+      expectSymbol(')');
+      return span(startToken, { kind: 'In' as const, expression: left, list, not });
+    }
+    return left;
+  };
+
+  const parseAdditive = (): Expression => {
+    const startToken = peek()!;
+    let left = parseMultiplicative();
+    while (['+', '-', '&', '|', '^', '||'].some(op => atSymbol(op))) {
+      const operator = next().value;
+      const right = parseMultiplicative();
+      left = span(startToken, { kind: 'Binary' as const, operator, left, right });
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): Expression => {
+    const startToken = peek()!;
+    let left = parseUnary();
+    while (['*', '/', '%'].some(op => atSymbol(op))) {
+      const operator = next().value;
+      const right = parseUnary();
+      left = span(startToken, { kind: 'Binary' as const, operator, left, right });
+    }
+    return left;
+  };
+
+  const parseUnary = (): Expression => {
+    const startToken = peek();
+    if (atSymbol('-') || atSymbol('+') || atSymbol('~')) {
+      const operator = next().value;
+      const operand = parseUnary();
+      return span(startToken!, { kind: 'Unary' as const, operator, operand });
+    }
+    return parsePrimary();
+  };
+
+  const parseFunctionArguments = (name: string, startToken: Token): Expression => {
+    expectSymbol('(');
+    const lower = name.toLowerCase();
+    if (lower === 'convert') {
+      const dataType = parseDataType();
+      const args: Expression[] = [];
+      while (acceptSymbol(',')) args.push(parseExpression());
+      expectSymbol(')');
+      return span(startToken, { kind: 'FunctionCall' as const, name, args, distinct: false, star: false, dataType });
+    }
+    if (lower === 'cast') {
+      const expression = parseExpression();
+      expectKeyword('as');
+      const dataType = parseDataType();
+      expectSymbol(')');
+      return span(startToken, { kind: 'Cast' as const, expression, dataType });
+    }
+    if (atSymbol('*')) {
+      pos++;
+      expectSymbol(')');
+      return span(startToken, { kind: 'FunctionCall' as const, name, args: [], distinct: false, star: true });
+    }
+    const distinct = acceptKeyword('distinct');
+    if (!distinct) acceptKeyword('all');
+    const args: Expression[] = [];
+    if (!atSymbol(')')) {
+      args.push(parseExpression());
+      while (acceptSymbol(',')) args.push(parseExpression());
+    }
+    expectSymbol(')');
+    return span(startToken, { kind: 'FunctionCall' as const, name, args, distinct, star: false });
+  };
+
+  const parsePrimary = (): Expression => {
+    const token = peek();
+    if (!token) return fail('Unexpected end of input in expression');
+
+    switch (token.type) {
+      case 'number':
+      case 'binary':
+        pos++;
+        return span(token, { kind: 'Literal' as const, literalType: token.type, value: token.value });
+      case 'string':
+        pos++;
+        return span(token, { kind: 'Literal' as const, literalType: 'string' as const, value: token.value });
+      case 'variable':
+        pos++;
+        return span(token, { kind: 'Variable' as const, name: token.value });
+      case 'globalVariable':
+        pos++;
+        return span(token, { kind: 'GlobalVariable' as const, name: token.value });
+      default:
+        break;
+    }
+
+    if (atSymbol('(')) {
+      pos++;
+      if (atKeyword('select')) {
+        const query = parseSelect();
+        expectSymbol(')');
+        return span(token, { kind: 'Subquery' as const, query });
+      }
+      const expression = parseExpression();
+      expectSymbol(')');
+      return span(token, { kind: 'Paren' as const, expression });
+    }
+
+    if (atSymbol('*')) {
+      pos++;
+      return span(token, { kind: 'Star' as const, qualifier: [] });
+    }
+
+    if (atKeyword('null')) {
+      pos++;
+      return span(token, { kind: 'Literal' as const, literalType: 'null' as const, value: 'null' });
+    }
+
+    if (atKeyword('case')) return parseCase();
+
+    if (atKeyword('exists')) {
+      pos++;
+      expectSymbol('(');
+      const query = parseSelect();
+      expectSymbol(')');
+      return span(token, { kind: 'Exists' as const, query });
+    }
+
+    // Functions whose names collide with keywords
+    if (atKeyword('left', 'right', 'convert', 'user', 'char', 'update') && atSymbol('(', 1)) {
+      const name = next().value;
+      return parseFunctionArguments(name, token);
+    }
+
+    if (token.type === 'word' || token.type === 'quotedIdentifier') {
+      if (token.type === 'word' && RESERVED.has(token.value.toLowerCase())) {
+        fail(`Unexpected keyword ${describe(token)} in expression`);
+      }
+      const parts = [next().value];
+      while (atSymbol('.')) {
+        pos++;
+        if (atSymbol('*')) {
+          pos++;
+          return span(token, { kind: 'Star' as const, qualifier: parts });
+        }
+        if (atSymbol('.')) {
+          parts.push('');
+          continue;
+        }
+        parts.push(parseIdentifier());
+      }
+      if (atSymbol('(')) return parseFunctionArguments(parts.join('.'), token);
+      return span(token, { kind: 'Column' as const, parts });
+    }
+
+    return fail(`Unexpected ${describe(token)} in expression`);
+  };
+
+  const parseCase = (): Expression => {
+    const startToken = next();
+    const operand = atKeyword('when') ? undefined : parseExpression();
+    const whens: { when: Expression; then: Expression }[] = [];
+    while (acceptKeyword('when')) {
+      const when = parseExpression();
+      expectKeyword('then');
+      whens.push({ when, then: parseExpression() });
+    }
+    const elseExpression = acceptKeyword('else') ? parseExpression() : undefined;
+    expectKeyword('end');
+    return span(startToken, { kind: 'Case' as const, operand, whens, else: elseExpression });
+  };
+
+  // True when the next token can start an expression (used for optional operands)
+  const atExpressionStart = () => {
+    const token = peek();
+    if (!token || atStatementBoundary()) return false;
+    if (['number', 'string', 'binary', 'variable', 'globalVariable', 'quotedIdentifier'].includes(token.type)) return true;
+    if (atSymbol('(') || atSymbol('-') || atSymbol('+')) return true;
+    if (token.type === 'word') return !RESERVED.has(token.value.toLowerCase()) || atKeyword('null', 'case', 'exists');
+    return false;
+  };
+
+  // ---- Table sources ----
+
+  const parseOptionalAlias = (): string | undefined => {
+    if (acceptKeyword('as')) return parseIdentifier();
+    if (isIdentifierToken(peek()) && !atStatementBoundary()) return parseIdentifier();
+    return undefined;
+  };
+
+  const parseTablePrimary = (): TableSource => {
+    const startToken = peek()!;
+    if (atSymbol('(') && isKeyword(peek(1), 'select')) {
+      pos++;
+      const query = parseSelect();
+      expectSymbol(')');
+      const alias = parseOptionalAlias();
+      return span(startToken, { kind: 'DerivedTable' as const, query, alias });
+    }
+    const name = parseQualifiedName();
+    const alias = parseOptionalAlias();
+    const hints: string[] = [];
+    for (;;) {
+      if (atKeyword('holdlock', 'noholdlock', 'shared', 'readpast')) {
+        hints.push(next().value.toLowerCase());
+      } else if (atSymbol('(') && isKeyword(peek(1), 'index', 'prefetch', 'lru', 'mru')) {
+        const hintStart = next();
+        while (!atEnd() && !atSymbol(')')) pos++;
+        expectSymbol(')');
+        hints.push(source.slice(hintStart.start, last().end));
+      } else {
+        break;
+      }
+    }
+    return span(startToken, { kind: 'TableRef' as const, name, alias, hints });
+  };
+
+  const parseTableSource = (): TableSource => {
+    const startToken = peek()!;
+    let left = parseTablePrimary();
+    for (;;) {
+      let joinType: 'inner' | 'left' | 'right' | 'full' | 'cross' | undefined;
+      if (atKeyword('join')) joinType = 'inner';
+      else if (atKeyword('inner', 'cross') && isKeyword(peek(1), 'join')) joinType = next().value.toLowerCase() as 'inner' | 'cross';
+      else if (atKeyword('left', 'right', 'full') && isKeyword(peek(1), 'join', 'outer')) {
+        joinType = next().value.toLowerCase() as 'left' | 'right' | 'full';
+        acceptKeyword('outer');
+      }
+      if (!joinType) return left;
+      expectKeyword('join');
+      const right = parseTablePrimary();
+      const on = joinType !== 'cross' && acceptKeyword('on') ? parseExpression() : undefined;
+      left = span(startToken, { kind: 'Join' as const, joinType, left, right, on });
+    }
+  };
+
+  const parseFromList = (): TableSource[] => {
+    const sources = [parseTableSource()];
+    while (acceptSymbol(',')) sources.push(parseTableSource());
+    return sources;
+  };
+
+  // ---- SELECT ----
+
+  const parseSelectItem = (): SelectItem => {
+    const token = peek();
+    if (token && token.type === 'variable' && atSymbol('=', 1)) {
+      pos += 2;
+      return { expression: parseExpression(), assignTo: token.value };
+    }
+    // Sybase "alias = expression" column naming
+    if (token && (isIdentifierToken(token) || token.type === 'string') && atSymbol('=', 1)) {
+      pos += 2;
+      return { expression: parseExpression(), alias: token.value };
+    }
+    const expression = parseExpression();
+    let alias: string | undefined;
+    if (acceptKeyword('as')) alias = next().value;
+    else if (peek()?.type === 'string' || (isIdentifierToken(peek()) && !atStatementBoundary())) alias = next().value;
+    return { expression, alias };
+  };
+
+  const parseSelect = (): SelectStatement => {
+    const startToken = next();
+    const distinct = acceptKeyword('distinct');
+    if (!distinct) acceptKeyword('all');
+    const top = acceptKeyword('top') ? parseUnary() : undefined;
+
+    const columns = [parseSelectItem()];
+    while (acceptSymbol(',')) columns.push(parseSelectItem());
+
+    const into = acceptKeyword('into') ? parseQualifiedName() : undefined;
+    const from = acceptKeyword('from') ? parseFromList() : [];
+    const where = acceptKeyword('where') ? parseExpression() : undefined;
+
+    const groupBy: Expression[] = [];
+    if (atKeyword('group') && isKeyword(peek(1), 'by')) {
+      pos += 2;
+      groupBy.push(parseExpression());
+      while (acceptSymbol(',')) groupBy.push(parseExpression());
+    }
+    const having = acceptKeyword('having') ? parseExpression() : undefined;
+
+    let union: SelectStatement['union'];
+    if (acceptKeyword('union')) {
+      const all = acceptKeyword('all');
+      if (!atKeyword('select')) fail(`Expected 'SELECT' after UNION but found ${describe(peek())}`);
+      union = { all, query: parseSelect() };
+    }
+
+    const orderBy: OrderItem[] = [];
+    if (atKeyword('order') && isKeyword(peek(1), 'by')) {
+      pos += 2;
+      do {
+        const expression = parseExpression();
+        const direction = atKeyword('asc', 'desc') ? (next().value.toLowerCase() as 'asc' | 'desc') : undefined;
+        orderBy.push({ expression, direction });
+      } while (acceptSymbol(','));
+    }
+
+    // Trailing clauses that only affect locking or cursors
+    let forUpdate: SelectStatement['forUpdate'];
+    for (;;) {
+      if (atKeyword('for') && isKeyword(peek(1), 'update')) {
+        pos += 2;
+        forUpdate = { columns: acceptKeyword('of') ? parseIdentifierList() : [] };
+      } else if (atKeyword('at') && isKeyword(peek(1), 'isolation')) {
+        pos += 2;
+        while (!atEnd() && !atStatementBoundary() && !atSymbol(')') && !atKeyword('for')) pos++;
+      } else if (atKeyword('plan') && peek(1)?.type === 'string') {
+        pos += 2;
+      } else if (atKeyword('holdlock', 'noholdlock')) {
+        pos++;
+      } else {
+        break;
+      }
+    }
+
+    return span(startToken, {
+      kind: 'Select' as const,
+      distinct,
+      top,
+      columns,
+      into,
+      from,
+      where,
+      groupBy,
+      having,
+      orderBy,
+      union,
+      forUpdate,
+    });
+  };
+
+  // ---- DML ----
+
+  const parseInsert = (): InsertStatement => {
+    const startToken = next();
+    acceptKeyword('into');
+    const table = parseQualifiedName();
+    let columns: string[] = [];
+    if (atSymbol('(') && !isKeyword(peek(1), 'select')) columns = parseParenthesizedIdentifiers();
+    const values: Expression[][] = [];
+    let query: SelectStatement | undefined;
+    let exec: ExecStatement | undefined;
+    if (acceptKeyword('values')) {
+      do {
+        expectSymbol('(');
+        const row = [parseExpression()];
+        while (acceptSymbol(',')) row.push(parseExpression());
+        expectSymbol(')');
+        values.push(row);
+      } while (acceptSymbol(','));
+    } else if (atKeyword('select')) {
+      query = parseSelect();
+    } else if (atSymbol('(') && isKeyword(peek(1), 'select')) {
+      pos++;
+      query = parseSelect();
+      expectSymbol(')');
+    } else if (atKeyword('exec', 'execute')) {
+      exec = parseExec();
+    } else {
+      fail(`Expected VALUES, SELECT or EXEC but found ${describe(peek())}`);
+    }
+    return span(startToken, { kind: 'Insert' as const, table, columns, values, query, exec });
+  };
+
+  const parseUpdate = (): UpdateStatement => {
+    const startToken = next();
+    const table = parseQualifiedName();
+    expectKeyword('set');
+    const set: UpdateAssignment[] = [];
+    do {
+      const token = peek();
+      if (token?.type === 'variable') {
+        pos++;
+        expectSymbol('=');
+        set.push({ target: [], variable: token.value, value: parseExpression() });
+      } else {
+        const target = parseQualifiedName();
+        expectSymbol('=');
+        set.push({ target, value: parseExpression() });
+      }
+    } while (acceptSymbol(','));
+    const from = acceptKeyword('from') ? parseFromList() : [];
+    let where: Expression | undefined;
+    let currentOf: string | undefined;
+    if (acceptKeyword('where')) {
+      if (atKeyword('current') && isKeyword(peek(1), 'of')) {
+        pos += 2;
+        currentOf = parseIdentifier();
+      } else {
+        where = parseExpression();
+      }
+    }
+    return span(startToken, { kind: 'Update' as const, table, set, from, where, currentOf });
+  };
+
+  const parseDelete = (): DeleteStatement => {
+    const startToken = next();
+    acceptKeyword('from');
+    const table = parseQualifiedName();
+    // "delete t from t, u where ..." joins
+    const from = acceptKeyword('from') ? parseFromList() : [];
+    let where: Expression | undefined;
+    let currentOf: string | undefined;
+    if (acceptKeyword('where')) {
+      if (atKeyword('current') && isKeyword(peek(1), 'of')) {
+        pos += 2;
+        currentOf = parseIdentifier();
+      } else {
+        where = parseExpression();
+      }
+    }
+    return span(startToken, { kind: 'Delete' as const, table, from, where, currentOf });
+  };
+
+  // ---- Procedural statements ----
+
+  const parseDeclare = (): DeclareStatement | DeclareCursorStatement => {
+    const startToken = next();
+    if (peek()?.type === 'word' && isKeyword(peek(1), 'cursor')) {
+      const name = parseIdentifier();
+      pos++;
+      expectKeyword('for');
+      const query = parseSelect();
+      let readOnly = false;
+      if (atKeyword('for') && isKeyword(peek(1), 'read')) {
+        pos += 3;
+        readOnly = true;
+      }
+      const forUpdate = query.forUpdate;
+      return span(startToken, { kind: 'DeclareCursor' as const, name, query, forUpdate, readOnly });
+    }
+    const variables: DeclareStatement['variables'] = [];
+    do {
+      const token = next();
+      if (token.type !== 'variable') fail(`Expected variable name but found ${describe(token)}`, token);
+      acceptKeyword('as');
+      const dataType = parseDataType();
+      const value = acceptSymbol('=') ? parseExpression() : undefined;
+      variables.push({ name: token.value, dataType, value });
+    } while (acceptSymbol(','));
+    return span(startToken, { kind: 'Declare' as const, variables });
+  };
+
+  const parseSet = (): SetStatement => {
+    const startToken = next();
+    const token = peek();
+    if (token?.type === 'variable') {
+      pos++;
+      expectSymbol('=');
+      const value = parseExpression();
+      return span(startToken, { kind: 'Set' as const, variable: token.value, value });
+    }
+    const name = parseIdentifier().toLowerCase();
+    const valueStart = pos;
+    while (!atEnd() && peek()!.line === startToken.line && !atSymbol(';')) pos++;
+    const value = pos > valueStart ? source.slice(tokens[valueStart].start, last().end) : '';
+    return span(startToken, { kind: 'Set' as const, option: { name, value } });
+  };
+
+  const parseIf = (): IfStatement => {
+    const startToken = next();
+    const condition = parseExpression();
+    const then = parseStatement();
+    const elseStatement = acceptKeyword('else') ? parseStatement() : undefined;
+    return span(startToken, { kind: 'If' as const, condition, then, else: elseStatement });
+  };
+
+  const parseWhile = (): WhileStatement => {
+    const startToken = next();
+    const condition = parseExpression();
+    const body = parseStatement();
+    return span(startToken, { kind: 'While' as const, condition, body });
+  };
+
+  const parseBlock = (): BlockStatement => {
+    const startToken = next();
+    const statements = parseStatementList(() => atKeyword('end'));
+    expectKeyword('end');
+    return span(startToken, { kind: 'Block' as const, statements });
+  };
+
+  const parseRaiserror = (): RaiserrorStatement => {
+    const startToken = next();
+    // Microsoft style: raiserror('message', severity, state)
+    if (atSymbol('(')) {
+      pos++;
+      const message = parseExpression();
+      const args: Expression[] = [];
+      while (acceptSymbol(',')) args.push(parseExpression());
+      expectSymbol(')');
+      return span(startToken, { kind: 'Raiserror' as const, message, args });
+    }
+    // Sybase style: raiserror number [message] [, arg ...]
+    const errorNumber = parseAdditive();
+    let message: Expression | undefined;
+    if (!atSymbol(',') && atExpressionStart()) message = parseAdditive();
+    const args: Expression[] = [];
+    while (acceptSymbol(',')) args.push(parseExpression());
+    return span(startToken, { kind: 'Raiserror' as const, errorNumber, message, args });
+  };
+
+  const parseExecArguments = (): ExecArgument[] => {
+    const args: ExecArgument[] = [];
+    if (!atExpressionStart()) return args;
+    do {
+      let name: string | undefined;
+      if (peek()?.type === 'variable' && atSymbol('=', 1)) {
+        name = next().value;
+        pos++;
+      }
+      // Bare words are passed as strings in Sybase (e.g. sp_help customer)
+      const value = peek()?.type === 'word' && !atSymbol('(', 1) && !atSymbol('.', 1) && !RESERVED.has(peek()!.value.toLowerCase())
+        ? (() => {
+            const token = next();
+            return span(token, { kind: 'Literal' as const, literalType: 'string' as const, value: token.value });
+          })()
+        : parseExpression();
+      const output = acceptKeyword('output', 'out');
+      args.push({ name, value, output });
+    } while (acceptSymbol(','));
+    return args;
+  };
+
+  const parseExec = (): ExecStatement => {
+    const startToken = next();
+    if (atSymbol('(')) {
+      pos++;
+      const dynamic = parseExpression();
+      expectSymbol(')');
+      return span(startToken, { kind: 'Exec' as const, procedure: [], args: [], dynamic });
+    }
+    let returnVariable: string | undefined;
+    if (peek()?.type === 'variable' && atSymbol('=', 1)) {
+      returnVariable = next().value;
+      pos++;
+    }
+    const procedure = peek()?.type === 'variable' ? [next().value] : parseQualifiedName();
+    const args = parseExecArguments();
+    return span(startToken, { kind: 'Exec' as const, procedure, returnVariable, args });
+  };
+
+  // Implicit procedure call: a bare procedure name as the first statement of a batch
+  const parseImplicitExec = (): ExecStatement => {
+    const startToken = peek()!;
+    const procedure = parseQualifiedName();
+    const args = parseExecArguments();
+    return span(startToken, { kind: 'Exec' as const, procedure, args });
+  };
+
+  const parseTransactionName = (): string | undefined => {
+    const token = peek();
+    if (token && token.line === last().line && (isIdentifierToken(token) || token.type === 'variable')) {
+      pos++;
+      return token.value;
+    }
+    return undefined;
+  };
+
+  const parseTransaction = (action: 'begin' | 'commit' | 'rollback' | 'save'): Statement => {
+    const startToken = next();
+    if (action === 'begin') pos++;
+    else if (action === 'rollback' && acceptKeyword('trigger')) {
+      // rollback trigger [with raiserror number [message]]
+      if (!acceptKeyword('with')) return span(startToken, { kind: 'Transaction' as const, action });
+      if (!atKeyword('raiserror')) fail(`Expected 'RAISERROR' but found ${describe(peek())}`);
+      return span(startToken, { kind: 'Transaction' as const, action, raiserror: parseRaiserror() });
+    } else acceptKeyword('tran', 'transaction', 'work');
+    const name = parseTransactionName();
+    return span(startToken, { kind: 'Transaction' as const, action, name });
+  };
+
+  const parseCursorStatement = (kind: 'Open' | 'Close' | 'Deallocate'): Statement => {
+    const startToken = next();
+    if (kind === 'Deallocate') acceptKeyword('cursor');
+    const cursor = parseIdentifier();
+    return span(startToken, { kind, cursor });
+  };
+
+  const parseFetch = (): FetchStatement => {
+    const startToken = next();
+    acceptKeyword('next');
+    acceptKeyword('from');
+    const cursor = parseIdentifier();
+    const into: string[] = [];
+    if (acceptKeyword('into')) {
+      do {
+        const token = next();
+        if (token.type !== 'variable') fail(`Expected variable but found ${describe(token)}`, token);
+        into.push(token.value);
+      } while (acceptSymbol(','));
+    }
+    return span(startToken, { kind: 'Fetch' as const, cursor, into });
+  };
+
+  // ---- DDL ----
+
+  const parseReferences = () => {
+    const table = parseQualifiedName();
+    const columns = atSymbol('(') ? parseParenthesizedIdentifiers() : [];
+    return { table, columns };
+  };
+
+  const parseTableConstraint = (): TableConstraint => {
+    const startToken = peek()!;
+    const name = acceptKeyword('constraint') ? parseIdentifier() : undefined;
+    const skipIndexOptions = () => {
+      while (atKeyword('clustered', 'nonclustered', 'asc', 'desc')) pos++;
+    };
+    if (acceptKeyword('primary')) {
+      expectKeyword('key');
+      skipIndexOptions();
+      const columns = parseParenthesizedIdentifiers();
+      return span(startToken, { kind: 'TableConstraint' as const, constraintType: 'primaryKey' as const, name, columns });
+    }
+    if (acceptKeyword('unique')) {
+      skipIndexOptions();
+      const columns = parseParenthesizedIdentifiers();
+      return span(startToken, { kind: 'TableConstraint' as const, constraintType: 'unique' as const, name, columns });
+    }
+    if (acceptKeyword('foreign')) {
+      expectKeyword('key');
+      const columns = parseParenthesizedIdentifiers();
+      expectKeyword('references');
+      const references = parseReferences();
+      return span(startToken, { kind: 'TableConstraint' as const, constraintType: 'foreignKey' as const, name, columns, references });
+    }
+    if (acceptKeyword('check')) {
+      expectSymbol('(');
+      const check = parseExpression();
+      expectSymbol(')');
+      return span(startToken, { kind: 'TableConstraint' as const, constraintType: 'check' as const, name, columns: [], check });
+    }
+    return fail(`Expected table constraint but found ${describe(peek())}`);
+  };
+
+  const parseColumnDefinition = (): ColumnDefinition => {
+    const startToken = peek()!;
+    const name = parseIdentifier();
+    const dataType = parseDataType();
+    const column: Omit<ColumnDefinition, keyof NodeBase> = {
+      kind: 'ColumnDefinition',
+      name,
+      dataType,
+      identity: false,
+      primaryKey: false,
+      unique: false,
+    };
+    for (;;) {
+      if (acceptKeyword('identity')) {
+        column.identity = true;
+        // Microsoft style identity(seed, increment)
+        if (atSymbol('(')) {
+          while (!atEnd() && !atSymbol(')')) pos++;
+          expectSymbol(')');
+        }
+      } else if (acceptKeyword('null')) {
+        column.nullable = true;
+      } else if (atKeyword('not') && isKeyword(peek(1), 'null')) {
+        pos += 2;
+        column.nullable = false;
+      } else if (acceptKeyword('default')) {
+        column.default = parseAdditive();
+      } else if (acceptKeyword('constraint')) {
+        parseIdentifier();
+      } else if (acceptKeyword('primary')) {
+        expectKeyword('key');
+        column.primaryKey = true;
+      } else if (acceptKeyword('unique')) {
+        column.unique = true;
+      } else if (atKeyword('clustered', 'nonclustered')) {
+        pos++;
+      } else if (acceptKeyword('references')) {
+        column.references = parseReferences();
+      } else if (acceptKeyword('check')) {
+        expectSymbol('(');
+        column.check = parseExpression();
+        expectSymbol(')');
+      } else {
+        break;
+      }
+    }
+    return span(startToken, column);
+  };
+
+  // Skip storage clauses (lock datarows, on segment, with max_rows_per_page ...) up to the next statement
+  const skipToStatementBoundary = () => {
+    while (!atEnd() && !atStatementBoundary()) pos++;
+  };
+
+  const parseCreateTable = (startToken: Token): CreateTableStatement => {
+    const name = parseQualifiedName();
+    expectSymbol('(');
+    const columns: ColumnDefinition[] = [];
+    const constraints: TableConstraint[] = [];
+    do {
+      if (atKeyword('constraint', 'primary', 'unique', 'foreign', 'check')) constraints.push(parseTableConstraint());
+      else columns.push(parseColumnDefinition());
+    } while (acceptSymbol(','));
+    expectSymbol(')');
+    skipToStatementBoundary();
+    return span(startToken, { kind: 'CreateTable' as const, name, columns, constraints });
+  };
+
+  const parseParameters = (): ProcedureParameter[] => {
+    const parameters: ProcedureParameter[] = [];
+    const parenthesized = acceptSymbol('(');
+    if (peek()?.type === 'variable') {
+      do {
+        const paramName = next().value;
+        acceptKeyword('as');
+        const dataType = parseDataType();
+        const defaultValue = acceptSymbol('=') ? parseUnary() : undefined;
+        const output = acceptKeyword('output', 'out');
+        parameters.push({ name: paramName, dataType, default: defaultValue, output });
+      } while (acceptSymbol(','));
+    }
+    if (parenthesized) expectSymbol(')');
+    return parameters;
+  };
+
+  const parseCreateProcedure = (startToken: Token): CreateProcedureStatement => {
+    const name = parseQualifiedName();
+    // Procedure group number, e.g. "create proc p;2"
+    if (acceptSymbol(';')) next();
+    const parameters = parseParameters();
+    if (atKeyword('with') && isKeyword(peek(1), 'recompile')) pos += 2;
+    expectKeyword('as');
+    const body = parseStatementList(() => false);
+    return span(startToken, { kind: 'CreateProcedure' as const, name, parameters, body });
+  };
+
+  const parseCreateTrigger = (startToken: Token): CreateTriggerStatement => {
+    const name = parseQualifiedName();
+    expectKeyword('on');
+    const table = parseQualifiedName();
+    let timing: CreateTriggerStatement['timing'] = 'for';
+    if (acceptKeyword('after')) timing = 'after';
+    else if (atKeyword('instead') && isKeyword(peek(1), 'of')) {
+      pos += 2;
+      timing = 'instead of';
+    } else expectKeyword('for');
+    const events: CreateTriggerStatement['events'] = [];
+    do {
+      const event = next().value.toLowerCase();
+      if (event !== 'insert' && event !== 'update' && event !== 'delete') fail(`Unknown trigger event '${event}'`, last());
+      events.push(event as 'insert' | 'update' | 'delete');
+    } while (acceptSymbol(','));
+    expectKeyword('as');
+    const body = parseStatementList(() => false);
+    return span(startToken, { kind: 'CreateTrigger' as const, name, table, timing, events, body });
+  };
+
+  const parseCreateView = (startToken: Token): CreateViewStatement => {
+    const name = parseQualifiedName();
+    const columns = atSymbol('(') ? parseParenthesizedIdentifiers() : [];
+    expectKeyword('as');
+    const query = parseSelect();
+    let withCheckOption = false;
+    if (atKeyword('with') && isKeyword(peek(1), 'check')) {
+      pos += 3;
+      withCheckOption = true;
+    }
+    return span(startToken, { kind: 'CreateView' as const, name, columns, query, withCheckOption });
+  };
+
+  const parseCreateFunction = (startToken: Token): CreateFunctionStatement => {
+    const name = parseQualifiedName();
+    const parameters = parseParameters();
+    expectKeyword('returns');
+    const returns = parseDataType();
+    expectKeyword('as');
+    const body = parseStatementList(() => false);
+    return span(startToken, { kind: 'CreateFunction' as const, name, parameters, returns, body });
+  };
+
+  // create [unique] [clustered | nonclustered] index name on table (column [asc | desc], ...)
+  const parseCreateIndex = (startToken: Token): CreateIndexStatement => {
+    const unique = acceptKeyword('unique');
+    const clustered = acceptKeyword('clustered');
+    if (!clustered) acceptKeyword('nonclustered');
+    expectKeyword('index');
+    const name = parseQualifiedName();
+    expectKeyword('on');
+    const table = parseQualifiedName();
+    expectSymbol('(');
+    const columns: IndexColumn[] = [];
+    do {
+      const column = parseIdentifier();
+      const descending = acceptKeyword('desc');
+      if (!descending) acceptKeyword('asc');
+      columns.push({ name: column, descending });
+    } while (acceptSymbol(','));
+    expectSymbol(')');
+    skipToStatementBoundary();
+    return span(startToken, { kind: 'CreateIndex' as const, name, table, columns, unique, clustered });
+  };
+
+  const parseCreateDefault = (startToken: Token): CreateDefaultStatement => {
+    const name = parseQualifiedName();
+    expectKeyword('as');
+    const value = parseExpression();
+    return span(startToken, { kind: 'CreateDefault' as const, name, value });
+  };
+
+  const parseCreateRule = (startToken: Token): CreateRuleStatement => {
+    const name = parseQualifiedName();
+    expectKeyword('as');
+    const condition = parseExpression();
+    return span(startToken, { kind: 'CreateRule' as const, name, condition });
+  };
+
+  const parseCreateSequence = (startToken: Token): CreateSequenceStatement => {
+    const name = parseQualifiedName();
+    const optionsStart = pos;
+    skipToStatementBoundary();
+    const options = pos > optionsStart ? source.slice(tokens[optionsStart].start, last().end) : '';
+    return span(startToken, { kind: 'CreateSequence' as const, name, options });
+  };
+
+  // grant privileges [on object [(columns)]] to users [with grant option], and the matching revoke
+  const parseGrant = (action: 'grant' | 'revoke'): GrantStatement => {
+    const startToken = next();
+    if (action === 'revoke' && atKeyword('grant') && isKeyword(peek(1), 'option')) {
+      pos += 2;
+      expectKeyword('for');
+    }
+    const privileges: string[] = [];
+    const columns: string[] = [];
+    do {
+      const words: string[] = [];
+      while (!atEnd() && peek()!.type === 'word' && !atKeyword('on', 'to', 'from')) words.push(next().value.toLowerCase());
+      if (words.length === 0) fail(`Expected a privilege but found ${describe(peek())}`);
+      privileges.push(words.join(' ') === 'all privileges' ? 'all' : words.join(' '));
+      if (atSymbol('(')) columns.push(...parseParenthesizedIdentifiers());
+    } while (acceptSymbol(','));
+    let object: string[] | undefined;
+    if (acceptKeyword('on')) {
+      object = parseQualifiedName();
+      if (atSymbol('(')) columns.push(...parseParenthesizedIdentifiers());
+    }
+    expectKeyword(action === 'grant' ? 'to' : 'from');
+    const grantees = parseIdentifierList();
+    let withGrantOption = false;
+    if (atKeyword('with') && isKeyword(peek(1), 'grant')) {
+      pos += 2;
+      expectKeyword('option');
+      withGrantOption = true;
+    }
+    acceptKeyword('cascade');
+    return span(startToken, { kind: 'Grant' as const, action, privileges, object, columns, grantees, withGrantOption });
+  };
+
+  const parseUnknown = (startToken: Token): Statement => {
+    skipToStatementBoundary();
+    return span(startToken, { kind: 'Unknown' as const, text: source.slice(startToken.start, last().end) });
+  };
+
+  const parseCreate = (): Statement => {
+    const startToken = next();
+    if (acceptKeyword('table')) return parseCreateTable(startToken);
+    if (acceptKeyword('procedure', 'proc')) return parseCreateProcedure(startToken);
+    if (acceptKeyword('trigger')) return parseCreateTrigger(startToken);
+    if (acceptKeyword('view')) return parseCreateView(startToken);
+    if (acceptKeyword('function')) return parseCreateFunction(startToken);
+    if (atKeyword('unique', 'clustered', 'nonclustered', 'index')) return parseCreateIndex(startToken);
+    if (acceptKeyword('default')) return parseCreateDefault(startToken);
+    if (acceptKeyword('rule')) return parseCreateRule(startToken);
+    if (acceptKeyword('sequence')) return parseCreateSequence(startToken);
+    return parseUnknown(startToken);
+  };
+
+  const parseDrop = (): Statement => {
+    const startToken = next();
+    const objectType = next().value.toLowerCase();
+    const names = [parseQualifiedName()];
+    while (acceptSymbol(',')) names.push(parseQualifiedName());
+    return span(startToken, { kind: 'Drop' as const, objectType, names });
+  };
+
+  // ---- Statement dispatch ----
+
+  const parseStatement = (): Statement => {
+    const token = peek();
+    if (!token) return fail('Unexpected end of input, expected a statement');
+
+    if (atSymbol('(') && isKeyword(peek(1), 'select')) {
+      pos++;
+      const query = parseSelect();
+      expectSymbol(')');
+      return query;
+    }
+
+    if (token.type !== 'word') return fail(`Unexpected ${describe(token)} at start of statement`);
+
+    // label:
+    if (peek(1)?.type === 'unknown' && peek(1)!.value === ':' && !STATEMENT_KEYWORDS.has(token.value.toLowerCase())) {
+      pos += 2;
+      return span(token, { kind: 'Label' as const, name: token.value });
+    }
+
+    switch (token.value.toLowerCase()) {
+      case 'select':
+        return parseSelect();
+      case 'insert':
+        return parseInsert();
+      case 'update':
+        return parseUpdate();
+      case 'delete':
+        return parseDelete();
+      case 'truncate': {
+        pos++;
+        expectKeyword('table');
+        const table = parseQualifiedName();
+        return span(token, { kind: 'Truncate' as const, table });
+      }
+      case 'declare':
+        return parseDeclare();
+      case 'set':
+        return parseSet();
+      case 'if':
+        return parseIf();
+      case 'while':
+        return parseWhile();
+      case 'begin':
+        return isKeyword(peek(1), 'tran', 'transaction') ? parseTransaction('begin') : parseBlock();
+      case 'return': {
+        pos++;
+        const value = atExpressionStart() && peek()!.line === token.line ? parseExpression() : undefined;
+        return span(token, { kind: 'Return' as const, value });
+      }
+      case 'print': {
+        pos++;
+        const args = [parseExpression()];
+        while (acceptSymbol(',')) args.push(parseExpression());
+        return span(token, { kind: 'Print' as const, args });
+      }
+      case 'raiserror':
+        return parseRaiserror();
+      case 'exec':
+      case 'execute':
+        return parseExec();
+      case 'commit':
+        return parseTransaction('commit');
+      case 'rollback':
+        return parseTransaction('rollback');
+      case 'save':
+        return parseTransaction('save');
+      case 'open':
+        return parseCursorStatement('Open');
+      case 'close':
+        return parseCursorStatement('Close');
+      case 'deallocate':
+        return parseCursorStatement('Deallocate');
+      case 'fetch':
+        return parseFetch();
+      case 'break':
+        pos++;
+        return span(token, { kind: 'Break' as const });
+      case 'continue':
+        pos++;
+        return span(token, { kind: 'Continue' as const });
+      case 'goto': {
+        pos++;
+        const label = parseIdentifier();
+        return span(token, { kind: 'Goto' as const, label });
+      }
+      case 'use': {
+        pos++;
+        const database = parseIdentifier();
+        return span(token, { kind: 'Use' as const, database });
+      }
+      case 'create':
+        return parseCreate();
+      case 'grant':
+      case 'revoke':
+        return parseGrant(token.value.toLowerCase() as 'grant' | 'revoke');
+      case 'drop':
+        return parseDrop();
+      default:
+        if (STATEMENT_KEYWORDS.has(token.value.toLowerCase())) {
+          pos++;
+          return parseUnknown(token);
+        }
+        if (RESERVED.has(token.value.toLowerCase())) return fail(`Unexpected keyword ${describe(token)}`);
+        return parseImplicitExec();
+    }
+  };
+
+  // Parse statements until the stop condition, a batch separator or end of input.
+  // Errors are recorded and the offending text is kept as an Unknown statement.
+  const parseStatementList = (stop: () => boolean): Statement[] => {
+    const statements: Statement[] = [];
+    while (!atEnd() && !atBatchSeparator() && !stop()) {
+      if (acceptSymbol(';')) continue;
+      const startIndex = pos;
+      try {
+        statements.push(parseStatement());
+      } catch (error) {
+        if (!(error instanceof TsqlSyntaxError)) throw error;
+        errors.push({ message: error.message, line: error.line, column: error.column });
+        pos = Math.max(pos, startIndex + 1);
+        const startToken = tokens[startIndex];
+        skipToStatementBoundary();
+        statements.push(span(startToken, { kind: 'Unknown' as const, text: source.slice(startToken.start, last().end) }));
+      }
+      acceptSymbol(';');
+      // An unmatched END or ELSE at this level cannot start a statement; skip it
+      if (pos === startIndex) pos++;
+    }
+    return statements;
+  };
+
+  const batches: Batch[] = [];
+  while (!atEnd()) {
+    if (atBatchSeparator()) {
+      const separator = next();
+      // Optional repeat count: "go 10"
+      if (peek()?.type === 'number' && peek()!.line === separator.line) pos++;
+      continue;
+    }
+    const startToken = peek()!;
+    const statements = parseStatementList(() => false);
+    if (statements.length > 0) batches.push(span(startToken, { kind: 'Batch' as const, statements }));
+  }
+
+  return { script: { kind: 'Script', batches }, errors };
+};
+
+// Visit every node of a parsed tree depth-first, parents before children
+export const visitAst = (
+  root: AstNode | AstNode[] | { batches: Batch[] },
+  callback: (node: AstNode, parent?: AstNode) => void
+) => {
+  const walk = (value: unknown, parent?: AstNode) => {
+    if (Array.isArray(value)) {
+      value.forEach(item => walk(item, parent));
+      return;
+    }
+    if (!value || typeof value !== 'object') return;
+    const record = value as Record<string, unknown>;
+    let current = parent;
+    if (typeof record.kind === 'string' && record.kind !== 'Script') {
+      callback(record as unknown as AstNode, parent);
+      current = record as unknown as AstNode;
+    }
+    Object.keys(record).forEach(key => walk(record[key], current));
+  };
+  walk(root);
+};
@@ -0,0 +1,196 @@
+import oracledb from 'npm:oracledb@6.6.0';
+import { createdObject, quoteName, sourceLineOffset } from './oracleScript.ts';
+
+export interface ConnectionDetails {
+  host: string;
+  port: string;
+  username: string;
+  password: string;
+  database: string;
+  connectionString?: string;
+}
+
+export interface CompileError {
+  line: number;
+  position: number;
+  text: string;
+  attribute: 'ERROR' | 'WARNING';
+}
+
+// What existed under an object's name before a deployment replaced it
+export interface ObjectDefinition {
+  exists: boolean;
+  // For stored code and views: the definition to put after CREATE OR REPLACE
+  source?: string;
+}
+
+export interface ExecuteResult {
+  rowsAffected?: number;
+  // Set when the object was created but did not compile (ORA-24344)
+  compiledWithErrors?: boolean;
+}
+
+export class OracleError extends Error {
+  constructor(message: string, public code: string, public offset?: number) {
+    super(message);
+  }
+}
+
+export interface OracleSession {
+  execute: (sql: string) => Promise<ExecuteResult>;
+  compileErrors: (name: string, type: string) => Promise<CompileError[]>;
+  describeObject: (name: string, type: string) => Promise<ObjectDefinition>;
+  close: () => Promise<void>;
+}
+
+export interface OracleDriver {
+  id: string;
+  connect: (connection: ConnectionDetails) => Promise<OracleSession>;
+}
+
+const connectString = (connection: ConnectionDetails) =>
+  connection.connectionString?.trim() || `${connection.host}:${connection.port || '1521'}/${connection.database}`;
+
+// Object types whose source USER_SOURCE keeps
+const STORED_SOURCE_TYPES = ['PROCEDURE', 'FUNCTION', 'PACKAGE', 'PACKAGE BODY', 'TRIGGER', 'TYPE', 'TYPE BODY'];
+
+// ---- node-oracledb (Thin mode, so no Instant Client is needed) ----
+
+const toOracleError = (e: unknown): OracleError => {
+  const error = e as { message?: string; errorNum?: number; offset?: number; code?: string };
+  const code = error.errorNum ? `ORA-${String(error.errorNum).padStart(5, '0')}` : error.code ?? 'UNKNOWN';
+  return new OracleError(error.message ?? String(e), code, error.offset || undefined);
+};
+
+const createOracledbDriver = (): OracleDriver => ({
+  id: 'oracledb',
+  connect: async connection => {
+    let conn: oracledb.Connection;
+    try {
+      conn = await oracledb.getConnection({
+        user: connection.username,
+        password: connection.password,
+        connectString: connectString(connection),
+      });
+    } catch (e) {
+      throw toOracleError(e);
+    }
+    return {
+      execute: async sql => {
+        try {
+          const result = await conn.execute(sql, [], { autoCommit: true });
+          return { rowsAffected: result.rowsAffected, compiledWithErrors: !!result.warning };
+        } catch (e) {
+          const error = toOracleError(e);
+          if (error.code === 'ORA-24344') return { compiledWithErrors: true };
+          throw error;
+        }
+      },
+      compileErrors: async (name, type) => {
+        const result = await conn.execute<CompileError>(
+          `SELECT line AS "line", position AS "position", text AS "text", attribute AS "attribute"
+             FROM user_errors WHERE name = :name AND type = :type ORDER BY sequence`,
+          { name, type },
+          { outFormat: oracledb.OUT_FORMAT_OBJECT }
+        );
+        return result.rows ?? [];
+      },
+      describeObject: async (name, type) => {
+        const existing = await conn.execute(
+          'SELECT 1 FROM user_objects WHERE object_name = :name AND object_type = :type',
+          { name, type }
+        );
+        if (!existing.rows?.length) return { exists: false };
+        if (STORED_SOURCE_TYPES.includes(type)) {
+          const source = await conn.execute<{ TEXT: string }>(
+            'SELECT text FROM user_source WHERE name = :name AND type = :type ORDER BY line',
+            { name, type },
+            { outFormat: oracledb.OUT_FORMAT_OBJECT }
+          );
+          return { exists: true, source: (source.rows ?? []).map(row => row.TEXT).join('') };
+        }
+        if (type === 'VIEW') {
+          const view = await conn.execute<{ TEXT: string }>(
+            'SELECT text FROM user_views WHERE view_name = :name',
+            { name },
+            { outFormat: oracledb.OUT_FORMAT_OBJECT }
+          );
+          return { exists: true, source: `VIEW ${quoteName(name)} AS\n${view.rows?.[0]?.TEXT ?? ''}` };
+        }
+        return { exists: true };
+      },
+      close: () => conn.close(),
+    };
+  },
+});
+
+// ---- Stub (no database) ----
+
+// Objects the stub has created, kept for the life of the function instance so that
+// a later deployment or rollback sees them
+const stubObjects = new Map<string, string>();
+
+// Accepts every statement except those matching a DEPLOY_STUB_ERRORS pattern, e.g.
+// {"\\bmissing_table\\b": "ORA-00942: table or view does not exist"}. A PLS- message
+// makes the created object compile with that error instead of failing the statement.
+
+const createStubDriver = (): OracleDriver => {
+  const rules = Object.entries(JSON.parse(Deno.env.get('DEPLOY_STUB_ERRORS') || '{}') as Record<string, string>)
+    .map(([pattern, message]) => ({ pattern: new RegExp(pattern, 'i'), message }));
+  return {
+    id: 'stub',
+    connect: async connection => {
+      if (!connection.username || !connectString(connection).replace(/[:/]/g, '')) {
+        throw new OracleError('ORA-12154: Cannot connect to database', 'ORA-12154');
+      }
+      const errors = new Map<string, CompileError[]>();
+      return {
+        execute: async sql => {
+          const object = createdObject(sql);
+          if (object) errors.delete(`${object.type}:${object.name}`);
+          const dropped = /^drop\s+(package\s+body|type\s+body|\w+)\s+("[^"]+"|[\w$#]+)/i.exec(sql);
+          if (dropped) {
+            const name = dropped[2].startsWith('"') ? dropped[2].slice(1, -1) : dropped[2].toUpperCase();
+            const type = dropped[1].replace(/\s+/g, ' ').toUpperCase();
+            stubObjects.delete(`${type}:${name}`);
+            // Dropping a specification drops its body too
+            if (type === 'PACKAGE' || type === 'TYPE') stubObjects.delete(`${type} BODY:${name}`);
+          }
+          for (const rule of rules) {
+            const match = rule.pattern.exec(sql);
+            if (!match) continue;
+            const before = sql.slice(0, match.index).split('\n');
+            if (object && rule.message.startsWith('PLS-')) {
+              errors.set(`${object.type}:${object.name}`, [{
+                line: before.length - sourceLineOffset({ sql, object }),
+                position: before[before.length - 1].length + 1,
+                text: rule.message,
+                attribute: 'ERROR',
+              }]);
+              stubObjects.set(`${object.type}:${object.name}`, sql.replace(/^create\s+(or\s+replace\s+)?/i, ''));
+              return { compiledWithErrors: true };
+            }
+            throw new OracleError(rule.message, rule.message.split(':')[0], match.index);
+          }
+          if (object) stubObjects.set(`${object.type}:${object.name}`, sql.replace(/^create\s+(or\s+replace\s+)?/i, ''));
+          return { rowsAffected: 0 };
+        },
+        compileErrors: async (name, type) => errors.get(`${type}:${name}`) ?? [],
+        describeObject: async (name, type) => {
+          const source = stubObjects.get(`${type}:${name}`);
+          if (source === undefined) return { exists: false };
+          return { exists: true, source: STORED_SOURCE_TYPES.includes(type) || type === 'VIEW' ? source : undefined };
+        },
+        close: async () => {},
+      };
+    },
+  };
+};
+
+// DEPLOY_DRIVER selects the backend: 'oracledb' (default) or 'stub'
+export const getDriver = (): OracleDriver => {
+  const configured = Deno.env.get('DEPLOY_DRIVER') ?? 'oracledb';
+  if (configured === 'stub') return createStubDriver();
+  if (configured !== 'oracledb') throw new Error(`Unknown DEPLOY_DRIVER '${configured}'`);
+  return createOracledbDriver();
+};
@@ -0,0 +1,144 @@
+// Splits converted Oracle scripts into the statements a driver can execute one by one,
+// the way SQL*Plus does: PL/SQL units run up to a line holding only "/", other SQL up
+// to its ";". SQL*Plus commands are dropped since the database would reject them.
+
+export interface CreatedObject {
+  name: string;
+  // As in USER_ERRORS.TYPE
+  type: string;
+}
+
+export interface ScriptStatement {
+  sql: string;
+  // 1-based line of the statement's first keyword in the script
+  line: number;
+  plsql: boolean;
+  object?: CreatedObject;
+}
+
+const PLSQL_START = /^(create\s+(or\s+replace\s+)?((editionable|noneditionable)\s+)?(procedure|function|package|trigger|type)\b|declare\b|begin\b)/i;
+
+const SQLPLUS_COMMAND = /^(set|prompt|spool|whenever|exit|quit|show|rem|remark|define|undefine|column|ttitle|btitle|pause|host|accept|variable|print|@)(\s|$)/i;
+
+// The object a CREATE statement makes, for looking up its errors in USER_ERRORS and
+// its previous definition in USER_OBJECTS
+export const createdObject = (sql: string): CreatedObject | undefined => {
+  const match = /^create\s+(?:or\s+replace\s+)?(?:(?:editionable|noneditionable|force|noforce|global\s+temporary|private\s+temporary|unique|bitmap)\s+)*(procedure|function|trigger|view|package\s+body|package|type\s+body|type|table|sequence|index|synonym)\s+("[^"]+"|[\w$#]+)(?:\s*\.\s*("[^"]+"|[\w$#]+))?/i.exec(sql);
+  if (!match) return undefined;
+  const name = match[3] ?? match[2];
+  return {
+    type: match[1].replace(/\s+/g, ' ').toUpperCase(),
+    name: name.startsWith('"') ? name.slice(1, -1) : name.toUpperCase(),
+  };
+};
+
+export const quoteName = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// Lines of the statement before line 1 of the source Oracle stores for it. USER_ERRORS
+// numbers trigger lines from the start of the PL/SQL block, not from CREATE.
+export const sourceLineOffset = (statement: Pick<ScriptStatement, 'sql' | 'object'>): number => {
+  if (statement.object?.type !== 'TRIGGER') return 0;
+  const block = statement.sql.split('\n').findIndex(text => /\b(declare|begin|compound\s+trigger)\b/i.test(text));
+  return Math.max(block, 0);
+};
+
+export const splitOracleScript = (script: string): ScriptStatement[] => {
+  const source = script.replace(/\r\n/g, '\n');
+  const statements: ScriptStatement[] = [];
+  let pos = 0;
+  let line = 1;
+
+  const atLineStart = (index: number) => source.slice(source.lastIndexOf('\n', index - 1) + 1, index).trim() === '';
+  const lineEnd = (index: number) => {
+    const end = source.indexOf('\n', index);
+    return end === -1 ? source.length : end;
+  };
+  const isTerminatorLine = (index: number) => atLineStart(index) && source.slice(index, lineEnd(index)).trim() === '/';
+  const countLines = (from: number, to: number) => {
+    for (let i = from; i < to; i++) if (source[i] === '\n') line++;
+  };
+
+  // Index just past the string, quoted identifier or comment starting at index, if any
+  const skipLiteral = (index: number): number | undefined => {
+    const two = source.slice(index, index + 2);
+    if (two === '--') return lineEnd(index);
+    if (two === '/*') {
+      const close = source.indexOf('*/', index + 2);
+      return close === -1 ? source.length : close + 2;
+    }
+    const quoted = /^n?q'(.)/i.exec(source.slice(index, index + 4));
+    if (quoted && (index === 0 || !/[\w$#]/.test(source[index - 1]))) {
+      const open = quoted[1];
+      const close = `${({ '[': ']', '(': ')', '{': '}', '<': '>' } as Record<string, string>)[open] ?? open}'`;
+      const end = source.indexOf(close, index + quoted[0].length);
+      return end === -1 ? source.length : end + 2;
+    }
+    if (source[index] === '\'' || source[index] === '"') {
+      const quote = source[index];
+      let i = index + 1;
+      while (i < source.length) {
+        if (source[i] === quote && source[i + 1] === quote) i += 2;
+        else if (source[i] === quote) return i + 1;
+        else i++;
+      }
+      return source.length;
+    }
+    return undefined;
+  };
+
+  while (pos < source.length) {
+    // Whitespace and comments between statements
+    if (/\s/.test(source[pos])) {
+      if (source[pos] === '\n') line++;
+      pos++;
+      continue;
+    }
+    const two = source.slice(pos, pos + 2);
+    if (two === '--' || two === '/*') {
+      const end = skipLiteral(pos)!;
+      countLines(pos, end);
+      pos = end;
+      continue;
+    }
+    const rest = source.slice(pos, lineEnd(pos));
+    if (source[pos] === '/' && rest.trim() === '/') {
+      pos = lineEnd(pos);
+      continue;
+    }
+    if (atLineStart(pos) && SQLPLUS_COMMAND.test(rest)) {
+      pos = lineEnd(pos);
+      continue;
+    }
+
+    const start = pos;
+    const startLine = line;
+    const plsql = PLSQL_START.test(source.slice(pos, pos + 80));
+    let end = source.length;
+    let next = source.length;
+    while (pos < source.length) {
+      const literalEnd = skipLiteral(pos);
+      if (literalEnd !== undefined) {
+        countLines(pos, literalEnd);
+        pos = literalEnd;
+        continue;
+      }
+      if (source[pos] === '/' && isTerminatorLine(pos)) {
+        end = pos;
+        next = lineEnd(pos);
+        break;
+      }
+      if (!plsql && source[pos] === ';') {
+        end = pos;
+        next = pos + 1;
+        break;
+      }
+      if (source[pos] === '\n') line++;
+      pos++;
+    }
+    const sql = source.slice(start, end).trim();
+    countLines(pos, next);
+    pos = next;
+    if (sql) statements.push({ sql, line: startLine, plsql, object: createdObject(sql) });
+  }
+  return statements;
+};
@@ -0,0 +1,177 @@
+// Prompts and fixture keys of the edge function providers. The browser-side providers have
+// their own copy in src/utils/aiPrompts.ts; src/utils/aiPrompts.test.ts checks that both
+// build the same prompts and keys.
+
+export type Operation = 'convert' | 'explain' | 'fix';
+
+export interface ConversionIssue {
+  lineNumber?: number;
+  description: string;
+  severity: 'info' | 'warning' | 'error';
+  suggestedFix?: string;
+}
+
+export interface PromptRequest {
+  model?: string;
+  fileName?: string;
+  // table, view, function, procedure, trigger, default, rule, sequence, index, grant or other
+  objectType?: string;
+  sybaseCode: string;
+  draft?: string;
+  customPrompt?: string;
+  oracleCode?: string;
+  issues?: ConversionIssue[];
+  schemaContext?: string;
+  settings?: { identityStyle: string; resultSetStyle?: string; cursorStyle?: string; naming?: NamingSettings; typeMappings?: TypeMappingSettings[] };
+}
+
+export interface OperationRequest extends PromptRequest {
+  operation: Operation;
+}
+
+export interface NamingSettings {
+  identifierCase: string;
+  maxLength: number;
+  reservedWords: Record<string, string>;
+  variablePrefix: string;
+  parameterPrefix: string;
+}
+
+export interface TypeMappingSettings {
+  sybaseType: string;
+  oracleType: string;
+}
+
+const DEFAULT_CONVERT_PROMPT = 'Convert the following Sybase SQL code to Oracle PL/SQL. Ensure 100% accuracy and best practices. Output only the converted Oracle code.';
+
+const draftSection = (request: PromptRequest) =>
+  request.draft
+    ? `\n\nRule-based draft conversion (use as a starting point, verify and complete it):\n${request.draft}`
+    : '';
+
+const schemaSection = (request: PromptRequest) =>
+  request.schemaContext
+    ? `\n\nSybase definitions of the tables, user-defined types, defaults and rules this code uses (use them for column types and %TYPE anchoring):\n${request.schemaContext}`
+    : '';
+
+const IDENTITY_INSTRUCTIONS: Record<string, string> = {
+  identity: 'Convert identity columns to GENERATED BY DEFAULT AS IDENTITY.',
+  sequence: 'Convert identity columns to a NOT NULL column filled by a sequence named <table>_seq and a BEFORE INSERT FOR EACH ROW trigger named <table>_bi that assigns NEXTVAL when the column is NULL.',
+};
+
+const RESULT_SET_INSTRUCTIONS: Record<string, string> = {
+  refcursor: 'Return the rows of each SELECT that sends a result set to the client through an OUT SYS_REFCURSOR parameter added at the end of the parameter list, named p_result, or p_result1, p_result2, ... when the procedure returns several, and opened with OPEN ... FOR.',
+  implicit: 'Return the rows of each SELECT that sends a result set to the client as an implicit result: OPEN a local SYS_REFCURSOR named c_result (c_result1, c_result2, ... when there are several) FOR the query and pass it to DBMS_SQL.RETURN_RESULT.',
+};
+
+const CURSOR_INSTRUCTIONS: Record<string, string> = {
+  'for-loop': 'Convert cursor loops (OPEN, FETCH ... INTO and WHILE @@sqlstatus = 0) to a cursor FOR loop named <cursor>_row, without OPEN and CLOSE, assigning the fetched variables from the record at the start of each iteration.',
+  'bulk-collect': 'Convert cursor loops (OPEN, FETCH ... INTO and WHILE @@sqlstatus = 0) to FETCH <cursor> BULK COLLECT INTO <cursor>_rows LIMIT 100 in a loop, with a FOR loop over each batch that assigns the fetched variables, and EXIT WHEN <cursor>%NOTFOUND after the batch.',
+  explicit: 'Convert cursor loops (OPEN, FETCH ... INTO and WHILE @@sqlstatus = 0) to a LOOP that starts with FETCH ... INTO and EXIT WHEN <cursor>%NOTFOUND.',
+};
+
+const CASE_INSTRUCTIONS: Record<string, string> = {
+  'as-written': 'Write names as they appear in the Sybase code.',
+  upper: 'Write names in upper case.',
+  lower: 'Write names in lower case.',
+  quoted: 'Keep the case of mixed-case names by writing them as quoted identifiers.',
+};
+
+const namingInstructions = (naming: NamingSettings): string => {
+  const renames = Object.entries(naming.reservedWords).map(([word, rename]) => `${word} to ${rename}`).join(', ');
+  return [
+    CASE_INSTRUCTIONS[naming.identifierCase] || CASE_INSTRUCTIONS['as-written'],
+    `Prefix variables with ${naming.variablePrefix} and parameters with ${naming.parameterPrefix}.`,
+    `Rename Oracle reserved words used as names${renames ? ` (${renames})` : ''}; other reserved words get a trailing underscore.`,
+    `Names longer than ${naming.maxLength} characters are shortened and end in a hash; take every name from the rule-based draft so that references between files match.`,
+  ].join(' ');
+};
+
+const typeMappingInstructions = (mappings: TypeMappingSettings[]): string => {
+  const listed = mappings.map(mapping => `${mapping.sybaseType} to ${mapping.oracleType}`).join(', ');
+  return `${listed ? `Map these Sybase data types as listed, where the letters in parentheses stand for the length, precision and scale: ${listed}. ` : ''}Declare columns and variables of user-defined types (sp_addtype) with the Oracle type of their physical type, unless the type itself is listed.`;
+};
+
+// Code that builds SQL strings and runs them with exec(...) or sp_executesql
+const DYNAMIC_SQL = /\bexec(?:ute)?\s*\(|\bsp_executesql\b/i;
+
+const dynamicSqlSection = (request: PromptRequest) =>
+  DYNAMIC_SQL.test(request.sybaseCode)
+    ? '\n\nDynamic SQL: convert exec(@sql) and sp_executesql to EXECUTE IMMEDIATE. Translate the T-SQL inside the string literals that build each statement to Oracle SQL. Pass values as bind variables (:name placeholders and a USING clause; sp_executesql parameters keep their names, and output parameters filled by a SELECT become its INTO list) instead of concatenating them into the text. Only concatenate names, checked with DBMS_ASSERT.'
+    : '';
+
+const OUTER_JOIN = /\*=|=\*/;
+
+const outerJoinSection = (request: PromptRequest) =>
+  OUTER_JOIN.test(request.sybaseCode)
+    ? '\n\nOuter joins: rewrite *= (the left table keeps all its rows) and =* (the right table does) as LEFT or RIGHT OUTER JOIN ... ON, not the (+) notation. Other WHERE conditions on the inner table belong in the ON clause, because Sybase applies them while joining; conditions on the preserved table stay in WHERE.'
+    : '';
+
+// Instructions for the kind of object the file creates; tables, procedures and triggers need none
+const OBJECT_TYPE_INSTRUCTIONS: Record<string, string> = {
+  view: 'This file creates a view: write CREATE OR REPLACE VIEW with the query converted to Oracle SQL, keeping the column list and WITH CHECK OPTION.',
+  function: 'This file creates a user-defined function: write CREATE OR REPLACE FUNCTION ... RETURN <type> AS, with parameter and return types without a length, the declarations before BEGIN and each RETURN keeping its value. Calls written as owner.function(...) call user-defined functions.',
+  default: 'This file creates defaults, which Oracle does not have: leave each create default as a comment and convert each sp_bindefault of it to ALTER TABLE <table> MODIFY (<column> DEFAULT <value>).',
+  rule: 'This file creates rules, which Oracle does not have: leave each create rule as a comment and convert each sp_bindrule of it to ALTER TABLE <table> ADD CONSTRAINT <rule>_<column> CHECK (<condition, with the variable replaced by the column>) ENABLE NOVALIDATE.',
+  sequence: 'This file creates sequences: write CREATE SEQUENCE with the same options, spelling NO MINVALUE, NO MAXVALUE, NO CACHE and NO CYCLE as NOMINVALUE, NOMAXVALUE, NOCACHE and NOCYCLE.',
+  index: 'This file creates indexes: write CREATE [UNIQUE] INDEX without CLUSTERED, NONCLUSTERED and the Sybase storage options. Oracle index names are unique in the whole schema, not per table.',
+  grant: 'This file grants or revokes permissions: write Oracle GRANT and REVOKE statements. Column lists are allowed for INSERT, UPDATE and REFERENCES only, statement permissions become system privileges (create function is CREATE PROCEDURE), and permissions without an Oracle equivalent are left as comments.',
+};
+
+const objectTypeSection = (request: PromptRequest) => {
+  const instructions = request.objectType && OBJECT_TYPE_INSTRUCTIONS[request.objectType];
+  return instructions ? `\n\n${instructions}` : '';
+};
+
+// Conventions chosen for the migration, so every file is converted the same way
+const settingsSection = (request: PromptRequest) => {
+  const identity = request.settings && IDENTITY_INSTRUCTIONS[request.settings.identityStyle];
+  if (!identity) return '';
+  const resultSets = request.settings?.resultSetStyle && RESULT_SET_INSTRUCTIONS[request.settings.resultSetStyle];
+  const cursors = request.settings?.cursorStyle && CURSOR_INSTRUCTIONS[request.settings.cursorStyle];
+  const naming = request.settings?.naming && namingInstructions(request.settings.naming);
+  const typeMappings = request.settings?.typeMappings && typeMappingInstructions(request.settings.typeMappings);
+  return `\n\nConventions for this migration:\n- ${identity}\n- Replace @@identity and SCOPE_IDENTITY() with RETURNING <identity column> INTO <variable> on the INSERT that generates the value.${resultSets ? `\n- ${resultSets}` : ''}${cursors ? `\n- ${cursors} @@sqlstatus = 2 (@@fetch_status = -1) means %NOTFOUND.` : ''}${naming ? `\n- ${naming}` : ''}${typeMappings ? `\n- ${typeMappings}` : ''}`;
+};
+
+export const buildConvertPrompt = (request: PromptRequest): string => {
+  const instructions = request.customPrompt && request.customPrompt.trim().length > 0
+    ? request.customPrompt
+    : DEFAULT_CONVERT_PROMPT;
+  return `${instructions}${objectTypeSection(request)}${settingsSection(request)}${dynamicSqlSection(request)}${outerJoinSection(request)}${schemaSection(request)}\n\nSybase code:\n${request.sybaseCode}${draftSection(request)}`;
+};
+
+export const buildExplainPrompt = (request: PromptRequest): string =>
+  `Explain the main changes and rationale for converting the following Sybase SQL code to Oracle PL/SQL. Highlight any complex rewrites, data type changes, and best practices applied.\n\nSybase code:\n${request.sybaseCode}\n\nOracle code:\n${request.oracleCode || ''}`;
+
+export const buildFixPrompt = (request: PromptRequest): string => {
+  const issues = (request.issues || [])
+    .map(issue => `- ${issue.lineNumber ? `Line ${issue.lineNumber}: ` : ''}${issue.description}${issue.suggestedFix ? ` (${issue.suggestedFix})` : ''}`)
+    .join('\n');
+  return `The following Oracle PL/SQL was converted from Sybase and has these issues:\n${issues || '- (no issues recorded)'}\n\nFix the issues and output only the corrected Oracle code.${objectTypeSection(request)}${settingsSection(request)}${dynamicSqlSection(request)}${outerJoinSection(request)}${schemaSection(request)}\n\nSybase code:\n${request.sybaseCode}\n\nOracle code:\n${request.oracleCode || ''}`;
+};
+
+export const buildPrompt = (request: OperationRequest): string => {
+  switch (request.operation) {
+    case 'convert':
+      return buildConvertPrompt(request);
+    case 'explain':
+      return buildExplainPrompt(request);
+    case 'fix':
+      return buildFixPrompt(request);
+  }
+};
+
+// Models tend to wrap code in markdown fences even when asked not to
+export const stripCodeFences = (text: string): string => text.replace(/^```[a-zA-Z]*|```$/g, '').trim();
+
+// Fixture keys are a hash of the operation and the code, so recorded responses are stable across runs
+export const fixtureKey = (operation: Operation, code: string): string => {
+  let hash = 0x811c9dc5;
+  const text = `${operation}:${code.replace(/\r\n/g, '\n').trim()}`;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${operation}-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+};
@@ -0,0 +1,84 @@
+import { fixtureKey, OperationRequest } from './prompts.ts';
+
+export interface ProviderResponse {
+  text: string;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export interface ServerProvider {
+  id: string;
+  models: string[];
+  generate: (model: string, prompt: string, request: OperationRequest) => Promise<ProviderResponse>;
+}
+
+// ---- Gemini (REST, so the function needs no SDK) ----
+
+const createGeminiProvider = (apiKey: string): ServerProvider => ({
+  id: 'gemini',
+  models: (Deno.env.get('GEMINI_MODELS') ?? 'gemini-2.5-pro,gemini-2.5-flash').split(',').map(model => model.trim()).filter(Boolean),
+  generate: async (model, prompt) => {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: JSON.stringify({ contents: [{ role: 'user', parts: [{ text: prompt }] }] }),
+      }
+    );
+    if (!response.ok) {
+      throw new Error(`Gemini returned ${response.status}: ${await response.text()}`);
+    }
+    const data = await response.json();
+    const text = (data?.candidates?.[0]?.content?.parts ?? [])
+      .map((part: { text?: string }) => part.text ?? '')
+      .join('');
+    if (!text) throw new Error('Gemini returned an empty response');
+    return {
+      text,
+      promptTokens: data?.usageMetadata?.promptTokenCount,
+      completionTokens: data?.usageMetadata?.candidatesTokenCount,
+    };
+  },
+});
+
+// ---- Mock (fixture replay) ----
+
+const loadFixtures = async (): Promise<Record<string, string>> => {
+  const path = Deno.env.get('MOCK_FIXTURES_PATH');
+  if (!path) return {};
+  return JSON.parse(await Deno.readTextFile(path));
+};
+
+// Deterministic and offline: replays recorded responses, otherwise answers with the
+// rule-based draft sent by the client
+const createMockProvider = (): ServerProvider => {
+  let fixtures: Promise<Record<string, string>> | undefined;
+  return {
+    id: 'mock',
+    models: ['fixtures'],
+    generate: async (_model, _prompt, request) => {
+      fixtures ??= loadFixtures();
+      const recorded = (await fixtures)[fixtureKey(request.operation, request.sybaseCode)];
+      if (recorded !== undefined) return { text: recorded };
+      switch (request.operation) {
+        case 'convert':
+          return { text: request.draft ?? '' };
+        case 'explain':
+          return { text: 'Mock explanation: no recorded fixture for this file.' };
+        case 'fix':
+          return { text: request.oracleCode ?? request.draft ?? '' };
+      }
+    },
+  };
+};
+
+// AI_PROVIDER selects the backend: 'gemini' (default) or 'mock'
+export const getProvider = (): ServerProvider => {
+  const configured = Deno.env.get('AI_PROVIDER') ?? 'gemini';
+  if (configured === 'mock') return createMockProvider();
+  if (configured !== 'gemini') throw new Error(`Unknown AI_PROVIDER '${configured}'`);
+  const geminiKey = Deno.env.get('GEMINI_API_KEY');
+  if (!geminiKey) throw new Error('GEMINI_API_KEY is not set');
+  return createGeminiProvider(geminiKey);
+};
@@ -0,0 +1,41 @@
+import { ObjectDefinition } from './oracleDrivers.ts';
+import { CreatedObject, quoteName } from './oracleScript.ts';
+
+// An object a deployment created or replaced, with what was there before it
+export interface PriorState {
+  fileName: string;
+  object: CreatedObject;
+  before: ObjectDefinition;
+}
+
+const dropStatement = (object: CreatedObject): string => {
+  switch (object.type) {
+    case 'TABLE':
+      return `DROP TABLE ${quoteName(object.name)} CASCADE CONSTRAINTS PURGE;`;
+    case 'TYPE':
+      return `DROP TYPE ${quoteName(object.name)} FORCE;`;
+    default:
+      return `DROP ${object.type} ${quoteName(object.name)};`;
+  }
+};
+
+// SQL*Plus script that undoes a deployment, last object first. New objects are dropped and
+// replaced stored code and views get their previous definition back. Data changes and
+// ALTER statements are not undone.
+export const buildRollbackScript = (states: PriorState[], deployedAt: string): string => {
+  const sections = [...states].reverse().map(state => {
+    const label = `${state.object.type} ${state.object.name}`;
+    if (!state.before.exists) {
+      return `-- ${state.fileName}: ${label} was created by the deployment\n${dropStatement(state.object)}`;
+    }
+    if (state.before.source !== undefined) {
+      return `-- ${state.fileName}: ${label} is restored to its previous definition\nCREATE OR REPLACE ${state.before.source.trimEnd()}\n/`;
+    }
+    return `-- ${state.fileName}: ${label} existed before the deployment and is left as it is`;
+  });
+  const header = [
+    `-- Rollback of the deployment of ${deployedAt}`,
+    '-- Objects are listed in reverse deployment order. Data changes and ALTER statements are not undone.',
+  ].join('\n');
+  return [header, ...sections].join('\n\n') + '\n';
+};
@@ -0,0 +1,135 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.50.0';
+import { corsHeaders } from '../_shared/cors.ts';
+import { buildPrompt, Operation, OperationRequest, stripCodeFences } from '../_shared/prompts.ts';
+import { getProvider } from '../_shared/providers.ts';
+
+// Converts, explains or fixes Sybase code with the configured AI provider. The provider
+// key, the prompt and the per-user rate limit live here instead of in the browser bundle.
+
+const RATE_LIMIT_PER_HOUR = Number(Deno.env.get('CONVERT_RATE_LIMIT_PER_HOUR') ?? '60');
+const MAX_INPUT_CHARS = Number(Deno.env.get('CONVERT_MAX_INPUT_CHARS') ?? '200000');
+const OPERATIONS: Operation[] = ['convert', 'explain', 'fix'];
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+interface UsageEntry {
+  user_id: string;
+  operation: Operation;
+  provider: string;
+  model: string;
+  file_name?: string;
+  input_chars: number;
+  output_chars?: number;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  duration_ms?: number;
+  status: 'success' | 'error' | 'rate_limited';
+  error_message?: string;
+}
+
+const recordUsage = async (admin: SupabaseClient, entry: UsageEntry) => {
+  const { error } = await admin.from('ai_usage').insert(entry);
+  if (error) console.error('[convert] Failed to record usage:', error);
+};
+
+const validate = (body: Partial<OperationRequest>): string | null => {
+  // JSON such as null or [] parses but is not a request
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) return 'The body must be a JSON object';
+  if (!body.operation || !OPERATIONS.includes(body.operation)) return `operation must be one of ${OPERATIONS.join(', ')}`;
+  if (typeof body.sybaseCode !== 'string' || body.sybaseCode.trim().length === 0) return 'sybaseCode is required';
+  const size = body.sybaseCode.length + (body.draft?.length ?? 0) + (body.oracleCode?.length ?? 0) + (body.schemaContext?.length ?? 0);
+  if (size > MAX_INPUT_CHARS) return `Request exceeds the ${MAX_INPUT_CHARS} character limit`;
+  if ((body.operation === 'explain' || body.operation === 'fix') && typeof body.oracleCode !== 'string') {
+    return `oracleCode is required for ${body.operation}`;
+  }
+  return null;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+  const { data: { user }, error: authError } = await admin.auth.getUser(token);
+  if (authError || !user) return json({ error: 'Unauthorized' }, 401);
+
+  let body: OperationRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400);
+  }
+  const validationError = validate(body);
+  if (validationError) return json({ error: validationError }, 400);
+
+  let provider;
+  try {
+    provider = getProvider();
+  } catch (e) {
+    console.error('[convert] Provider configuration error:', e);
+    return json({ error: e instanceof Error ? e.message : 'AI provider is not configured' }, 503);
+  }
+  const model = body.model && provider.models.includes(body.model) ? body.model : provider.models[0];
+  const usage = {
+    user_id: user.id,
+    operation: body.operation,
+    provider: provider.id,
+    model,
+    file_name: body.fileName,
+    input_chars: body.sybaseCode.length,
+  };
+
+  // Rate limit on successful and failed calls in the last hour
+  const since = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const { count, error: countError } = await admin
+    .from('ai_usage')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', user.id)
+    .neq('status', 'rate_limited')
+    .gte('created_at', since);
+  if (countError) {
+    console.error('[convert] Failed to check rate limit:', countError);
+    return json({ error: 'Could not check the rate limit' }, 500);
+  }
+  if ((count ?? 0) >= RATE_LIMIT_PER_HOUR) {
+    await recordUsage(admin, { ...usage, status: 'rate_limited' });
+    return json({ error: `Rate limit of ${RATE_LIMIT_PER_HOUR} AI requests per hour exceeded` }, 429);
+  }
+
+  const startTime = Date.now();
+  try {
+    const response = await provider.generate(model, buildPrompt(body), body);
+    const text = stripCodeFences(response.text);
+    await recordUsage(admin, {
+      ...usage,
+      output_chars: text.length,
+      prompt_tokens: response.promptTokens,
+      completion_tokens: response.completionTokens,
+      duration_ms: Date.now() - startTime,
+      status: 'success',
+    });
+
+    // Same shape as ConversionResult; the client adds its own data type and performance analysis
+    return json({
+      id: crypto.randomUUID(),
+      originalFile: { id: body.fileName ?? '', name: body.fileName ?? '', content: body.sybaseCode, type: body.objectType ?? 'other' },
+      convertedCode: body.operation === 'explain' ? body.oracleCode : text,
+      issues: [],
+      status: 'success',
+      explanations: body.operation === 'explain' ? [text] : [],
+      provider: provider.id,
+      model,
+    });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Unknown error';
+    console.error(`[convert] ${body.operation} failed:`, e);
+    await recordUsage(admin, { ...usage, duration_ms: Date.now() - startTime, status: 'error', error_message: message });
+    return json({ error: message }, 502);
+  }
+});
@@ -0,0 +1,192 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.0';
+import { corsHeaders } from '../_shared/cors.ts';
+import { ConnectionDetails, getDriver, OracleError, OracleSession } from '../_shared/oracleDrivers.ts';
+import { ScriptStatement, sourceLineOffset, splitOracleScript } from '../_shared/oracleScript.ts';
+import { buildRollbackScript, PriorState } from '../_shared/rollback.ts';
+
+// Tests an Oracle connection or deploys converted objects to it. Objects run in the order
+// they are sent (the client sorts them by dependency), statement by statement, and every
+// failed statement and compile error is reported with its line in the object's code.
+// A deployment also returns a rollback script, built from what each object replaced;
+// running it back is a 'rollback', which executes the same way without a rollback of its own.
+
+const MAX_SCRIPT_CHARS = Number(Deno.env.get('DEPLOY_MAX_SCRIPT_CHARS') ?? '2000000');
+
+interface DeployObject {
+  id: string;
+  name: string;
+  code: string;
+}
+
+interface DeployRequest {
+  operation: 'test' | 'deploy' | 'rollback';
+  connection: ConnectionDetails;
+  objects?: DeployObject[];
+}
+
+interface DeploymentError {
+  line?: number;
+  column?: number;
+  code: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+interface DeploymentObjectResult {
+  id: string;
+  name: string;
+  status: 'success' | 'warning' | 'error';
+  statementsExecuted: number;
+  durationMs: number;
+  errors: DeploymentError[];
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const validate = (body: Partial<DeployRequest>): string | null => {
+  // JSON such as null or [] parses but is not a request
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) return 'The body must be a JSON object';
+  if (!body.operation || !['test', 'deploy', 'rollback'].includes(body.operation)) return 'operation must be one of test, deploy, rollback';
+  if (!body.connection || typeof body.connection.username !== 'string') return 'connection is required';
+  if (body.operation !== 'test') {
+    if (!Array.isArray(body.objects) || body.objects.length === 0) return `objects are required for ${body.operation}`;
+    const size = body.objects.reduce((total, object) => total + (object.code?.length ?? 0), 0);
+    if (size > MAX_SCRIPT_CHARS) return `Request exceeds the ${MAX_SCRIPT_CHARS} character limit`;
+  }
+  return null;
+};
+
+// ORA- code from the start of a driver message, e.g. "ORA-00942: table or view does not exist"
+const errorCode = (text: string) => /^(ORA|PLS|PLW|SP2)-\d+/.exec(text)?.[0] ?? '';
+
+// priorStates collects what each created object replaced, once per object
+const deployObject = async (
+  session: OracleSession,
+  object: DeployObject,
+  priorStates?: PriorState[]
+): Promise<DeploymentObjectResult> => {
+  const startTime = Date.now();
+  const errors: DeploymentError[] = [];
+  const statements = splitOracleScript(object.code);
+  let statementsExecuted = 0;
+
+  const positionOf = (statement: ScriptStatement, offset: number) => {
+    const before = statement.sql.slice(0, offset).split('\n');
+    return {
+      line: statement.line + before.length - 1,
+      column: before[before.length - 1].length + 1,
+    };
+  };
+
+  for (const statement of statements) {
+    try {
+      const created = statement.object;
+      const captured = priorStates?.some(state => state.object.type === created?.type && state.object.name === created?.name);
+      const before = created && priorStates && !captured ? await session.describeObject(created.name, created.type) : undefined;
+      const result = await session.execute(statement.sql);
+      statementsExecuted++;
+      if (created && before) priorStates!.push({ fileName: object.name, object: created, before });
+      if (statement.object && (result.compiledWithErrors || statement.plsql)) {
+        // Warnings (PLW-) are recorded even when the object compiled
+        const offset = sourceLineOffset(statement);
+        const compileErrors = await session.compileErrors(statement.object.name, statement.object.type);
+        compileErrors.forEach(error => {
+          errors.push({
+            line: statement.line + offset + error.line - 1,
+            column: error.position,
+            code: errorCode(error.text),
+            message: error.text,
+            severity: error.attribute === 'WARNING' ? 'warning' : 'error',
+          });
+        });
+        if (result.compiledWithErrors && !compileErrors.some(error => error.attribute === 'ERROR')) {
+          errors.push({ line: statement.line, code: 'ORA-24344', message: `${statement.object.type} ${statement.object.name} was created with compilation errors`, severity: 'error' });
+        }
+      }
+    } catch (e) {
+      if (!(e instanceof OracleError)) throw e;
+      errors.push({
+        ...(e.offset !== undefined ? positionOf(statement, e.offset) : { line: statement.line }),
+        code: e.code,
+        message: e.message,
+        severity: 'error',
+      });
+    }
+  }
+
+  return {
+    id: object.id,
+    name: object.name,
+    status: errors.some(error => error.severity === 'error') ? 'error' : errors.length > 0 ? 'warning' : 'success',
+    statementsExecuted,
+    durationMs: Date.now() - startTime,
+    errors,
+  };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+  const { data: { user }, error: authError } = await admin.auth.getUser(token);
+  if (authError || !user) return json({ error: 'Unauthorized' }, 401);
+
+  let body: DeployRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400);
+  }
+  const validationError = validate(body);
+  if (validationError) return json({ error: validationError }, 400);
+
+  let driver;
+  try {
+    driver = getDriver();
+  } catch (e) {
+    console.error('[deploy] Driver configuration error:', e);
+    return json({ error: e instanceof Error ? e.message : 'Deployment driver is not configured' }, 503);
+  }
+
+  let session: OracleSession;
+  try {
+    session = await driver.connect(body.connection);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Unknown error';
+    // A failed connection test is an answer, not a server error
+    if (body.operation === 'test') return json({ success: false, message, driver: driver.id });
+    return json({ error: `Could not connect to Oracle: ${message}` }, 502);
+  }
+
+  try {
+    if (body.operation === 'test') {
+      return json({ success: true, message: 'Connection successful!', driver: driver.id });
+    }
+    const startTime = Date.now();
+    const objects: DeploymentObjectResult[] = [];
+    const priorStates: PriorState[] | undefined = body.operation === 'deploy' ? [] : undefined;
+    for (const object of body.objects!) {
+      objects.push(await deployObject(session, object, priorStates));
+    }
+    console.log(`[deploy] ${objects.length} objects for ${user.id} in ${Date.now() - startTime}ms`);
+    return json({
+      success: objects.every(object => object.status !== 'error'),
+      driver: driver.id,
+      durationMs: Date.now() - startTime,
+      objects,
+      rollbackScript: priorStates?.length ? buildRollbackScript(priorStates, new Date(startTime).toISOString()) : undefined,
+    });
+  } catch (e) {
+    console.error(`[deploy] ${body.operation} failed:`, e);
+    return json({ error: e instanceof Error ? e.message : 'Unknown error' }, 500);
+  } finally {
+    await session.close().catch(e => console.error('[deploy] Failed to close the connection:', e));
+  }
+});
@@ -0,0 +1,29 @@
+-- Track AI provider usage per user; rows are written by the convert edge function
+CREATE TABLE public.ai_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  operation TEXT NOT NULL CHECK (operation IN ('convert', 'explain', 'fix')),
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  file_name TEXT,
+  input_chars INTEGER NOT NULL DEFAULT 0,
+  output_chars INTEGER NOT NULL DEFAULT 0,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL CHECK (status IN ('success', 'error', 'rate_limited')),
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Rate limiting counts recent rows per user
+CREATE INDEX idx_ai_usage_user_created_at ON public.ai_usage (user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own usage; inserts happen with the service role inside the edge function
+CREATE POLICY "Users can view their own AI usage" 
+ON public.ai_usage 
+FOR SELECT 
+USING (auth.uid() = user_id);
@@ -0,0 +1,6 @@
+-- Objects split out of a multi-object script remember the script and the lines they came from,
+-- so that they can be merged back together on export
+ALTER TABLE public.migration_files
+  ADD COLUMN source_file_name TEXT,
+  ADD COLUMN source_start_line INTEGER,
+  ADD COLUMN source_end_line INTEGER;
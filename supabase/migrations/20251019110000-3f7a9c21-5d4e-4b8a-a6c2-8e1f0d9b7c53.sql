@@ -0,0 +1,45 @@
+-- Deployments belong to a user and, when started from a migration, to that migration
+ALTER TABLE public.deployment_logs
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS migration_id UUID REFERENCES public.migrations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_deployment_logs_migration_id ON public.deployment_logs (migration_id);
+
+-- One row per file executed by a deployment, in execution order
+CREATE TABLE public.deployment_file_results (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  deployment_id UUID NOT NULL REFERENCES public.deployment_logs(id) ON DELETE CASCADE,
+  migration_file_id UUID REFERENCES public.migration_files(id) ON DELETE SET NULL,
+  file_name TEXT NOT NULL,
+  execution_order INTEGER NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('success', 'warning', 'error')),
+  statements_executed INTEGER NOT NULL DEFAULT 0,
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  -- The first database error, with its line in the converted code
+  error_code TEXT,
+  error_message TEXT,
+  error_line INTEGER,
+  error_column INTEGER,
+  -- Every error and compile warning reported for the file
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_deployment_file_results_deployment_id ON public.deployment_file_results (deployment_id, execution_order);
+
+ALTER TABLE public.deployment_file_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own deployment file results" 
+  ON public.deployment_file_results 
+  FOR SELECT 
+  USING (auth.uid() = (SELECT user_id FROM public.deployment_logs WHERE id = deployment_id));
+
+CREATE POLICY "Users can create their own deployment file results" 
+  ON public.deployment_file_results 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = (SELECT user_id FROM public.deployment_logs WHERE id = deployment_id));
+
+-- Deployment has its own lifecycle; conversion_status keeps describing the conversion
+ALTER TABLE public.migration_files
+  ADD COLUMN deployment_status TEXT NOT NULL DEFAULT 'not_deployed' CHECK (deployment_status IN ('not_deployed', 'deployed', 'failed')),
+  ADD COLUMN last_deployed_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,26 @@
+-- Logs written before deployments were tied to a user take the owner of their migration.
+-- Logs without a migration cannot be attributed to anyone: they are kept without an owner,
+-- which the policies below hide from every user.
+UPDATE public.deployment_logs
+  SET user_id = migrations.user_id
+  FROM public.migrations
+  WHERE deployment_logs.user_id IS NULL AND migrations.id = deployment_logs.migration_id;
+
+-- Deployment logs were readable and writable by anyone; now only by their owner
+DROP POLICY IF EXISTS "Anyone can view deployment logs" ON public.deployment_logs;
+DROP POLICY IF EXISTS "Anyone can create deployment logs" ON public.deployment_logs;
+
+CREATE POLICY "Users can view their own deployment logs" 
+  ON public.deployment_logs 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own deployment logs" 
+  ON public.deployment_logs 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own deployment logs" 
+  ON public.deployment_logs 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
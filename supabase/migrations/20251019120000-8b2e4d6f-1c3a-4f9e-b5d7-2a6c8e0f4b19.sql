@@ -0,0 +1,19 @@
+-- Rollback scripts contain the source of the replaced objects, so they are only stored once
+-- deployment logs are visible to their owner alone (see 20251019110000)
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'deployment_logs'
+      AND (qual = 'true' OR with_check = 'true')
+  ) THEN
+    RAISE EXCEPTION 'deployment_logs still has a public policy; scope it to the owner before adding rollback_script';
+  END IF;
+END $$;
+
+-- Every deployment keeps the script that undoes it; running that script is logged as a
+-- deployment of kind 'rollback' that points back at the deployment it undid
+ALTER TABLE public.deployment_logs
+  ADD COLUMN kind TEXT NOT NULL DEFAULT 'deploy' CHECK (kind IN ('deploy', 'rollback')),
+  ADD COLUMN rollback_of UUID REFERENCES public.deployment_logs(id) ON DELETE SET NULL,
+  ADD COLUMN rollback_script TEXT;
@@ -0,0 +1,4 @@
+-- Per-migration conversion choices, such as how identity columns are created in Oracle.
+-- Missing keys fall back to the application defaults.
+ALTER TABLE public.migrations
+  ADD COLUMN conversion_settings JSONB NOT NULL DEFAULT '{}'::jsonb;
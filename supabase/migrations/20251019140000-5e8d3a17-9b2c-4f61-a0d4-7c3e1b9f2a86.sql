@@ -0,0 +1,9 @@
+-- Views, functions, defaults, rules, sequences, indexes and grants get file types of their own
+-- instead of 'other'.
+ALTER TABLE public.migration_files
+  DROP CONSTRAINT migration_files_file_type_check;
+
+ALTER TABLE public.migration_files
+  ADD CONSTRAINT migration_files_file_type_check CHECK (file_type IN (
+    'table', 'view', 'function', 'procedure', 'trigger', 'default', 'rule', 'sequence', 'index', 'grant', 'other'
+  ));